@@ -1,4 +1,6 @@
 import React, { useEffect } from "react";
+import { AppState } from "react-native";
+import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
 import * as SplashScreen from "expo-splash-screen";
@@ -6,7 +8,13 @@ import * as Font from "expo-font";
 import AppNavigator from "./src/navigation/AppNavigator";
 import { networkService } from "./src/utils/network";
 import useHistoryStore from "./src/state/historyStore";
+import useSettingsStore from "./src/state/settingsStore";
 import { logger } from "./src/utils/logger";
+import { applyAIRouting } from "./src/utils/ai-routing";
+import { publishDuePosts, registerScheduledPublishing, syncScheduleOnChange } from "./src/utils/scheduled-publishing";
+
+// How often scheduled posts are checked while the app is open
+const SCHEDULE_CHECK_MS = 60 * 1000;
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
@@ -45,10 +53,39 @@ export default function App() {
     return unsubscribe;
   }, [processQueue]);
 
+  // Route AI calls by the saved provider order and models, again once the settings rehydrate and on every change
+  useEffect(() => {
+    applyAIRouting(useSettingsStore.getState());
+    return useSettingsStore.subscribe((state, previous) => {
+      if (state.aiPriorities === previous.aiPriorities && state.aiModels === previous.aiModels) return;
+      applyAIRouting(state);
+    });
+  }, []);
+
+  // The backend marks scheduled posts published when they're due. The app hands it schedule changes as they're
+  // made, pushes what went out to each post's chosen sites, and publishes anything the backend doesn't hold
+  useEffect(() => {
+    const check = () => publishDuePosts().catch((err) => logger.error(err));
+    registerScheduledPublishing().catch((err) => logger.warn(err));
+    check();
+    const stopSyncing = syncScheduleOnChange();
+    const timer = setInterval(check, SCHEDULE_CHECK_MS);
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") check();
+    });
+    return () => {
+      stopSyncing();
+      clearInterval(timer);
+      subscription.remove();
+    };
+  }, []);
+
   return (
-    <SafeAreaProvider>
-      <AppNavigator />
-      <StatusBar style="light" />
-    </SafeAreaProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <SafeAreaProvider>
+        <AppNavigator />
+        <StatusBar style="light" />
+      </SafeAreaProvider>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,82 @@
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import express from 'express';
+import { afterEach, describe, expect, test } from 'vitest';
+import { Scheduler, scheduleRoutes } from './scheduler';
+
+const CLIENT = 'client-0123456789abcdef';
+
+function job(postId: string, scheduledAt: string, siteIds = ['wp']) {
+  return { postId, scheduledAt: new Date(scheduledAt), siteIds };
+}
+
+let server: Server | undefined;
+let dir: string | undefined;
+
+afterEach(async () => {
+  if (server) {
+    server.closeAllConnections();
+    await new Promise((resolve) => server!.close(resolve));
+    server = undefined;
+  }
+  if (dir) await rm(dir, { recursive: true });
+  dir = undefined;
+});
+
+describe('Scheduler', () => {
+  test('publishes due posts once and keeps the outcome until the app acknowledges it', async () => {
+    const scheduler = new Scheduler();
+    const jobs = [
+      job('due', '2026-03-10T09:00:00Z', ['wp', 'ghost']),
+      job('later', '2026-03-12T09:00:00Z'),
+      { postId: 'undated', scheduledAt: 'soon', siteIds: [] } as never,
+    ];
+
+    expect(await scheduler.replace(CLIENT, jobs)).toEqual(['due', 'later']);
+    expect(await scheduler.runDue(new Date('2026-03-11T00:00:00Z'))).toBe(1);
+
+    const { pending, finished } = scheduler.status(CLIENT);
+    expect(pending).toEqual(['later']);
+    expect(finished).toEqual([
+      { postId: 'due', publishedAt: new Date('2026-03-11T00:00:00Z'), siteIds: ['wp', 'ghost'] },
+    ]);
+
+    // The app hasn't seen the outcome yet and sends the post again as still scheduled
+    expect(await scheduler.replace(CLIENT, jobs)).toEqual(['later']);
+    expect(await scheduler.runDue(new Date('2026-03-11T00:00:00Z'))).toBe(0);
+
+    await scheduler.acknowledge(CLIENT, ['due']);
+    expect(scheduler.status(CLIENT).finished).toEqual([]);
+  });
+
+  test('takes schedules over HTTP and keeps them across restarts', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'schedule-'));
+    const file = join(dir, 'schedule.json');
+    const app = express();
+    app.use(express.json());
+    app.use('/api/schedule', scheduleRoutes(new Scheduler(file)));
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server!.once('listening', resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/schedule`;
+
+    // Whatever else the app sends along is dropped rather than stored
+    const sent = { ...job('soon', '2026-03-10T09:00:00Z'), post: { content: 'Draft' }, sites: [{ apiKey: 'secret' }] };
+    const put = await fetch(`${base}/${CLIENT}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jobs: [sent] }),
+    });
+    expect(await put.json()).toEqual({ pending: ['soon'], finished: [] });
+    expect(await (await fetch(`${base}/${CLIENT}`)).json()).toEqual({ pending: ['soon'], finished: [] });
+    expect((await fetch(`${base}/not-a-client`)).status).toBe(400);
+    expect(await readFile(file, 'utf8')).not.toMatch(/secret|Draft/);
+
+    const restarted = new Scheduler(file);
+    await restarted.load();
+    expect(await restarted.runDue(new Date('2026-03-10T09:00:00Z'))).toBe(1);
+    expect(restarted.status(CLIENT).finished).toMatchObject([{ postId: 'soon', siteIds: ['wp'] }]);
+  });
+});
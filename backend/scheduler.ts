@@ -0,0 +1,152 @@
+import { promises as fs } from 'node:fs';
+import express from 'express';
+import { ScheduledJob, ScheduleOutcome } from '../src/publishing';
+
+// One app install's schedule, filed under the random client id it picked
+interface ClientSchedule {
+  pending: ScheduledJob[];
+  finished: ScheduleOutcome[];
+}
+
+// Only ids and times are kept: a job carries no post content and no site credentials
+function reviveJob(job: ScheduledJob): ScheduledJob {
+  return { postId: job.postId, scheduledAt: new Date(job.scheduledAt), siteIds: job.siteIds.map(String) };
+}
+
+function isSchedulable(job: ScheduledJob | undefined): job is ScheduledJob {
+  return (
+    typeof job?.postId === 'string' &&
+    Array.isArray(job.siteIds) &&
+    !Number.isNaN(new Date(job.scheduledAt).getTime())
+  );
+}
+
+/**
+ * Flips scheduled posts to published when they're due, whether or not the app is running, and keeps
+ * the outcome until the app collects it. The app pushes the post to the sites in the outcome itself,
+ * so site credentials never reach the backend. With a file the schedule survives restarts.
+ */
+export class Scheduler {
+  private clients: Record<string, ClientSchedule> = {};
+
+  constructor(private file?: string) {}
+
+  async load() {
+    if (!this.file) return;
+    let saved: Record<string, ClientSchedule>;
+    try {
+      saved = JSON.parse(await fs.readFile(this.file, 'utf8'));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') return;
+      throw err;
+    }
+    for (const [clientId, schedule] of Object.entries(saved)) {
+      this.clients[clientId] = {
+        pending: schedule.pending.map(reviveJob),
+        finished: schedule.finished.map((outcome) => ({ ...outcome, publishedAt: new Date(outcome.publishedAt) })),
+      };
+    }
+  }
+
+  private async save() {
+    if (!this.file) return;
+    await fs.writeFile(this.file, JSON.stringify(this.clients));
+  }
+
+  /** Replace the client's pending posts with `jobs`; resolves with the ids of the posts it will publish. */
+  async replace(clientId: string, jobs: ScheduledJob[]): Promise<string[]> {
+    const finished = this.clients[clientId]?.finished ?? [];
+    // Posts already out stay out until the app has caught up
+    const done = new Set(finished.map((outcome) => outcome.postId));
+    const pending = jobs.filter((job) => isSchedulable(job) && !done.has(job.postId)).map(reviveJob);
+    this.clients[clientId] = { pending, finished };
+    await this.save();
+    return pending.map((job) => job.postId);
+  }
+
+  status(clientId: string) {
+    const schedule = this.clients[clientId];
+    return {
+      pending: schedule?.pending.map((job) => job.postId) ?? [],
+      finished: schedule?.finished ?? [],
+    };
+  }
+
+  /** Forget outcomes the app has applied. */
+  async acknowledge(clientId: string, postIds: string[]) {
+    const schedule = this.clients[clientId];
+    if (!schedule) return;
+    schedule.finished = schedule.finished.filter((outcome) => !postIds.includes(outcome.postId));
+    if (schedule.pending.length === 0 && schedule.finished.length === 0) delete this.clients[clientId];
+    await this.save();
+  }
+
+  /** Publish every post that is due; resolves with how many went out. */
+  async runDue(now = new Date()): Promise<number> {
+    let published = 0;
+    for (const schedule of Object.values(this.clients)) {
+      const due = schedule.pending.filter((job) => job.scheduledAt.getTime() <= now.getTime());
+      if (due.length === 0) continue;
+      schedule.pending = schedule.pending.filter((job) => !due.includes(job));
+      schedule.finished.push(...due.map(({ postId, siteIds }) => ({ postId, publishedAt: now, siteIds })));
+      published += due.length;
+    }
+    if (published > 0) await this.save();
+    return published;
+  }
+
+  /** Check for due posts now, catching up on any that fell due while the server was down, then every `intervalMs`. */
+  start(intervalMs: number) {
+    const run = () =>
+      this.runDue().catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error('Scheduled publishing failed:', err);
+      });
+    run();
+    const timer = setInterval(run, intervalMs);
+    timer.unref();
+    return timer;
+  }
+}
+
+// Client ids are random and unguessable; they're all that separates one install's schedule from another's
+const CLIENT_ID = /^[A-Za-z0-9-]{16,64}$/;
+
+export function scheduleRoutes(scheduler: Scheduler): express.Router {
+  const router = express.Router();
+
+  router.param('clientId', (req, res, next, clientId) => {
+    if (!CLIENT_ID.test(clientId)) {
+      res.status(400).json({ error: 'Invalid client id' });
+      return;
+    }
+    next();
+  });
+
+  // The app sends every post it has scheduled, replacing what was sent before, and gets the status back
+  router.put('/:clientId', async (req, res) => {
+    try {
+      const jobs = Array.isArray(req.body?.jobs) ? req.body.jobs : [];
+      await scheduler.replace(req.params.clientId, jobs);
+      res.json(scheduler.status(req.params.clientId));
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  router.get('/:clientId', (req, res) => {
+    res.json(scheduler.status(req.params.clientId));
+  });
+
+  router.post('/:clientId/acknowledge', async (req, res) => {
+    try {
+      const postIds = Array.isArray(req.body?.postIds) ? req.body.postIds.map(String) : [];
+      await scheduler.acknowledge(req.params.clientId, postIds);
+      res.json({ ok: true });
+    } catch (err: any) {
+      res.status(500).json({ error: err.message });
+    }
+  });
+
+  return router;
+}
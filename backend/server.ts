@@ -1,9 +1,12 @@
 import express from 'express';
 import OpenAI from 'openai';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { streamGemini, streamOpenAICompatible } from './streaming';
+import { Scheduler, scheduleRoutes } from './scheduler';
 
 const app = express();
-app.use(express.json());
+// Scheduled posts arrive with their full content, well past the default 100kb
+app.use(express.json({ limit: '10mb' }));
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 const grok = new OpenAI({ apiKey: process.env.GROK_API_KEY, baseURL: 'https://api.x.ai/v1' });
@@ -27,10 +30,12 @@ app.post('/api/openai/chat', async (req, res) => {
       },
     });
   } catch (err: any) {
-    res.status(500).json({ error: err.message });
+    res.status(err.status || 500).json({ error: err.message });
   }
 });
 
+app.post('/api/openai/chat/stream', streamOpenAICompatible(openai, 'gpt-4o'));
+
 app.post('/api/grok/chat', async (req, res) => {
   try {
     const { messages, options } = req.body;
@@ -49,10 +54,12 @@ app.post('/api/grok/chat', async (req, res) => {
       },
     });
   } catch (err: any) {
-    res.status(500).json({ error: err.message });
+    res.status(err.status || 500).json({ error: err.message });
   }
 });
 
+app.post('/api/grok/chat/stream', streamOpenAICompatible(grok, 'grok-3-beta'));
+
 app.post('/api/gemini/chat', async (req, res) => {
   try {
     if (!genAI) return res.status(500).json({ error: 'Gemini not configured' });
@@ -70,10 +77,23 @@ app.post('/api/gemini/chat', async (req, res) => {
     });
     res.json({ content: response.response.text() });
   } catch (err: any) {
-    res.status(500).json({ error: err.message });
+    res.status(err.status || 500).json({ error: err.message });
   }
 });
 
+app.post('/api/gemini/chat/stream', streamGemini(genAI));
+
+// Marks scheduled posts published when they're due, whether or not the app is open
+const scheduler = new Scheduler(process.env.SCHEDULE_FILE || 'schedule.json');
+app.use('/api/schedule', scheduleRoutes(scheduler));
+scheduler
+  .load()
+  .then(() => scheduler.start(Number(process.env.SCHEDULE_INTERVAL_MS) || 30000))
+  .catch((err) => {
+    // eslint-disable-next-line no-console
+    console.error('Could not load the publishing schedule:', err);
+  });
+
 const PORT = process.env.PORT || 3000;
 app.listen(PORT, () => {
   // eslint-disable-next-line no-console
@@ -0,0 +1,106 @@
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+import express from 'express';
+import OpenAI from 'openai';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { afterEach, describe, expect, test } from 'vitest';
+import { streamGemini, streamOpenAICompatible } from './streaming';
+
+let server: Server | undefined;
+
+// Mounts the handler the way server.ts does, behind express.json(), on a real port
+async function serve(handler: express.RequestHandler) {
+  const app = express();
+  app.use(express.json());
+  app.post('/stream', handler);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise((resolve) => server!.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  return `http://127.0.0.1:${port}/stream`;
+}
+
+afterEach(async () => {
+  // fetch keeps connections alive, which would hold close() open until they time out
+  server?.closeAllConnections();
+  await new Promise((resolve) => server?.close(resolve));
+  server = undefined;
+});
+
+function post(url: string, signal?: AbortSignal) {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ messages: [{ role: 'user', content: 'Hi' }] }),
+    signal,
+  });
+}
+
+// Slow enough that a stream tied to the request body's lifetime would already have been cut off
+const CHUNK_DELAY_MS = 80;
+
+function fakeOpenAI(deltas: string[], seen: { signal?: AbortSignal }) {
+  const create = async (_body: unknown, { signal }: { signal: AbortSignal }) => {
+    seen.signal = signal;
+    return (async function* () {
+      for (const content of deltas) {
+        await sleep(CHUNK_DELAY_MS);
+        if (signal.aborted) throw new Error('Request was aborted.');
+        yield { choices: [{ delta: { content } }] };
+      }
+      yield { choices: [], usage: { prompt_tokens: 3, completion_tokens: deltas.length, total_tokens: 5 } };
+    })();
+  };
+  return { chat: { completions: { create } } } as unknown as OpenAI;
+}
+
+describe('stream routes', () => {
+  test('stream every OpenAI-compatible chunk through to done', async () => {
+    const seen: { signal?: AbortSignal } = {};
+    const url = await serve(streamOpenAICompatible(fakeOpenAI(['Hello', ' world'], seen), 'gpt-4o'));
+
+    const body = await (await post(url)).text();
+
+    expect(body).toContain('data: {"delta":"Hello","completionTokens":1}');
+    expect(body).toContain('data: {"delta":" world","completionTokens":2}');
+    expect(body).toContain('"done":true');
+    expect(seen.signal?.aborted).toBe(false);
+  });
+
+  test('abort the upstream request when the client disconnects', async () => {
+    const seen: { signal?: AbortSignal } = {};
+    const url = await serve(streamOpenAICompatible(fakeOpenAI(['a', 'b', 'c', 'd'], seen), 'gpt-4o'));
+    const client = new AbortController();
+
+    const response = await post(url, client.signal);
+    const reader = response.body!.getReader();
+    await reader.read();
+    client.abort();
+    await sleep(CHUNK_DELAY_MS);
+
+    expect(seen.signal?.aborted).toBe(true);
+  });
+
+  test('stream Gemini chunks through to done', async () => {
+    const chunks = ['Bonjour', ' le monde'];
+    const genAI = {
+      getGenerativeModel: () => ({
+        generateContentStream: async () => ({
+          stream: (async function* () {
+            for (const text of chunks) {
+              await sleep(CHUNK_DELAY_MS);
+              yield { text: () => text };
+            }
+          })(),
+        }),
+      }),
+    } as unknown as GoogleGenerativeAI;
+    const url = await serve(streamGemini(genAI));
+
+    const body = await (await post(url)).text();
+
+    expect(body).toContain('"delta":"Bonjour"');
+    expect(body).toContain('"delta":" le monde"');
+    expect(body).toContain('data: {"done":true}');
+  });
+});
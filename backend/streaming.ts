@@ -0,0 +1,110 @@
+import express from 'express';
+import OpenAI from 'openai';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+// Server-sent events: each event is a single JSON `data:` line.
+// `{ delta, completionTokens }` per chunk, then `{ done, usage }` or `{ error, status }`.
+function openEventStream(res: express.Response) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+}
+
+function sendEvent(res: express.Response, payload: object) {
+  res.write(`data: ${JSON.stringify(payload)}\n\n`);
+}
+
+// Calls `onDisconnect` if the client goes away before the stream has been ended.
+// `req`'s own 'close' fires as soon as the JSON body has been read, so it can't be used for this.
+function onClientDisconnect(res: express.Response, onDisconnect: () => void) {
+  res.on('close', () => {
+    if (!res.writableEnded) onDisconnect();
+  });
+}
+
+export function streamOpenAICompatible(client: OpenAI, defaultModel: string): express.RequestHandler {
+  return async (req, res) => {
+    const { messages, options } = req.body;
+    const controller = new AbortController();
+    onClientDisconnect(res, () => controller.abort());
+    openEventStream(res);
+    try {
+      const stream = await client.chat.completions.create(
+        {
+          model: options?.model || defaultModel,
+          messages,
+          temperature: options?.temperature ?? 0.7,
+          max_tokens: options?.maxTokens || 2048,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: controller.signal },
+      );
+      let completionTokens = 0;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          completionTokens += 1;
+          sendEvent(res, { delta, completionTokens });
+        }
+        if (chunk.usage) {
+          sendEvent(res, {
+            done: true,
+            usage: {
+              promptTokens: chunk.usage.prompt_tokens || 0,
+              completionTokens: chunk.usage.completion_tokens || 0,
+              totalTokens: chunk.usage.total_tokens || 0,
+            },
+          });
+        }
+      }
+    } catch (err: any) {
+      if (!controller.signal.aborted) sendEvent(res, { error: err.message, status: err.status || 500 });
+    } finally {
+      res.end();
+    }
+  };
+}
+
+export function streamGemini(genAI: GoogleGenerativeAI | null): express.RequestHandler {
+  return async (req, res) => {
+    if (!genAI) {
+      res.status(500).json({ error: 'Gemini not configured' });
+      return;
+    }
+    const { messages, options } = req.body;
+    let closed = false;
+    onClientDisconnect(res, () => {
+      closed = true;
+    });
+    openEventStream(res);
+    try {
+      const model = genAI.getGenerativeModel({ model: options?.model || 'gemini-1.5-pro-latest' });
+      const result = await model.generateContentStream({
+        contents: messages.map((m: any) => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: m.content }],
+        })),
+        generationConfig: {
+          maxOutputTokens: options?.maxTokens || 2048,
+          temperature: options?.temperature ?? 0.7,
+        },
+      });
+      // Gemini chunks carry several tokens and this SDK exposes no per-chunk usage, so estimate ~4 chars/token.
+      let received = 0;
+      for await (const chunk of result.stream) {
+        if (closed) break;
+        const delta = chunk.text();
+        if (!delta) continue;
+        received += delta.length;
+        sendEvent(res, { delta, completionTokens: Math.ceil(received / 4) });
+      }
+      if (!closed) sendEvent(res, { done: true });
+    } catch (err: any) {
+      if (!closed) sendEvent(res, { error: err.message, status: err.status || 500 });
+    } finally {
+      res.end();
+    }
+  };
+}
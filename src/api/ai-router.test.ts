@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+
+vi.mock("./openai", () => ({ openAIChat: vi.fn(), openAIChatStream: vi.fn() }));
+vi.mock("./gemini", () => ({ geminiChat: vi.fn(), geminiChatStream: vi.fn() }));
+vi.mock("./grok", () => ({ grokChat: vi.fn(), grokChatStream: vi.fn() }));
+
+import { openAIChat, openAIChatStream } from "./openai";
+import { geminiChat } from "./gemini";
+import { grokChat, grokChatStream } from "./grok";
+import { configureAIRouter, getAIRouter, isFailoverError, resetAIRouterConfig } from "./ai-router";
+import { createAIProviderError } from "./provider-error";
+
+afterEach(() => {
+  resetAIRouterConfig();
+  vi.mocked(openAIChat).mockReset();
+  vi.mocked(geminiChat).mockReset();
+  vi.mocked(grokChat).mockReset();
+  vi.mocked(openAIChatStream).mockReset();
+  vi.mocked(grokChatStream).mockReset();
+});
+
+describe("isFailoverError", () => {
+  test("fails over on rate limits, 5xx and timeouts only", () => {
+    expect(isFailoverError(createAIProviderError("openai", "slow down", 429))).toBe(true);
+    expect(isFailoverError(createAIProviderError("openai", "boom", 503))).toBe(true);
+    expect(isFailoverError(new Error("openai request timed out after 10ms"))).toBe(true);
+    expect(isFailoverError(createAIProviderError("openai", "bad request", 400))).toBe(false);
+    expect(isFailoverError(createAIProviderError("openai", "unauthorized", 401))).toBe(false);
+  });
+});
+
+describe("AIRouter", () => {
+  test("falls back to the next provider and reports who answered", async () => {
+    vi.mocked(openAIChat).mockRejectedValue(createAIProviderError("openai", "rate limited", 429));
+    vi.mocked(geminiChat).mockResolvedValue({ content: "from gemini" });
+
+    const response = await getAIRouter("research").chat([{ role: "user", content: "hi" }], { maxTokens: 20000 });
+
+    expect(response).toMatchObject({ content: "from gemini", provider: "gemini", model: "gemini-1.5-pro-latest" });
+    expect(vi.mocked(geminiChat).mock.calls[0][1]).toMatchObject({ model: "gemini-1.5-pro-latest", maxTokens: 8192 });
+    expect(grokChat).not.toHaveBeenCalled();
+  });
+
+  test("does not fail over on client errors", async () => {
+    vi.mocked(openAIChat).mockRejectedValue(createAIProviderError("openai", "bad request", 400));
+
+    await expect(getAIRouter("outline").complete("hi")).rejects.toThrow("bad request");
+    expect(geminiChat).not.toHaveBeenCalled();
+  });
+
+  test("follows the configured priority list per task", async () => {
+    configureAIRouter({ priorities: { blog: ["grok", "openai"] }, models: { grok: "grok-test" } });
+    vi.mocked(grokChat).mockRejectedValue(createAIProviderError("grok", "down", 502));
+    vi.mocked(openAIChat).mockResolvedValue({ content: "from openai" });
+
+    const response = await getAIRouter("blog").complete("hi");
+
+    expect(vi.mocked(grokChat).mock.calls[0][1]).toMatchObject({ model: "grok-test" });
+    expect(response.provider).toBe("openai");
+    expect(geminiChat).not.toHaveBeenCalled();
+  });
+
+  test("fails over when a provider exceeds the task timeout", async () => {
+    configureAIRouter({ priorities: { research: ["openai", "grok"] }, timeoutMs: { research: 10 } });
+    vi.mocked(openAIChat).mockReturnValue(new Promise(() => {}));
+    vi.mocked(grokChat).mockResolvedValue({ content: "from grok" });
+
+    const response = await getAIRouter("research").complete("hi");
+
+    expect(response.provider).toBe("grok");
+  });
+
+  test("gives up once the call's deadline has passed instead of trying every provider", async () => {
+    configureAIRouter({
+      priorities: { edit: ["openai", "grok", "gemini"] },
+      timeoutMs: { edit: 1000 },
+      deadlineMs: { edit: 15 },
+    });
+    vi.mocked(openAIChat).mockReturnValue(new Promise(() => {}));
+
+    await expect(getAIRouter("edit").complete("hi")).rejects.toThrow(/openai request timed out after 1\d?ms/);
+    expect(grokChat).not.toHaveBeenCalled();
+  });
+
+  test("aborts a stream that timed out before failing over", async () => {
+    configureAIRouter({ priorities: { blog: ["openai", "grok"] }, timeoutMs: { blog: 10 } });
+    vi.mocked(openAIChatStream).mockReturnValue(new Promise(() => {}));
+    vi.mocked(grokChatStream).mockResolvedValue({ content: "from grok" });
+
+    const response = await getAIRouter("blog").chatStream([{ role: "user", content: "hi" }]);
+
+    expect(response.provider).toBe("grok");
+    expect(vi.mocked(openAIChatStream).mock.calls[0][1]?.signal?.aborted).toBe(true);
+    expect(vi.mocked(grokChatStream).mock.calls[0][1]?.signal?.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  AIMessage,
+  AIProvider,
+  AIRequestOptions,
+  AIResponse,
+  AIService,
+  AIStreamHandlers,
+} from "../types/ai";
+import { logger } from "../utils/logger";
+import { openAIChat, openAIChatStream } from "./openai";
+import { geminiChat, geminiChatStream } from "./gemini";
+import { grokChat, grokChatStream } from "./grok";
+import { AIProviderError } from "./provider-error";
+
+// "edit" covers short in-editor rewrites of a selected passage
+export type AITask = "research" | "outline" | "blog" | "edit";
+
+export interface AIRouterConfig {
+  // Providers to try, in order, for each task
+  priorities: Record<AITask, AIProvider[]>;
+  // Model used on each provider
+  models: Record<AIProvider, string>;
+  // Per-provider attempt timeout before failing over
+  timeoutMs: Record<AITask, number>;
+  // Most a call may take across every provider it tries; callers don't retry on top of this
+  deadlineMs: Record<AITask, number>;
+}
+
+interface ProviderClient {
+  chat: (messages: AIMessage[], options?: AIRequestOptions) => Promise<AIResponse>;
+  stream: (messages: AIMessage[], options?: AIRequestOptions, handlers?: AIStreamHandlers) => Promise<AIResponse>;
+  maxOutputTokens: number;
+}
+
+const CLIENTS: Record<AIProvider, ProviderClient> = {
+  openai: { chat: openAIChat, stream: openAIChatStream, maxOutputTokens: 16384 },
+  gemini: { chat: geminiChat, stream: geminiChatStream, maxOutputTokens: 8192 },
+  grok: { chat: grokChat, stream: grokChatStream, maxOutputTokens: 16384 },
+};
+
+export const DEFAULT_ROUTER_CONFIG: AIRouterConfig = {
+  priorities: {
+    research: ["openai", "gemini", "grok"],
+    outline: ["openai", "gemini", "grok"],
+    blog: ["openai", "grok", "gemini"],
+    edit: ["openai", "gemini", "grok"],
+  },
+  models: {
+    openai: "gpt-4o-2024-11-20",
+    gemini: "gemini-1.5-pro-latest",
+    grok: "grok-3-beta",
+  },
+  timeoutMs: {
+    research: 60000,
+    outline: 45000,
+    blog: 180000,
+    edit: 30000,
+  },
+  deadlineMs: {
+    research: 120000,
+    outline: 90000,
+    blog: 360000,
+    edit: 60000,
+  },
+};
+
+let routerConfig: AIRouterConfig = DEFAULT_ROUTER_CONFIG;
+
+/**
+ * Override the provider priority lists, models, timeouts or deadlines.
+ * Unspecified tasks and providers keep their defaults.
+ */
+export function configureAIRouter(config: {
+  priorities?: Partial<Record<AITask, AIProvider[]>>;
+  models?: Partial<Record<AIProvider, string>>;
+  timeoutMs?: Partial<Record<AITask, number>>;
+  deadlineMs?: Partial<Record<AITask, number>>;
+}) {
+  routerConfig = {
+    priorities: { ...routerConfig.priorities, ...config.priorities },
+    models: { ...routerConfig.models, ...config.models },
+    timeoutMs: { ...routerConfig.timeoutMs, ...config.timeoutMs },
+    deadlineMs: { ...routerConfig.deadlineMs, ...config.deadlineMs },
+  };
+}
+
+export function resetAIRouterConfig() {
+  routerConfig = DEFAULT_ROUTER_CONFIG;
+}
+
+export function getAIRouterConfig(): AIRouterConfig {
+  return routerConfig;
+}
+
+/**
+ * Rate limits, server errors and timeouts are worth retrying on another provider.
+ * Anything else (bad request, auth) would fail the same way everywhere.
+ */
+export function isFailoverError(error: unknown): boolean {
+  const statusCode = (error as AIProviderError)?.statusCode;
+  if (statusCode !== undefined) {
+    return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+  }
+
+  const message = error instanceof Error ? error.message.toLowerCase() : "";
+  return (
+    message.includes("rate limit") ||
+    message.includes("timeout") ||
+    message.includes("timed out") ||
+    message.includes("network error") ||
+    message.includes("network request failed")
+  );
+}
+
+// Each attempt gets its own signal, aborted on timeout so an abandoned stream stops calling the caller's handlers
+function withTimeout<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  provider: AIProvider,
+  signal?: AbortSignal,
+): Promise<T> {
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  if (signal?.aborted) cancel();
+  signal?.addEventListener("abort", cancel, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new Error(`${provider} request timed out after ${ms}ms`));
+      controller.abort();
+    }, ms);
+  });
+  return Promise.race([call(controller.signal), timeout]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", cancel);
+  });
+}
+
+/**
+ * AIService implementation that routes a task across OpenAI, Gemini and Grok,
+ * falling back to the next provider in the task's priority list on rate limits,
+ * 5xx errors or timeouts. Responses carry the provider and model that answered.
+ */
+export class AIRouter implements AIService {
+  constructor(private task: AITask) {}
+
+  private async route(
+    options: AIRequestOptions | undefined,
+    call: (client: ProviderClient, options: AIRequestOptions) => Promise<AIResponse>,
+  ): Promise<AIResponse> {
+    const { priorities, models, timeoutMs, deadlineMs } = routerConfig;
+    const providers = priorities[this.task];
+    if (providers.length === 0) {
+      throw new Error(`No AI providers configured for task "${this.task}"`);
+    }
+
+    const deadline = Date.now() + deadlineMs[this.task];
+    let lastError: unknown;
+    for (const provider of providers) {
+      // Later providers only get what's left of the call's deadline
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) break;
+      const client = CLIENTS[provider];
+      const model = models[provider];
+      const providerOptions: AIRequestOptions = {
+        ...options,
+        model,
+        maxTokens: options?.maxTokens ? Math.min(options.maxTokens, client.maxOutputTokens) : undefined,
+      };
+
+      try {
+        const response = await withTimeout(
+          (signal) => call(client, { ...providerOptions, signal }),
+          Math.min(timeoutMs[this.task], remaining),
+          provider,
+          options?.signal,
+        );
+        return { ...response, provider, model };
+      } catch (error) {
+        lastError = error;
+        if (!isFailoverError(error)) throw error;
+        logger.warn(`AI router: ${provider} failed for ${this.task}, trying next provider`, (error as Error).message);
+      }
+    }
+
+    throw lastError;
+  }
+
+  chat(messages: AIMessage[], options?: AIRequestOptions): Promise<AIResponse> {
+    return this.route(options, (client, providerOptions) => client.chat(messages, providerOptions));
+  }
+
+  complete(prompt: string, options?: AIRequestOptions): Promise<AIResponse> {
+    return this.chat([{ role: "user", content: prompt }], options);
+  }
+
+  chatStream(messages: AIMessage[], options?: AIRequestOptions, handlers?: AIStreamHandlers): Promise<AIResponse> {
+    return this.route(options, (client, providerOptions) => client.stream(messages, providerOptions, handlers));
+  }
+}
+
+const routers: Partial<Record<AITask, AIRouter>> = {};
+
+export function getAIRouter(task: AITask): AIRouter {
+  if (!routers[task]) {
+    routers[task] = new AIRouter(task);
+  }
+  return routers[task]!;
+}
@@ -1,20 +1,38 @@
-import { openAIChat } from "./openai";
+import { getAIRouter } from "./ai-router";
 import { SEOResearchData } from "./seo-research";
-import { retryOpenAICall } from "../utils/retry";
 import { logger } from "../utils/logger";
 import { LRUCache } from "../utils/lru-cache";
+import { extractPartialJsonString } from "../utils/partial-json";
+import { AIProvider, AIUsage } from "../types/ai";
+import { parseStructuredOutput } from "./structured-output";
+import { generatedBlogSchema } from "./schemas";
 import { sanitizeInput, validatePromptLength } from "../utils/sanitize";
+import { templateSkeleton } from "../utils/blog-templates";
+import { BannedWordMatch, brandVoicePrompt, findBannedWords } from "../utils/brand-voice";
+import { BlogFaqItem, BlogHeading, BrandVoiceProfile, ContentType } from "../types/blog";
+import { countWords, getLocale, isDefaultLocale, languagePrompt, readingTimeMinutes } from "../utils/locale";
+import useTemplateStore from "../state/templateStore";
+
+// Recorded on every post; bump when the prompt changes enough to affect output
+export const BLOG_PROMPT_VERSION = "single-shot@2";
 
 export interface BlogGenerationOptions {
   topic: string;
   researchData?: SEOResearchData;
-  contentType?: "how-to" | "listicle" | "review" | "comparison" | "guide" | "news";
+  contentType?: ContentType;
   targetAudience?: string;
   tone?: "professional" | "casual" | "friendly" | "authoritative" | "conversational";
   includeImages?: boolean;
   includeFAQ?: boolean;
+  // Attach JSON-LD schema markup, built from the finished post, when it is saved
   includeSchema?: boolean;
   wordCount?: number;
+  // Template whose section skeleton the article must follow
+  templateId?: string;
+  // Voice woven into the prompt; its audience persona replaces targetAudience
+  brandVoice?: BrandVoiceProfile;
+  // BCP 47 locale to write in, e.g. "de-DE" or "ja-JP"; defaults to English
+  locale?: string;
 }
 
 export interface GeneratedBlog {
@@ -22,19 +40,35 @@ export interface GeneratedBlog {
   metaDescription: string;
   content: string;
   keywords: string[];
-  headings: Array<{
-    level: number;
-    text: string;
-    anchor: string;
-  }>;
-  faqSection?: Array<{
-    question: string;
-    answer: string;
-  }>;
-  schemaMarkup?: string;
+  headings: BlogHeading[];
+  faqSection?: BlogFaqItem[];
   seoScore: number;
   readingTime: number;
   wordCount: number;
+  // Which provider and model produced this blog
+  provider?: AIProvider;
+  model?: string;
+  promptVersion?: string;
+  usage?: AIUsage;
+  // True when the response could not be parsed and canned content was substituted
+  isFallback?: boolean;
+  // Banned brand voice words that still appear in the content
+  bannedWords?: BannedWordMatch[];
+  // BCP 47 locale the post was written in; unset means English
+  locale?: string;
+  contentType?: ContentType;
+}
+
+export interface BlogGenerationProgress {
+  // Article markdown received so far, decoded from the partial JSON response
+  content: string;
+  completionTokens: number;
+  // 0-100, estimated from tokens received against the expected output size
+  progress: number;
+}
+
+export interface BlogGenerationHandlers {
+  onProgress?: (update: BlogGenerationProgress) => void;
 }
 
 export async function generateSEOBlog(
@@ -60,9 +94,11 @@ function blogKey(opts: BlogGenerationOptions) {
     targetAudience = "general",
     tone = "conversational",
     includeFAQ = true,
-    includeSchema = true,
     includeImages = false,
     wordCount = 2500,
+    templateId,
+    brandVoice,
+    locale,
   } = opts;
   return JSON.stringify({
     t: topic.trim().toLowerCase(),
@@ -70,14 +106,18 @@ function blogKey(opts: BlogGenerationOptions) {
     ta: targetAudience,
     tn: tone,
     faq: includeFAQ,
-    schema: includeSchema,
     img: includeImages,
     wc: wordCount,
+    tpl: templateId,
+    // Edits to a profile change its updatedAt, so cached posts in the old voice aren't reused
+    bv: brandVoice ? `${brandVoice.id}:${String(brandVoice.updatedAt)}` : undefined,
+    loc: isDefaultLocale(locale) ? undefined : getLocale(locale).code,
   });
 }
 
 export async function generateEnhancedSEOBlog(
-  options: BlogGenerationOptions
+  options: BlogGenerationOptions,
+  handlers: BlogGenerationHandlers = {}
 ): Promise<GeneratedBlog> {
   const sanitizedTopic = sanitizeInput(options.topic);
   validatePromptLength(sanitizedTopic);
@@ -93,18 +133,25 @@ export async function generateEnhancedSEOBlog(
   const flight = inFlightBlogs.get(key);
   if (flight) return flight;
 
+  const template = options.templateId ? useTemplateStore.getState().getTemplate(options.templateId) : undefined;
+  if (options.templateId && !template) {
+    logger.warn(`Template ${options.templateId} not found, generating without it`);
+  }
+
   const {
     topic: topicRaw,
     researchData,
-    contentType = "guide",
-    targetAudience = "general audience",
+    contentType = (template?.category as BlogGenerationOptions["contentType"]) ?? "guide",
+    brandVoice,
+    targetAudience = brandVoice?.audiencePersona || "general audience",
     tone = "conversational",
     includeImages = false,
     includeFAQ = true,
-    includeSchema = true,
     wordCount = 2500,
+    locale,
   } = options;
   const topic = sanitizeInput(topicRaw);
+  const language = languagePrompt(locale);
   validatePromptLength(topic);
 
   // Build comprehensive prompt with research data
@@ -117,7 +164,11 @@ TARGET AUDIENCE: ${targetAudience}
 TONE: ${tone}
 WORD COUNT TARGET: ${wordCount}+ words
 
-`;
+${brandVoice ? `${brandVoicePrompt(brandVoice)}
+
+` : ""}${language ? `${language}
+
+` : ""}`;
 
   // Add research data if available
   if (researchData) {
@@ -168,14 +219,7 @@ ${includeFAQ ? `5. FAQ Section:
 
 ` : ""}
 
-${includeSchema ? `6. Schema Markup Suggestions:
-   - Provide JSON-LD schema markup for the content type
-   - Include Article, FAQ, and HowTo schemas as appropriate
-   - Add breadcrumb and organization markup
-
-` : ""}
-
-${includeImages ? `7. Image Optimization:
+${includeImages ? `6. Image Optimization:
    - Suggest 3-5 relevant images with descriptive alt text
    - Include image placement recommendations
    - Provide SEO-optimized file name suggestions
@@ -191,7 +235,11 @@ CONTENT REQUIREMENTS:
 - Optimize for readability (Flesch score 60+)
 - Add value that competitors don't provide
 
-FORMAT REQUIREMENTS:
+${template ? `REQUIRED STRUCTURE (${template.name} template):
+The article must follow this section skeleton exactly and in this order. Do not add, drop, merge or rename H2 sections:
+${templateSkeleton(template)}
+
+` : ""}FORMAT REQUIREMENTS:
 Return a JSON object with the following structure:
 {
   "title": "SEO-optimized title with primary keyword",
@@ -211,7 +259,6 @@ Return a JSON object with the following structure:
       "answer": "Comprehensive answer"
     }
   ],` : ""}
-  ${includeSchema ? `"schemaMarkup": "JSON-LD schema markup string",` : ""}
   "seoScore": 85,
   "readingTime": 12,
   "wordCount": 2500
@@ -222,18 +269,27 @@ Focus on creating content that genuinely helps users while satisfying search eng
   const task = (async () => {
     // Dynamically calculate max_tokens based on the requested wordCount.
     const maxTokens = Math.min(Math.max(wordCount * 2, 4000), 16000);
-    const response = await retryOpenAICall(() =>
-      openAIChat(
-        [
-          {
-            role: "system",
-            content:
-              "You are an expert SEO content writer who creates high-converting, E-E-A-T optimized blog posts that rank well in Google's 2024-2025 algorithms. Always respond with valid JSON matching the requested structure.",
-          },
-          { role: "user", content: prompt },
-        ],
-        { model: "gpt-4o-2024-11-20", maxTokens: maxTokens, temperature: 0.7 },
-      ),
+    // ~1.35 tokens per English word for the article plus the JSON envelope, FAQ and headings.
+    const expectedTokens = Math.min(Math.round(wordCount * 1.35) + 800, maxTokens);
+    const response = await getAIRouter("blog").chatStream(
+      [
+        {
+          role: "system",
+          content:
+            "You are an expert SEO content writer who creates high-converting, E-E-A-T optimized blog posts that rank well in Google's 2024-2025 algorithms. Always respond with valid JSON matching the requested structure.",
+        },
+        { role: "user", content: prompt },
+      ],
+      { maxTokens: maxTokens, temperature: 0.7 },
+      {
+        onChunk: ({ content: raw, completionTokens }) => {
+          handlers.onProgress?.({
+            content: extractPartialJsonString(raw, "content") ?? "",
+            completionTokens,
+            progress: Math.min(99, Math.round((completionTokens / expectedTokens) * 100)),
+          });
+        },
+      },
     );
 
     const content = response.content;
@@ -242,44 +298,50 @@ Focus on creating content that genuinely helps users while satisfying search eng
     }
 
     try {
-      // Try to parse the JSON response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error("No JSON found in response");
-      }
-
-      const blogData = JSON.parse(jsonMatch[0]) as GeneratedBlog;
-
-      // Validate and ensure required fields
-      if (!blogData.title || !blogData.content) {
-        throw new Error("Invalid blog data structure");
-      }
-
-      // Calculate reading time if not provided
-      if (!blogData.readingTime) {
-        const words = blogData.content.split(/\s+/).length;
-        blogData.readingTime = Math.ceil(words / 200); // 200 words per minute
-      }
-
-      // Calculate word count if not provided
-      if (!blogData.wordCount) {
-        blogData.wordCount = blogData.content
-          .split(/\s+/)
-          .filter((word) => word.length > 0).length;
-      }
-
-      return blogData;
+      const parsed = await parseStructuredOutput(content, generatedBlogSchema, {
+        task: "blog",
+        label: "Generated blog",
+        maxTokens,
+      });
+
+      const blogData: GeneratedBlog = {
+        ...parsed,
+        // Calculate reading time and word count if not provided
+        readingTime: parsed.readingTime || readingTimeMinutes(parsed.content),
+        wordCount: parsed.wordCount || countWords(parsed.content),
+      };
+
+      return {
+        ...blogData,
+        provider: response.provider,
+        model: response.model,
+        promptVersion: BLOG_PROMPT_VERSION,
+        usage: response.usage,
+      };
     } catch (parseError) {
       logger.error("Failed to parse blog JSON:", parseError);
-      // Return fallback structure with the raw content
-      return createFallbackBlogData(topic, content);
+      // Return fallback structure with whatever article text the response contained
+      const rawContent = extractPartialJsonString(content, "content") || content;
+      return {
+        ...createFallbackBlogData(topic, rawContent),
+        provider: response.provider,
+        model: response.model,
+        promptVersion: BLOG_PROMPT_VERSION,
+        usage: response.usage,
+      };
     }
   })();
 
   inFlightBlogs.set(key, task);
   try {
-    const result = await task;
-    blogCacheMem.set(key, { data: result, expiresAt: Date.now() + BLOG_TTL_MS });
+    const blog = await task;
+    let result = brandVoice ? { ...blog, bannedWords: findBannedWords(blog.content, brandVoice.bannedWords) } : blog;
+    result = { ...result, contentType };
+    if (!isDefaultLocale(locale)) result = { ...result, locale: getLocale(locale).code };
+    // Don't cache canned fallbacks so a retry gets another chance at a real response
+    if (!result.isFallback) {
+      blogCacheMem.set(key, { data: result, expiresAt: Date.now() + BLOG_TTL_MS });
+    }
     return result;
   } finally {
     inFlightBlogs.delete(key);
@@ -287,7 +349,7 @@ Focus on creating content that genuinely helps users while satisfying search eng
 }
 
 function createFallbackBlogData(topic: string, content: string): GeneratedBlog {
-  const wordCount = content.split(/\s+/).filter((word) => word.length > 0).length;
+  const wordCount = countWords(content);
 
   return {
     title: `The Complete Guide to ${topic}`,
@@ -313,7 +375,8 @@ function createFallbackBlogData(topic: string, content: string): GeneratedBlog {
       },
     ],
     seoScore: 75,
-    readingTime: Math.ceil(wordCount / 200),
+    readingTime: readingTimeMinutes(content),
     wordCount: wordCount,
+    isFallback: true,
   };
 }
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+
+const chatStream = vi.fn();
+vi.mock("./ai-router", () => ({ getAIRouter: () => ({ chatStream }) }));
+vi.mock("./seo-research", () => ({ conductSEOResearch: vi.fn(), generateContentOutline: vi.fn() }));
+
+import { generateContentOutline, ContentOutline, SEOResearchData } from "./seo-research";
+import {
+  assembleLongFormBlog,
+  failedSections,
+  generateLongFormDraft,
+  groupOutlineSections,
+  regenerateSection,
+} from "./blog-pipeline";
+
+const outline: ContentOutline = {
+  title: "Remote Work Tools",
+  metaDescription: "The best tools for remote teams.",
+  headings: [
+    { level: 1, text: "Remote Work Tools", keywords: ["remote work"], wordCount: 200 },
+    { level: 2, text: "Why Tools Matter", keywords: ["productivity"], wordCount: 400 },
+    { level: 3, text: "Async Communication", keywords: ["async"], wordCount: 150 },
+    { level: 2, text: "Choosing a Stack", keywords: [], wordCount: 0 },
+  ],
+  faqSection: [{ question: "Is Slack free?", answer: "There is a free tier." }],
+  callToAction: "Try one tool this week.",
+};
+
+const research = {
+  primaryKeywords: [{ keyword: "remote work tools" }],
+  secondaryKeywords: [],
+  searchIntent: { primary: "informational" },
+  seoScore: { overall: 80 },
+} as unknown as SEOResearchData;
+
+afterEach(() => {
+  chatStream.mockReset();
+  vi.mocked(generateContentOutline).mockReset();
+});
+
+describe("groupOutlineSections", () => {
+  test("folds H3s into their H2 and wraps the body with an intro and conclusion", () => {
+    const sections = groupOutlineSections(outline, 2000);
+
+    expect(sections.map((s) => [s.kind, s.heading])).toEqual([
+      ["intro", ""],
+      ["body", "Why Tools Matter"],
+      ["body", "Choosing a Stack"],
+      ["conclusion", "Conclusion"],
+    ]);
+    expect(sections[1]).toMatchObject({ subheadings: ["Async Communication"], wordCount: 550 });
+    expect(sections[1].keywords).toEqual(["productivity", "async"]);
+    // Sections without a budget share the overall target
+    expect(sections[2].wordCount).toBe(800);
+  });
+});
+
+describe("generateLongFormDraft", () => {
+  test("keeps going when a section fails and retries just that section", async () => {
+    vi.mocked(generateContentOutline).mockResolvedValue(outline);
+    chatStream.mockImplementation(async (messages: Array<{ content: string }>) => {
+      if (messages[1].content.includes('section "Choosing a Stack"')) {
+        throw new Error("bad request");
+      }
+      return { content: "Section body.", provider: "openai", model: "gpt-test" };
+    });
+
+    const draft = await generateLongFormDraft({ topic: "remote work tools", researchData: research });
+
+    expect(failedSections(draft).map(({ section }) => section.heading)).toEqual(["Choosing a Stack"]);
+    expect(chatStream).toHaveBeenCalledTimes(4);
+
+    chatStream.mockReset();
+    // A repeated heading is stripped so it isn't doubled up
+    chatStream.mockResolvedValue({ content: "## Choosing a Stack\n\nPick tools your team will use." });
+    const retried = await regenerateSection(draft, failedSections(draft)[0].index);
+
+    expect(chatStream).toHaveBeenCalledTimes(1);
+    expect(failedSections(retried)).toEqual([]);
+
+    const blog = assembleLongFormBlog(retried);
+    expect(blog.content).toBe(
+      [
+        "# Remote Work Tools",
+        "Section body.",
+        "## Why Tools Matter\n\nSection body.",
+        "## Choosing a Stack\n\nPick tools your team will use.",
+        "## Frequently Asked Questions\n\n### Is Slack free?\n\nThere is a free tier.",
+        "## Conclusion\n\nSection body.",
+      ].join("\n\n"),
+    );
+    expect(blog).toMatchObject({ model: "gpt-test", seoScore: 80, keywords: ["remote work tools"] });
+  });
+
+  test("writes to an approved outline without planning a new one", async () => {
+    chatStream.mockResolvedValue({ content: "Section body." });
+
+    const draft = await generateLongFormDraft({ topic: "remote work tools", researchData: research, outline });
+
+    expect(generateContentOutline).not.toHaveBeenCalled();
+    expect(draft.sections.map((s) => s.heading)).toEqual(["", "Why Tools Matter", "Choosing a Stack", "Conclusion"]);
+    expect(chatStream.mock.calls[1][0][1].content).toContain(
+      "Use exactly these H3 (###) subheadings, in this order, and no other headings: Async Communication.",
+    );
+  });
+});
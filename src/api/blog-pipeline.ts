@@ -0,0 +1,370 @@
+import { getAIRouter } from "./ai-router";
+import { conductSEOResearch, ContentOutline, generateContentOutline, SEOResearchData } from "./seo-research";
+import { BlogGenerationOptions, GeneratedBlog } from "./blog-generator";
+import { logger } from "../utils/logger";
+import { sanitizeInput, validatePromptLength } from "../utils/sanitize";
+import { AIProvider, AIUsage } from "../types/ai";
+import { brandVoicePrompt, findBannedWords } from "../utils/brand-voice";
+import { countWords, getLocale, isDefaultLocale, languagePrompt, readingTimeMinutes } from "../utils/locale";
+import { slugify } from "../utils/slug";
+
+/**
+ * Long-form generation pipeline: research, outline, one request per H2
+ * section, then stitching. Each section stays well under the provider's
+ * output limit, and a failed section can be regenerated on its own.
+ */
+
+// Recorded on every post; bump when the section prompts change enough to affect output
+export const LONG_FORM_PROMPT_VERSION = "long-form@1";
+
+export type PipelineStage = "research" | "outline" | "sections" | "assemble";
+
+export const PIPELINE_STAGES: Array<{ stage: PipelineStage; label: string }> = [
+  { stage: "research", label: "Researching keywords" },
+  { stage: "outline", label: "Building the outline" },
+  { stage: "sections", label: "Writing sections" },
+  { stage: "assemble", label: "Stitching the article" },
+];
+
+export interface LongFormOptions extends BlogGenerationOptions {
+  // An approved outline to write to instead of generating one
+  outline?: ContentOutline;
+}
+
+export interface OutlineSection {
+  kind: "intro" | "body" | "conclusion";
+  // Empty for the introduction, which sits directly under the title
+  heading: string;
+  subheadings: string[];
+  keywords: string[];
+  wordCount: number;
+}
+
+export interface DraftSection extends OutlineSection {
+  status: "pending" | "writing" | "done" | "failed";
+  content: string;
+  error?: string;
+}
+
+export interface LongFormDraft {
+  topic: string;
+  options: LongFormOptions;
+  research: SEOResearchData;
+  outline: ContentOutline;
+  sections: DraftSection[];
+  provider?: AIProvider;
+  model?: string;
+  // Tokens spent on section requests so far, including retried sections
+  usage?: AIUsage;
+}
+
+export interface PipelineProgress {
+  stage: PipelineStage;
+  stageIndex: number;
+  // 0-100 across the whole pipeline
+  progress: number;
+  detail: string;
+  // Markdown of the article so far, including the section being streamed
+  content: string;
+}
+
+export interface PipelineHandlers {
+  onProgress?: (update: PipelineProgress) => void;
+}
+
+// Share of the overall progress bar reached once each stage completes
+const STAGE_PROGRESS: Record<PipelineStage, number> = { research: 10, outline: 20, sections: 95, assemble: 100 };
+
+function stageIndex(stage: PipelineStage) {
+  return PIPELINE_STAGES.findIndex((s) => s.stage === stage);
+}
+
+/**
+ * Split an outline into generation units: an introduction, one unit per H2
+ * (carrying the H3s beneath it), and a conclusion.
+ */
+export function groupOutlineSections(outline: ContentOutline, totalWords: number, locale?: string): OutlineSection[] {
+  const body: OutlineSection[] = [];
+  for (const heading of outline.headings) {
+    if (heading.level === 2) {
+      body.push({
+        kind: "body",
+        heading: heading.text,
+        subheadings: [],
+        keywords: [...heading.keywords],
+        wordCount: heading.wordCount,
+      });
+    } else if (heading.level > 2 && body.length > 0) {
+      const parent = body[body.length - 1];
+      parent.subheadings.push(heading.text);
+      parent.keywords.push(...heading.keywords.filter((k) => !parent.keywords.includes(k)));
+      parent.wordCount += heading.wordCount;
+    }
+  }
+
+  // Outlines without a word budget per section share the overall target evenly
+  const fallbackWords = Math.round((totalWords * 0.8) / Math.max(body.length, 1));
+  for (const section of body) {
+    if (!section.wordCount) section.wordCount = fallbackWords;
+  }
+
+  const introWords = Math.max(120, Math.round(totalWords * 0.08));
+  const intro = outline.headings.find((h) => h.level === 1);
+  return [
+    { kind: "intro", heading: "", subheadings: [], keywords: intro?.keywords ?? [], wordCount: introWords },
+    ...body,
+    {
+      kind: "conclusion",
+      heading: getLocale(locale).headings.conclusion,
+      subheadings: [],
+      keywords: [],
+      wordCount: introWords,
+    },
+  ];
+}
+
+/** Drop a heading the model repeated at the top of a section body. */
+function stripLeadingHeading(content: string, heading: string) {
+  const trimmed = content.replace(/^\s*```(?:markdown|md)?\s*/i, "").replace(/\s*```\s*$/, "").trim();
+  const match = trimmed.match(/^#{1,3}\s+(.+)\n+/);
+  if (match && slugify(match[1]) === slugify(heading || match[1])) {
+    return trimmed.slice(match[0].length).trim();
+  }
+  return trimmed;
+}
+
+function renderSection(section: DraftSection) {
+  return section.heading ? `## ${section.heading}\n\n${section.content}` : section.content;
+}
+
+function renderFaq(outline: ContentOutline, locale?: string) {
+  if (outline.faqSection.length === 0) return "";
+  const items = outline.faqSection.map((faq) => `### ${faq.question}\n\n${faq.answer}`).join("\n\n");
+  return `## ${getLocale(locale).headings.faq}\n\n${items}`;
+}
+
+/**
+ * Stitch the written sections into one markdown article. Failed or unwritten
+ * sections are left out; the FAQ is placed before the conclusion.
+ */
+export function assembleLongFormContent(draft: LongFormDraft) {
+  const includeFAQ = draft.options.includeFAQ ?? true;
+  const parts = [`# ${draft.outline.title}`];
+  for (const section of draft.sections) {
+    if (section.kind === "conclusion" && includeFAQ) {
+      const faq = renderFaq(draft.outline, draft.options.locale);
+      if (faq) parts.push(faq);
+    }
+    if (section.status === "done" && section.content) {
+      parts.push(renderSection(section));
+    }
+  }
+  return parts.join("\n\n");
+}
+
+export function assembleLongFormBlog(draft: LongFormDraft): GeneratedBlog {
+  const content = assembleLongFormContent(draft);
+  const words = countWords(content);
+  const keywords = [...draft.research.primaryKeywords, ...draft.research.secondaryKeywords].map((k) => k.keyword);
+
+  return {
+    title: draft.outline.title,
+    metaDescription: draft.outline.metaDescription,
+    content,
+    keywords: keywords.length > 0 ? keywords : [draft.topic.toLowerCase()],
+    headings: [
+      { level: 1, text: draft.outline.title, anchor: slugify(draft.outline.title) },
+      ...draft.sections
+        .filter((s) => s.status === "done" && s.heading)
+        .map((s) => ({ level: 2, text: s.heading, anchor: slugify(s.heading) })),
+    ],
+    faqSection: (draft.options.includeFAQ ?? true) ? draft.outline.faqSection : undefined,
+    seoScore: draft.research.seoScore.overall,
+    readingTime: readingTimeMinutes(content),
+    wordCount: words,
+    provider: draft.provider,
+    model: draft.model,
+    promptVersion: LONG_FORM_PROMPT_VERSION,
+    usage: draft.usage,
+    isFallback: draft.outline.isFallback || draft.research.isFallback,
+    bannedWords: draft.options.brandVoice ? findBannedWords(content, draft.options.brandVoice.bannedWords) : undefined,
+    locale: isDefaultLocale(draft.options.locale) ? undefined : getLocale(draft.options.locale).code,
+    contentType: draft.options.contentType ?? "guide",
+  };
+}
+
+function buildSectionPrompt(draft: LongFormDraft, index: number) {
+  const section = draft.sections[index];
+  const { contentType = "guide", tone = "conversational", brandVoice, locale } = draft.options;
+  const targetAudience = draft.options.targetAudience ?? (brandVoice?.audiencePersona || "general audience");
+  const outlineList = draft.sections
+    .filter((s) => s.kind === "body")
+    .map((s) => `- ${s.heading}`)
+    .join("\n");
+  const keywords = section.keywords.length > 0 ? section.keywords.join(", ") : draft.topic;
+
+  let task: string;
+  if (section.kind === "intro") {
+    task = `Write the introduction (${section.wordCount} words) that hooks the reader, states the problem and previews what the article covers. Do not add a heading.`;
+  } else if (section.kind === "conclusion") {
+    task = `Write the conclusion (${section.wordCount} words) that summarizes the key takeaways and ends with this call to action: "${draft.outline.callToAction}". Do not add a heading.`;
+  } else {
+    const structure =
+      section.subheadings.length > 0
+        ? `Use exactly these H3 (###) subheadings, in this order, and no other headings: ${section.subheadings.join("; ")}.`
+        : "Do not add any subheadings.";
+    task = `Write the body of the section "${section.heading}" (about ${section.wordCount} words). Do not repeat the "${section.heading}" heading itself. ${structure}`;
+  }
+
+  return `You are writing one part of a ${contentType} blog post titled "${draft.outline.title}".
+
+TOPIC: ${draft.topic}
+TARGET AUDIENCE: ${targetAudience}
+TONE: ${tone}
+SEARCH INTENT: ${draft.research.searchIntent.primary}
+${brandVoice ? `\n${brandVoicePrompt(brandVoice)}\n` : ""}${languagePrompt(locale) ? `\n${languagePrompt(locale)}\n` : ""}
+Full article outline:
+${outlineList}
+
+${task}
+
+Work in these keywords naturally: ${keywords}
+
+Use short paragraphs, bullet points where they help scanning, and concrete examples. Only write this part: other sections are written separately, so don't introduce or summarize the rest of the article. Respond with markdown only.`;
+}
+
+async function writeSection(
+  draft: LongFormDraft,
+  index: number,
+  handlers: PipelineHandlers,
+): Promise<LongFormDraft> {
+  const section = draft.sections[index];
+  const writing = withSection(draft, index, { status: "writing", error: undefined });
+  const before = [
+    `# ${draft.outline.title}`,
+    ...draft.sections.slice(0, index).filter((s) => s.status === "done").map(renderSection),
+  ].join("\n\n");
+  const maxTokens = Math.min(Math.max(section.wordCount * 2, 800), 4000);
+  const expectedTokens = Math.round(section.wordCount * 1.35);
+  const sectionShare = (STAGE_PROGRESS.sections - STAGE_PROGRESS.outline) / draft.sections.length;
+  const done = draft.sections.filter((s) => s.status === "done").length;
+  const label = section.heading || "Introduction";
+
+  try {
+    const response = await getAIRouter("blog").chatStream(
+      [
+        {
+          role: "system",
+          content:
+            "You are an expert SEO content writer who writes clear, E-E-A-T optimized blog sections in markdown.",
+        },
+        { role: "user", content: buildSectionPrompt(writing, index) },
+      ],
+      { maxTokens, temperature: 0.7 },
+      {
+        onChunk: ({ content, completionTokens }) => {
+          const fraction = Math.min(1, completionTokens / Math.max(expectedTokens, 1));
+          handlers.onProgress?.({
+            stage: "sections",
+            stageIndex: stageIndex("sections"),
+            progress: Math.round(STAGE_PROGRESS.outline + sectionShare * (done + fraction)),
+            detail: `Section ${index + 1} of ${draft.sections.length}: ${label}`,
+            content: `${before}\n\n${renderSection({ ...section, content })}`,
+          });
+        },
+      },
+    );
+
+    const content = stripLeadingHeading(response.content, section.heading);
+    if (!content) {
+      throw new Error(`No content generated for "${label}"`);
+    }
+    return {
+      ...withSection(draft, index, { status: "done", content, error: undefined }),
+      provider: draft.provider ?? response.provider,
+      model: draft.model ?? response.model,
+      usage: addUsage(draft.usage, response.usage),
+    };
+  } catch (error) {
+    logger.error(`Failed to write section "${label}":`, error);
+    return withSection(draft, index, { status: "failed", error: (error as Error).message });
+  }
+}
+
+function addUsage(total: AIUsage | undefined, usage: AIUsage | undefined): AIUsage | undefined {
+  if (!usage) return total;
+  return {
+    promptTokens: (total?.promptTokens ?? 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens ?? 0) + usage.completionTokens,
+    totalTokens: (total?.totalTokens ?? 0) + usage.totalTokens,
+  };
+}
+
+function withSection(draft: LongFormDraft, index: number, patch: Partial<DraftSection>): LongFormDraft {
+  return {
+    ...draft,
+    sections: draft.sections.map((section, i) => (i === index ? { ...section, ...patch } : section)),
+  };
+}
+
+/**
+ * Run the full pipeline. Research is skipped when `options.researchData` is
+ * given, and the outline stage when `options.outline` is. Sections that still fail after their own retries are marked
+ * `failed` rather than aborting the post; pass the draft to
+ * `regenerateSection` to try them again.
+ */
+export async function generateLongFormDraft(
+  options: LongFormOptions,
+  handlers: PipelineHandlers = {},
+): Promise<LongFormDraft> {
+  const topic = sanitizeInput(options.topic);
+  validatePromptLength(topic);
+  const report = (stage: PipelineStage, progress: number, detail: string, content = "") =>
+    handlers.onProgress?.({ stage, stageIndex: stageIndex(stage), progress, detail, content });
+
+  let research = options.researchData;
+  if (!research) {
+    report("research", 0, "Analyzing keywords and search intent");
+    research = await conductSEOResearch(topic, { brandVoice: options.brandVoice, locale: options.locale });
+  }
+
+  let outline = options.outline;
+  if (!outline) {
+    report("outline", STAGE_PROGRESS.research, "Planning headings and word counts");
+    outline = await generateContentOutline(topic, research, { brandVoice: options.brandVoice, locale: options.locale });
+  }
+
+  const sections = groupOutlineSections(outline, options.wordCount ?? 2500, options.locale);
+  let draft: LongFormDraft = {
+    topic,
+    options: { ...options, topic },
+    research,
+    outline,
+    sections: sections.map((section) => ({ ...section, status: "pending", content: "" })),
+  };
+
+  for (let i = 0; i < draft.sections.length; i++) {
+    draft = await writeSection(draft, i, handlers);
+  }
+
+  report("assemble", STAGE_PROGRESS.sections, "Adding the FAQ and final touches", assembleLongFormContent(draft));
+  return draft;
+}
+
+/** Regenerate a single section of a draft, leaving every other section untouched. */
+export async function regenerateSection(
+  draft: LongFormDraft,
+  index: number,
+  handlers: PipelineHandlers = {},
+): Promise<LongFormDraft> {
+  if (index < 0 || index >= draft.sections.length) {
+    throw new Error(`Section ${index} does not exist`);
+  }
+  return writeSection(draft, index, handlers);
+}
+
+export function failedSections(draft: LongFormDraft) {
+  return draft.sections
+    .map((section, index) => ({ section, index }))
+    .filter(({ section }) => section.status === "failed");
+}
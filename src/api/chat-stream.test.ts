@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { AIStreamChunk } from "../types/ai";
+import { isFailoverError } from "./ai-router";
+import { streamChat } from "./chat-stream";
+
+vi.mock("./openai", () => ({ openAIChat: vi.fn(), openAIChatStream: vi.fn() }));
+vi.mock("./gemini", () => ({ geminiChat: vi.fn(), geminiChatStream: vi.fn() }));
+vi.mock("./grok", () => ({ grokChat: vi.fn(), grokChatStream: vi.fn() }));
+
+// Just enough of XMLHttpRequest for the test to play the server's side
+class FakeXHR {
+  static last: FakeXHR;
+  status = 0;
+  responseText = "";
+  aborted = false;
+  onprogress?: () => void;
+  onload?: () => void;
+  onerror?: () => void;
+  ontimeout?: () => void;
+
+  constructor() {
+    FakeXHR.last = this;
+  }
+  open() {}
+  setRequestHeader() {}
+  send() {}
+  abort() {
+    this.aborted = true;
+  }
+
+  receive(...payloads: object[]) {
+    this.responseText += payloads.map((payload) => `data: ${JSON.stringify(payload)}\n\n`).join("");
+    this.onprogress?.();
+  }
+  end() {
+    this.status = 200;
+    this.onload?.();
+  }
+}
+
+vi.stubGlobal("XMLHttpRequest", FakeXHR);
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+const messages = [{ role: "user" as const, content: "Hi" }];
+
+describe("streamChat", () => {
+  test("resolves with the streamed content once the server says it's done", async () => {
+    const chunks: AIStreamChunk[] = [];
+    const response = streamChat("/api/openai/chat/stream", "openai", "OpenAI", messages, undefined, {
+      onChunk: (chunk) => chunks.push(chunk),
+    });
+
+    FakeXHR.last.receive({ delta: "Hello", completionTokens: 1 }, { delta: " world", completionTokens: 2 });
+    FakeXHR.last.receive({ done: true, usage: { promptTokens: 1, completionTokens: 2, totalTokens: 3 } });
+    FakeXHR.last.end();
+
+    await expect(response).resolves.toMatchObject({ content: "Hello world", provider: "openai" });
+    expect(chunks.map((chunk) => chunk.content)).toEqual(["Hello", "Hello world"]);
+  });
+
+  test("fails over when the stream stops without a done event", async () => {
+    const response = streamChat("/api/grok/chat/stream", "grok", "Grok", messages, undefined);
+
+    FakeXHR.last.receive({ delta: "Half a sen", completionTokens: 1 });
+    FakeXHR.last.end();
+
+    const error = await response.catch((caught) => caught);
+    expect(error.message).toBe("Grok stream ended before completing");
+    expect(isFailoverError(error)).toBe(true);
+  });
+
+  test("stops delivering chunks once aborted", async () => {
+    const onChunk = vi.fn();
+    const controller = new AbortController();
+    const options = { signal: controller.signal };
+    const response = streamChat("/api/openai/chat/stream", "openai", "OpenAI", messages, options, { onChunk });
+
+    FakeXHR.last.receive({ delta: "First", completionTokens: 1 });
+    controller.abort();
+    FakeXHR.last.receive({ delta: " second", completionTokens: 2 }, { done: true });
+    FakeXHR.last.end();
+
+    await expect(response).rejects.toThrow("OpenAI request aborted");
+    expect(FakeXHR.last.aborted).toBe(true);
+    expect(onChunk).toHaveBeenCalledTimes(1);
+  });
+});
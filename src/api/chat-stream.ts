@@ -0,0 +1,142 @@
+import { AIMessage, AIProvider, AIRequestOptions, AIResponse, AIStreamHandlers } from "../types/ai";
+import { logger } from "../utils/logger";
+import { createAIProviderError } from "./provider-error";
+
+const backendUrl = process.env.EXPO_PUBLIC_BACKEND_URL;
+
+type StreamEvent =
+  | { delta: string; completionTokens?: number }
+  | { done: true; usage?: AIResponse["usage"] }
+  | { error: string; status?: number };
+
+/**
+ * Split a server-sent-event buffer into complete `data:` payloads.
+ * Returns the parsed payloads and whatever trailing text is still incomplete.
+ */
+export function parseSSEBuffer(buffer: string): { events: string[]; rest: string } {
+  const events: string[] = [];
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? "";
+
+  for (const block of blocks) {
+    const data = block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+    if (data) events.push(data);
+  }
+
+  return { events, rest };
+}
+
+/**
+ * POST a chat request to one of the backend's `/chat/stream` routes and
+ * resolve with the full response once the stream completes.
+ *
+ * React Native's fetch does not expose a readable body, so this uses
+ * XMLHttpRequest and reads the growing `responseText` on each progress event.
+ * Aborting `options.signal` cancels the request and rejects.
+ */
+export function streamChat(
+  path: string,
+  provider: AIProvider,
+  label: string,
+  messages: AIMessage[],
+  options: AIRequestOptions | undefined,
+  handlers: AIStreamHandlers = {},
+): Promise<AIResponse> {
+  const { signal, ...requestOptions } = options ?? {};
+  return new Promise<AIResponse>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let cursor = 0;
+    let pending = "";
+    let content = "";
+    let completionTokens = 0;
+    let usage: AIResponse["usage"];
+    // Only a `done` event means the provider finished; a stream that just stops was cut off
+    let completed = false;
+    let settled = false;
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      logger.error(`${label} stream error:`, error);
+      reject(error);
+    };
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      resolve({ content, usage, provider });
+    };
+
+    const consume = () => {
+      if (settled) return;
+      const text = xhr.responseText ?? "";
+      if (text.length <= cursor) return;
+      pending += text.slice(cursor);
+      cursor = text.length;
+
+      const { events, rest } = parseSSEBuffer(pending);
+      pending = rest;
+
+      for (const raw of events) {
+        let event: StreamEvent;
+        try {
+          event = JSON.parse(raw) as StreamEvent;
+        } catch {
+          continue;
+        }
+
+        if ("error" in event) {
+          fail(createAIProviderError(provider, `${label} API error: ${event.error}`, event.status));
+          xhr.abort();
+          return;
+        }
+        if ("done" in event) {
+          completed = true;
+          usage = event.usage;
+          continue;
+        }
+
+        content += event.delta;
+        completionTokens = event.completionTokens ?? completionTokens + 1;
+        handlers.onChunk?.({ delta: event.delta, content, completionTokens });
+      }
+    };
+
+    // Once aborted nothing more reaches the handlers, so a superseded attempt can't mix into the next one
+    const abort = () => {
+      fail(createAIProviderError(provider, `${label} request aborted`));
+      xhr.abort();
+    };
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener("abort", abort, { once: true });
+
+    xhr.open("POST", `${backendUrl}${path}`);
+    xhr.setRequestHeader("Content-Type", "application/json");
+    xhr.setRequestHeader("Accept", "text/event-stream");
+
+    xhr.onprogress = consume;
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        fail(createAIProviderError(provider, `${label} API error: ${xhr.responseText}`, xhr.status));
+        return;
+      }
+      consume();
+      if (!completed) {
+        fail(createAIProviderError(provider, `${label} stream ended before completing`, 502));
+        return;
+      }
+      finish();
+    };
+    xhr.onerror = () => fail(createAIProviderError(provider, `${label} network error: connection failed`));
+    xhr.ontimeout = () => fail(createAIProviderError(provider, `${label} request timeout`, 408));
+
+    xhr.send(JSON.stringify({ messages, options: requestOptions }));
+  });
+}
@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+const chat = vi.fn();
+vi.mock("./ai-router", () => ({ getAIRouter: () => ({ chat }) }));
+
+import { generateContentSuggestions } from "./content-suggestions";
+import { analyzeSEO } from "../seo/analyzer";
+
+const fields = {
+  title: "A Guide to Coffee at Home",
+  content: "Making coffee is easy.\n\n## Brewing ratio\n\nUse one part coffee to eight parts water.",
+  metaDescription: "",
+  keywords: ["cold brew"],
+};
+const input = { ...fields, analysis: analyzeSEO(fields) };
+
+describe("content suggestions", () => {
+  // A block body: vitest would run a returned function (the mock) as teardown
+  beforeEach(() => {
+    chat.mockReset();
+  });
+
+  test("turns the model's rewrites into ranked patches", async () => {
+    chat.mockResolvedValue({
+      content: JSON.stringify({
+        edits: [
+          { id: "title-keyword", replacement: '"A Cold Brew Guide for Coffee at Home"' },
+          { id: "intro-keyword", replacement: "Making cold brew is easy." },
+          { id: "heading-keyword-24", replacement: "## Cold brew ratio" },
+        ],
+      }),
+    });
+
+    const suggestions = await generateContentSuggestions(input);
+
+    const prompt = chat.mock.calls[0][0][1].content as string;
+    expect(prompt).toContain("ID: intro-keyword");
+    expect(prompt).toContain("<<<\nMaking coffee is easy.\n>>>");
+    expect(suggestions[0]).toMatchObject({
+      id: "title-keyword",
+      patch: { field: "title", original: fields.title, replacement: "A Cold Brew Guide for Coffee at Home" },
+    });
+    expect(suggestions.find((s) => s.id === "heading-keyword-24")?.patch?.replacement).toBe("Cold brew ratio");
+    // No edit came back for the meta description, so it is advice only
+    expect(suggestions.find((s) => s.id === "meta-description")?.patch).toBeUndefined();
+  });
+
+  test("falls back to suggestions without patches when the model fails", async () => {
+    chat.mockRejectedValue(new Error("offline"));
+
+    const suggestions = await generateContentSuggestions(input);
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    expect(suggestions.every((s) => !s.patch)).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { getAIRouter } from "./ai-router";
+import { parseStructuredOutput } from "./structured-output";
+import { contentEditsSchema } from "./schemas";
+import { ContentSuggestion } from "../types/blog";
+import { EditTarget, planSuggestions, rankSuggestions, SuggestionInput, suggestionForTarget } from "../seo/suggestions";
+import { languagePrompt } from "../utils/locale";
+import { logger } from "../utils/logger";
+
+export interface ContentEdits {
+  edits: Array<{ id: string; replacement: string }>;
+}
+
+// Models sometimes echo the markdown around a passage they were asked to rewrite
+function cleanReplacement(target: EditTarget, replacement: string) {
+  let text = replacement.trim();
+  if (!target.original.trimStart().startsWith("#")) text = text.replace(/^#{1,6}[ \t]+/, "");
+  if (target.field !== "content") text = text.replace(/^"(.*)"$/, "$1").replace(/\s+/g, " ");
+  return text;
+}
+
+/** Ask the model for the rewritten passages, in one call for all targets. */
+async function requestEdits(targets: EditTarget[], input: SuggestionInput): Promise<Map<string, string>> {
+  const passages = targets
+    .map(
+      (target) => `ID: ${target.suggestion.id}
+TASK: ${target.instruction}
+PASSAGE:
+<<<
+${target.original}
+>>>`,
+    )
+    .join("\n\n");
+
+  const prompt = `You are editing a blog post titled "${input.title}". Apply each task below to its passage only.
+
+Keep the article's voice, facts and markdown formatting, and write in the same language as the passage.
+${languagePrompt(input.locale)}
+
+${passages}
+
+Respond with only a JSON object: {"edits": [{"id": string, "replacement": string}]}, one entry per ID, where "replacement" is the rewritten passage without the <<< >>> markers.`;
+
+  const response = await getAIRouter("edit").chat(
+    [
+      {
+        role: "system",
+        content: "You are a skilled blog editor who makes small, targeted SEO and readability edits.",
+      },
+      { role: "user", content: prompt },
+    ],
+    { maxTokens: 3000, temperature: 0.4 },
+  );
+
+  const { edits } = await parseStructuredOutput(response.content, contentEditsSchema, {
+    task: "edit",
+    label: "Content edits",
+  });
+  return new Map(edits.map((edit) => [edit.id, edit.replacement]));
+}
+
+/**
+ * Ranked suggestions for a post. Analyzer findings that need new wording
+ * (a keyword in a heading, a sentence to split, a meta description) are
+ * rewritten by the model in one pass and come back as patches; if that call
+ * fails they are listed without a patch.
+ */
+export async function generateContentSuggestions(input: SuggestionInput): Promise<ContentSuggestion[]> {
+  const { suggestions, targets } = planSuggestions(input);
+  if (targets.length === 0) return rankSuggestions(suggestions);
+
+  let edits = new Map<string, string>();
+  try {
+    edits = await requestEdits(targets, input);
+  } catch (error) {
+    logger.warn("Content edits failed, listing suggestions without patches:", error);
+  }
+
+  const edited = targets.map((target) => {
+    const replacement = cleanReplacement(target, edits.get(target.suggestion.id) ?? "");
+    return replacement && replacement !== target.original.trim()
+      ? suggestionForTarget(target, replacement)
+      : { ...target.suggestion };
+  });
+  return rankSuggestions([...edited, ...suggestions]);
+}
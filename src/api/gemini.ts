@@ -1,5 +1,7 @@
-import { AIMessage, AIRequestOptions, AIResponse } from "../types/ai";
+import { AIMessage, AIRequestOptions, AIResponse, AIStreamHandlers } from "../types/ai";
 import { logger } from "../utils/logger";
+import { streamChat } from "./chat-stream";
+import { createAIProviderError } from "./provider-error";
 
 const backendUrl = process.env.EXPO_PUBLIC_BACKEND_URL;
 
@@ -7,18 +9,20 @@ export async function geminiChat(
   messages: AIMessage[],
   options?: AIRequestOptions,
 ): Promise<AIResponse> {
+  const { signal, ...requestOptions } = options ?? {};
   try {
     const response = await fetch(`${backendUrl}/api/gemini/chat`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ messages, options }),
+      body: JSON.stringify({ messages, options: requestOptions }),
+      signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Gemini API error: ${errorText}`);
+      throw createAIProviderError("gemini", `Gemini API error: ${errorText}`, response.status);
     }
 
     return (await response.json()) as AIResponse;
@@ -27,3 +31,11 @@ export async function geminiChat(
     throw error;
   }
 }
+
+export async function geminiChatStream(
+  messages: AIMessage[],
+  options?: AIRequestOptions,
+  handlers?: AIStreamHandlers,
+): Promise<AIResponse> {
+  return streamChat("/api/gemini/chat/stream", "gemini", "Gemini", messages, options, handlers);
+}
@@ -1,5 +1,7 @@
-import { AIMessage, AIRequestOptions, AIResponse } from "../types/ai";
+import { AIMessage, AIRequestOptions, AIResponse, AIStreamHandlers } from "../types/ai";
 import { logger } from "../utils/logger";
+import { streamChat } from "./chat-stream";
+import { createAIProviderError } from "./provider-error";
 
 const backendUrl = process.env.EXPO_PUBLIC_BACKEND_URL;
 
@@ -7,18 +9,20 @@ export async function openAIChat(
   messages: AIMessage[],
   options?: AIRequestOptions,
 ): Promise<AIResponse> {
+  const { signal, ...requestOptions } = options ?? {};
   try {
     const response = await fetch(`${backendUrl}/api/openai/chat`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ messages, options }),
+      body: JSON.stringify({ messages, options: requestOptions }),
+      signal,
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`OpenAI API error: ${errorText}`);
+      throw createAIProviderError("openai", `OpenAI API error: ${errorText}`, response.status);
     }
 
     return (await response.json()) as AIResponse;
@@ -27,3 +31,11 @@ export async function openAIChat(
     throw error;
   }
 }
+
+export async function openAIChatStream(
+  messages: AIMessage[],
+  options?: AIRequestOptions,
+  handlers?: AIStreamHandlers,
+): Promise<AIResponse> {
+  return streamChat("/api/openai/chat/stream", "openai", "OpenAI", messages, options, handlers);
+}
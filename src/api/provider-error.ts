@@ -0,0 +1,13 @@
+import { AIProvider } from "../types/ai";
+
+export interface AIProviderError extends Error {
+  provider: AIProvider;
+  statusCode?: number;
+}
+
+export function createAIProviderError(provider: AIProvider, message: string, statusCode?: number): AIProviderError {
+  const error = new Error(message) as AIProviderError;
+  error.provider = provider;
+  error.statusCode = statusCode;
+  return error;
+}
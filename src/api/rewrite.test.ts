@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+const chat = vi.fn();
+vi.mock("./ai-router", () => ({ getAIRouter: () => ({ chat }) }));
+
+import { applyRewrite, rewriteSelection, selectionContext } from "./rewrite";
+
+const content = "# Title\n\nFirst paragraph.\n\nSecond paragraph is long and wordy.\n\nThird paragraph.";
+const start = content.indexOf("Second");
+const selection = { start, end: start + "Second paragraph is long and wordy.".length };
+
+describe("rewrite", () => {
+  beforeEach(() => chat.mockReset());
+
+  test("cuts context at paragraph breaks", () => {
+    expect(selectionContext(content, selection, 12)).toEqual({
+      before: "",
+      passage: "Second paragraph is long and wordy.",
+      after: "",
+    });
+    expect(selectionContext(content, selection).before).toBe("# Title\n\nFirst paragraph.\n\n");
+  });
+
+  test("sends the passage with its context and returns the replacement", async () => {
+    chat.mockResolvedValue({ content: "```markdown\nSecond paragraph, shorter.\n```" });
+
+    const suggestion = await rewriteSelection({ content, selection, action: "shorten" });
+
+    const prompt = chat.mock.calls[0][0][1].content as string;
+    expect(prompt).toContain("Shorten the passage");
+    expect(prompt).toContain("PASSAGE TO REWRITE:\n<<<\nSecond paragraph is long and wordy.\n>>>");
+    expect(prompt).toContain("First paragraph.");
+    expect(suggestion.replacement).toBe("Second paragraph, shorter.");
+    expect(applyRewrite(content, suggestion)).toBe(
+      "# Title\n\nFirst paragraph.\n\nSecond paragraph, shorter.\n\nThird paragraph.",
+    );
+  });
+
+  test("relocates the passage if the content moved, and gives up if it is gone", () => {
+    const suggestion = { selection, original: "Second paragraph is long and wordy.", replacement: "Short." };
+    expect(applyRewrite(`Intro.\n\n${content}`, suggestion)).toContain("\n\nShort.\n\n");
+    expect(applyRewrite("Rewritten by hand.", suggestion)).toBeNull();
+  });
+
+  test("requires a keyword for keyword rewrites", async () => {
+    await expect(rewriteSelection({ content, selection, action: "keyword" })).rejects.toThrow("keyword");
+    expect(chat).not.toHaveBeenCalled();
+  });
+});
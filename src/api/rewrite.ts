@@ -0,0 +1,150 @@
+import { getAIRouter } from "./ai-router";
+import { BlogGenerationOptions } from "./blog-generator";
+
+export type RewriteAction = "expand" | "shorten" | "simplify" | "tone" | "example" | "list" | "keyword";
+
+export type RewriteTone = NonNullable<BlogGenerationOptions["tone"]>;
+
+export const REWRITE_ACTIONS: Array<{ action: RewriteAction; label: string }> = [
+  { action: "expand", label: "Expand" },
+  { action: "shorten", label: "Shorten" },
+  { action: "simplify", label: "Simplify" },
+  { action: "tone", label: "Change tone" },
+  { action: "example", label: "Add example" },
+  { action: "list", label: "Make a list" },
+  { action: "keyword", label: "Target keyword" },
+];
+
+export const REWRITE_TONES: RewriteTone[] = ["professional", "casual", "friendly", "authoritative", "conversational"];
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+export interface RewriteRequest {
+  content: string;
+  selection: TextSelection;
+  action: RewriteAction;
+  // Required for the "tone" action
+  tone?: RewriteTone;
+  // Required for the "keyword" action
+  keyword?: string;
+}
+
+export interface RewriteSuggestion {
+  selection: TextSelection;
+  original: string;
+  replacement: string;
+}
+
+// Characters of surrounding article sent on each side of the selection
+const CONTEXT_CHARS = 800;
+
+/** The selected passage plus the article text around it, cut at paragraph breaks where possible. */
+export function selectionContext(content: string, selection: TextSelection, chars = CONTEXT_CHARS) {
+  let before = content.slice(Math.max(0, selection.start - chars), selection.start);
+  let after = content.slice(selection.end, selection.end + chars);
+  if (selection.start > chars && before.includes("\n\n")) before = before.slice(before.indexOf("\n\n") + 2);
+  if (selection.end + chars < content.length && after.includes("\n\n")) {
+    after = after.slice(0, after.lastIndexOf("\n\n"));
+  }
+  return { before, passage: content.slice(selection.start, selection.end), after };
+}
+
+function instruction(request: RewriteRequest) {
+  switch (request.action) {
+    case "expand":
+      return "Expand the passage to roughly twice its length with more detail, explanation and specifics. Don't pad it with filler.";
+    case "shorten":
+      return "Shorten the passage to about half its length, keeping every key point.";
+    case "simplify":
+      return "Simplify the passage: shorter sentences, everyday words, no jargon. Keep the meaning.";
+    case "tone":
+      return `Rewrite the passage in a ${request.tone ?? "conversational"} tone, keeping the meaning and facts.`;
+    case "example":
+      return "Keep the passage and add one short, concrete example that illustrates its point.";
+    case "list":
+      return "Convert the passage into a markdown bullet list (or a numbered list if the order matters). A short lead-in sentence is fine.";
+    case "keyword":
+      return `Rewrite the passage so it naturally includes the keyword "${request.keyword ?? ""}" once or twice, without keyword stuffing.`;
+  }
+}
+
+function stripFences(text: string) {
+  return text
+    .replace(/^\s*```(?:markdown|md)?\s*/i, "")
+    .replace(/\s*```\s*$/, "")
+    .trim();
+}
+
+/**
+ * Ask the model to rewrite the selected passage of a post. The surrounding
+ * text is sent as read-only context so the rewrite fits the flow of the
+ * article; only the replacement for the selection comes back.
+ */
+export async function rewriteSelection(request: RewriteRequest): Promise<RewriteSuggestion> {
+  const { before, passage, after } = selectionContext(request.content, request.selection);
+  if (!passage.trim()) {
+    throw new Error("Select some text to rewrite");
+  }
+  if (request.action === "keyword" && !request.keyword?.trim()) {
+    throw new Error("Choose a keyword to target");
+  }
+
+  const prompt = `${instruction(request)}
+
+Match the surrounding article's voice and markdown formatting, and write in the same language as the passage.
+
+TEXT BEFORE THE PASSAGE (context only, do not rewrite):
+<<<
+${before}
+>>>
+
+PASSAGE TO REWRITE:
+<<<
+${passage}
+>>>
+
+TEXT AFTER THE PASSAGE (context only, do not rewrite):
+<<<
+${after}
+>>>
+
+Respond with only the rewritten passage: no quotes, labels, markers or commentary.`;
+
+  const response = await getAIRouter("edit").chat(
+    [
+      {
+        role: "system",
+        content: "You are a skilled blog editor who rewrites passages on request while preserving facts and style.",
+      },
+      { role: "user", content: prompt },
+    ],
+    { maxTokens: Math.min(Math.max(passage.length, 500), 4000), temperature: 0.6 },
+  );
+
+  const replacement = stripFences(response.content)
+    .replace(/^<<<\s*/, "")
+    .replace(/\s*>>>$/, "");
+  if (!replacement) {
+    throw new Error("No rewrite generated");
+  }
+
+  // Keep the whitespace the selection started and ended with so paragraphs don't run together
+  const leading = passage.match(/^\s*/)![0];
+  const trailing = passage.match(/\s*$/)![0];
+  return { selection: request.selection, original: passage, replacement: `${leading}${replacement}${trailing}` };
+}
+
+/**
+ * Splice an accepted suggestion into the content. If the text moved since the
+ * rewrite was requested, the original passage is located again; returns null
+ * when it no longer exists.
+ */
+export function applyRewrite(content: string, suggestion: RewriteSuggestion): string | null {
+  const { start, end } = suggestion.selection;
+  const at = content.slice(start, end) === suggestion.original ? start : content.indexOf(suggestion.original);
+  if (at < 0 || !suggestion.original) return null;
+  return content.slice(0, at) + suggestion.replacement + content.slice(at + suggestion.original.length);
+}
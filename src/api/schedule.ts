@@ -0,0 +1,43 @@
+import { ScheduledJob, ScheduleOutcome } from "../publishing";
+
+const backendUrl = process.env.EXPO_PUBLIC_BACKEND_URL;
+
+export interface ServerSchedule {
+  // Posts the backend will publish when they're due
+  pending: string[];
+  // Posts it has marked published and the app hasn't pushed and acknowledged yet
+  finished: ScheduleOutcome[];
+}
+
+async function request(path: string, init?: RequestInit) {
+  const response = await fetch(`${backendUrl}/api/schedule/${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    throw new Error(`Schedule API error: ${response.status} ${await response.text()}`);
+  }
+  return response.json();
+}
+
+// JSON turns the outcome's dates into strings
+function reviveSchedule(schedule: ServerSchedule): ServerSchedule {
+  return {
+    pending: schedule.pending,
+    finished: schedule.finished.map((outcome) => ({ ...outcome, publishedAt: new Date(outcome.publishedAt) })),
+  };
+}
+
+/** Replace what the backend holds for this install with `jobs`, and get back where it stands. */
+export async function sendSchedule(clientId: string, jobs: ScheduledJob[]): Promise<ServerSchedule> {
+  return reviveSchedule(await request(clientId, { method: "PUT", body: JSON.stringify({ jobs }) }));
+}
+
+export async function fetchSchedule(clientId: string): Promise<ServerSchedule> {
+  return reviveSchedule(await request(clientId));
+}
+
+/** Let the backend forget outcomes the app has applied. */
+export async function acknowledgeSchedule(clientId: string, postIds: string[]) {
+  await request(`${clientId}/acknowledge`, { method: "POST", body: JSON.stringify({ postIds }) });
+}
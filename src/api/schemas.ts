@@ -0,0 +1,115 @@
+import { s, Schema } from "../utils/schema";
+import { ContentOutline, SEOKeyword, SEOResearchData } from "./seo-research";
+import { GeneratedBlog } from "./blog-generator";
+import { TranslatedMetadata } from "./translation";
+import { ContentEdits } from "./content-suggestions";
+
+const priority = s.enum(["high", "medium", "low"] as const);
+const searchIntent = s.enum(["informational", "commercial", "transactional", "navigational"] as const);
+const score = s.number({ min: 0, max: 100 });
+
+const keywordSchema: Schema<SEOKeyword> = s.object({
+  keyword: s.string({ min: 1 }),
+  searchVolume: priority,
+  difficulty: s.enum(["easy", "medium", "hard"] as const),
+  intent: searchIntent,
+  relevanceScore: score,
+});
+
+const faqSchema = s.object({
+  question: s.string({ min: 1 }),
+  answer: s.string({ min: 1 }),
+});
+
+export const seoResearchSchema: Schema<SEOResearchData> = s.object({
+  primaryKeywords: s.array(keywordSchema, { min: 1 }),
+  secondaryKeywords: s.array(keywordSchema),
+  longTailKeywords: s.array(keywordSchema),
+  peopleAlsoAsk: s.array(
+    s.object({
+      question: s.string({ min: 1 }),
+      suggestedAnswer: s.string(),
+      relatedKeywords: s.array(s.string()),
+    }),
+  ),
+  relatedSearches: s.array(s.string()),
+  contentGaps: s.array(
+    s.object({
+      topic: s.string({ min: 1 }),
+      opportunity: s.string(),
+      priority,
+    }),
+  ),
+  searchIntent: s.object({
+    primary: searchIntent,
+    confidence: score,
+    reasoning: s.string(),
+  }),
+  competitorInsights: s.object({
+    commonTopics: s.array(s.string()),
+    missingAngles: s.array(s.string()),
+    contentLength: s.object({
+      min: s.number({ min: 0 }),
+      max: s.number({ min: 0 }),
+      recommended: s.number({ min: 0 }),
+    }),
+  }),
+  seoScore: s.object({
+    keywordOptimization: score,
+    contentStructure: score,
+    userIntent: score,
+    overall: score,
+  }),
+});
+
+export const contentOutlineSchema: Schema<ContentOutline> = s.object({
+  title: s.string({ min: 1 }),
+  metaDescription: s.string({ min: 1 }),
+  headings: s.array(
+    s.object({
+      level: s.number({ min: 1, max: 6, integer: true }),
+      text: s.string({ min: 1 }),
+      keywords: s.array(s.string()),
+      wordCount: s.number({ min: 0 }),
+    }),
+    { min: 1 },
+  ),
+  faqSection: s.array(faqSchema),
+  callToAction: s.string(),
+});
+
+// readingTime and wordCount are optional here because they are recomputed from the content when missing.
+export const generatedBlogSchema: Schema<
+  Omit<GeneratedBlog, "readingTime" | "wordCount"> & { readingTime?: number; wordCount?: number }
+> = s.object({
+  title: s.string({ min: 1 }),
+  metaDescription: s.string({ min: 1 }),
+  content: s.string({ min: 1 }),
+  keywords: s.array(s.string()),
+  headings: s.array(
+    s.object({
+      level: s.number({ min: 1, max: 6, integer: true }),
+      text: s.string({ min: 1 }),
+      anchor: s.string(),
+    }),
+  ),
+  faqSection: s.array(faqSchema).optional(),
+  seoScore: score,
+  readingTime: s.number({ min: 0 }).optional(),
+  wordCount: s.number({ min: 0 }).optional(),
+});
+
+export const translatedMetadataSchema: Schema<TranslatedMetadata> = s.object({
+  title: s.string({ min: 1 }),
+  metaDescription: s.string({ min: 1 }),
+  keywords: s.array(s.string({ min: 1 })),
+});
+
+export const contentEditsSchema: Schema<ContentEdits> = s.object({
+  edits: s.array(
+    s.object({
+      id: s.string({ min: 1 }),
+      replacement: s.string(),
+    }),
+  ),
+});
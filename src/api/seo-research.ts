@@ -1,8 +1,12 @@
-import { openAIChat } from "./openai";
-import { retryOpenAICall } from "../utils/retry";
+import { getAIRouter } from "./ai-router";
 import { logger } from "../utils/logger";
 import { LRUCache } from "../utils/lru-cache";
 import { sanitizeInput, validatePromptLength } from "../utils/sanitize";
+import { parseStructuredOutput } from "./structured-output";
+import { contentOutlineSchema, seoResearchSchema } from "./schemas";
+import { BrandVoiceProfile } from "../types/blog";
+import { brandVoicePrompt } from "../utils/brand-voice";
+import { getLocale, isDefaultLocale, languagePrompt } from "../utils/locale";
 
 export interface SEOKeyword {
   keyword: string;
@@ -47,8 +51,31 @@ export interface SEOResearchData {
     userIntent: number;
     overall: number;
   };
+  // True when the response could not be parsed and canned research was substituted
+  isFallback?: boolean;
+  // BCP 47 locale the keywords were researched in; unset means English
+  locale?: string;
 }
 
+export interface ContentOutline {
+  title: string;
+  metaDescription: string;
+  headings: Array<{
+    level: number;
+    text: string;
+    keywords: string[];
+    wordCount: number;
+  }>;
+  faqSection: Array<{
+    question: string;
+    answer: string;
+  }>;
+  callToAction: string;
+  isFallback?: boolean;
+}
+
+const KEYWORD_JSON = `{ "keyword": string, "searchVolume": "high" | "medium" | "low", "difficulty": "easy" | "medium" | "hard", "intent": "informational" | "commercial" | "transactional" | "navigational", "relevanceScore": number (0-100) }`;
+
 // In-memory cache and request coalescing to minimize API calls
 const RESEARCH_TTL_MS = 24 * 60 * 60 * 1000; // 24h
 const researchCacheMem = new LRUCache<string, { data: SEOResearchData; expiresAt: number }>(50);
@@ -58,10 +85,19 @@ function normalizeTopic(t: string) {
   return t.trim().toLowerCase().replace(/\s+/g, " ");
 }
 
-export async function conductSEOResearch(topic: string): Promise<SEOResearchData> {
+export interface SEOResearchOptions {
+  // Focuses keyword and question research on the profile's audience persona
+  brandVoice?: BrandVoiceProfile;
+  // BCP 47 locale to research and write in, e.g. "de-DE"; defaults to English
+  locale?: string;
+}
+
+export async function conductSEOResearch(topic: string, options: SEOResearchOptions = {}): Promise<SEOResearchData> {
   const sanitizedTopic = sanitizeInput(topic);
   validatePromptLength(sanitizedTopic);
-  const key = normalizeTopic(sanitizedTopic);
+  const { brandVoice } = options;
+  const locale = isDefaultLocale(options.locale) ? undefined : getLocale(options.locale).code;
+  const key = [normalizeTopic(sanitizedTopic), brandVoice?.id, locale].filter(Boolean).join("::");
 
   // Memory cache check
   const cached = researchCacheMem.get(key);
@@ -77,7 +113,12 @@ export async function conductSEOResearch(topic: string): Promise<SEOResearchData
     const prompt = `You are an expert SEO researcher and digital marketing strategist. Conduct comprehensive SEO research for the following topic and provide detailed insights.
 
 Topic: "${topic}"
-
+${brandVoice ? `
+Target audience: ${brandVoice.audiencePersona}
+Prioritize keywords, questions and content gaps that this audience actually searches for.
+` : ""}${locale ? `
+Research the ${getLocale(locale).name}-language search market (${locale}). Every keyword, question, answer and related search must be written in ${getLocale(locale).name} as native speakers type it into a search engine.
+` : ""}
 Please analyze and provide:
 
 1. PRIMARY KEYWORDS (3-5 main keywords):
@@ -125,21 +166,32 @@ Please analyze and provide:
    - User intent alignment
    - Overall SEO potential
 
-Format your response as a detailed JSON object that matches the TypeScript interfaces. Be specific and actionable in your recommendations. Focus on 2024-2025 SEO best practices including E-E-A-T, user experience signals, and semantic search optimization.`;
+Format your response as a single JSON object with exactly this structure:
+{
+  "primaryKeywords": [${KEYWORD_JSON}],
+  "secondaryKeywords": [${KEYWORD_JSON}],
+  "longTailKeywords": [${KEYWORD_JSON}],
+  "peopleAlsoAsk": [{ "question": string, "suggestedAnswer": string, "relatedKeywords": string[] }],
+  "relatedSearches": string[],
+  "contentGaps": [{ "topic": string, "opportunity": string, "priority": "high" | "medium" | "low" }],
+  "searchIntent": { "primary": "informational" | "commercial" | "transactional" | "navigational", "confidence": number (0-100), "reasoning": string },
+  "competitorInsights": { "commonTopics": string[], "missingAngles": string[], "contentLength": { "min": number, "max": number, "recommended": number } },
+  "seoScore": { "keywordOptimization": number, "contentStructure": number, "userIntent": number, "overall": number }
+}
+
+Be specific and actionable in your recommendations. Focus on 2024-2025 SEO best practices including E-E-A-T, user experience signals, and semantic search optimization.`;
 
     try {
-      const response = await retryOpenAICall(() =>
-        openAIChat(
-          [
-            {
-              role: "system",
-              content:
-                "You are an expert SEO researcher who provides comprehensive, actionable SEO insights based on current Google algorithm requirements and best practices. Always respond with valid JSON that matches the requested TypeScript interfaces.",
-            },
-            { role: "user", content: prompt },
-          ],
-          { model: "gpt-4o-2024-11-20", maxTokens: 4000, temperature: 0.3 },
-        ),
+      const response = await getAIRouter("research").chat(
+        [
+          {
+            role: "system",
+            content:
+              "You are an expert SEO researcher who provides comprehensive, actionable SEO insights based on current Google algorithm requirements and best practices. Always respond with valid JSON that matches the requested TypeScript interfaces.",
+          },
+          { role: "user", content: prompt },
+        ],
+        { maxTokens: 4000, temperature: 0.3 },
       );
 
       const content = response.content;
@@ -148,18 +200,17 @@ Format your response as a detailed JSON object that matches the TypeScript inter
       }
   
       try {
-        // Try to parse the JSON response
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-          throw new Error("No JSON found in response");
-        }
-        
-        const researchData = JSON.parse(jsonMatch[0]) as SEOResearchData;
-        return researchData;
+        const research = await parseStructuredOutput(content, seoResearchSchema, {
+          task: "research",
+          label: "SEO research",
+          maxTokens: 4000,
+        });
+        return locale ? { ...research, locale } : research;
       } catch (parseError) {
         logger.error("Failed to parse SEO research JSON:", parseError);
         // Return fallback data structure
-        return createFallbackSEOData(sanitizedTopic);
+        const fallback = createFallbackSEOData(sanitizedTopic);
+        return locale ? { ...fallback, locale } : fallback;
       }
     } catch (error) {
       logger.error("Error conducting SEO research:", error);
@@ -170,7 +221,10 @@ Format your response as a detailed JSON object that matches the TypeScript inter
   inFlightResearch.set(key, task);
   try {
     const result = await task;
-    researchCacheMem.set(key, { data: result, expiresAt: Date.now() + RESEARCH_TTL_MS });
+    // Don't cache canned fallbacks so a retry gets another chance at a real response
+    if (!result.isFallback) {
+      researchCacheMem.set(key, { data: result, expiresAt: Date.now() + RESEARCH_TTL_MS });
+    }
     return result;
   } finally {
     inFlightResearch.delete(key);
@@ -261,28 +315,16 @@ function createFallbackSEOData(topic: string): SEOResearchData {
       contentStructure: 80,
       userIntent: 85,
       overall: 80
-    }
+    },
+    isFallback: true,
   };
 }
 
 export async function generateContentOutline(
   topic: string,
-  researchData: SEOResearchData
-): Promise<{
-  title: string;
-  metaDescription: string;
-  headings: Array<{
-    level: number;
-    text: string;
-    keywords: string[];
-    wordCount: number;
-  }>;
-  faqSection: Array<{
-    question: string;
-    answer: string;
-  }>;
-  callToAction: string;
-}> {
+  researchData: SEOResearchData,
+  options: SEOResearchOptions = {}
+): Promise<ContentOutline> {
   const sanitizedTopic = sanitizeInput(topic);
   validatePromptLength(sanitizedTopic);
 
@@ -293,7 +335,7 @@ SEO Research Data:
 - People Also Ask: ${researchData.peopleAlsoAsk.map(p => p.question).join(", ")}
 - Search Intent: ${researchData.searchIntent.primary}
 - Recommended Length: ${researchData.competitorInsights.contentLength.recommended} words
-
+${options.brandVoice ? `\n${brandVoicePrompt(options.brandVoice)}\nWrite the title, headings, FAQ answers and call-to-action in this voice.\n` : ""}${languagePrompt(options.locale) ? `\n${languagePrompt(options.locale)}\n` : ""}
 Create:
 1. SEO-optimized title (include primary keyword, under 60 characters)
 2. Meta description (150-160 characters, compelling, includes primary keyword)
@@ -301,20 +343,25 @@ Create:
 4. FAQ section based on People Also Ask questions
 5. Strong call-to-action that aligns with search intent
 
-Format as JSON matching the TypeScript interface.`;
+Format as a single JSON object with exactly this structure:
+{
+  "title": string,
+  "metaDescription": string,
+  "headings": [{ "level": number (1-6), "text": string, "keywords": string[], "wordCount": number }],
+  "faqSection": [{ "question": string, "answer": string }],
+  "callToAction": string
+}`;
 
   try {
-    const response = await retryOpenAICall(() =>
-      openAIChat(
-        [
-          {
-            role: "system",
-            content: "You are an expert content strategist who creates SEO-optimized content outlines. Always respond with valid JSON.",
-          },
-          { role: "user", content: prompt },
-        ],
-        { model: "gpt-4o-2024-11-20", maxTokens: 2000, temperature: 0.3 },
-      ),
+    const response = await getAIRouter("outline").chat(
+      [
+        {
+          role: "system",
+          content: "You are an expert content strategist who creates SEO-optimized content outlines. Always respond with valid JSON.",
+        },
+        { role: "user", content: prompt },
+      ],
+      { maxTokens: 2000, temperature: 0.3 },
     );
 
     const content = response.content;
@@ -322,12 +369,11 @@ Format as JSON matching the TypeScript interface.`;
       throw new Error("No content outline generated");
     }
 
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("No JSON found in response");
-    }
-    
-    return JSON.parse(jsonMatch[0]);
+    return await parseStructuredOutput(content, contentOutlineSchema, {
+      task: "outline",
+      label: "Content outline",
+      maxTokens: 2000,
+    });
   } catch (error) {
     logger.error("Error generating content outline:", error);
     // Return fallback outline
@@ -358,7 +404,8 @@ Format as JSON matching the TypeScript interface.`;
         question: paa.question,
         answer: paa.suggestedAnswer
       })),
-      callToAction: `Ready to master ${topic}? Start implementing these strategies today and see the results for yourself!`
+      callToAction: `Ready to master ${topic}? Start implementing these strategies today and see the results for yourself!`,
+      isFallback: true,
     };
   }
 }
\ No newline at end of file
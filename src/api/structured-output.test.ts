@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+const chat = vi.fn();
+vi.mock("./ai-router", () => ({ getAIRouter: () => ({ chat }) }));
+
+import { parseStructuredOutput, StructuredOutputError } from "./structured-output";
+import { s } from "../utils/schema";
+
+const schema = s.object({ title: s.string({ min: 1 }), score: s.number() });
+const options = { task: "research" as const, label: "Research" };
+
+describe("parseStructuredOutput", () => {
+  beforeEach(() => chat.mockReset());
+
+  test("returns valid output without asking for a repair", async () => {
+    await expect(parseStructuredOutput('```json\n{"title": "Cold brew", "score": "82"}\n```', schema, options))
+      .resolves.toEqual({ title: "Cold brew", score: 82 });
+    expect(chat).not.toHaveBeenCalled();
+  });
+
+  test("sends invalid JSON back with its errors and uses the repaired object", async () => {
+    chat.mockResolvedValue({ content: '{"title": "Cold brew", "score": 82}' });
+
+    const parsed = await parseStructuredOutput('{"title": "Cold brew", "score": ', schema, options);
+
+    expect(parsed).toEqual({ title: "Cold brew", score: 82 });
+    expect(chat).toHaveBeenCalledTimes(1);
+    const prompt = chat.mock.calls[0][0][1].content as string;
+    expect(prompt).toContain("- value: invalid JSON");
+    expect(prompt).toContain('{"title": "Cold brew", "score": ');
+  });
+
+  test("throws with the remaining issues when the repair is still invalid", async () => {
+    chat.mockResolvedValue({ content: '{"title": ""}' });
+
+    const error = await parseStructuredOutput("not json", schema, options).catch((e) => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.issues.map((issue: { path: string }) => issue.path)).toEqual(["title", "score"]);
+  });
+});
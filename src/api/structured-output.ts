@@ -0,0 +1,88 @@
+import { getAIRouter, AITask } from "./ai-router";
+import { logger } from "../utils/logger";
+import { Schema, SchemaIssue, ValidationResult, formatIssues } from "../utils/schema";
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public issues: SchemaIssue[],
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * Pull the JSON object out of a model response, tolerating markdown code
+ * fences and prose before or after the object.
+ */
+export function extractJson(content: string): unknown {
+  const unfenced = content.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "").trim();
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    const start = unfenced.indexOf("{");
+    const end = unfenced.lastIndexOf("}");
+    if (start === -1 || end <= start) {
+      throw new SyntaxError("No JSON object found in response");
+    }
+    return JSON.parse(unfenced.slice(start, end + 1));
+  }
+}
+
+function validateContent<T>(content: string, schema: Schema<T>): ValidationResult<T> {
+  let json: unknown;
+  try {
+    json = extractJson(content);
+  } catch (error) {
+    return { success: false, issues: [{ path: "value", message: `invalid JSON: ${(error as Error).message}` }] };
+  }
+  return schema.validate(json);
+}
+
+/**
+ * Validate a model's JSON response against a schema. If it does not match,
+ * send the response and the field-level errors back to the model once and ask
+ * for a corrected object. Throws StructuredOutputError if the repaired output
+ * is still invalid.
+ */
+export async function parseStructuredOutput<T>(
+  content: string,
+  schema: Schema<T>,
+  options: { task: AITask; label: string; maxTokens?: number },
+): Promise<T> {
+  const first = validateContent(content, schema);
+  if (first.success) return first.data;
+
+  logger.warn(`${options.label} failed validation, requesting repair:`, formatIssues(first.issues));
+
+  const repair = await getAIRouter(options.task).chat(
+    [
+      {
+        role: "system",
+        content:
+          "You repair JSON documents. Respond with only the corrected JSON object: no markdown fences, no commentary.",
+      },
+      {
+        role: "user",
+        content: `The JSON below does not match the required structure.
+
+Validation errors:
+${formatIssues(first.issues)}
+
+Fix every error while keeping all valid content unchanged. If the document was cut off, complete it.
+
+${content}`,
+      },
+    ],
+    { maxTokens: options.maxTokens ?? 4000, temperature: 0 },
+  );
+
+  const second = validateContent(repair.content, schema);
+  if (second.success) return second.data;
+
+  throw new StructuredOutputError(
+    `${options.label} did not match the expected structure:\n${formatIssues(second.issues)}`,
+    second.issues,
+  );
+}
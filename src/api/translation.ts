@@ -0,0 +1,112 @@
+import { getAIRouter } from "./ai-router";
+import { parseStructuredOutput } from "./structured-output";
+import { translatedMetadataSchema } from "./schemas";
+import { getLocale } from "../utils/locale";
+import { AIProvider } from "../types/ai";
+import { BlogPost } from "../types/blog";
+
+export interface TranslatedMetadata {
+  title: string;
+  metaDescription: string;
+  keywords: string[];
+}
+
+export interface TranslatedPost extends TranslatedMetadata {
+  content: string;
+  locale: string;
+  provider?: AIProvider;
+  model?: string;
+}
+
+export interface TranslationHandlers {
+  // Markdown translated so far and an estimated 0-100 completion
+  onProgress?: (update: { content: string; progress: number }) => void;
+}
+
+/**
+ * Translate a post into another language. The article body is streamed as
+ * plain markdown; the title, meta description and keywords are translated in a
+ * separate structured request so a long body can't break the JSON.
+ */
+export async function translateBlogPost(
+  post: BlogPost,
+  targetLocale: string,
+  handlers: TranslationHandlers = {},
+): Promise<TranslatedPost> {
+  const source = getLocale(post.locale);
+  const target = getLocale(targetLocale);
+  if (source.code === target.code) {
+    throw new Error(`"${post.title}" is already in ${target.name}`);
+  }
+
+  const localize = `Translate from ${source.name} (${source.code}) into ${target.name} (${target.code}) for native ${target.name} readers. Localize idioms, examples, units and currencies instead of translating word for word, and use the terms ${target.name} speakers actually search for.`;
+
+  const metadataResponse = await getAIRouter("blog").chat(
+    [
+      {
+        role: "system",
+        content: "You are a professional SEO translator. Always respond with valid JSON.",
+      },
+      {
+        role: "user",
+        content: `${localize}
+
+Keep the title under 60 characters and the meta description at 150-160 characters. Translate each keyword into the phrase people search for in ${target.name}.
+
+${JSON.stringify({ title: post.title, metaDescription: post.metaDescription, keywords: post.keywords }, null, 2)}
+
+Respond with a single JSON object with exactly this structure:
+{ "title": string, "metaDescription": string, "keywords": string[] }`,
+      },
+    ],
+    { maxTokens: 1000, temperature: 0.3 },
+  );
+  const metadata = await parseStructuredOutput(metadataResponse.content, translatedMetadataSchema, {
+    task: "blog",
+    label: "Translated metadata",
+    maxTokens: 1000,
+  });
+
+  // Non-Latin scripts need noticeably more tokens per word than English
+  const maxTokens = Math.min(Math.max(post.wordCount * 3, 4000), 16000);
+  const expectedTokens = Math.min(Math.round(post.wordCount * 2), maxTokens);
+  const contentResponse = await getAIRouter("blog").chatStream(
+    [
+      {
+        role: "system",
+        content:
+          "You are a professional SEO translator. Respond with the translated markdown only: no commentary and no code fences.",
+      },
+      {
+        role: "user",
+        content: `${localize}
+
+Translate the markdown article below. Keep the markdown structure exactly: the same headings at the same levels, lists, links and emphasis. Leave URLs and code untouched.
+
+${post.content}`,
+      },
+    ],
+    { maxTokens, temperature: 0.3 },
+    {
+      onChunk: ({ content, completionTokens }) => {
+        handlers.onProgress?.({
+          content,
+          progress: Math.min(99, Math.round((completionTokens / expectedTokens) * 100)),
+        });
+      },
+    },
+  );
+
+  const content = contentResponse.content.replace(/^\s*```(?:markdown|md)?\s*/i, "").replace(/\s*```\s*$/, "").trim();
+  if (!content) {
+    throw new Error("No translation generated");
+  }
+
+  return {
+    ...metadata,
+    content,
+    locale: target.code,
+    provider: contentResponse.provider,
+    model: contentResponse.model,
+  };
+}
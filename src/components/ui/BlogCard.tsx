@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useMemo } from "react";
 import { View, Text, Pressable } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import Animated, {
@@ -10,7 +10,11 @@ import { formatDistanceToNow } from "date-fns";
 
 import { BlogPost } from "../../types/blog";
 import GlassCard from "./GlassCard";
+import HighlightedText from "./HighlightedText";
 import { cn } from "../../utils/cn";
+import { stripMarkdown } from "../../utils/markdown";
+import { highlight, SearchQuery, snippet } from "../../utils/search";
+import { STATUS_LABELS } from "../../utils/workflow";
 
 interface BlogCardProps {
   blog: BlogPost;
@@ -19,6 +23,8 @@ interface BlogCardProps {
   onDelete: () => void;
   onToggleFavorite: () => void;
   showActions?: boolean;
+  // Search the card was found by; its matches are highlighted and shown in context
+  query?: SearchQuery;
 }
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
@@ -30,9 +36,18 @@ export default function BlogCard({
   onDelete,
   onToggleFavorite,
   showActions = true,
+  query,
 }: BlogCardProps) {
   const scale = useSharedValue(1);
 
+  const matches = useMemo(() => {
+    if (!query?.clauses.length) return null;
+    return {
+      title: highlight(blog.title, query),
+      excerpt: snippet(stripMarkdown(blog.content), query),
+    };
+  }, [query, blog.title, blog.content]);
+
   const animatedStyle = useAnimatedStyle(() => ({
     transform: [{ scale: scale.value }],
   }));
@@ -51,6 +66,14 @@ export default function BlogCard({
         return "text-green-600";
       case "draft":
         return "text-yellow-600";
+      case "in-review":
+        return "text-purple-600";
+      case "changes-requested":
+        return "text-red-600";
+      case "approved":
+        return "text-teal-600";
+      case "scheduled":
+        return "text-blue-600";
       case "archived":
         return "text-gray-500";
       default:
@@ -64,6 +87,14 @@ export default function BlogCard({
         return "checkmark-circle";
       case "draft":
         return "create-outline";
+      case "in-review":
+        return "eye-outline";
+      case "changes-requested":
+        return "chatbubble-ellipses-outline";
+      case "approved":
+        return "thumbs-up-outline";
+      case "scheduled":
+        return "time-outline";
       case "archived":
         return "archive-outline";
       default:
@@ -102,12 +133,27 @@ export default function BlogCard({
         {/* Header */}
         <View className="flex-row items-start justify-between mb-3">
           <View className="flex-1 mr-3">
-            <Text className="text-lg font-bold text-gray-900 mb-1" numberOfLines={2}>
-              {blog.title}
-            </Text>
+            {matches ? (
+              <HighlightedText
+                segments={matches.title}
+                className="text-lg font-bold text-gray-900 mb-1"
+                numberOfLines={2}
+              />
+            ) : (
+              <Text className="text-lg font-bold text-gray-900 mb-1" numberOfLines={2}>
+                {blog.title}
+              </Text>
+            )}
             <Text className="text-sm text-gray-600 mb-2" numberOfLines={1}>
               {blog.topic}
             </Text>
+            {matches?.excerpt && (
+              <HighlightedText
+                segments={matches.excerpt}
+                className="text-sm text-gray-700 leading-relaxed mb-2"
+                numberOfLines={3}
+              />
+            )}
           </View>
           
           {/* Favorite Button */}
@@ -164,8 +210,8 @@ export default function BlogCard({
               size={14}
               color="#6b7280"
             />
-            <Text className={cn("text-xs font-medium ml-1 capitalize", getStatusColor(blog.status))}>
-              {blog.status}
+            <Text className={cn("text-xs font-medium ml-1", getStatusColor(blog.status))}>
+              {STATUS_LABELS[blog.status]}
             </Text>
           </View>
         </View>
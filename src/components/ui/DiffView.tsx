@@ -0,0 +1,28 @@
+import React from "react";
+import { Text } from "react-native";
+import { DiffSegment } from "../../utils/diff";
+
+interface DiffViewProps {
+  segments: DiffSegment[];
+  className?: string;
+}
+
+// Inline diff: removed text struck through in red, added text highlighted in green
+export default function DiffView({ segments, className }: DiffViewProps) {
+  return (
+    <Text className={className ?? "text-sm text-gray-800 leading-relaxed"}>
+      {segments.map((segment, index) =>
+        segment.type === "equal" ? (
+          <Text key={index}>{segment.text}</Text>
+        ) : (
+          <Text
+            key={index}
+            className={segment.type === "delete" ? "bg-red-100 text-red-700 line-through" : "bg-green-100 text-green-800"}
+          >
+            {segment.text}
+          </Text>
+        )
+      )}
+    </Text>
+  );
+}
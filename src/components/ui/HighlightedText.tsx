@@ -0,0 +1,26 @@
+import React from "react";
+import { Text } from "react-native";
+import { HighlightSegment } from "../../utils/search";
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+  className?: string;
+  numberOfLines?: number;
+}
+
+// Text with the words a search matched marked in yellow
+export default function HighlightedText({ segments, className, numberOfLines }: HighlightedTextProps) {
+  return (
+    <Text className={className} numberOfLines={numberOfLines}>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <Text key={index} className="bg-yellow-200 text-gray-900">
+            {segment.text}
+          </Text>
+        ) : (
+          <Text key={index}>{segment.text}</Text>
+        )
+      )}
+    </Text>
+  );
+}
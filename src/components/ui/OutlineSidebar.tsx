@@ -0,0 +1,112 @@
+import React from "react";
+import { View, Text, Pressable, ScrollView } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import Animated, { FadeIn, FadeOut, SlideInRight, SlideOutRight } from "react-native-reanimated";
+import { StructureReport } from "../../types/blog";
+import { cn } from "../../utils/cn";
+
+interface OutlineSidebarProps {
+  visible: boolean;
+  structure: StructureReport;
+  // Called with the character offset of the heading or image tapped
+  onSelect: (offset: number) => void;
+  onClose: () => void;
+}
+
+// Slide-over outline of the post's headings, with structure problems marked where they occur
+export default function OutlineSidebar({ visible, structure, onSelect, onClose }: OutlineSidebarProps) {
+  if (!visible) return null;
+
+  const counts = [
+    { label: "Paragraphs", value: structure.paragraphCount },
+    { label: "Lists", value: structure.listCount },
+    { label: "Tables", value: structure.tableCount },
+    { label: "Code blocks", value: structure.codeBlockCount },
+    { label: "Images", value: structure.imageCount },
+    { label: "Internal links", value: structure.internalLinks },
+    { label: "External links", value: structure.externalLinks },
+  ];
+
+  return (
+    <View className="absolute inset-0 flex-row">
+      <Animated.View entering={FadeIn} exiting={FadeOut} className="flex-1 bg-black/30">
+        <Pressable className="flex-1" onPress={onClose} accessibilityLabel="Close outline" />
+      </Animated.View>
+
+      <Animated.View
+        entering={SlideInRight}
+        exiting={SlideOutRight}
+        className="w-4/5 max-w-sm bg-white/95 pt-16 px-5"
+      >
+        <View className="flex-row items-center justify-between mb-4">
+          <Text className="text-xl font-bold text-gray-900">Outline</Text>
+          <Pressable onPress={onClose} hitSlop={8}>
+            <Ionicons name="close" size={22} color="#374151" />
+          </Pressable>
+        </View>
+
+        <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 40 }}>
+          {structure.outline.length === 0 ? (
+            <Text className="text-sm text-gray-600 mb-4">No headings yet. Start sections with # or ##.</Text>
+          ) : (
+            structure.outline.map((heading, index) => {
+              const extraH1 = heading.level === 1 && structure.outline.findIndex((h) => h.level === 1) !== index;
+              const problem = extraH1
+                ? "More than one H1"
+                : heading.skippedFrom !== undefined
+                  ? `Skips from H${heading.skippedFrom}`
+                  : null;
+              return (
+                <Pressable
+                  key={`${heading.offset}-${heading.anchor}`}
+                  onPress={() => onSelect(heading.offset)}
+                  className="py-2 border-b border-gray-100"
+                  style={{ paddingLeft: (heading.level - 1) * 12 }}
+                >
+                  <View className="flex-row items-center">
+                    <Text className="text-xs font-semibold text-gray-400 w-7">H{heading.level}</Text>
+                    <Text
+                      className={cn("flex-1 text-sm", heading.level <= 2 ? "font-semibold text-gray-900" : "text-gray-700")}
+                      numberOfLines={2}
+                    >
+                      {heading.text}
+                    </Text>
+                  </View>
+                  {problem && (
+                    <View className="flex-row items-center mt-1 ml-7">
+                      <Ionicons name="warning" size={12} color="#f59e0b" />
+                      <Text className="text-xs text-amber-600 ml-1">{problem}</Text>
+                    </View>
+                  )}
+                </Pressable>
+              );
+            })
+          )}
+
+          {structure.imagesMissingAlt.length > 0 && (
+            <View className="mt-4">
+              <Text className="text-sm font-semibold text-gray-700 mb-2">Images without alt text</Text>
+              {structure.imagesMissingAlt.map((image, index) => (
+                <Pressable key={`${image.offset}-${index}`} onPress={() => onSelect(image.offset)} className="py-1">
+                  <Text className="text-sm text-blue-600" numberOfLines={1}>
+                    {image.url || "(no source)"}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+
+          <View className="mt-4">
+            <Text className="text-sm font-semibold text-gray-700 mb-2">Blocks</Text>
+            {counts.map((count) => (
+              <View key={count.label} className="flex-row justify-between mb-1">
+                <Text className="text-sm text-gray-600">{count.label}</Text>
+                <Text className="text-sm font-medium text-gray-900">{count.value}</Text>
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      </Animated.View>
+    </View>
+  );
+}
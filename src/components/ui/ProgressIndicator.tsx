@@ -221,17 +221,32 @@ export default function ProgressIndicator({
         borderRadius={16}
         padding={16}
       >
-        <Text className="text-lg font-semibold text-gray-900 mb-4">
+        <Text className={cn("text-lg font-semibold text-gray-900", subtitle ? "mb-1" : "mb-4")}>
           {title}
         </Text>
 
+        {subtitle && (
+          <Text className="text-sm text-gray-600 mb-4">
+            {subtitle}
+          </Text>
+        )}
+
         <View className="space-y-3">
           {steps.map((step, index) => (
             <View key={index} className="flex-row items-center">
-              <View className={cn(
-                "w-6 h-6 rounded-full items-center justify-center mr-3",
-                index < currentStep ? colors.primary : index === currentStep ? colors.secondary : "bg-gray-200"
-              )}>
+              <View
+                className={cn(
+                  "w-6 h-6 rounded-full items-center justify-center mr-3",
+                  index > currentStep && "bg-gray-200"
+                )}
+                style={
+                  index < currentStep
+                    ? { backgroundColor: colors.primary }
+                    : index === currentStep
+                      ? { backgroundColor: colors.secondary }
+                      : undefined
+                }
+              >
                 {index < currentStep ? (
                   <Ionicons name="checkmark" size={14} color="white" />
                 ) : (
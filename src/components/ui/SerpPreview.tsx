@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, Pressable, ScrollView, Platform } from "react-native";
+import { SERP_LAYOUTS, SerpDevice, serpSnippet, TruncatedText } from "../../seo/serp";
+import { cn } from "../../utils/cn";
+
+interface SerpPreviewProps {
+  title: string;
+  description: string;
+  url: string;
+}
+
+// Google renders results in Arial; Android's default sans-serif has near-identical widths
+const RESULT_FONT = Platform.select({ ios: "Arial", default: undefined });
+
+function WidthMeter({ label, field }: { label: string; field: TruncatedText }) {
+  const share = field.maxWidth > 0 ? Math.min(1, field.width / field.maxWidth) : 0;
+  const barColor = field.truncated ? "bg-red-500" : share > 0.9 ? "bg-amber-500" : "bg-green-500";
+  return (
+    <View className="mb-3">
+      <View className="flex-row justify-between mb-1">
+        <Text className="text-xs font-semibold text-gray-700">{label}</Text>
+        <Text className={cn("text-xs", field.truncated ? "text-red-600" : "text-gray-500")}>
+          {field.width}px / {field.maxWidth}px
+        </Text>
+      </View>
+      <View className="h-1.5 rounded-full bg-gray-200 overflow-hidden">
+        <View className={cn("h-1.5 rounded-full", barColor)} style={{ width: `${share * 100}%` }} />
+      </View>
+      {field.truncated && (
+        <Text className="text-xs text-gray-600 mt-1">
+          {field.source.slice(0, field.cutIndex)}
+          <Text className="text-red-600 line-through">{field.source.slice(field.cutIndex)}</Text>
+        </Text>
+      )}
+    </View>
+  );
+}
+
+// A Google result for the post at the real pixel sizes, with where the title and description get cut off
+export default function SerpPreview({ title, description, url }: SerpPreviewProps) {
+  const [device, setDevice] = useState<SerpDevice>("desktop");
+  const snippet = useMemo(() => serpSnippet({ title, description, url }, device), [title, description, url, device]);
+  const [host = "", ...path] = snippet.breadcrumb;
+
+  return (
+    <View>
+      <View className="flex-row gap-2 mb-3">
+        {(["desktop", "mobile"] as const).map((d) => (
+          <Pressable
+            key={d}
+            onPress={() => setDevice(d)}
+            className={cn("px-3 py-1 rounded-full", device === d ? "bg-blue-500" : "bg-gray-200")}
+          >
+            <Text className={cn("text-sm", device === d ? "text-white" : "text-gray-700")}>
+              {d === "desktop" ? "Desktop" : "Mobile"}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {/* Drawn at Google's own column width; scroll sideways on narrow screens */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+        <View
+          className="bg-white rounded-xl border border-gray-200 p-3"
+          style={{ width: SERP_LAYOUTS[device].lineWidth + 24 }}
+        >
+          <View className="flex-row items-center mb-1">
+            <View className="w-7 h-7 rounded-full bg-gray-100 items-center justify-center mr-2">
+              <Text className="text-xs font-semibold text-gray-600">{host.charAt(0).toUpperCase()}</Text>
+            </View>
+            <View className="flex-1">
+              <Text style={{ fontFamily: RESULT_FONT, fontSize: 14, color: "#202124" }} numberOfLines={1}>
+                {host}
+              </Text>
+              <Text style={{ fontFamily: RESULT_FONT, fontSize: 12, color: "#4d5156" }} numberOfLines={1}>
+                {[host, ...path].join(" › ")}
+              </Text>
+            </View>
+          </View>
+          <Text style={{ fontFamily: RESULT_FONT, fontSize: 20, lineHeight: 26, color: "#1a0dab" }}>
+            {snippet.title.text || "Untitled post"}
+          </Text>
+          <Text style={{ fontFamily: RESULT_FONT, fontSize: 14, lineHeight: 22, color: "#4d5156" }}>
+            {snippet.description.text || "Add a meta description, or Google will pick text from the page."}
+          </Text>
+        </View>
+      </ScrollView>
+
+      <WidthMeter label="Title" field={snippet.title} />
+      <WidthMeter label="Description" field={snippet.description} />
+    </View>
+  );
+}
@@ -0,0 +1,78 @@
+import React from "react";
+import { View, Text } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { ContentSuggestion } from "../../types/blog";
+import { diffWords } from "../../utils/diff";
+import { cn } from "../../utils/cn";
+import GlassButton from "./GlassButton";
+import DiffView from "./DiffView";
+
+interface SuggestionListProps {
+  suggestions: ContentSuggestion[];
+  // Ids of suggestions applied to the draft that can still be undone
+  applied: string[];
+  onApply: (suggestion: ContentSuggestion) => void;
+  onUndo: (suggestion: ContentSuggestion) => void;
+}
+
+const IMPACT_STYLES: Record<ContentSuggestion["impact"], string> = {
+  high: "bg-red-100 text-red-700",
+  medium: "bg-amber-100 text-amber-700",
+  low: "bg-gray-100 text-gray-600",
+};
+
+const FIELD_LABELS = { title: "Title", metaDescription: "Meta description", content: "Content" };
+
+// Ranked suggestions; ones with a patch show the edit as a diff and apply with one tap
+export default function SuggestionList({ suggestions, applied, onApply, onUndo }: SuggestionListProps) {
+  return (
+    <View>
+      {suggestions.map((suggestion) => {
+        const isApplied = applied.includes(suggestion.id);
+        return (
+          <View key={suggestion.id} className="py-3 border-b border-gray-100">
+            <View className="flex-row items-start">
+              <Text className="flex-1 text-sm font-semibold text-gray-900">{suggestion.title}</Text>
+              <Text className={cn("text-xs px-2 py-0.5 rounded-full ml-2", IMPACT_STYLES[suggestion.impact])}>
+                {suggestion.impact} impact • {suggestion.effort}
+              </Text>
+            </View>
+            {!!suggestion.description && (
+              <Text className="text-sm text-gray-600 mt-1" numberOfLines={3}>
+                {suggestion.description}
+              </Text>
+            )}
+            {suggestion.patch && (
+              <View className="mt-2 bg-gray-50 rounded-lg p-2">
+                <Text className="text-xs font-semibold text-gray-500 mb-1">{FIELD_LABELS[suggestion.patch.field]}</Text>
+                <DiffView
+                  segments={diffWords(suggestion.patch.original, suggestion.patch.replacement)}
+                  className="text-sm text-gray-800"
+                />
+              </View>
+            )}
+            {suggestion.patch && (
+              <View className="flex-row items-center justify-between mt-2">
+                {isApplied ? (
+                  <View className="flex-row items-center">
+                    <Ionicons name="checkmark-circle" size={14} color="#10b981" />
+                    <Text className="text-xs text-green-600 ml-1">Applied</Text>
+                  </View>
+                ) : (
+                  <View />
+                )}
+                <GlassButton
+                  title={isApplied ? "Undo" : "Apply"}
+                  onPress={() => (isApplied ? onUndo(suggestion) : onApply(suggestion))}
+                  variant={isApplied ? "secondary" : "primary"}
+                  size="small"
+                  icon={isApplied ? "arrow-undo-outline" : "checkmark-outline"}
+                />
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
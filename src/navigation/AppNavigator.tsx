@@ -13,8 +13,15 @@ import AnalyticsScreen from "../screens/AnalyticsScreen";
 import SettingsScreen from "../screens/SettingsScreen";
 import PreviewScreen from "../screens/PreviewScreen";
 import EditBlogScreen from "../screens/EditBlogScreen";
+import RevisionHistoryScreen from "../screens/RevisionHistoryScreen";
 import ResearchScreen from "../screens/ResearchScreen";
+import OutlineScreen from "../screens/OutlineScreen";
 import ImageGeneratorScreen from "../screens/ImageGeneratorScreen";
+import TemplatesScreen from "../screens/TemplatesScreen";
+import BrandVoicesScreen from "../screens/BrandVoicesScreen";
+import SiteExportScreen from "../screens/SiteExportScreen";
+import PublishingSitesScreen from "../screens/PublishingSitesScreen";
+import CalendarScreen from "../screens/CalendarScreen";
 
 // Tab Navigator Types
 export type TabParamList = {
@@ -26,16 +33,28 @@ export type TabParamList = {
 
 // Stack Navigator Types
 export type HomeStackParamList = {
-  Home: undefined;
+  Home: { generateFromOutline?: boolean } | undefined;
   Research: { topic: string };
-  Preview: { blogContent: string; topic: string; researchId?: string };
+  Outline: { topic: string };
+  Preview: {
+    blogContent: string;
+    topic: string;
+    blogId?: string;
+    researchId?: string;
+    isFallback?: boolean;
+    // Banned brand voice words found in the generated content
+    bannedWords?: string[];
+  };
   EditBlog: { blogId?: string; draft?: any };
+  RevisionHistory: { blogId: string };
   ImageGenerator: { topic: string; blogId?: string };
 };
 
 export type HistoryStackParamList = {
   History: undefined;
+  Calendar: undefined;
   EditBlog: { blogId: string };
+  RevisionHistory: { blogId: string };
   Preview: { blogContent: string; topic: string; blogId?: string };
 };
 
@@ -45,6 +64,10 @@ export type AnalyticsStackParamList = {
 
 export type SettingsStackParamList = {
   Settings: undefined;
+  Templates: undefined;
+  BrandVoices: undefined;
+  SiteExport: undefined;
+  PublishingSites: undefined;
 };
 
 const Tab = createBottomTabNavigator<TabParamList>();
@@ -88,6 +111,14 @@ function HomeStackNavigator() {
           presentation: "modal",
         }}
       />
+      <HomeStack.Screen
+        name="Outline"
+        component={OutlineScreen}
+        options={{
+          title: "Outline",
+          presentation: "modal",
+        }}
+      />
       <HomeStack.Screen
         name="Preview"
         component={PreviewScreen}
@@ -104,6 +135,14 @@ function HomeStackNavigator() {
           presentation: "modal",
         }}
       />
+      <HomeStack.Screen
+        name="RevisionHistory"
+        component={RevisionHistoryScreen}
+        options={{
+          title: "Revision History",
+          presentation: "modal",
+        }}
+      />
       <HomeStack.Screen
         name="ImageGenerator"
         component={ImageGeneratorScreen}
@@ -142,6 +181,13 @@ function HistoryStackNavigator() {
           headerLargeTitle: true,
         }}
       />
+      <HistoryStack.Screen
+        name="Calendar"
+        component={CalendarScreen}
+        options={{
+          title: "Calendar",
+        }}
+      />
       <HistoryStack.Screen
         name="EditBlog"
         component={EditBlogScreen}
@@ -150,6 +196,14 @@ function HistoryStackNavigator() {
           presentation: "modal",
         }}
       />
+      <HistoryStack.Screen
+        name="RevisionHistory"
+        component={RevisionHistoryScreen}
+        options={{
+          title: "Revision History",
+          presentation: "modal",
+        }}
+      />
       <HistoryStack.Screen
         name="Preview"
         component={PreviewScreen}
@@ -218,6 +272,34 @@ function SettingsStackNavigator() {
           headerLargeTitle: true,
         }}
       />
+      <SettingsStack.Screen
+        name="Templates"
+        component={TemplatesScreen}
+        options={{
+          title: "Templates",
+        }}
+      />
+      <SettingsStack.Screen
+        name="BrandVoices"
+        component={BrandVoicesScreen}
+        options={{
+          title: "Brand Voices",
+        }}
+      />
+      <SettingsStack.Screen
+        name="SiteExport"
+        component={SiteExportScreen}
+        options={{
+          title: "Static Site",
+        }}
+      />
+      <SettingsStack.Screen
+        name="PublishingSites"
+        component={PublishingSitesScreen}
+        options={{
+          title: "Publishing Sites",
+        }}
+      />
     </SettingsStack.Navigator>
   );
 }
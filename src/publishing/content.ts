@@ -0,0 +1,26 @@
+import { BlogPost } from "../types/blog";
+import { renderMarkdown } from "../utils/markdown-html";
+
+/** The post's body as HTML for platforms that show the title themselves, so a leading H1 is left out. */
+export function postHtml(post: BlogPost) {
+  const { html } = renderMarkdown(post.content, { headingLinks: false });
+  return html.replace(/^<h1[^>]*>[\s\S]*?<\/h1>\n?/, "");
+}
+
+/** Tags to send: the site's categories first, then the post's own, without repeats. */
+export function mergeTerms(...lists: string[][]) {
+  const seen = new Set<string>();
+  return lists.flat().filter((term) => {
+    const key = term.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** `text` cut at a word boundary to fit `max` characters. */
+export function truncate(text: string, max: number) {
+  if (text.length <= max) return text;
+  const cut = text.lastIndexOf(" ", max - 1);
+  return `${text.slice(0, cut > 0 ? cut : max - 1)}…`;
+}
@@ -0,0 +1,137 @@
+import { BlogPost, RemotePublication } from "../types/blog";
+import { hmacSha256 } from "../utils/sha256";
+import { mergeTerms, postHtml, truncate } from "./content";
+import { base64Url, downloadImage, multipart, PublishingError, requestJson, siteBase, utf8 } from "./http";
+import { GhostSite, PublishingAdapter } from "./types";
+
+// The parts of the Admin API's post object that are read back
+interface GhostPost {
+  id: string;
+  url: string;
+  status: string;
+  updated_at: string;
+}
+
+// Admin API tokens must expire within five minutes
+const TOKEN_LIFETIME_SECONDS = 300;
+// Ghost rejects longer custom excerpts
+const MAX_EXCERPT_LENGTH = 300;
+
+function api(site: GhostSite) {
+  return `${siteBase(site.url)}/ghost/api/admin`;
+}
+
+/** Short-lived JWT signed with the integration's secret, as the Admin API expects. */
+export function ghostToken(adminApiKey: string, now = Date.now()) {
+  const [id, secret] = adminApiKey.trim().split(":");
+  if (!id || !secret || !/^(?:[0-9a-f]{2})+$/i.test(secret)) {
+    throw new PublishingError("The Admin API key should look like <id>:<secret>, as shown on the integration page.");
+  }
+  const issuedAt = Math.floor(now / 1000);
+  const header = base64Url(utf8(JSON.stringify({ alg: "HS256", typ: "JWT", kid: id })));
+  const payload = base64Url(
+    utf8(JSON.stringify({ iat: issuedAt, exp: issuedAt + TOKEN_LIFETIME_SECONDS, aud: "/admin/" })),
+  );
+  const key = new Uint8Array(secret.match(/../g)!.map((byte) => parseInt(byte, 16)));
+  const signature = base64Url(hmacSha256(key, utf8(`${header}.${payload}`)));
+  return `${header}.${payload}.${signature}`;
+}
+
+function headers(site: GhostSite, extra: Record<string, string> = {}) {
+  return { Authorization: `Ghost ${ghostToken(site.adminApiKey)}`, "Accept-Version": "v5.0", ...extra };
+}
+
+async function uploadFeaturedImage(site: GhostSite, post: BlogPost, existing?: RemotePublication) {
+  if (!post.featuredImage) return undefined;
+  if (existing?.featuredImage?.source === post.featuredImage) return existing.featuredImage;
+  const image = await downloadImage(post.featuredImage);
+  const { body, contentType } = multipart({ purpose: "image", ref: image.name }, "file", image);
+  const uploaded = await requestJson<{ images: Array<{ url: string }> }>(`${api(site)}/images/upload/`, {
+    method: "POST",
+    headers: headers(site, { "Content-Type": contentType }),
+    body,
+  });
+  return { source: post.featuredImage, url: uploaded.images[0].url };
+}
+
+function toPublication(
+  site: GhostSite,
+  remote: GhostPost,
+  featuredImage?: RemotePublication["featuredImage"],
+): RemotePublication {
+  return {
+    siteId: site.id,
+    remoteId: remote.id,
+    url: remote.url,
+    remoteStatus: remote.status,
+    featuredImage,
+    syncedAt: new Date(),
+  };
+}
+
+async function readPost(site: GhostSite, remoteId: string) {
+  const { posts } = await requestJson<{ posts: GhostPost[] }>(`${api(site)}/posts/${remoteId}/`, {
+    headers: headers(site),
+  });
+  return posts[0];
+}
+
+export const ghost: PublishingAdapter<GhostSite> = {
+  platform: "ghost",
+  name: "Ghost",
+
+  verify: async (site) => {
+    const { site: info } = await requestJson<{ site: { title: string } }>(`${api(site)}/site/`, {
+      headers: headers(site),
+    });
+    return info.title;
+  },
+
+  publish: async (site, post, existing) => {
+    const featuredImage = await uploadFeaturedImage(site, post, existing);
+    const fields = {
+      title: post.title,
+      slug: post.slug || undefined,
+      html: postHtml(post),
+      custom_excerpt: truncate(post.metaDescription, MAX_EXCERPT_LENGTH) || null,
+      meta_description: post.metaDescription || null,
+      // Ghost has no categories; the first tag is the primary one themes show
+      tags: mergeTerms(site.categories, post.tags).map((name) => ({ name })),
+      feature_image: featuredImage?.url ?? null,
+      status: ghost.toRemoteStatus(post.status),
+      canonical_url: post.canonicalUrl || null,
+    };
+
+    if (existing) {
+      // Ghost refuses updates that don't quote the post's current updated_at
+      const current = await readPost(site, existing.remoteId).catch((error) => {
+        if (error instanceof PublishingError && error.statusCode === 404) return undefined;
+        throw error;
+      });
+      if (current) {
+        const url = `${api(site)}/posts/${current.id}/?source=html`;
+        const { posts } = await requestJson<{ posts: GhostPost[] }>(url, {
+          method: "PUT",
+          headers: headers(site, { "Content-Type": "application/json" }),
+          body: JSON.stringify({ posts: [{ ...fields, updated_at: current.updated_at }] }),
+        });
+        return toPublication(site, posts[0], featuredImage);
+      }
+    }
+    const { posts } = await requestJson<{ posts: GhostPost[] }>(`${api(site)}/posts/?source=html`, {
+      method: "POST",
+      headers: headers(site, { "Content-Type": "application/json" }),
+      body: JSON.stringify({ posts: [fields] }),
+    });
+    return toPublication(site, posts[0], featuredImage);
+  },
+
+  refresh: async (site, publication) =>
+    toPublication(site, await readPost(site, publication.remoteId), publication.featuredImage),
+
+  // Ghost has no archive; archived posts are taken off the site as drafts
+  toRemoteStatus: (status) => (status === "published" ? "published" : "draft"),
+
+  // "scheduled" posts aren't live yet; "sent" went out as a newsletter and is on the site too
+  toLocalStatus: (remoteStatus) => (remoteStatus === "published" || remoteStatus === "sent" ? "published" : "draft"),
+};
@@ -0,0 +1,120 @@
+import { toBase64 } from "../utils/zip";
+
+export class PublishingError extends Error {
+  statusCode?: number;
+
+  constructor(message: string, statusCode?: number) {
+    super(message);
+    this.name = "PublishingError";
+    this.statusCode = statusCode;
+  }
+}
+
+export function siteBase(url: string) {
+  return url.trim().replace(/\/+$/, "");
+}
+
+// React Native's URL doesn't implement host or pathname, so URLs are taken apart by hand
+function hostOf(url: string) {
+  return url.replace(/^[a-z]+:\/\//i, "").split(/[/?#]/)[0];
+}
+
+export function utf8(text: string) {
+  return new TextEncoder().encode(text);
+}
+
+export function base64Url(bytes: Uint8Array) {
+  return toBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// WordPress answers { message }, Ghost { errors: [{ message, context }] }
+function errorMessage(body: string) {
+  try {
+    const data = JSON.parse(body);
+    const ghost = Array.isArray(data?.errors) ? data.errors[0] : undefined;
+    if (ghost?.message) return ghost.context ? `${ghost.message} ${ghost.context}` : ghost.message;
+    if (typeof data?.message === "string") return data.message.replace(/<[^>]+>/g, "");
+  } catch {
+    // Not JSON, e.g. an HTML error page from a proxy
+  }
+  return "";
+}
+
+async function send(url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new PublishingError(`Couldn't reach ${hostOf(url)}. Check the site address and your connection.`);
+  }
+  if (response.ok) return response;
+
+  const detail = errorMessage(await response.text());
+  if (response.status === 401 || response.status === 403) {
+    throw new PublishingError(`The site rejected the credentials${detail ? `: ${detail}` : "."}`, response.status);
+  }
+  throw new PublishingError(detail || `The site answered ${response.status} ${response.statusText}.`, response.status);
+}
+
+/** Request against a platform API; errors carry the platform's own message and the HTTP status. */
+export async function requestJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await send(url, init);
+  return (await response.json()) as T;
+}
+
+export interface ImageFile {
+  name: string;
+  type: string;
+  bytes: Uint8Array;
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+};
+
+/** Download an image to upload it elsewhere; the name comes from its URL. */
+export async function downloadImage(url: string): Promise<ImageFile> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new PublishingError(`Couldn't download the featured image from ${hostOf(url)}.`);
+  }
+  if (!response.ok) {
+    throw new PublishingError(`Couldn't download the featured image (${response.status}).`, response.status);
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const last = decodeURIComponent(url.split(/[?#]/)[0].split("/").pop() ?? "");
+  const extension = last.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() ?? "";
+  // Storage services often answer application/octet-stream, so the extension decides then
+  const served = response.headers.get("content-type")?.split(";")[0].trim() ?? "";
+  const type = served.startsWith("image/") ? served : IMAGE_TYPES[extension] || "image/png";
+  const name = extension in IMAGE_TYPES ? last : `featured-image.${type.split("/")[1] ?? "png"}`;
+  return { name, type, bytes };
+}
+
+/** multipart/form-data body with text fields and one file, built by hand so it's the same in the app and in Node. */
+export function multipart(fields: Record<string, string>, fileField: string, file: ImageFile) {
+  const boundary = `----blog-generator-${Date.now().toString(36)}`;
+  const quote = (value: string) => value.replace(/"/g, "%22").replace(/\r?\n/g, " ");
+  const head = Object.entries(fields)
+    .map(
+      ([name, value]) => `--${boundary}\r\nContent-Disposition: form-data; name="${quote(name)}"\r\n\r\n${value}\r\n`,
+    )
+    .join("");
+  const fileHead =
+    `--${boundary}\r\nContent-Disposition: form-data; name="${fileField}"; filename="${quote(file.name)}"\r\n` +
+    `Content-Type: ${file.type}\r\n\r\n`;
+  const parts = [utf8(head + fileHead), file.bytes, utf8(`\r\n--${boundary}--\r\n`)];
+  const body = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    body.set(part, offset);
+    offset += part.length;
+  }
+  return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+}
@@ -0,0 +1,55 @@
+import { BlogPost, RemotePublication } from "../types/blog";
+import { ghost } from "./ghost";
+import { wordpress } from "./wordpress";
+import { PublishingAdapter, PublishingPlatform, PublishingSite, PublishOutcome } from "./types";
+
+export * from "./types";
+export { PublishingError } from "./http";
+export { ghostToken } from "./ghost";
+
+type AdapterMap = { [P in PublishingPlatform]: PublishingAdapter<Extract<PublishingSite, { platform: P }>> };
+
+export const PUBLISHING_ADAPTERS: AdapterMap = { wordpress, ghost };
+
+// Each adapter only ever receives sites of its own platform
+function adapterFor(site: PublishingSite) {
+  return PUBLISHING_ADAPTERS[site.platform] as PublishingAdapter;
+}
+
+/** The post's copy on `siteId`, if it was pushed there before. */
+export function publicationFor(post: BlogPost, siteId: string): RemotePublication | undefined {
+  return post.publications?.find((publication) => publication.siteId === siteId);
+}
+
+/** Whether the post was edited after it was last pushed to or synced from the site. */
+export function hasUnpublishedChanges(post: BlogPost, publication: RemotePublication) {
+  return new Date(post.updatedAt).getTime() > new Date(publication.syncedAt).getTime();
+}
+
+export function verifySite(site: PublishingSite): Promise<string> {
+  return adapterFor(site).verify(site);
+}
+
+// The platform's status as the post's own, unless it's still what the post was pushed as
+function localStatus(adapter: PublishingAdapter, post: BlogPost, remoteStatus: string) {
+  return remoteStatus === adapter.toRemoteStatus(post.status) ? post.status : adapter.toLocalStatus(remoteStatus);
+}
+
+/** Push the post to the site, updating its earlier copy there if it has one. */
+export async function publishPost(site: PublishingSite, post: BlogPost): Promise<PublishOutcome> {
+  const adapter = adapterFor(site);
+  const publication = await adapter.publish(site, post, publicationFor(post, site.id));
+  return { publication, status: localStatus(adapter, post, publication.remoteStatus) };
+}
+
+/**
+ * Read the status of the post's copy on the site back, e.g. after it was
+ * published or unpublished there. Resolves with null if it was never pushed.
+ */
+export async function syncPublication(site: PublishingSite, post: BlogPost): Promise<PublishOutcome | null> {
+  const publication = publicationFor(post, site.id);
+  if (!publication) return null;
+  const adapter = adapterFor(site);
+  const refreshed = await adapter.refresh(site, publication);
+  return { publication: refreshed, status: localStatus(adapter, post, refreshed.remoteStatus) };
+}
@@ -0,0 +1,192 @@
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterEach, describe, expect, test } from "vitest";
+import { BlogPost } from "../types/blog";
+import { hmacSha256 } from "../utils/sha256";
+import { base64Url, utf8 } from "./http";
+import { GhostSite, publishPost, PublishingError, syncPublication, WordPressSite } from "./index";
+
+interface Recorded {
+  method: string;
+  path: string;
+  headers: IncomingMessage["headers"];
+  body: Buffer;
+}
+
+type Handler = (request: Recorded) => { status?: number; json?: unknown; bytes?: Buffer; type?: string };
+
+let server: Server | undefined;
+
+// Local stand-in for a platform's API; records every request it answers
+async function mockServer(handler: Handler) {
+  const requests: Recorded[] = [];
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks);
+      const request = { method: req.method ?? "GET", path: req.url ?? "/", headers: req.headers, body };
+      requests.push(request);
+      const { status = 200, json, bytes, type = "application/json" } = handler(request);
+      res.writeHead(status, { "Content-Type": type });
+      res.end(bytes ?? JSON.stringify(json ?? {}));
+    });
+  });
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}`, requests };
+}
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve));
+  server = undefined;
+});
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+function post(overrides: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id: "blog-1",
+    title: "Cold Brew at Home",
+    content: "# Cold Brew at Home\n\n## Steps\n\nSteep the grounds overnight.\n",
+    topic: "cold brew",
+    metaDescription: "Make smooth cold brew with two ingredients.",
+    keywords: ["cold brew"],
+    createdAt: new Date("2026-01-02T08:00:00Z"),
+    updatedAt: new Date("2026-01-03T09:30:00Z"),
+    status: "published",
+    seoScore: 80,
+    wordCount: 5,
+    readingTime: 1,
+    tags: ["Drinks", "Tips & Tricks"],
+    isFavorite: false,
+    version: 1,
+    slug: "cold-brew",
+    headings: [],
+    faqSection: [],
+    ...overrides,
+  };
+}
+
+describe("WordPress", () => {
+  test("creates the post with terms and media, then updates the same post", async () => {
+    let nextId = 40;
+    const { url, requests } = await mockServer(({ method, path, body }) => {
+      if (path === "/images/cover.png") return { bytes: PNG, type: "application/octet-stream" };
+      if (path.startsWith("/wp-json/wp/v2/categories?search=")) return { json: [{ id: 3, name: "Recipes" }] };
+      if (path.startsWith("/wp-json/wp/v2/tags?search=")) {
+        return { json: path.includes("Tips") ? [{ id: 8, name: "Tips &amp; Tricks" }] : [] };
+      }
+      if (method === "POST" && path === "/wp-json/wp/v2/tags") return { json: { id: nextId++, name: "Drinks" } };
+      if (path === "/wp-json/wp/v2/media") return { json: { id: 12, source_url: `${url}/uploads/cover.png` } };
+      const fields = body.length ? JSON.parse(body.toString()) : {};
+      const id = path.match(/posts\/(\d+)/)?.[1] ?? "77";
+      return { json: { id: Number(id), link: `${url}/?p=${id}`, status: fields.status ?? "pending" } };
+    });
+    const site: WordPressSite = {
+      id: "wp",
+      platform: "wordpress",
+      name: "Blog",
+      url: `${url}/`,
+      categories: ["Recipes"],
+      username: "sam",
+      applicationPassword: "abcd efgh",
+    };
+    const draft = post({ status: "draft", featuredImage: `${url}/images/cover.png` });
+
+    const created = await publishPost(site, draft);
+    expect(created.publication).toMatchObject({ siteId: "wp", remoteId: "77", remoteStatus: "draft" });
+    expect(created.publication.featuredImage).toMatchObject({ id: "12", url: `${url}/uploads/cover.png` });
+    const upload = requests.find((r) => r.path === "/wp-json/wp/v2/media")!;
+    expect(upload.headers["content-type"]).toBe("image/png");
+    expect(upload.headers["content-disposition"]).toBe('attachment; filename="cover.png"');
+    expect(upload.headers.authorization).toBe(`Basic ${Buffer.from("sam:abcd efgh").toString("base64")}`);
+    const sent = JSON.parse(requests.find((r) => r.path === "/wp-json/wp/v2/posts")!.body.toString());
+    expect(sent).toMatchObject({ categories: [3], tags: [40, 8], featured_media: 12, slug: "cold-brew" });
+    // The title is WordPress's own; the body doesn't repeat it
+    expect(sent.content).not.toContain("<h1");
+
+    requests.length = 0;
+    const updated = await publishPost(site, { ...draft, status: "published", publications: [created.publication] });
+    expect(updated).toMatchObject({ status: "published", publication: { remoteId: "77", remoteStatus: "publish" } });
+    expect(requests.map((r) => `${r.method} ${r.path.split("?")[0]}`)).not.toContain("GET /images/cover.png");
+    expect(requests[requests.length - 1]).toMatchObject({ method: "POST", path: "/wp-json/wp/v2/posts/77" });
+  });
+
+  test("syncs a status changed on the site and explains rejected credentials", async () => {
+    const { url } = await mockServer(({ path, headers }) => {
+      if (!headers.authorization?.endsWith(Buffer.from("sam:right").toString("base64"))) {
+        return { status: 401, json: { code: "rest_not_logged_in", message: "Sorry, you are not allowed to do that." } };
+      }
+      return { json: { id: 77, link: `${url}/?p=77`, status: path.includes("context=edit") ? "private" : "publish" } };
+    });
+    const site: WordPressSite = {
+      id: "wp",
+      platform: "wordpress",
+      name: "Blog",
+      url,
+      categories: [],
+      username: "sam",
+      applicationPassword: "right",
+    };
+    const publication = { siteId: "wp", remoteId: "77", url: "", remoteStatus: "publish", syncedAt: new Date() };
+
+    const synced = await syncPublication(site, post({ publications: [publication] }));
+    expect(synced).toMatchObject({ status: "archived", publication: { remoteStatus: "private" } });
+    expect(await syncPublication(site, post())).toBeNull();
+
+    const rejected = publishPost({ ...site, applicationPassword: "wrong" }, post({ tags: [] }));
+    await expect(rejected).rejects.toThrow(PublishingError);
+    await expect(rejected).rejects.toThrow("The site rejected the credentials: Sorry, you are not allowed to do that.");
+  });
+});
+
+describe("Ghost", () => {
+  test("signs requests, uploads the image and updates against the current updated_at", async () => {
+    const secret = "a1b2c3d4e5f60718";
+    const { url, requests } = await mockServer(({ method, path, body }) => {
+      if (path === "/cover.jpg") return { bytes: PNG, type: "image/jpeg" };
+      if (path === "/ghost/api/admin/images/upload/") return { json: { images: [{ url: `${url}/content/cover.jpg` }] } };
+      const remote = { id: "abc", url: `${url}/cold-brew/`, updated_at: "2026-02-01T00:00:00.000Z" };
+      if (method === "GET") return { json: { posts: [{ ...remote, status: "published" }] } };
+      const [fields] = JSON.parse(body.toString()).posts;
+      return { json: { posts: [{ ...remote, status: fields.status }] } };
+    });
+    const site: GhostSite = {
+      id: "ghost",
+      platform: "ghost",
+      name: "Ghost",
+      url,
+      categories: ["Recipes"],
+      adminApiKey: `kid42:${secret}`,
+    };
+    const archived = post({ status: "archived", featuredImage: `${url}/cover.jpg` });
+
+    const created = await publishPost(site, archived);
+    // Ghost has no archive, so the post went up as a draft and stays archived here
+    expect(created).toMatchObject({ status: "archived", publication: { remoteId: "abc", remoteStatus: "draft" } });
+
+    const token = requests[1].headers.authorization!.replace("Ghost ", "");
+    const [header, payload, signature] = token.split(".");
+    const key = new Uint8Array(Buffer.from(secret, "hex"));
+    expect(signature).toBe(base64Url(hmacSha256(key, utf8(`${header}.${payload}`))));
+    expect(JSON.parse(Buffer.from(header, "base64url").toString())).toMatchObject({ alg: "HS256", kid: "kid42" });
+    expect(JSON.parse(Buffer.from(payload, "base64url").toString())).toMatchObject({ aud: "/admin/" });
+
+    const upload = requests[1];
+    expect(upload.headers["content-type"]).toMatch(/^multipart\/form-data; boundary=/);
+    expect(upload.body.toString("latin1")).toContain('name="file"; filename="cover.jpg"\r\nContent-Type: image/jpeg');
+    const [fields] = JSON.parse(requests[2].body.toString()).posts;
+    expect(fields).toMatchObject({ status: "draft", feature_image: `${url}/content/cover.jpg` });
+    expect(fields.tags).toEqual([{ name: "Recipes" }, { name: "Drinks" }, { name: "Tips & Tricks" }]);
+
+    requests.length = 0;
+    const updated = await publishPost(site, { ...archived, status: "published", publications: [created.publication] });
+    expect(updated.status).toBe("published");
+    expect(requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "GET /ghost/api/admin/posts/abc/",
+      "PUT /ghost/api/admin/posts/abc/?source=html",
+    ]);
+    expect(JSON.parse(requests[1].body.toString()).posts[0].updated_at).toBe("2026-02-01T00:00:00.000Z");
+  });
+});
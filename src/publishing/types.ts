@@ -0,0 +1,63 @@
+import { BlogPost, RemotePublication } from "../types/blog";
+
+export type PublishingPlatform = "wordpress" | "ghost";
+
+interface SiteBase {
+  id: string;
+  // Shown in the app, e.g. "Company blog"
+  name: string;
+  // Address of the site, e.g. https://blog.example.com
+  url: string;
+  // Added to every post pushed to the site: categories on WordPress, leading tags on Ghost
+  categories: string[];
+}
+
+export interface WordPressSite extends SiteBase {
+  platform: "wordpress";
+  username: string;
+  // Application password from the user's WordPress profile, not the login password
+  applicationPassword: string;
+}
+
+export interface GhostSite extends SiteBase {
+  platform: "ghost";
+  // Admin API key of a custom integration, "id:secret"
+  adminApiKey: string;
+}
+
+export type PublishingSite = WordPressSite | GhostSite;
+
+export interface PublishOutcome {
+  publication: RemotePublication;
+  // The post's status after the platform's status is synced back
+  status: BlogPost["status"];
+}
+
+// A scheduled post as the app hands it to the backend: when it's due and which of the app's sites it goes to.
+// Neither the post nor the sites' credentials leave the device
+export interface ScheduledJob {
+  postId: string;
+  scheduledAt: Date;
+  siteIds: string[];
+}
+
+// A post the backend's job published on time; kept there until the app collects it and pushes it to `siteIds`
+export interface ScheduleOutcome {
+  postId: string;
+  publishedAt: Date;
+  siteIds: string[];
+}
+
+/** What a platform needs to implement to publish posts. */
+export interface PublishingAdapter<S extends PublishingSite = PublishingSite> {
+  platform: S["platform"];
+  name: string;
+  // Checks the address and credentials; resolves with how the platform names the site or account
+  verify: (site: S) => Promise<string>;
+  // Creates the remote post, or updates `existing` when the post was pushed before
+  publish: (site: S, post: BlogPost, existing?: RemotePublication) => Promise<RemotePublication>;
+  // Re-reads the remote post's status and address
+  refresh: (site: S, publication: RemotePublication) => Promise<RemotePublication>;
+  toRemoteStatus: (status: BlogPost["status"]) => string;
+  toLocalStatus: (remoteStatus: string) => BlogPost["status"];
+}
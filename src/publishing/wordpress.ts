@@ -0,0 +1,144 @@
+import { BlogPost, RemotePublication } from "../types/blog";
+import { toBase64 } from "../utils/zip";
+import { mergeTerms, postHtml } from "./content";
+import { downloadImage, PublishingError, requestJson, siteBase, utf8 } from "./http";
+import { PublishingAdapter, WordPressSite } from "./types";
+
+// The parts of the REST API's post and term objects that are read back
+interface WordPressPost {
+  id: number;
+  link: string;
+  status: string;
+}
+
+interface WordPressTerm {
+  id: number;
+  name: string;
+}
+
+// Scheduled posts stay drafts until the app publishes them when they're due
+const STATUS: Record<BlogPost["status"], string> = {
+  draft: "draft",
+  "in-review": "pending",
+  "changes-requested": "draft",
+  approved: "draft",
+  scheduled: "draft",
+  published: "publish",
+  archived: "private",
+};
+
+function api(site: WordPressSite) {
+  return `${siteBase(site.url)}/wp-json/wp/v2`;
+}
+
+// Application passwords use HTTP basic auth
+function headers(site: WordPressSite, extra: Record<string, string> = {}) {
+  const credentials = toBase64(utf8(`${site.username.trim()}:${site.applicationPassword.trim()}`));
+  return { Authorization: `Basic ${credentials}`, Accept: "application/json", ...extra };
+}
+
+// Term names come back HTML-escaped, e.g. "Tips &amp; Tricks"
+function decodeName(name: string) {
+  return name.replace(/&amp;/g, "&").replace(/&#0?39;/g, "'").replace(/&quot;/g, '"').toLowerCase();
+}
+
+/** Ids of the named tags or categories, creating those the site doesn't have yet. */
+async function termIds(site: WordPressSite, taxonomy: "tags" | "categories", names: string[]) {
+  const ids: number[] = [];
+  for (const name of names) {
+    const search = `${api(site)}/${taxonomy}?search=${encodeURIComponent(name)}&per_page=100`;
+    const found = await requestJson<WordPressTerm[]>(search, { headers: headers(site) });
+    const match = found.find((term) => decodeName(term.name) === name.trim().toLowerCase());
+    const term =
+      match ??
+      (await requestJson<WordPressTerm>(`${api(site)}/${taxonomy}`, {
+        method: "POST",
+        headers: headers(site, { "Content-Type": "application/json" }),
+        body: JSON.stringify({ name: name.trim() }),
+      }));
+    ids.push(term.id);
+  }
+  return ids;
+}
+
+async function uploadFeaturedImage(site: WordPressSite, post: BlogPost, existing?: RemotePublication) {
+  if (!post.featuredImage) return undefined;
+  if (existing?.featuredImage?.source === post.featuredImage) return existing.featuredImage;
+  const image = await downloadImage(post.featuredImage);
+  const media = await requestJson<{ id: number; source_url: string }>(`${api(site)}/media`, {
+    method: "POST",
+    headers: headers(site, {
+      "Content-Type": image.type,
+      "Content-Disposition": `attachment; filename="${image.name.replace(/"/g, "")}"`,
+    }),
+    body: image.bytes,
+  });
+  return { source: post.featuredImage, url: media.source_url, id: String(media.id) };
+}
+
+function toPublication(
+  site: WordPressSite,
+  remote: WordPressPost,
+  featuredImage?: RemotePublication["featuredImage"],
+): RemotePublication {
+  return {
+    siteId: site.id,
+    remoteId: String(remote.id),
+    url: remote.link,
+    remoteStatus: remote.status,
+    featuredImage,
+    syncedAt: new Date(),
+  };
+}
+
+export const wordpress: PublishingAdapter<WordPressSite> = {
+  platform: "wordpress",
+  name: "WordPress",
+
+  verify: async (site) => {
+    const user = await requestJson<{ name: string }>(`${api(site)}/users/me?context=edit`, { headers: headers(site) });
+    return user.name;
+  },
+
+  publish: async (site, post, existing) => {
+    const featuredImage = await uploadFeaturedImage(site, post, existing);
+    const body = JSON.stringify({
+      title: post.title,
+      content: postHtml(post),
+      excerpt: post.metaDescription,
+      slug: post.slug || undefined,
+      status: wordpress.toRemoteStatus(post.status),
+      categories: await termIds(site, "categories", mergeTerms(site.categories)),
+      tags: await termIds(site, "tags", mergeTerms(post.tags)),
+      featured_media: featuredImage ? Number(featuredImage.id) : 0,
+    });
+    const init = { method: "POST", headers: headers(site, { "Content-Type": "application/json" }), body };
+
+    if (existing) {
+      try {
+        const updated = await requestJson<WordPressPost>(`${api(site)}/posts/${existing.remoteId}`, init);
+        return toPublication(site, updated, featuredImage);
+      } catch (error) {
+        // Deleted on the site since the last push: publish it again as a new post
+        if (!(error instanceof PublishingError && error.statusCode === 404)) throw error;
+      }
+    }
+    return toPublication(site, await requestJson<WordPressPost>(`${api(site)}/posts`, init), featuredImage);
+  },
+
+  refresh: async (site, publication) => {
+    const url = `${api(site)}/posts/${publication.remoteId}?context=edit`;
+    const remote = await requestJson<WordPressPost>(url, { headers: headers(site) });
+    return toPublication(site, remote, publication.featuredImage);
+  },
+
+  toRemoteStatus: (status) => STATUS[status],
+
+  toLocalStatus: (remoteStatus) => {
+    if (remoteStatus === "publish") return "published";
+    if (remoteStatus === "private") return "archived";
+    if (remoteStatus === "pending") return "in-review";
+    // "future" is scheduled on the site itself; not live yet either
+    return "draft";
+  },
+};
@@ -0,0 +1,292 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, Pressable, Platform } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Animated, { FadeIn, SlideInUp } from "react-native-reanimated";
+
+import useBrandVoiceStore, { BrandVoiceInput } from "../state/brandVoiceStore";
+import { BrandVoiceProfile } from "../types/blog";
+import { READING_LEVELS } from "../utils/brand-voice";
+import { cn } from "../utils/cn";
+
+// UI Components
+import GradientBackground from "../components/ui/GradientBackground";
+import GlassCard from "../components/ui/GlassCard";
+import GlassButton from "../components/ui/GlassButton";
+import GlassModal from "../components/ui/GlassModal";
+
+// Word lists are edited as comma-separated text and samples as blank-line-separated paragraphs
+interface ProfileForm {
+  name: string;
+  styleDescription: string;
+  audiencePersona: string;
+  readingLevel: BrandVoiceProfile["readingLevel"];
+  preferredWords: string;
+  bannedWords: string;
+  sampleParagraphs: string;
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: "",
+  styleDescription: "",
+  audiencePersona: "",
+  readingLevel: "high-school",
+  preferredWords: "",
+  bannedWords: "",
+  sampleParagraphs: "",
+};
+
+function toForm(profile: BrandVoiceProfile): ProfileForm {
+  return {
+    name: profile.name,
+    styleDescription: profile.styleDescription,
+    audiencePersona: profile.audiencePersona,
+    readingLevel: profile.readingLevel,
+    preferredWords: profile.preferredWords.join(", "),
+    bannedWords: profile.bannedWords.join(", "),
+    sampleParagraphs: profile.sampleParagraphs.join("\n\n"),
+  };
+}
+
+function fromForm(form: ProfileForm): BrandVoiceInput {
+  const words = (text: string) =>
+    text
+      .split(",")
+      .map((w) => w.trim())
+      .filter(Boolean);
+  return {
+    name: form.name.trim(),
+    styleDescription: form.styleDescription.trim(),
+    audiencePersona: form.audiencePersona.trim(),
+    readingLevel: form.readingLevel,
+    preferredWords: words(form.preferredWords),
+    bannedWords: words(form.bannedWords),
+    sampleParagraphs: form.sampleParagraphs
+      .split(/\n\s*\n/)
+      .map((p) => p.trim())
+      .filter(Boolean),
+  };
+}
+
+export default function BrandVoicesScreen() {
+  // id is undefined while creating a new profile
+  const [editing, setEditing] = useState<{ id?: string; form: ProfileForm } | null>(null);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+  const [modalActions, setModalActions] = useState<
+    { label: string; onPress: () => void; variant?: "primary" | "secondary" | "destructive" }[]
+  >([]);
+
+  const { profiles, selectedProfileId, addProfile, updateProfile, deleteProfile, selectProfile } =
+    useBrandVoiceStore();
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalActions([{ label: "OK", onPress: () => setModalVisible(false), variant: "primary" }]);
+    setModalVisible(true);
+  };
+
+  const updateForm = (patch: Partial<ProfileForm>) => {
+    setEditing((prev) => (prev ? { ...prev, form: { ...prev.form, ...patch } } : prev));
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const profile = fromForm(editing.form);
+    if (!profile.name || !profile.styleDescription || !profile.audiencePersona) {
+      showModal("Profile Incomplete", "A profile needs a name, a style description and an audience persona.");
+      return;
+    }
+    if (editing.id) {
+      updateProfile(editing.id, profile);
+    } else {
+      addProfile(profile);
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = (profile: BrandVoiceProfile) => {
+    setModalTitle("Delete Profile");
+    setModalMessage(`Delete "${profile.name}"? This can't be undone.`);
+    setModalActions([
+      { label: "Cancel", onPress: () => setModalVisible(false), variant: "secondary" },
+      {
+        label: "Delete",
+        onPress: () => {
+          deleteProfile(profile.id);
+          setModalVisible(false);
+        },
+        variant: "destructive",
+      },
+    ]);
+    setModalVisible(true);
+  };
+
+  const renderField = (
+    label: string,
+    key: keyof Omit<ProfileForm, "readingLevel">,
+    placeholder: string,
+    multiline = false,
+  ) => (
+    <View className="mb-3">
+      <Text className="text-sm font-semibold text-gray-700 mb-1">{label}</Text>
+      <TextInput
+        value={editing?.form[key] ?? ""}
+        onChangeText={(value) => updateForm({ [key]: value })}
+        placeholder={placeholder}
+        placeholderTextColor="#9ca3af"
+        multiline={multiline}
+        className={cn("bg-gray-100 rounded-lg px-3 py-2 text-gray-900", multiline && "min-h-[72px]")}
+      />
+    </View>
+  );
+
+  const renderEditor = () => {
+    if (!editing) return null;
+    return (
+      <Animated.View entering={FadeIn}>
+        <GlassCard
+          intensity={20}
+          gradientColors={["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"]}
+          borderRadius={16}
+          padding={20}
+        >
+          <Text className="text-lg font-bold text-gray-900 mb-4">
+            {editing.id ? "Edit Profile" : "New Profile"}
+          </Text>
+
+          {renderField("Name", "name", "e.g. Acme Blog")}
+          {renderField("Style", "styleDescription", "Warm, witty and direct. Short sentences, no hype.", true)}
+          {renderField("Audience persona", "audiencePersona", "Busy small-business owners new to marketing", true)}
+
+          <Text className="text-sm font-semibold text-gray-700 mb-2">Reading level</Text>
+          <View className="flex-row flex-wrap gap-2 mb-3">
+            {READING_LEVELS.map(({ level, label }) => (
+              <Pressable
+                key={level}
+                onPress={() => updateForm({ readingLevel: level })}
+                className={cn(
+                  "px-3 py-1.5 rounded-full",
+                  editing.form.readingLevel === level ? "bg-blue-500" : "bg-gray-200",
+                )}
+              >
+                <Text className={cn("text-sm", editing.form.readingLevel === level ? "text-white" : "text-gray-700")}>
+                  {label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {renderField("Preferred words", "preferredWords", "Comma-separated, e.g. simple, practical, you")}
+          {renderField("Banned words", "bannedWords", "Comma-separated, e.g. leverage, synergy, game-changer")}
+          {renderField("Sample paragraphs", "sampleParagraphs", "Paste a few paragraphs in your voice, separated by a blank line", true)}
+
+          <View className="flex-row space-x-3 mt-2">
+            <View className="flex-1">
+              <GlassButton title="Cancel" onPress={() => setEditing(null)} variant="secondary" size="medium" fullWidth />
+            </View>
+            <View className="flex-1">
+              <GlassButton title="Save" onPress={handleSave} variant="primary" size="medium" fullWidth icon="checkmark" />
+            </View>
+          </View>
+        </GlassCard>
+      </Animated.View>
+    );
+  };
+
+  return (
+    <GradientBackground variant="secondary" animated>
+      <SafeAreaView className="flex-1">
+        <Animated.ScrollView
+          className="flex-1"
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: Platform.OS === "ios" ? 140 : 120 }}
+        >
+          <View className="px-6 pt-4 space-y-6">
+            <Animated.View entering={FadeIn}>
+              <Text className="text-3xl font-bold text-gray-900 mb-2">Brand Voices</Text>
+              <Text className="text-lg text-gray-600">Style, vocabulary and audience applied to every prompt</Text>
+            </Animated.View>
+
+            {!editing && (
+              <GlassButton
+                title="New Profile"
+                onPress={() => setEditing({ form: EMPTY_FORM })}
+                variant="primary"
+                size="medium"
+                icon="add"
+                fullWidth
+              />
+            )}
+
+            {renderEditor()}
+
+            {profiles.length === 0 && !editing && (
+              <Text className="text-sm text-gray-600">
+                No brand voices yet. Create one to keep generated posts on-brand.
+              </Text>
+            )}
+
+            {profiles.map((profile, index) => (
+              <Animated.View key={profile.id} entering={SlideInUp.delay(100 + index * 50)}>
+                <GlassCard
+                  intensity={20}
+                  gradientColors={["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"]}
+                  borderRadius={16}
+                  padding={16}
+                >
+                  <View className="flex-row items-center justify-between mb-1">
+                    <Text className="flex-1 text-base font-semibold text-gray-900 mr-2">{profile.name}</Text>
+                    {selectedProfileId === profile.id && (
+                      <View className="px-2 py-0.5 rounded-full bg-green-100">
+                        <Text className="text-xs text-green-700">Default</Text>
+                      </View>
+                    )}
+                  </View>
+                  <Text className="text-sm text-gray-600 mb-1" numberOfLines={2}>
+                    {profile.styleDescription}
+                  </Text>
+                  <Text className="text-xs text-gray-500 mb-3" numberOfLines={1}>
+                    For {profile.audiencePersona} • {profile.bannedWords.length} banned words
+                  </Text>
+                  <View className="flex-row justify-end space-x-2">
+                    <GlassButton
+                      title={selectedProfileId === profile.id ? "Unset Default" : "Set Default"}
+                      onPress={() => selectProfile(selectedProfileId === profile.id ? null : profile.id)}
+                      variant="ghost"
+                      size="small"
+                    />
+                    <GlassButton
+                      title="Edit"
+                      onPress={() => setEditing({ id: profile.id, form: toForm(profile) })}
+                      variant="ghost"
+                      size="small"
+                      icon="create-outline"
+                    />
+                    <GlassButton
+                      title="Delete"
+                      onPress={() => handleDelete(profile)}
+                      variant="ghost"
+                      size="small"
+                      icon="trash-outline"
+                    />
+                  </View>
+                </GlassCard>
+              </Animated.View>
+            ))}
+          </View>
+        </Animated.ScrollView>
+
+        <GlassModal
+          visible={modalVisible}
+          title={modalTitle}
+          message={modalMessage}
+          actions={modalActions}
+          onRequestClose={() => setModalVisible(false)}
+        />
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
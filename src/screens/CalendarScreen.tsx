@@ -0,0 +1,356 @@
+import React, { useMemo, useRef, useState } from "react";
+import { View, Text, Pressable, Platform } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { Ionicons } from "@expo/vector-icons";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, { FadeIn, SlideInUp, useAnimatedStyle, useSharedValue, withSpring } from "react-native-reanimated";
+
+import { HistoryStackParamList } from "../navigation/AppNavigator";
+import useHistoryStore from "../state/historyStore";
+import { BlogPost } from "../types/blog";
+import { calendarDate, calendarDays, CalendarView, dayKey, moveToDay, postsByDay, shiftAnchor } from "../utils/schedule";
+import { CalendarExportError, exportToDeviceCalendar } from "../utils/device-calendar";
+import { cn } from "../utils/cn";
+import { logger } from "../utils/logger";
+
+// UI Components
+import GradientBackground from "../components/ui/GradientBackground";
+import GlassCard from "../components/ui/GlassCard";
+import GlassButton from "../components/ui/GlassButton";
+import GlassModal from "../components/ui/GlassModal";
+
+type CalendarScreenNavigationProp = NativeStackNavigationProp<HistoryStackParamList, "Calendar">;
+
+interface Props {
+  navigation: CalendarScreenNavigationProp;
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const CELL_HEIGHT: Record<CalendarView, number> = { month: 76, week: 220 };
+// Chips a month cell has room for; the rest are listed under the grid when the day is selected
+const MONTH_CELL_CHIPS = 2;
+
+const time = (date: Date) => date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+function dayFromKey(key: string) {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function rangeLabel(anchor: Date, days: Date[], view: CalendarView) {
+  if (view === "month") return anchor.toLocaleDateString(undefined, { month: "long", year: "numeric" });
+  const first = days[0].toLocaleDateString(undefined, { month: "short", day: "numeric" });
+  const last = days[days.length - 1].toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+  return `${first} – ${last}`;
+}
+
+interface PostChipProps {
+  post: BlogPost;
+  compact: boolean;
+  onPress: () => void;
+  onDragStart: () => void;
+  // Resolves to whether the post was moved; if not the chip springs back
+  onDrop: (absoluteX: number, absoluteY: number) => boolean;
+}
+
+// Scheduled posts can be picked up with a long press and dropped on another day
+function PostChip({ post, compact, onPress, onDragStart, onDrop }: PostChipProps) {
+  const offsetX = useSharedValue(0);
+  const offsetY = useSharedValue(0);
+  const scheduled = post.status === "scheduled";
+
+  const drag = Gesture.Pan()
+    .enabled(scheduled)
+    .activateAfterLongPress(300)
+    .runOnJS(true)
+    .onStart(onDragStart)
+    .onUpdate((event) => {
+      offsetX.value = event.translationX;
+      offsetY.value = event.translationY;
+    })
+    .onEnd((event) => {
+      const moved = onDrop(event.absoluteX, event.absoluteY);
+      offsetX.value = moved ? 0 : withSpring(0);
+      offsetY.value = moved ? 0 : withSpring(0);
+    });
+
+  const dragStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: offsetX.value }, { translateY: offsetY.value }],
+  }));
+
+  return (
+    <GestureDetector gesture={drag}>
+      <Animated.View style={dragStyle}>
+        <Pressable
+          onPress={onPress}
+          className={cn("rounded px-1 py-0.5 mb-0.5", scheduled ? "bg-blue-500" : "bg-green-500")}
+        >
+          <Text className="text-[10px] text-white" numberOfLines={compact ? 1 : 2}>
+            {compact ? post.title : `${time(calendarDate(post)!)} ${post.title}`}
+          </Text>
+        </Pressable>
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+export default function CalendarScreen({ navigation }: Props) {
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [selectedDay, setSelectedDay] = useState(() => dayKey(new Date()));
+  // Cell whose chip is being dragged; raised so the chip isn't drawn under the cells after it
+  const [draggingDay, setDraggingDay] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+
+  const { blogs, schedulePost } = useHistoryStore();
+
+  // Where the grid is on screen, measured when a drag starts so drops can be mapped to a day
+  const gridRef = useRef<View>(null);
+  const gridFrame = useRef({ x: 0, y: 0, width: 0, height: 0 });
+
+  const days = useMemo(() => calendarDays(anchor, view), [anchor, view]);
+  const byDay = useMemo(() => postsByDay(blogs), [blogs]);
+  const scheduledCount = blogs.filter((blog) => blog.status === "scheduled").length;
+  const today = dayKey(new Date());
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  const handleDragStart = (day: string) => {
+    setDraggingDay(day);
+    gridRef.current?.measureInWindow((x, y, width, height) => {
+      gridFrame.current = { x, y, width, height };
+    });
+  };
+
+  const handleDrop = (post: BlogPost, absoluteX: number, absoluteY: number) => {
+    setDraggingDay(null);
+    const { x, y, width, height } = gridFrame.current;
+    const rows = days.length / 7;
+    const column = Math.floor(((absoluteX - x) / width) * 7);
+    const row = Math.floor(((absoluteY - y) / height) * rows);
+    const day = column >= 0 && column < 7 && row >= 0 && row < rows ? days[row * 7 + column] : undefined;
+    if (!day || !post.scheduledAt) return false;
+
+    const at = moveToDay(new Date(post.scheduledAt), day);
+    if (dayKey(at) === dayKey(new Date(post.scheduledAt))) return false;
+    const reason = schedulePost(post.id, at);
+    if (reason) {
+      showModal("Can't Move Post", reason);
+      return false;
+    }
+    setSelectedDay(dayKey(at));
+    return true;
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const count = await exportToDeviceCalendar(blogs);
+      showModal("Calendar Updated", `${count} post${count === 1 ? "" : "s"} added to the "Blog Schedule" calendar.`);
+    } catch (error) {
+      logger.error("Calendar export failed:", error);
+      const message =
+        error instanceof CalendarExportError
+          ? error.message
+          : "Couldn't write to the device calendar. Please try again.";
+      showModal("Export Failed", message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const selectedPosts = byDay.get(selectedDay) ?? [];
+  const compact = view === "month";
+
+  return (
+    <GradientBackground variant="secondary" animated>
+      <SafeAreaView className="flex-1">
+        <Animated.ScrollView
+          className="flex-1"
+          scrollEnabled={!draggingDay}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: Platform.OS === "ios" ? 140 : 120 }}
+        >
+          <View className="px-6 pt-4 space-y-6">
+            <Animated.View entering={FadeIn}>
+              <Text className="text-3xl font-bold text-gray-900 mb-2">Calendar</Text>
+              <Text className="text-lg text-gray-600">
+                {scheduledCount} scheduled • long-press a blue post to move it
+              </Text>
+            </Animated.View>
+
+            <Animated.View entering={SlideInUp.delay(100)}>
+              <GlassCard
+                intensity={20}
+                gradientColors={["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"]}
+                borderRadius={16}
+                padding={12}
+              >
+                <View className="flex-row items-center justify-between mb-3">
+                  <View className="flex-row gap-2">
+                    {(["month", "week"] as const).map((option) => (
+                      <Pressable
+                        key={option}
+                        onPress={() => setView(option)}
+                        className={cn("px-3 py-1.5 rounded-full", view === option ? "bg-blue-500" : "bg-gray-200")}
+                      >
+                        <Text className={cn("text-sm", view === option ? "text-white" : "text-gray-700")}>
+                          {option === "month" ? "Month" : "Week"}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                  <View className="flex-row items-center">
+                    <Pressable onPress={() => setAnchor(shiftAnchor(anchor, view, -1))} className="p-1">
+                      <Ionicons name="chevron-back" size={20} color="#374151" />
+                    </Pressable>
+                    <GlassButton
+                      title="Today"
+                      onPress={() => {
+                        setAnchor(new Date());
+                        setSelectedDay(today);
+                      }}
+                      variant="ghost"
+                      size="small"
+                    />
+                    <Pressable onPress={() => setAnchor(shiftAnchor(anchor, view, 1))} className="p-1">
+                      <Ionicons name="chevron-forward" size={20} color="#374151" />
+                    </Pressable>
+                  </View>
+                </View>
+
+                <Text className="text-base font-semibold text-gray-900 mb-2">{rangeLabel(anchor, days, view)}</Text>
+
+                <View className="flex-row">
+                  {WEEKDAYS.map((weekday) => (
+                    <Text key={weekday} className="flex-1 text-center text-xs font-semibold text-gray-500 mb-1">
+                      {weekday}
+                    </Text>
+                  ))}
+                </View>
+
+                <View ref={gridRef} className="flex-row flex-wrap">
+                  {days.map((day) => {
+                    const key = dayKey(day);
+                    const posts = byDay.get(key) ?? [];
+                    const shown = compact ? posts.slice(0, MONTH_CELL_CHIPS) : posts;
+                    const outside = view === "month" && day.getMonth() !== anchor.getMonth();
+                    return (
+                      <Pressable
+                        key={key}
+                        onPress={() => setSelectedDay(key)}
+                        style={{ width: `${100 / 7}%`, height: CELL_HEIGHT[view], zIndex: draggingDay === key ? 10 : 0 }}
+                        className={cn(
+                          "border border-gray-100 p-0.5",
+                          selectedDay === key && "bg-blue-50 border-blue-300",
+                          outside && "opacity-50",
+                        )}
+                      >
+                        <Text
+                          className={cn(
+                            "text-xs mb-0.5",
+                            key === today ? "font-bold text-blue-600" : "text-gray-700",
+                          )}
+                        >
+                          {day.getDate()}
+                        </Text>
+                        {shown.map((post) => (
+                          <PostChip
+                            key={post.id}
+                            post={post}
+                            compact={compact}
+                            onPress={() => navigation.navigate("EditBlog", { blogId: post.id })}
+                            onDragStart={() => handleDragStart(key)}
+                            onDrop={(x, y) => handleDrop(post, x, y)}
+                          />
+                        ))}
+                        {posts.length > shown.length && (
+                          <Text className="text-[10px] text-gray-500">+{posts.length - shown.length}</Text>
+                        )}
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              </GlassCard>
+            </Animated.View>
+
+            <Animated.View entering={SlideInUp.delay(200)}>
+              <GlassCard
+                intensity={20}
+                gradientColors={["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"]}
+                borderRadius={16}
+                padding={16}
+              >
+                <Text className="text-base font-semibold text-gray-900 mb-2">
+                  {dayFromKey(selectedDay).toLocaleDateString(undefined, {
+                    weekday: "long",
+                    month: "long",
+                    day: "numeric",
+                  })}
+                </Text>
+                {selectedPosts.length === 0 && <Text className="text-sm text-gray-600">Nothing planned.</Text>}
+                {selectedPosts.map((post) => (
+                  <View key={post.id} className="flex-row items-center py-2 border-b border-gray-100">
+                    <View className="flex-1 mr-2">
+                      <Text className="text-sm font-medium text-gray-900" numberOfLines={1}>
+                        {post.title}
+                      </Text>
+                      <Text className="text-xs text-gray-500">
+                        {post.status === "scheduled" ? "Goes out" : "Published"} at {time(calendarDate(post)!)}
+                      </Text>
+                    </View>
+                    {post.status === "scheduled" && (
+                      <GlassButton
+                        title="Unschedule"
+                        onPress={() => {
+                          const reason = schedulePost(post.id, null);
+                          if (reason) showModal("Can't Unschedule", reason);
+                        }}
+                        variant="ghost"
+                        size="small"
+                      />
+                    )}
+                    <GlassButton
+                      title="Edit"
+                      onPress={() => navigation.navigate("EditBlog", { blogId: post.id })}
+                      variant="ghost"
+                      size="small"
+                      icon="create-outline"
+                    />
+                  </View>
+                ))}
+              </GlassCard>
+            </Animated.View>
+
+            <GlassButton
+              title="Export to Device Calendar"
+              onPress={handleExport}
+              variant="secondary"
+              size="medium"
+              icon="calendar-outline"
+              fullWidth
+              loading={exporting}
+              disabled={exporting}
+            />
+          </View>
+        </Animated.ScrollView>
+
+        <GlassModal
+          visible={modalVisible}
+          title={modalTitle}
+          message={modalMessage}
+          actions={[{ label: "OK", onPress: () => setModalVisible(false), variant: "primary" }]}
+          onRequestClose={() => setModalVisible(false)}
+        />
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
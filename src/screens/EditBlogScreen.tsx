@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
   View,
   Text,
@@ -7,11 +7,18 @@ import {
   KeyboardAvoidingView,
   Platform,
   Dimensions,
+  Pressable,
+  Linking,
+  Image,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { RouteProp } from "@react-navigation/native";
 import { Ionicons } from "@expo/vector-icons";
+import * as Sharing from "expo-sharing";
+import * as FileSystem from "expo-file-system";
+import * as Clipboard from "expo-clipboard";
+import DateTimePicker, { DateTimePickerAndroid } from "@react-native-community/datetimepicker";
 import Animated, {
   FadeIn,
   SlideInUp,
@@ -24,7 +31,46 @@ import Animated, {
 import { HomeStackParamList } from "../navigation/AppNavigator";
 import useHistoryStore from "../state/historyStore";
 import useBlogStore from "../state/blogStore";
-import { BlogPost, SEOAnalysis } from "../types/blog";
+import useSettingsStore from "../state/settingsStore";
+import useSEOStore from "../state/seoStore";
+import usePublishingStore from "../state/publishingStore";
+import useAuditStore from "../state/auditStore";
+import { BlogPost, ContentPatch, ContentSuggestion, SEOAnalysis } from "../types/blog";
+import { analyzeSEO } from "../seo/analyzer";
+import { readabilityDetails } from "../seo/readability";
+import { analyzeStructure } from "../seo/structure";
+import { SERP_LAYOUTS, serpUrl, textWidth } from "../seo/serp";
+import { applyPatch } from "../seo/suggestions";
+import { placementChecklist } from "../seo/placement";
+import { generateContentSuggestions } from "../api/content-suggestions";
+import { translateBlogPost } from "../api/translation";
+import { generateImage } from "../api/image-generation";
+import {
+  applyRewrite,
+  RewriteAction,
+  RewriteRequest,
+  RewriteSuggestion,
+  rewriteSelection,
+  RewriteTone,
+  REWRITE_ACTIONS,
+  REWRITE_TONES,
+  TextSelection,
+} from "../api/rewrite";
+import { diffWords } from "../utils/diff";
+import { countWords, getLocale, readingTimeMinutes, SUPPORTED_LOCALES } from "../utils/locale";
+import { hreflangAlternates, hreflangLinkTags, hreflangSitemap, isValidCanonicalUrl } from "../utils/hreflang";
+import { isValidSlug, postSlug, slugify, uniqueSlug } from "../utils/slug";
+import { extractFaq, extractHeadings, provenanceDetails, refreshSchemaMarkup } from "../utils/blog-post";
+import { buildJsonLd, serializeJsonLd, validateJsonLd } from "../utils/json-ld";
+import { ACTION_LABELS, nextStatuses, STATUS_LABELS } from "../utils/workflow";
+import {
+  hasUnpublishedChanges,
+  publicationFor,
+  publishPost,
+  PublishingError,
+  PublishingSite,
+  syncPublication,
+} from "../publishing";
 
 // UI Components
 import GradientBackground from "../components/ui/GradientBackground";
@@ -33,6 +79,10 @@ import GlassButton from "../components/ui/GlassButton";
 import GlassInput from "../components/ui/GlassInput";
 import MetricsCard from "../components/ui/MetricsCard";
 import GlassModal from "../components/ui/GlassModal";
+import DiffView from "../components/ui/DiffView";
+import OutlineSidebar from "../components/ui/OutlineSidebar";
+import SerpPreview from "../components/ui/SerpPreview";
+import SuggestionList from "../components/ui/SuggestionList";
 import { logger } from "../utils/logger";
 
 
@@ -49,6 +99,8 @@ interface Props {
 }
 
 const { width } = Dimensions.get("window");
+// Workflow moves listed under the workflow buttons
+const RECENT_CHANGES = 5;
 
 export default function EditBlogScreen({ navigation, route }: Props) {
   const { blogId, draft } = route.params || {};
@@ -58,23 +110,66 @@ export default function EditBlogScreen({ navigation, route }: Props) {
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
   const [metaDescription, setMetaDescription] = useState("");
+  const [slug, setSlug] = useState("");
+  const [canonicalUrl, setCanonicalUrl] = useState("");
+  // Image shown with the post and uploaded as its featured image when publishing
+  const [featuredImage, setFeaturedImage] = useState("");
+  const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [keywords, setKeywords] = useState<string[]>([]);
   const [newKeyword, setNewKeyword] = useState("");
   const [tags, setTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState("");
   const [isSaving, setIsSaving] = useState(false);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [seoAnalysis, setSeoAnalysis] = useState<SEOAnalysis | null>(null);
   const [showSEOPanel, setShowSEOPanel] = useState(false);
+  const [showSchema, setShowSchema] = useState(false);
+  const [showOutline, setShowOutline] = useState(false);
+  // Target locale and progress while a translation streams in
+  const [translating, setTranslating] = useState<{ locale: string; progress: number } | null>(null);
+  // Note saved with the next workflow move, e.g. the changes a reviewer asks for
+  const [workflowNote, setWorkflowNote] = useState("");
+  // Time being picked for the post to go out; the picker shows while it's set (iOS)
+  const [scheduleDraft, setScheduleDraft] = useState<Date | null>(null);
+  // Site a publish or sync is running against
+  const [publishingSiteId, setPublishingSiteId] = useState<string | null>(null);
+  // Content selection and the rewrite requested for it
+  const [selection, setSelection] = useState<TextSelection>({ start: 0, end: 0 });
+  const [rewriteOption, setRewriteOption] = useState<"tone" | "keyword" | null>(null);
+  const [rewriteRequest, setRewriteRequest] = useState<RewriteRequest | null>(null);
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [suggestion, setSuggestion] = useState<RewriteSuggestion | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  // Patches that undo each applied content suggestion, by suggestion id
+  const [appliedSuggestions, setAppliedSuggestions] = useState<Record<string, ContentPatch>>({});
   const [modalVisible, setModalVisible] = useState(false);
   const [modalTitle, setModalTitle] = useState("");
   const [modalMessage, setModalMessage] = useState("");
   const [modalType, setModalType] = useState<"info" | "warn" | "destructive">("info");
   const [modalActions, setModalActions] = useState<{ label: string; onPress: () => void; variant?: "primary" | "secondary" | "destructive" }[]>([]);
 
+  // Where the content input sits in the scroll view, for jumping to a heading from the outline
+  const scrollRef = useRef<ScrollView>(null);
+  const contentInputRef = useRef<TextInput>(null);
+  const contentLayout = useRef({ cardY: 0, inputY: 0, inputHeight: 0 });
+
   // Zustand stores
-  const { getBlogById, updateBlog } = useHistoryStore();
-  const { setCurrentAnalysis } = useBlogStore();
+  const {
+    blogs,
+    getBlogById,
+    updateBlog,
+    addTranslation,
+    getTranslations,
+    getTakenSlugs,
+    recordPublication,
+    schedulePost,
+    setPublishTargets,
+    transitionStatus,
+  } = useHistoryStore();
+  const statusChanges = useAuditStore((state) => state.changes);
+  const publishingSites = usePublishingStore((state) => state.sites);
+  const { setCurrentAnalysis, currentSuggestions, setCurrentSuggestions } = useBlogStore();
+  const { getResearch, getResearchByTopic } = useSEOStore();
+  const { siteUrl, setSiteUrl, authorName, setAuthorName, requireReview, minApprovalScore } = useSettingsStore();
 
   const showModal = (title: string, message: string, type: "info" | "warn" | "destructive" = "info") => {
     setModalTitle(title);
@@ -97,18 +192,26 @@ export default function EditBlogScreen({ navigation, route }: Props) {
     };
   });
 
+  const loadBlog = (existingBlog: BlogPost) => {
+    setBlog(existingBlog);
+    setTitle(existingBlog.title);
+    setContent(existingBlog.content);
+    setMetaDescription(existingBlog.metaDescription);
+    setSlug(existingBlog.slug);
+    setCanonicalUrl(existingBlog.canonicalUrl ?? "");
+    setFeaturedImage(existingBlog.featuredImage ?? "");
+    setKeywords(existingBlog.keywords);
+    setTags(existingBlog.tags);
+  };
+
   // Load blog data
   useEffect(() => {
+    // Suggestions from another post don't apply here
+    setCurrentSuggestions([]);
+    setAppliedSuggestions({});
     if (blogId) {
       const existingBlog = getBlogById(blogId);
-      if (existingBlog) {
-        setBlog(existingBlog);
-        setTitle(existingBlog.title);
-        setContent(existingBlog.content);
-        setMetaDescription(existingBlog.metaDescription);
-        setKeywords(existingBlog.keywords);
-        setTags(existingBlog.tags);
-      }
+      if (existingBlog) loadBlog(existingBlog);
     } else if (draft) {
       setTitle(draft.title || "");
       setContent(draft.content || "");
@@ -118,16 +221,33 @@ export default function EditBlogScreen({ navigation, route }: Props) {
     }
   }, [blogId, draft, getBlogById]);
 
+  // Pick up a revision restored from the History screen
+  useEffect(() => {
+    return navigation.addListener("focus", () => {
+      const stored = blog && getBlogById(blog.id);
+      if (stored && stored.version !== blog.version) loadBlog(stored);
+    });
+  }, [navigation, blog, getBlogById]);
+
+  const hasUnsavedEdits = () =>
+    !!blog &&
+    (title !== blog.title ||
+      content !== blog.content ||
+      metaDescription !== blog.metaDescription ||
+      slug !== blog.slug ||
+      canonicalUrl !== (blog.canonicalUrl ?? "") ||
+      featuredImage !== (blog.featuredImage ?? ""));
+
   // Auto-save functionality
   useEffect(() => {
     const autoSaveTimer = setTimeout(() => {
-      if (blog && (title !== blog.title || content !== blog.content || metaDescription !== blog.metaDescription)) {
+      if (hasUnsavedEdits()) {
         handleAutoSave();
       }
     }, 2000);
 
     return () => clearTimeout(autoSaveTimer);
-  }, [title, content, metaDescription, blog]);
+  }, [title, content, metaDescription, slug, canonicalUrl, featuredImage, blog]);
 
   // Real-time SEO analysis
   useEffect(() => {
@@ -138,196 +258,78 @@ export default function EditBlogScreen({ navigation, route }: Props) {
     }, 1000);
 
     return () => clearTimeout(analysisTimer);
-  }, [title, content, keywords]);
+  }, [title, content, keywords, slug]);
 
-  const performQuickSEOAnalysis = () => {
-    const wordCount = content.split(/\s+/).filter(word => word.length > 0).length;
-    const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    const avgSentenceLength = sentences.length > 0 ? wordCount / sentences.length : 0;
-    
-    // Quick scoring
-    let score = 0;
-    const issues = [];
-    
-    // Word count check
-    if (wordCount >= 300) score += 20;
-    else issues.push("Content too short (minimum 300 words recommended)");
-    
-    // Title check
-    if (title.length >= 30 && title.length <= 60) score += 15;
-    else issues.push("Title should be 30-60 characters");
-    
-    // Meta description check
-    if (metaDescription.length >= 120 && metaDescription.length <= 160) score += 15;
-    else issues.push("Meta description should be 120-160 characters");
-    
-    // Keyword usage
-    if (keywords.length > 0) {
-      const keywordInTitle = keywords.some(k => title.toLowerCase().includes(k.toLowerCase()));
-      if (keywordInTitle) score += 20;
-      else issues.push("Include target keywords in title");
-      
-      const keywordInContent = keywords.some(k => content.toLowerCase().includes(k.toLowerCase()));
-      if (keywordInContent) score += 15;
-      else issues.push("Include target keywords in content");
+  // Slugs of other posts in this language, and what's wrong with the URL fields if anything
+  const takenSlugs = useMemo(() => getTakenSlugs(blog?.locale, blog?.id), [blogs, blog?.locale, blog?.id]);
+  const slugError = !slug
+    ? "Add a slug for the post's URL"
+    : !isValidSlug(slug)
+      ? "Use lower-case words joined by hyphens"
+      : takenSlugs.includes(slug)
+        ? `Another post in this language uses this slug; try "${uniqueSlug(slug, takenSlugs)}"`
+        : undefined;
+  const canonicalError =
+    canonicalUrl.trim() && !isValidCanonicalUrl(canonicalUrl) ? "Enter a full URL starting with https://" : undefined;
+  const featuredImageError =
+    featuredImage.trim() && !isValidCanonicalUrl(featuredImage)
+      ? "Enter a full image URL starting with https://"
+      : undefined;
+
+  // Slug, canonical URL and featured image as they can be saved: invalid edits keep the last saved value
+  const savedUrls = (post: BlogPost) => ({
+    slug: slugError ? post.slug : slug,
+    canonicalUrl: canonicalError ? post.canonicalUrl : canonicalUrl.trim() || undefined,
+    featuredImage: featuredImageError ? post.featuredImage : featuredImage.trim() || undefined,
+  });
+
+  const handleGenerateSlug = () => {
+    setSlug(uniqueSlug(postSlug(title, blog?.locale) || blog?.id || "post", takenSlugs));
+  };
+
+  const handleGenerateImage = async () => {
+    if (!title.trim() || isGeneratingImage) return;
+    setIsGeneratingImage(true);
+    try {
+      const prompt = `Blog header image for an article titled "${title.trim()}", modern editorial style, no text`;
+      setFeaturedImage(await generateImage(prompt, { size: "1536x1024", quality: "high", format: "png" }));
+    } catch (error) {
+      logger.error("Featured image generation failed:", error);
+      showModal("Image Failed", "Couldn't generate a featured image. Please try again.", "destructive");
+    } finally {
+      setIsGeneratingImage(false);
     }
-    
-    // Headings check
-    const hasH1 = content.includes("# ");
-    const hasH2 = content.includes("## ");
-    if (hasH1 && hasH2) score += 15;
-    else issues.push("Use proper heading structure (H1, H2)");
-    
-    const quickAnalysis: SEOAnalysis = {
-      score: Math.min(score, 100),
-      issues: issues.map(issue => ({
-        type: "warning" as const,
-        message: issue,
-      })),
-      keywords: {
-        primary: keywords.length > 0 ? {
-          keyword: keywords[0],
-          density: 0,
-          occurrences: 0,
-        } : { keyword: "", density: 0, occurrences: 0 },
-        secondary: keywords.slice(1).map(keyword => ({
-          keyword,
-          density: 0,
-          occurrences: 0,
-        })),
-      },
-      readability: {
-        score: Math.max(0, 100 - Math.abs(avgSentenceLength - 15) * 5),
-        level: avgSentenceLength <= 15 ? "Easy" : avgSentenceLength <= 20 ? "Medium" : "Hard",
-        avgSentenceLength: Math.round(avgSentenceLength),
-        avgWordsPerSentence: Math.round(avgSentenceLength),
-      },
-      structure: {
-        hasH1: content.includes("# "),
-        h2Count: (content.match(/## /g) || []).length,
-        h3Count: (content.match(/### /g) || []).length,
-        paragraphCount: content.split("\n\n").length,
-        listCount: (content.match(/^[-*+] /gm) || []).length,
-      },
-    };
-    
-    setSeoAnalysis(quickAnalysis);
-    setCurrentAnalysis(quickAnalysis);
-    if (!showSEOPanel && score < 70) {
+  };
+
+  const runSEOAnalysis = () => {
+    const analysis = analyzeSEO({
+      title,
+      content,
+      metaDescription,
+      keywords,
+      locale: blog?.locale,
+      contentType: blog?.contentType,
+      siteUrl,
+      slug: slug || undefined,
+    });
+    setSeoAnalysis(analysis);
+    setCurrentAnalysis(analysis);
+    return analysis;
+  };
+
+  const performQuickSEOAnalysis = () => {
+    const analysis = runSEOAnalysis();
+    if (!showSEOPanel && analysis.score < 70) {
       setShowSEOPanel(true);
       seoProgress.value = withTiming(1, { duration: 300 });
     }
   };
 
-  // SEO Analysis
-  const analyzeSEO = async () => {
+  const handleAnalyzeSEO = () => {
     if (!content.trim()) return;
-
-    setIsAnalyzing(true);
-    
-    try {
-      // Simulate SEO analysis
-      const wordCount = content.split(/\s+/).filter(word => word.length > 0).length;
-      const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 0);
-      const avgSentenceLength = sentences.length > 0 ? wordCount / sentences.length : 0;
-      
-      // Calculate keyword density
-      const keywordAnalysis = keywords.map(keyword => {
-        const regex = new RegExp(keyword, "gi");
-        const matches = content.match(regex) || [];
-        const density = (matches.length / wordCount) * 100;
-        return {
-          keyword,
-          density: Math.round(density * 100) / 100,
-          occurrences: matches.length,
-        };
-      });
-
-      // Basic SEO scoring
-      let score = 0;
-      const issues = [];
-
-      // Title length check
-      if (title.length >= 30 && title.length <= 60) {
-        score += 20;
-      } else {
-        issues.push({
-          type: "warning" as const,
-          message: "Title should be between 30-60 characters for optimal SEO",
-        });
-      }
-
-      // Meta description check
-      if (metaDescription.length >= 150 && metaDescription.length <= 160) {
-        score += 20;
-      } else {
-        issues.push({
-          type: "warning" as const,
-          message: "Meta description should be between 150-160 characters",
-        });
-      }
-
-      // Content length check
-      if (wordCount >= 1500) {
-        score += 20;
-      } else {
-        issues.push({
-          type: "suggestion" as const,
-          message: "Consider adding more content. Longer articles tend to rank better.",
-        });
-      }
-
-      // Keyword usage check
-      if (keywordAnalysis.some(k => k.density > 0.5 && k.density < 3)) {
-        score += 20;
-      } else {
-        issues.push({
-          type: "warning" as const,
-          message: "Keyword density should be between 0.5% and 3%",
-        });
-      }
-
-      // Readability check
-      if (avgSentenceLength <= 20) {
-        score += 20;
-      } else {
-        issues.push({
-          type: "suggestion" as const,
-          message: "Consider shorter sentences for better readability",
-        });
-      }
-
-      const analysis: SEOAnalysis = {
-        score,
-        issues,
-        keywords: {
-          primary: keywordAnalysis[0] || { keyword: "", density: 0, occurrences: 0 },
-          secondary: keywordAnalysis.slice(1),
-        },
-        readability: {
-          score: Math.max(0, 100 - avgSentenceLength * 2),
-          level: avgSentenceLength <= 15 ? "Easy" : avgSentenceLength <= 20 ? "Medium" : "Hard",
-          avgSentenceLength: Math.round(avgSentenceLength),
-          avgWordsPerSentence: Math.round(avgSentenceLength),
-        },
-        structure: {
-          hasH1: content.includes("# "),
-          h2Count: (content.match(/## /g) || []).length,
-          h3Count: (content.match(/### /g) || []).length,
-          paragraphCount: content.split("\n\n").length,
-          listCount: (content.match(/^[-*+] /gm) || []).length,
-        },
-      };
-
-      setSeoAnalysis(analysis);
-      setCurrentAnalysis(analysis);
-  setShowSEOPanel(true);
-  seoProgress.value = withTiming(1, { duration: 300 });
-    } catch (error) {
-      showModal("Analysis Failed", "Failed to analyze SEO. Please try again.", "destructive");
-    } finally {
-      setIsAnalyzing(false);
-    }
+    runSEOAnalysis();
+    setShowSEOPanel(true);
+    seoProgress.value = withTiming(1, { duration: 300 });
   };
 
   // Handlers
@@ -336,18 +338,24 @@ export default function EditBlogScreen({ navigation, route }: Props) {
 
     try {
       const updatedBlog = {
-        ...blog,
+        // The stored copy, so a status set meanwhile, e.g. by scheduled publishing, isn't reverted
+        ...(getBlogById(blog.id) ?? blog),
         title,
         content,
         metaDescription,
         keywords,
         tags,
+        ...savedUrls(blog),
         updatedAt: new Date(),
-        wordCount: content.split(/\s+/).filter(word => word.length > 0).length,
-        readingTime: Math.ceil(content.split(/\s+/).length / 200),
+        wordCount: countWords(content),
+        readingTime: readingTimeMinutes(content),
+        headings: extractHeadings(content),
+        faqSection: extractFaq(content),
       };
 
-      updateBlog(blog.id, updatedBlog);
+      updateBlog(blog.id, refreshSchemaMarkup(updatedBlog, { siteUrl, authorName }), "autosave");
+      // Keep the saved version so the History screen's restores can be told apart from our own saves
+      setBlog(getBlogById(blog.id) ?? updatedBlog);
     } catch (error) {
       logger.error("Auto-save failed:", error);
     }
@@ -358,6 +366,10 @@ export default function EditBlogScreen({ navigation, route }: Props) {
       showModal("Missing Content", "Please provide both a title and content for your blog.", "warn");
       return;
     }
+    if (blog && (slugError || canonicalError || featuredImageError)) {
+      showModal("Check the URL", slugError ?? canonicalError ?? featuredImageError ?? "", "warn");
+      return;
+    }
 
     setIsSaving(true);
 
@@ -365,19 +377,22 @@ export default function EditBlogScreen({ navigation, route }: Props) {
       if (blog) {
         // Update existing blog
         const updatedBlog = {
-          ...blog,
+          ...(getBlogById(blog.id) ?? blog),
           title: title.trim(),
           content: content.trim(),
           metaDescription: metaDescription.trim(),
           keywords,
           tags,
+          ...savedUrls(blog),
           updatedAt: new Date(),
-          wordCount: content.split(/\s+/).filter(word => word.length > 0).length,
-          readingTime: Math.ceil(content.split(/\s+/).length / 200),
+          wordCount: countWords(content),
+          readingTime: readingTimeMinutes(content),
+          headings: extractHeadings(content),
+          faqSection: extractFaq(content),
           seoScore: seoAnalysis?.score || blog.seoScore,
         };
 
-        updateBlog(blog.id, updatedBlog);
+        updateBlog(blog.id, refreshSchemaMarkup(updatedBlog, { siteUrl, authorName }));
         showModal("Saved", "Your blog has been updated successfully.");
       } else {
         // Create new blog (if coming from draft)
@@ -392,6 +407,300 @@ export default function EditBlogScreen({ navigation, route }: Props) {
     }
   };
 
+  // Newest first
+  const postChanges = useMemo(
+    () => (blog ? statusChanges.filter((change) => change.blogId === blog.id).reverse() : []),
+    [statusChanges, blog?.id],
+  );
+
+  const structure = useMemo(() => ({ headings: extractHeadings(content), faq: extractFaq(content) }), [content]);
+
+  const documentStructure = useMemo(() => analyzeStructure(content, siteUrl), [content, siteUrl]);
+
+  // Places the cursor at `offset` and scrolls to roughly where it sits in the input
+  const handleJumpTo = (offset: number) => {
+    setShowOutline(false);
+    const { cardY, inputY, inputHeight } = contentLayout.current;
+    const y = cardY + inputY + (offset / Math.max(1, content.length)) * inputHeight;
+    scrollRef.current?.scrollTo({ y: Math.max(0, y - 80), animated: true });
+    contentInputRef.current?.focus();
+    contentInputRef.current?.setSelection(offset, offset);
+  };
+
+  // Schema for the post as currently edited, so validation follows every change
+  const schema = useMemo(() => {
+    if (!blog) return null;
+    const document = buildJsonLd(
+      { ...blog, title, content, metaDescription, keywords, headings: structure.headings, faqSection: structure.faq },
+      { siteUrl, authorName }
+    );
+    return { json: serializeJsonLd(document), issues: validateJsonLd(document) };
+  }, [blog, title, content, metaDescription, keywords, structure, siteUrl, authorName]);
+
+  // Other posts in this blog's translation group
+  const translations = useMemo(
+    () => (blog ? getTranslations(blog.id).filter((t) => t.id !== blog.id) : []),
+    [blog, blogs, getTranslations]
+  );
+  const translatedLocales = new Set([getLocale(blog?.locale).code, ...translations.map((t) => getLocale(t.locale).code)]);
+
+  const handleTranslate = async (locale: string) => {
+    if (!blog || translating) return;
+
+    setTranslating({ locale, progress: 0 });
+    try {
+      // Translate what's in the editor, including edits the auto-save hasn't stored yet
+      const translation = await translateBlogPost(
+        { ...blog, title, content, metaDescription, keywords },
+        locale,
+        { onProgress: ({ progress }) => setTranslating({ locale, progress }) },
+      );
+      const translationId = addTranslation(blog.id, translation);
+      if (translationId) {
+        navigation.push("EditBlog", { blogId: translationId });
+      }
+    } catch (error) {
+      logger.error("Translation failed:", error);
+      showModal("Translation Failed", `Couldn't translate into ${getLocale(locale).name}. Please try again.`, "destructive");
+    } finally {
+      setTranslating(null);
+    }
+  };
+
+  const groupAlternates = () => {
+    if (!blog) return null;
+    if (!/^https?:\/\/[^/\s]+/i.test(siteUrl)) {
+      showModal("Site URL Needed", "Enter your blog's address, e.g. https://example.com, to build hreflang links.", "warn");
+      return null;
+    }
+    return hreflangAlternates(getTranslations(blog.id), siteUrl);
+  };
+
+  const handleExportHreflang = async () => {
+    const alternates = groupAlternates();
+    if (!alternates || !blog) return;
+
+    try {
+      const fileUri = `${FileSystem.documentDirectory}hreflang-${slugify(blog.topic) || blog.id}.xml`;
+      await FileSystem.writeAsStringAsync(fileUri, hreflangSitemap(alternates));
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(fileUri, { mimeType: "application/xml", dialogTitle: "Export hreflang Sitemap" });
+      } else {
+        showModal("Export Complete", `Sitemap saved to ${fileUri}`);
+      }
+    } catch (error) {
+      logger.error("hreflang export failed:", error);
+      showModal("Export Failed", "Failed to export the hreflang sitemap. Please try again.", "destructive");
+    }
+  };
+
+  const handleCopyHreflangTags = async () => {
+    const alternates = groupAlternates();
+    if (!alternates) return;
+    await Clipboard.setStringAsync(hreflangLinkTags(alternates));
+    showModal("Copied", "Paste the <link> tags into the <head> of every translation.");
+  };
+
+  const schemaErrors = schema?.issues.filter((issue) => issue.severity === "error") ?? [];
+
+  const handleCopySchema = async () => {
+    if (!schema) return;
+    await Clipboard.setStringAsync(`<script type="application/ld+json">\n${schema.json}\n</script>`);
+    showModal("Copied", "Paste the script tag into the <head> of the post's page.");
+  };
+
+  const requestRewrite = async (request: RewriteRequest) => {
+    setRewriteOption(null);
+    setRewriteRequest(request);
+    setIsRewriting(true);
+    try {
+      setSuggestion(await rewriteSelection(request));
+    } catch (error) {
+      logger.error("Rewrite failed:", error);
+      showModal("Rewrite Failed", "Couldn't rewrite the selected text. Please try again.", "destructive");
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  // Moves are judged on the post as saved, with the score the editor shows
+  const saveForWorkflow = async () => {
+    if (!blog) return;
+    if (hasUnsavedEdits()) await handleAutoSave();
+    const stored = getBlogById(blog.id);
+    if (stored && seoAnalysis && stored.seoScore !== seoAnalysis.score) {
+      updateBlog(blog.id, { seoScore: seoAnalysis.score });
+    }
+  };
+
+  const handleTransition = async (to: BlogPost["status"]) => {
+    if (!blog) return;
+    await saveForWorkflow();
+    const reason = transitionStatus(blog.id, to, { note: workflowNote });
+    if (reason) {
+      showModal(`Can't ${ACTION_LABELS[to]}`, reason, "warn");
+      return;
+    }
+    setWorkflowNote("");
+    setBlog(getBlogById(blog.id) ?? blog);
+  };
+
+  const handleSchedule = async (at: Date | null) => {
+    if (!blog) return;
+    setScheduleDraft(null);
+    await saveForWorkflow();
+    const reason = schedulePost(blog.id, at);
+    if (reason) {
+      showModal(at ? "Can't Schedule" : "Can't Unschedule", reason, "warn");
+      return;
+    }
+    setBlog(getBlogById(blog.id) ?? blog);
+  };
+
+  const togglePublishTarget = (siteId: string) => {
+    if (!blog) return;
+    const targets = blog.publishTo ?? [];
+    setPublishTargets(
+      blog.id,
+      targets.includes(siteId) ? targets.filter((id) => id !== siteId) : [...targets, siteId],
+    );
+    setBlog(getBlogById(blog.id) ?? blog);
+  };
+
+  // Suggests the next full hour, or keeps the current schedule
+  const openSchedulePicker = () => {
+    if (!blog) return;
+    const initial = blog.scheduledAt ? new Date(blog.scheduledAt) : new Date(Date.now() + 60 * 60 * 1000);
+    if (!blog.scheduledAt) initial.setMinutes(0, 0, 0);
+    if (Platform.OS !== "android") {
+      setScheduleDraft(initial);
+      return;
+    }
+    // Android's picker asks for the date and the time in two dialogs
+    DateTimePickerAndroid.open({
+      value: initial,
+      mode: "date",
+      minimumDate: new Date(),
+      onChange: (event, date) => {
+        if (event.type !== "set" || !date) return;
+        DateTimePickerAndroid.open({
+          value: date,
+          mode: "time",
+          onChange: (timeEvent, at) => {
+            if (timeEvent.type === "set" && at) handleSchedule(at);
+          },
+        });
+      },
+    });
+  };
+
+  // Pushes the post as saved, so edits still waiting for auto-save are saved first
+  const handlePublish = async (site: PublishingSite, sync = false) => {
+    if (!blog) return;
+    if (hasUnsavedEdits()) await handleAutoSave();
+    const post = getBlogById(blog.id) ?? blog;
+    setPublishingSiteId(site.id);
+    try {
+      const outcome = sync ? await syncPublication(site, post) : await publishPost(site, post);
+      if (!outcome) return;
+      recordPublication(post.id, outcome.publication, outcome.status);
+      setBlog(getBlogById(post.id) ?? post);
+      if (!sync) {
+        showModal("Published", `"${post.title}" is on ${site.name} as ${outcome.publication.remoteStatus}.`);
+      }
+    } catch (error) {
+      const message =
+        error instanceof PublishingError ? error.message : `Couldn't reach ${site.name}. Please try again.`;
+      showModal(sync ? "Sync Failed" : "Publish Failed", message, "destructive");
+    } finally {
+      setPublishingSiteId(null);
+    }
+  };
+
+  const handleRewriteAction = (action: RewriteAction, option?: { tone?: RewriteTone; keyword?: string }) => {
+    // Tone and keyword rewrites ask which one first
+    if ((action === "tone" && !option?.tone) || (action === "keyword" && !option?.keyword)) {
+      setRewriteOption(rewriteOption === action ? null : action);
+      return;
+    }
+    requestRewrite({ content, selection, action, ...option });
+  };
+
+  // Accepted rewrites go through setContent so the usual auto-save picks them up
+  const handleAcceptRewrite = () => {
+    if (!suggestion) return;
+    const next = applyRewrite(content, suggestion);
+    if (next === null) {
+      showModal(
+        "Passage Changed",
+        "The selected text was edited after the rewrite was requested. Select it again to retry.",
+        "warn"
+      );
+    } else {
+      setContent(next);
+      setSelection({ start: suggestion.selection.start, end: suggestion.selection.start });
+    }
+    setSuggestion(null);
+    setRewriteRequest(null);
+  };
+
+  const handleRejectRewrite = () => {
+    setSuggestion(null);
+    setRewriteRequest(null);
+  };
+
+  const handleSuggestEdits = async () => {
+    const analysis = runSEOAnalysis();
+    const researchId = blog?.generationData?.researchId;
+    const research = (researchId && getResearch(researchId)) || (blog && getResearchByTopic(blog.topic));
+    setIsSuggesting(true);
+    try {
+      const suggestions = await generateContentSuggestions({
+        title,
+        content,
+        metaDescription,
+        keywords,
+        locale: blog?.locale,
+        analysis,
+        questions: research ? research.research.peopleAlsoAsk : undefined,
+      });
+      setCurrentSuggestions(suggestions);
+      setAppliedSuggestions({});
+    } catch (error) {
+      logger.error("Suggestions failed:", error);
+      showModal("Suggestions Failed", "Couldn't generate suggestions. Please try again.", "destructive");
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  // Patched fields go through the usual setters so auto-save and analysis pick them up
+  const patchDraft = (patch: ContentPatch) => {
+    const result = applyPatch({ title, metaDescription, content }, patch);
+    if (!result) {
+      showModal("Text Changed", "The passage this edit changes was edited since. Run the suggestions again.", "warn");
+      return null;
+    }
+    setTitle(result.draft.title);
+    setMetaDescription(result.draft.metaDescription);
+    setContent(result.draft.content);
+    return result.inverse;
+  };
+
+  const handleApplySuggestion = (item: ContentSuggestion) => {
+    const inverse = item.patch && patchDraft(item.patch);
+    if (inverse) setAppliedSuggestions({ ...appliedSuggestions, [item.id]: inverse });
+  };
+
+  const handleUndoSuggestion = (item: ContentSuggestion) => {
+    const inverse = appliedSuggestions[item.id];
+    if (!inverse || !patchDraft(inverse)) return;
+    const { [item.id]: _undone, ...rest } = appliedSuggestions;
+    setAppliedSuggestions(rest);
+  };
+
+  const hasSelection = content.slice(selection.start, selection.end).trim().length > 0;
+
   const handleAddKeyword = () => {
     if (newKeyword.trim() && !keywords.includes(newKeyword.trim().toLowerCase())) {
       setKeywords([...keywords, newKeyword.trim().toLowerCase()]);
@@ -435,10 +744,25 @@ export default function EditBlogScreen({ navigation, route }: Props) {
               </View>
               
               <View className="flex-row space-x-2">
+                <GlassButton
+                  title="Outline"
+                  onPress={() => setShowOutline(true)}
+                  variant="ghost"
+                  size="small"
+                  icon="list-outline"
+                />
+                {blog && (
+                  <GlassButton
+                    title="History"
+                    onPress={() => navigation.navigate("RevisionHistory", { blogId: blog.id })}
+                    variant="ghost"
+                    size="small"
+                    icon="time-outline"
+                  />
+                )}
                 <GlassButton
                   title="Analyze SEO"
-                  onPress={analyzeSEO}
-                  loading={isAnalyzing}
+                  onPress={handleAnalyzeSEO}
                   variant="secondary"
                   size="small"
                   icon="analytics-outline"
@@ -456,6 +780,7 @@ export default function EditBlogScreen({ navigation, route }: Props) {
           </Animated.View>
 
           <ScrollView
+            ref={scrollRef}
             className="flex-1"
             showsVerticalScrollIndicator={false}
             keyboardShouldPersistTaps="handled"
@@ -491,7 +816,11 @@ export default function EditBlogScreen({ navigation, route }: Props) {
                         <MetricsCard
                           title="Readability"
                           value={seoAnalysis.readability.level}
-                          subtitle={`${seoAnalysis.readability.score}/100`}
+                          subtitle={
+                            seoAnalysis.readability.fleschReadingEase !== null
+                              ? `Flesch ${seoAnalysis.readability.fleschReadingEase}`
+                              : `${seoAnalysis.readability.avgWordsPerSentence} words/sentence`
+                          }
                           icon="eye-outline"
                           color="green"
                           size="small"
@@ -519,6 +848,58 @@ export default function EditBlogScreen({ navigation, route }: Props) {
                       </View>
                     </View>
 
+                    <View className="mb-4">
+                      <Text className="text-sm font-semibold text-gray-700 mb-2">Search Preview</Text>
+                      <SerpPreview
+                        title={title}
+                        description={metaDescription}
+                        url={serpUrl(siteUrl, { id: blog?.id ?? "new-post", title, locale: blog?.locale, slug })}
+                      />
+                    </View>
+
+                    {seoAnalysis.keywords.placement && (
+                      <View className="mb-4">
+                        <Text className="text-sm font-semibold text-gray-700 mb-2">
+                          Placement of "{seoAnalysis.keywords.placement.keyword}"
+                        </Text>
+                        <View className="flex-row flex-wrap">
+                          {placementChecklist(seoAnalysis.keywords.placement).map((row) => (
+                            <View key={row.label} className="flex-row items-center w-1/2 mb-1">
+                              <Ionicons
+                                name={row.found ? "checkmark-circle" : "close-circle"}
+                                size={16}
+                                color={row.found ? "#10b981" : "#ef4444"}
+                              />
+                              <Text className="text-sm text-gray-600 ml-1">{row.label}</Text>
+                            </View>
+                          ))}
+                        </View>
+                      </View>
+                    )}
+
+                    <View className="mb-4">
+                      <Text className="text-sm font-semibold text-gray-700 mb-2">Readability</Text>
+                      {readabilityDetails(seoAnalysis.readability).map((row) => (
+                        <View key={row.label} className="flex-row justify-between mb-1">
+                          <Text className="text-sm text-gray-600">{row.label}</Text>
+                          <Text className="text-sm font-medium text-gray-900">{row.value}</Text>
+                        </View>
+                      ))}
+                      {seoAnalysis.readability.worstSentences.length > 0 && (
+                        <>
+                          <Text className="text-xs font-semibold text-gray-500 mt-2 mb-1">Hardest sentences</Text>
+                          {seoAnalysis.readability.worstSentences.slice(0, 3).map((sentence, index) => (
+                            <Text key={index} className="text-sm text-gray-600 mb-1" numberOfLines={2}>
+                              {sentence.fleschReadingEase !== null
+                                ? `${sentence.fleschReadingEase} • `
+                                : `${sentence.words} words • `}
+                              {sentence.text}
+                            </Text>
+                          ))}
+                        </>
+                      )}
+                    </View>
+
                     {seoAnalysis.issues.length > 0 && (
                       <View>
                         <Text className="text-sm font-semibold text-gray-700 mb-2">
@@ -551,6 +932,32 @@ export default function EditBlogScreen({ navigation, route }: Props) {
                         ))}
                       </View>
                     )}
+
+                    <View className="mt-4">
+                      <View className="flex-row items-center justify-between mb-2">
+                        <Text className="text-sm font-semibold text-gray-700">Suggested Edits</Text>
+                        <GlassButton
+                          title={currentSuggestions.length > 0 ? "Refresh" : "Suggest Edits"}
+                          onPress={handleSuggestEdits}
+                          loading={isSuggesting}
+                          variant="secondary"
+                          size="small"
+                          icon="sparkles-outline"
+                        />
+                      </View>
+                      {currentSuggestions.length > 0 ? (
+                        <SuggestionList
+                          suggestions={currentSuggestions}
+                          applied={Object.keys(appliedSuggestions)}
+                          onApply={handleApplySuggestion}
+                          onUndo={handleUndoSuggestion}
+                        />
+                      ) : (
+                        <Text className="text-sm text-gray-500">
+                          Get ranked, ready-to-apply edits for the issues above.
+                        </Text>
+                      )}
+                    </View>
                   </GlassCard>
                 </Animated.View>
               )}
@@ -580,10 +987,69 @@ export default function EditBlogScreen({ navigation, route }: Props) {
                   leftIcon="document-text-outline"
                 />
                 <Text className="text-xs text-white/70 mt-1 ml-4">
-                  {metaDescription.length}/160 characters
+                  {metaDescription.length} characters •{" "}
+                  {textWidth(metaDescription, SERP_LAYOUTS.desktop.description.fontSize)}/
+                  {SERP_LAYOUTS.desktop.description.maxWidth}px in search results
                 </Text>
               </Animated.View>
 
+              {/* URL */}
+              {blog && (
+                <Animated.View entering={SlideInUp.delay(550)}>
+                  <GlassInput
+                    label="URL Slug"
+                    value={slug}
+                    onChangeText={(text) => setSlug(text.trim().toLowerCase())}
+                    placeholder={postSlug(title, blog.locale) || "post-url"}
+                    variant="floating"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    leftIcon="link-outline"
+                    rightIcon="refresh-outline"
+                    onRightIconPress={handleGenerateSlug}
+                    error={slugError}
+                  />
+                  <Text className="text-xs text-white/70 mt-1 ml-4" numberOfLines={1}>
+                    {serpUrl(siteUrl, { ...blog, slug })}
+                  </Text>
+                  <GlassInput
+                    label="Canonical URL (optional)"
+                    value={canonicalUrl}
+                    onChangeText={setCanonicalUrl}
+                    placeholder="Where this post was first published"
+                    variant="floating"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                    leftIcon="git-merge-outline"
+                    error={canonicalError}
+                    containerStyle={{ marginTop: 12 }}
+                  />
+                  <GlassInput
+                    label="Featured Image URL (optional)"
+                    value={featuredImage}
+                    onChangeText={setFeaturedImage}
+                    placeholder="Paste an image URL or generate one"
+                    variant="floating"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                    leftIcon="image-outline"
+                    rightIcon={isGeneratingImage ? "hourglass-outline" : "sparkles-outline"}
+                    onRightIconPress={handleGenerateImage}
+                    error={featuredImageError}
+                    containerStyle={{ marginTop: 12 }}
+                  />
+                  {featuredImage.trim() && !featuredImageError ? (
+                    <Image
+                      source={{ uri: featuredImage.trim() }}
+                      className="w-full h-40 rounded-xl mt-3"
+                      resizeMode="cover"
+                    />
+                  ) : null}
+                </Animated.View>
+              )}
+
               {/* Keywords */}
               <Animated.View entering={SlideInUp.delay(600)}>
                 <GlassCard
@@ -686,8 +1152,414 @@ export default function EditBlogScreen({ navigation, route }: Props) {
                 </GlassCard>
               </Animated.View>
 
+              {/* Generation details */}
+              {blog?.generationData && (
+                <Animated.View entering={SlideInUp.delay(725)}>
+                  <GlassCard
+                    intensity={25}
+                    gradientColors={["rgba(255, 255, 255, 0.25)", "rgba(255, 255, 255, 0.1)"]}
+                    borderRadius={16}
+                    padding={16}
+                  >
+                    <Text className="text-lg font-semibold text-white mb-3">Generation Details</Text>
+                    {provenanceDetails(blog.generationData).map((row) => (
+                      <View key={row.label} className="flex-row justify-between mb-2">
+                        <Text className="text-sm text-white/70">{row.label}</Text>
+                        <Text className="text-sm text-white flex-shrink ml-4 text-right" numberOfLines={1}>
+                          {row.value}
+                        </Text>
+                      </View>
+                    ))}
+                    <View className="flex-row justify-between">
+                      <Text className="text-sm text-white/70">Structure</Text>
+                      <Text className="text-sm text-white">
+                        {structure.headings.length} headings, {structure.faq.length} FAQs
+                      </Text>
+                    </View>
+                  </GlassCard>
+                </Animated.View>
+              )}
+
+              {/* Schema markup */}
+              {schema && (
+                <Animated.View entering={SlideInUp.delay(735)}>
+                  <GlassCard
+                    intensity={25}
+                    gradientColors={["rgba(255, 255, 255, 0.25)", "rgba(255, 255, 255, 0.1)"]}
+                    borderRadius={16}
+                    padding={16}
+                  >
+                    <Pressable
+                      onPress={() => setShowSchema(!showSchema)}
+                      className="flex-row items-center justify-between mb-3"
+                    >
+                      <Text className="text-lg font-semibold text-white">Schema Markup</Text>
+                      <View className="flex-row items-center">
+                        <Text className="text-white/80 text-sm mr-1">
+                          {schemaErrors.length > 0
+                            ? `${schemaErrors.length} error${schemaErrors.length === 1 ? "" : "s"}`
+                            : schema.issues.length > 0
+                              ? `${schema.issues.length} warning${schema.issues.length === 1 ? "" : "s"}`
+                              : "Valid"}
+                        </Text>
+                        <Ionicons name={showSchema ? "chevron-up" : "chevron-down"} size={16} color="white" />
+                      </View>
+                    </Pressable>
+
+                    {schema.issues.map((issue, index) => (
+                      <View key={index} className="flex-row items-start mb-2">
+                        <Ionicons
+                          name={issue.severity === "error" ? "close-circle" : "alert-circle"}
+                          size={16}
+                          color={issue.severity === "error" ? "#FCA5A5" : "#FCD34D"}
+                        />
+                        <Text className="text-sm text-white flex-1 ml-2">
+                          {issue.type}
+                          {issue.property ? ` ${issue.property}` : ""}: {issue.message}
+                        </Text>
+                      </View>
+                    ))}
+
+                    {showSchema && (
+                      <>
+                        <TextInput
+                          value={authorName}
+                          onChangeText={setAuthorName}
+                          placeholder="Author name"
+                          placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                          className="bg-white/20 rounded-lg px-3 py-2 text-white mt-1 mb-2"
+                        />
+                        <TextInput
+                          value={siteUrl}
+                          onChangeText={setSiteUrl}
+                          placeholder="Site URL, e.g. https://example.com"
+                          placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                          autoCapitalize="none"
+                          keyboardType="url"
+                          className="bg-white/20 rounded-lg px-3 py-2 text-white mb-3"
+                        />
+                        <ScrollView horizontal className="bg-black/30 rounded-lg p-3 mb-3">
+                          <Text
+                            className="text-xs text-white"
+                            style={{ fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace" }}
+                          >
+                            {schema.json}
+                          </Text>
+                        </ScrollView>
+                        <GlassButton
+                          title="Copy JSON-LD"
+                          onPress={handleCopySchema}
+                          variant="secondary"
+                          size="small"
+                          icon="copy-outline"
+                        />
+                      </>
+                    )}
+                  </GlassCard>
+                </Animated.View>
+              )}
+
+              {/* Translations */}
+              {blog && (
+                <Animated.View entering={SlideInUp.delay(750)}>
+                  <GlassCard
+                    intensity={25}
+                    gradientColors={["rgba(255, 255, 255, 0.25)", "rgba(255, 255, 255, 0.1)"]}
+                    borderRadius={16}
+                    padding={16}
+                  >
+                    <View className="flex-row items-center justify-between mb-3">
+                      <Text className="text-lg font-semibold text-white">Translations</Text>
+                      <Text className="text-white/80 text-sm">{getLocale(blog.locale).nativeName}</Text>
+                    </View>
+
+                    {translations.length > 0 && (
+                      <View className="flex-row flex-wrap mb-3">
+                        {translations.map((translation) => (
+                          <Pressable
+                            key={translation.id}
+                            onPress={() => navigation.push("EditBlog", { blogId: translation.id })}
+                            className="bg-white/30 rounded-lg px-3 py-1 mr-2 mb-2 flex-row items-center"
+                          >
+                            <Ionicons name="language-outline" size={14} color="white" />
+                            <Text className="text-white text-sm ml-1">{getLocale(translation.locale).nativeName}</Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                    )}
+
+                    <Text className="text-sm text-white/80 mb-2">
+                      {translating
+                        ? `Translating into ${getLocale(translating.locale).name}... ${translating.progress}%`
+                        : "Translate into"}
+                    </Text>
+                    <View className="flex-row flex-wrap mb-3">
+                      {SUPPORTED_LOCALES.filter((locale) => !translatedLocales.has(locale.code)).map((locale) => (
+                        <Pressable
+                          key={locale.code}
+                          onPress={() => handleTranslate(locale.code)}
+                          disabled={!!translating}
+                          className={`rounded-lg px-3 py-1 mr-2 mb-2 border ${
+                            translating?.locale === locale.code ? "bg-white/40 border-white" : "bg-white/10 border-white/30"
+                          }`}
+                        >
+                          <Text className="text-white text-sm">{locale.nativeName}</Text>
+                        </Pressable>
+                      ))}
+                    </View>
+
+                    {translations.length > 0 && (
+                      <>
+                        <TextInput
+                          value={siteUrl}
+                          onChangeText={setSiteUrl}
+                          placeholder="Site URL, e.g. https://example.com"
+                          placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                          autoCapitalize="none"
+                          keyboardType="url"
+                          className="bg-white/20 rounded-lg px-3 py-2 text-white mb-3"
+                        />
+                        <View className="flex-row space-x-2">
+                          <GlassButton
+                            title="Export hreflang"
+                            onPress={handleExportHreflang}
+                            variant="secondary"
+                            size="small"
+                            icon="share-outline"
+                          />
+                          <GlassButton
+                            title="Copy Tags"
+                            onPress={handleCopyHreflangTags}
+                            variant="ghost"
+                            size="small"
+                            icon="copy-outline"
+                          />
+                        </View>
+                      </>
+                    )}
+                  </GlassCard>
+                </Animated.View>
+              )}
+
+              {/* Workflow */}
+              {blog && (
+                <Animated.View entering={SlideInUp.delay(760)}>
+                  <GlassCard
+                    intensity={25}
+                    gradientColors={["rgba(255, 255, 255, 0.25)", "rgba(255, 255, 255, 0.1)"]}
+                    borderRadius={16}
+                    padding={16}
+                  >
+                    <View className="flex-row items-center justify-between mb-3">
+                      <Text className="text-lg font-semibold text-white">Workflow</Text>
+                      <Text className="text-white/80 text-sm">{STATUS_LABELS[blog.status]}</Text>
+                    </View>
+                    <TextInput
+                      value={workflowNote}
+                      onChangeText={setWorkflowNote}
+                      placeholder="Note for this step, e.g. what needs to change"
+                      placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                      multiline
+                      className="bg-white/20 rounded-lg px-3 py-2 text-white mb-3"
+                    />
+                    <View className="flex-row flex-wrap mb-1">
+                      {nextStatuses(blog.status, { requireReview, minApprovalScore })
+                        .filter((status) => status !== "scheduled")
+                        .map((status) => (
+                          <View key={status} className="mr-2 mb-2">
+                            <GlassButton
+                              title={ACTION_LABELS[status]}
+                              onPress={() => handleTransition(status)}
+                              variant={status === "archived" || status === "draft" ? "ghost" : "secondary"}
+                              size="small"
+                            />
+                          </View>
+                        ))}
+                    </View>
+                    {postChanges.slice(0, RECENT_CHANGES).map((change) => (
+                      <View key={change.id} className="py-1.5 border-t border-white/10">
+                        <Text className="text-xs text-white/90">
+                          {change.actor}: {STATUS_LABELS[change.from]} → {STATUS_LABELS[change.to]} •{" "}
+                          {new Date(change.at).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+                        </Text>
+                        {!!change.note && (
+                          <Text className="text-xs text-white/70 mt-0.5" numberOfLines={3}>
+                            {change.note}
+                          </Text>
+                        )}
+                      </View>
+                    ))}
+                  </GlassCard>
+                </Animated.View>
+              )}
+
+              {/* Schedule */}
+              {blog &&
+                (blog.status === "scheduled" ||
+                  nextStatuses(blog.status, { requireReview, minApprovalScore }).includes("scheduled")) && (
+                <Animated.View entering={SlideInUp.delay(765)}>
+                  <GlassCard
+                    intensity={25}
+                    gradientColors={["rgba(255, 255, 255, 0.25)", "rgba(255, 255, 255, 0.1)"]}
+                    borderRadius={16}
+                    padding={16}
+                  >
+                    <View className="flex-row items-center justify-between mb-3">
+                      <Text className="text-lg font-semibold text-white">Schedule</Text>
+                      <Text className="text-white/80 text-sm">
+                        {blog.status === "scheduled" && blog.scheduledAt
+                          ? new Date(blog.scheduledAt).toLocaleString(undefined, {
+                              dateStyle: "medium",
+                              timeStyle: "short",
+                            })
+                          : "Not scheduled"}
+                      </Text>
+                    </View>
+                    {publishingSites.length > 0 && (
+                      <>
+                        <Text className="text-sm text-white/80 mb-2">Push to these sites when it goes out</Text>
+                        <View className="flex-row flex-wrap mb-2">
+                          {publishingSites.map((site) => {
+                            const selected = blog.publishTo?.includes(site.id) ?? false;
+                            return (
+                              <Pressable
+                                key={site.id}
+                                onPress={() => togglePublishTarget(site.id)}
+                                className={`rounded-lg px-3 py-1 mr-2 mb-2 border flex-row items-center ${
+                                  selected ? "bg-white/40 border-white" : "bg-white/10 border-white/30"
+                                }`}
+                              >
+                                <Ionicons
+                                  name={selected ? "checkmark-circle" : "ellipse-outline"}
+                                  size={14}
+                                  color="white"
+                                />
+                                <Text className="text-white text-sm ml-1">{site.name}</Text>
+                              </Pressable>
+                            );
+                          })}
+                        </View>
+                      </>
+                    )}
+                    {scheduleDraft && (
+                      <DateTimePicker
+                        value={scheduleDraft}
+                        mode="datetime"
+                        display="inline"
+                        minimumDate={new Date()}
+                        onChange={(_, date) => date && setScheduleDraft(date)}
+                        themeVariant="dark"
+                      />
+                    )}
+                    <View className="flex-row space-x-2">
+                      {scheduleDraft ? (
+                        <>
+                          <GlassButton
+                            title="Schedule"
+                            onPress={() => handleSchedule(scheduleDraft)}
+                            variant="secondary"
+                            size="small"
+                            icon="checkmark"
+                          />
+                          <GlassButton
+                            title="Cancel"
+                            onPress={() => setScheduleDraft(null)}
+                            variant="ghost"
+                            size="small"
+                          />
+                        </>
+                      ) : (
+                        <>
+                          <GlassButton
+                            title={blog.status === "scheduled" ? "Reschedule" : "Schedule"}
+                            onPress={openSchedulePicker}
+                            variant="secondary"
+                            size="small"
+                            icon="time-outline"
+                          />
+                          {blog.status === "scheduled" && (
+                            <GlassButton
+                              title="Unschedule"
+                              onPress={() => handleSchedule(null)}
+                              variant="ghost"
+                              size="small"
+                            />
+                          )}
+                        </>
+                      )}
+                    </View>
+                  </GlassCard>
+                </Animated.View>
+              )}
+
+              {/* Publishing */}
+              {blog && publishingSites.length > 0 && (
+                <Animated.View entering={SlideInUp.delay(775)}>
+                  <GlassCard
+                    intensity={25}
+                    gradientColors={["rgba(255, 255, 255, 0.25)", "rgba(255, 255, 255, 0.1)"]}
+                    borderRadius={16}
+                    padding={16}
+                  >
+                    <Text className="text-lg font-semibold text-white mb-3">Publishing</Text>
+                    {publishingSites.map((site) => {
+                      const publication = publicationFor(blog, site.id);
+                      const busy = publishingSiteId === site.id;
+                      return (
+                        <View key={site.id} className="mb-3">
+                          <View className="flex-row items-center justify-between mb-1">
+                            <Text className="flex-1 text-white font-medium mr-2">{site.name}</Text>
+                            <Text className="text-white/80 text-sm">
+                              {publication
+                                ? hasUnpublishedChanges(blog, publication)
+                                  ? `${publication.remoteStatus} • edited since`
+                                  : publication.remoteStatus
+                                : "Not published"}
+                            </Text>
+                          </View>
+                          {publication && (
+                            <Pressable onPress={() => Linking.openURL(publication.url)}>
+                              <Text className="text-xs text-white/70 underline mb-2" numberOfLines={1}>
+                                {publication.url}
+                              </Text>
+                            </Pressable>
+                          )}
+                          <View className="flex-row space-x-2">
+                            <GlassButton
+                              title={publication ? "Update" : "Publish"}
+                              onPress={() => handlePublish(site)}
+                              variant="secondary"
+                              size="small"
+                              icon="cloud-upload-outline"
+                              loading={busy}
+                              disabled={!!publishingSiteId}
+                            />
+                            {publication && (
+                              <GlassButton
+                                title="Sync Status"
+                                onPress={() => handlePublish(site, true)}
+                                variant="ghost"
+                                size="small"
+                                icon="sync-outline"
+                                disabled={!!publishingSiteId}
+                              />
+                            )}
+                          </View>
+                        </View>
+                      );
+                    })}
+                  </GlassCard>
+                </Animated.View>
+              )}
+
               {/* Content Editor */}
-              <Animated.View entering={SlideInUp.delay(800)} className="mb-8">
+              <Animated.View
+                entering={SlideInUp.delay(800)}
+                className="mb-8"
+                onLayout={(event) => {
+                  contentLayout.current.cardY = event.nativeEvent.layout.y;
+                }}
+              >
                 <GlassCard
                   intensity={25}
                   gradientColors={["rgba(255, 255, 255, 0.25)", "rgba(255, 255, 255, 0.1)"]}
@@ -699,8 +1571,14 @@ export default function EditBlogScreen({ navigation, route }: Props) {
                   </Text>
                   
                   <TextInput
+                    ref={contentInputRef}
+                    onLayout={(event) => {
+                      contentLayout.current.inputY = event.nativeEvent.layout.y;
+                      contentLayout.current.inputHeight = event.nativeEvent.layout.height;
+                    }}
                     value={content}
                     onChangeText={setContent}
+                    onSelectionChange={(event) => setSelection(event.nativeEvent.selection)}
                     placeholder="Write your blog content here... Use markdown formatting for headings (# ## ###), lists, and emphasis."
                     placeholderTextColor="rgba(255, 255, 255, 0.5)"
                     multiline
@@ -714,12 +1592,93 @@ export default function EditBlogScreen({ navigation, route }: Props) {
                     returnKeyType="default"
                   />
                   
+                  {/* Rewrite menu for the selected passage */}
+                  {hasSelection && !suggestion && (
+                    <View className="mt-3">
+                      <Text className="text-sm text-white/80 mb-2">
+                        {isRewriting ? "Rewriting selection..." : "Rewrite selection"}
+                      </Text>
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                        <View className="flex-row">
+                          {REWRITE_ACTIONS.map(({ action, label }) => (
+                            <Pressable
+                              key={action}
+                              onPress={() => handleRewriteAction(action)}
+                              disabled={isRewriting}
+                              className={`rounded-lg px-3 py-1 mr-2 border ${
+                                rewriteOption === action || rewriteRequest?.action === action
+                                  ? "bg-white/40 border-white"
+                                  : "bg-white/10 border-white/30"
+                              }`}
+                            >
+                              <Text className="text-white text-sm">{label}</Text>
+                            </Pressable>
+                          ))}
+                        </View>
+                      </ScrollView>
+
+                      {rewriteOption && (
+                        <View className="flex-row flex-wrap mt-2">
+                          {(rewriteOption === "tone" ? REWRITE_TONES : keywords).map((option) => (
+                            <Pressable
+                              key={option}
+                              onPress={() =>
+                                handleRewriteAction(
+                                  rewriteOption,
+                                  rewriteOption === "tone" ? { tone: option as RewriteTone } : { keyword: option }
+                                )
+                              }
+                              className="bg-white/20 rounded-lg px-3 py-1 mr-2 mb-2"
+                            >
+                              <Text className="text-white text-sm">{option}</Text>
+                            </Pressable>
+                          ))}
+                          {rewriteOption === "keyword" && keywords.length === 0 && (
+                            <Text className="text-xs text-white/70">Add keywords above to target one.</Text>
+                          )}
+                        </View>
+                      )}
+                    </View>
+                  )}
+
+                  {/* Suggested rewrite as an accept/reject diff */}
+                  {suggestion && (
+                    <View className="mt-3 bg-white/90 rounded-lg p-3">
+                      <Text className="text-sm font-semibold text-gray-900 mb-2">Suggested rewrite</Text>
+                      <DiffView segments={diffWords(suggestion.original.trim(), suggestion.replacement.trim())} />
+                      <View className="flex-row justify-end space-x-2 mt-3">
+                        <GlassButton
+                          title="Try Again"
+                          onPress={() => rewriteRequest && requestRewrite(rewriteRequest)}
+                          loading={isRewriting}
+                          variant="ghost"
+                          size="small"
+                          icon="refresh-outline"
+                        />
+                        <GlassButton
+                          title="Reject"
+                          onPress={handleRejectRewrite}
+                          variant="secondary"
+                          size="small"
+                          icon="close-outline"
+                        />
+                        <GlassButton
+                          title="Accept"
+                          onPress={handleAcceptRewrite}
+                          variant="primary"
+                          size="small"
+                          icon="checkmark-outline"
+                        />
+                      </View>
+                    </View>
+                  )}
+
                   <View className="flex-row justify-between mt-3">
                     <Text className="text-xs text-white/70">
-                      {content.split(/\s+/).filter(word => word.length > 0).length} words
+                      {countWords(content)} words
                     </Text>
                     <Text className="text-xs text-white/70">
-                      ~{Math.ceil(content.split(/\s+/).length / 200)} min read
+                      ~{readingTimeMinutes(content)} min read
                     </Text>
                   </View>
                 </GlassCard>
@@ -727,6 +1686,13 @@ export default function EditBlogScreen({ navigation, route }: Props) {
             </View>
           </ScrollView>
         </KeyboardAvoidingView>
+
+        <OutlineSidebar
+          visible={showOutline}
+          structure={documentStructure}
+          onSelect={handleJumpTo}
+          onClose={() => setShowOutline(false)}
+        />
         
         <GlassModal
           visible={modalVisible}
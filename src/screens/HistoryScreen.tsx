@@ -23,6 +23,8 @@ import Animated, {
 import { HistoryStackParamList } from "../navigation/AppNavigator";
 import useHistoryStore from "../state/historyStore";
 import { BlogPost } from "../types/blog";
+import { parseQuery } from "../utils/search";
+import { POST_STATUSES, STATUS_LABELS } from "../utils/workflow";
 
 // UI Components
 import GradientBackground from "../components/ui/GradientBackground";
@@ -99,6 +101,9 @@ export default function HistoryScreen({ navigation }: Props) {
     statusFilter,
   ]);
 
+  // Parsed once per keystroke and shared by every card for highlighting
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+
   const hasActiveFilters = useMemo(() => {
     return searchQuery.length > 0 || selectedTags.length > 0 || statusFilter !== "all";
   }, [searchQuery, selectedTags, statusFilter]);
@@ -274,11 +279,11 @@ export default function HistoryScreen({ navigation }: Props) {
               </Text>
               <ScrollView horizontal showsHorizontalScrollIndicator={false}>
                 <View className="flex-row space-x-2">
-                  {["all", "draft", "published", "archived"].map((status) => (
+                  {(["all", ...POST_STATUSES] as const).map((status) => (
                     <GlassButton
                       key={status}
-                      title={status.charAt(0).toUpperCase() + status.slice(1)}
-                      onPress={() => handleStatusFilter(status as typeof statusFilter)}
+                      title={status === "all" ? "All" : STATUS_LABELS[status]}
+                      onPress={() => handleStatusFilter(status)}
                       variant={statusFilter === status ? "primary" : "ghost"}
                       size="small"
                     />
@@ -295,6 +300,7 @@ export default function HistoryScreen({ navigation }: Props) {
               <ScrollView horizontal showsHorizontalScrollIndicator={false}>
                 <View className="flex-row space-x-2">
                   {[
+                    { key: "relevance", label: "Relevance" },
                     { key: "date", label: "Date" },
                     { key: "title", label: "Title" },
                     { key: "seoScore", label: "SEO Score" },
@@ -340,12 +346,23 @@ export default function HistoryScreen({ navigation }: Props) {
       <SafeAreaView className="flex-1">
         {/* Header */}
         <Animated.View style={headerAnimatedStyle} className="px-6 pt-4 pb-2">
-          <Text className="text-3xl font-bold text-white mb-2">
-            Blog History
-          </Text>
-          <Text className="text-lg text-white/80">
-            {blogs.length} blog{blogs.length !== 1 ? "s" : ""} created
-          </Text>
+          <View className="flex-row items-start justify-between">
+            <View className="flex-1">
+              <Text className="text-3xl font-bold text-white mb-2">
+                Blog History
+              </Text>
+              <Text className="text-lg text-white/80">
+                {blogs.length} blog{blogs.length !== 1 ? "s" : ""} created
+              </Text>
+            </View>
+            <GlassButton
+              title="Calendar"
+              onPress={() => navigation.navigate("Calendar")}
+              variant="secondary"
+              size="small"
+              icon="calendar-outline"
+            />
+          </View>
         </Animated.View>
 
         {blogs.length === 0 ? (
@@ -400,6 +417,7 @@ export default function HistoryScreen({ navigation }: Props) {
                         onEdit={() => handleEditBlog(blog)}
                         onDelete={() => handleDeleteBlog(blog)}
                         onToggleFavorite={() => handleToggleFavorite(blog)}
+                        query={parsedQuery}
                       />
                     </Animated.View>
                   ))}
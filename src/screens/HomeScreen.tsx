@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from "react";
+import React, { useEffect, useState, useCallback, useRef } from "react";
 import {
   View,
   Text,
@@ -6,9 +6,11 @@ import {
   Platform,
   Dimensions,
   Pressable,
+  ScrollView,
 } from "react-native";
 import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
 import { Ionicons } from "@expo/vector-icons";
 import { BlurView } from "expo-blur";
 import Animated, {
@@ -21,14 +23,29 @@ import Animated, {
   interpolate,
   withTiming,
 } from "react-native-reanimated";
+import MarkdownDisplay from "react-native-markdown-display";
 
 import { HomeStackParamList } from "../navigation/AppNavigator";
-import { generateEnhancedSEOBlog } from "../api/blog-generator";
+import { BlogGenerationOptions, GeneratedBlog, generateEnhancedSEOBlog } from "../api/blog-generator";
+import {
+  assembleLongFormBlog,
+  failedSections,
+  generateLongFormDraft,
+  LongFormDraft,
+  PIPELINE_STAGES,
+  PipelineHandlers,
+  regenerateSection,
+} from "../api/blog-pipeline";
 import { conductSEOResearch, SEOResearchData } from "../api/seo-research";
 import { networkService, NetworkError, useNetworkState } from "../utils/network";
 import useBlogStore from "../state/blogStore";
 import useSEOStore from "../state/seoStore";
 import useHistoryStore from "../state/historyStore";
+import useTemplateStore from "../state/templateStore";
+import useBrandVoiceStore from "../state/brandVoiceStore";
+import { SUPPORTED_LOCALES } from "../utils/locale";
+import { blogPostFromGenerated } from "../utils/blog-post";
+import useSettingsStore from "../state/settingsStore";
 import { colors, typography, spacing, shadows } from "../styles/design-system";
 
 // UI Components
@@ -37,19 +54,33 @@ import GlassCard from "../components/ui/GlassCard";
 import GlassButton from "../components/ui/GlassButton";
 import GlassInput from "../components/ui/GlassInput";
 import GlassModal from "../components/ui/GlassModal";
+import ProgressIndicator from "../components/ui/ProgressIndicator";
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<
   HomeStackParamList,
   "Home"
 >;
 
+type HomeScreenRouteProp = RouteProp<HomeStackParamList, "Home">;
+
 interface Props {
   navigation: HomeScreenNavigationProp;
+  route: HomeScreenRouteProp;
 }
 
 const { width } = Dimensions.get("window");
 
-export default function HomeScreen({ navigation }: Props) {
+// Only the tail of the streamed article is rendered so re-parsing the markdown stays cheap.
+const LIVE_PREVIEW_CHARS = 1500;
+
+function livePreviewTail(content: string) {
+  if (content.length <= LIVE_PREVIEW_CHARS) return content;
+  const tail = content.slice(-LIVE_PREVIEW_CHARS);
+  const lineBreak = tail.indexOf("\n");
+  return lineBreak >= 0 ? tail.slice(lineBreak + 1) : tail;
+}
+
+export default function HomeScreen({ navigation, route }: Props) {
   const [modalVisible, setModalVisible] = useState(false);
   const [modalTitle, setModalTitle] = useState("");
   const [modalMessage, setModalMessage] = useState("");
@@ -64,6 +95,8 @@ export default function HomeScreen({ navigation }: Props) {
   const [topic, setTopic] = useState("");
 
   const [researchData, setResearchData] = useState<SEOResearchData | null>(null);
+  const [templateId, setTemplateId] = useState<string | undefined>(undefined);
+  const generationStartedAt = useRef(0);
   const [featuresExpanded, setFeaturesExpanded] = useState(false);
   const expand = useSharedValue(0);
   const insets = useSafeAreaInsets();
@@ -93,14 +126,31 @@ export default function HomeScreen({ navigation }: Props) {
   const {
     isGenerating,
     isResearching,
+    generationProgress,
+    streamingContent,
+    generationStep,
+    generationDetail,
+    longFormDraft,
+    currentTopic,
+    currentResearch,
+    currentOutline,
+    currentLocale,
     setIsGenerating,
     setIsResearching,
+    setGenerationProgress,
+    setStreamingContent,
+    setGenerationStep,
+    setLongFormDraft,
     setCurrentTopic,
     setCurrentResearch,
+    setCurrentLocale,
   } = useBlogStore();
   
-  const { addResearch, getCachedResearch } = useSEOStore();
+  const { addResearch, getCachedResearch, getResearchByTopic } = useSEOStore();
   const { addBlog, enqueueTask } = useHistoryStore();
+  const { getTemplates } = useTemplateStore();
+  const { profiles: brandVoices, selectedProfileId, selectProfile, getSelectedProfile } = useBrandVoiceStore();
+  const { siteUrl, authorName } = useSettingsStore();
   const { isOnline, quality } = useNetworkState();
 
   // Animations
@@ -137,6 +187,14 @@ export default function HomeScreen({ navigation }: Props) {
     transform: [{ scale: cardScale.value }],
   }));
 
+  // The Outline screen hands back here once the structure is approved
+  useEffect(() => {
+    if (route.params?.generateFromOutline) {
+      navigation.setParams({ generateFromOutline: undefined });
+      handleGenerate();
+    }
+  }, [route.params?.generateFromOutline]);
+
   // Research functionality
   const handleResearch = useCallback(async () => {
     if (!topic.trim()) {
@@ -155,7 +213,7 @@ export default function HomeScreen({ navigation }: Props) {
       setModalActions([
         { label: "Cancel", onPress: () => setModalVisible(false), variant: "secondary" },
         { label: "Queue for later", variant: "primary", onPress: () => {
-            enqueueTask({ topic: topic.trim(), withResearch: true, options: { contentType: "guide", tone: "conversational", includeFAQ: true, includeSchema: true, wordCount: 2500 } });
+            enqueueTask({ topic: topic.trim(), withResearch: true, options: { contentType: "guide", tone: "conversational", includeFAQ: true, includeSchema: true, wordCount: 2500, locale: currentLocale } });
             setModalVisible(false);
             setModalTitle("Queued");
             setModalMessage("Your task has been added to the offline queue.");
@@ -170,7 +228,7 @@ export default function HomeScreen({ navigation }: Props) {
 
     try {
       // Check cache first
-      const cached = getCachedResearch(topic.trim());
+      const cached = getCachedResearch(topic.trim(), currentLocale);
       if (cached) {
         setResearchData(cached);
         setCurrentResearch(cached);
@@ -178,7 +236,7 @@ export default function HomeScreen({ navigation }: Props) {
       }
 
       // Conduct new research
-      const research = await conductSEOResearch(topic.trim());
+      const research = await conductSEOResearch(topic.trim(), { brandVoice: getSelectedProfile(), locale: currentLocale });
       addResearch(topic.trim(), research);
       
       setResearchData(research);
@@ -195,7 +253,7 @@ export default function HomeScreen({ navigation }: Props) {
     } finally {
       setIsResearching(false);
     }
-  }, [topic, showModal, setIsResearching, setCurrentTopic, getCachedResearch, setResearchData, setCurrentResearch, addResearch, navigation]);
+  }, [topic, currentLocale, showModal, setIsResearching, setCurrentTopic, getCachedResearch, setResearchData, setCurrentResearch, addResearch, navigation]);
 
   // Blog generation functionality
   const handleGenerate = async () => {
@@ -205,6 +263,9 @@ export default function HomeScreen({ navigation }: Props) {
     }
 
     setIsGenerating(true);
+    setGenerationProgress(0);
+    setStreamingContent("");
+    setLongFormDraft(null);
     cardScale.value = withSpring(0.98);
 
     // Ensure we are online before making network requests
@@ -216,7 +277,7 @@ export default function HomeScreen({ navigation }: Props) {
       setModalActions([
         { label: "Cancel", onPress: () => setModalVisible(false), variant: "secondary" },
         { label: "Queue for later", variant: "primary", onPress: () => {
-            enqueueTask({ topic: topic.trim(), withResearch: false, options: { contentType: "guide", tone: "conversational", includeFAQ: true, includeSchema: true, wordCount: 2500 } });
+            enqueueTask({ topic: topic.trim(), withResearch: false, options: { contentType: "guide", tone: "conversational", includeFAQ: true, includeSchema: true, wordCount: 2500, locale: currentLocale } });
             setModalVisible(false);
             setModalTitle("Queued");
             setModalMessage("Your task has been added to the offline queue.");
@@ -230,44 +291,55 @@ export default function HomeScreen({ navigation }: Props) {
     }
 
     try {
+      const startedAt = Date.now();
+      generationStartedAt.current = startedAt;
+      // An outline approved on the Outline screen fixes the structure of the article
+      const outline = currentOutline && currentTopic === topic.trim() ? currentOutline : undefined;
+      const research = researchData ?? (outline ? currentResearch : null);
+      const template = templateId ? getTemplates().find((t) => t.id === templateId) : undefined;
+      const brandVoice = getSelectedProfile();
+      // A chosen template dictates the skeleton instead of a planned outline, unless one was approved
+      if (research && (outline || !template)) {
+        // With research in hand, write long-form posts section by section from an outline
+        setGenerationStep(outline ? 2 : 1);
+        const draft = await generateLongFormDraft(
+          {
+            topic: topic.trim(),
+            researchData: research,
+            outline,
+            brandVoice,
+            locale: currentLocale,
+            contentType: "guide",
+            tone: "conversational",
+            includeFAQ: true,
+            includeSchema: true,
+            wordCount: 2500,
+          },
+          pipelineHandlers,
+        );
+        finishLongFormDraft(draft, startedAt);
+        return;
+      }
+
       const blogData = await generateEnhancedSEOBlog({
         topic: topic.trim(),
-        researchData: researchData || undefined,
-        contentType: "guide",
+        researchData: research ?? undefined,
+        templateId: template?.id,
+        brandVoice,
+        locale: currentLocale,
+        contentType: (template?.category as BlogGenerationOptions["contentType"]) ?? "guide",
         tone: "conversational",
         includeFAQ: true,
         includeSchema: true,
         wordCount: 2500,
+      }, {
+        onProgress: ({ content, progress }) => {
+          setGenerationProgress(progress);
+          setStreamingContent(content);
+        },
       });
-
-      // Create blog post object
-      const blogPost = {
-        id: `blog-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
-        title: blogData.title,
-        content: blogData.content,
-        topic: topic.trim(),
-        metaDescription: blogData.metaDescription,
-        keywords: blogData.keywords,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        status: "draft" as const,
-        seoScore: blogData.seoScore,
-        wordCount: blogData.wordCount,
-        readingTime: blogData.readingTime,
-        tags: [],
-        isFavorite: false,
-        version: 1,
-      };
-
-      // Add to history
-      addBlog(blogPost);
-
-      // Navigate to preview
-      navigation.navigate("Preview", { 
-        blogContent: blogData.content, 
-        topic: topic.trim(),
-        researchId: researchData ? "current" : undefined,
-      });
+      setGenerationProgress(100);
+      saveAndPreview(blogData, startedAt, research);
     } catch (error) {
       if ((error as NetworkError).isNetworkError) {
         showModal("Network Error", "Unable to reach the server. Please check your connection and retry.");
@@ -276,10 +348,79 @@ export default function HomeScreen({ navigation }: Props) {
       }
     } finally {
       setIsGenerating(false);
+      setStreamingContent("");
+      setGenerationStep(null);
       cardScale.value = withSpring(1);
     }
   };
 
+  const pipelineHandlers: PipelineHandlers = {
+    onProgress: ({ stageIndex, progress, detail, content }) => {
+      setGenerationStep(stageIndex, detail);
+      setGenerationProgress(progress);
+      setStreamingContent(content);
+    },
+  };
+
+  // `research` is what the post was written from: researched here, or loaded for an approved outline
+  const saveAndPreview = (blogData: GeneratedBlog, startedAt: number, research: SEOResearchData | null) => {
+    // Create blog post object
+    const blogPost = blogPostFromGenerated(blogData, {
+      topic: topic.trim(),
+      researchId: research ? getResearchByTopic(topic.trim())?.id ?? "" : "",
+      generationTime: Date.now() - startedAt,
+      prompt: topic.trim(),
+      schema: { siteUrl, authorName },
+    });
+
+    // Add to history
+    addBlog(blogPost);
+
+    // Navigate to preview
+    navigation.navigate("Preview", {
+      blogContent: blogData.content,
+      topic: topic.trim(),
+      blogId: blogPost.id,
+      researchId: research ? "current" : undefined,
+      isFallback: blogData.isFallback,
+      bannedWords: blogData.bannedWords?.map(({ word, count }) => (count > 1 ? `${word} (${count}×)` : word)),
+    });
+  };
+
+  // Keep drafts with failed sections on screen so each section can be retried on its own
+  const finishLongFormDraft = (draft: LongFormDraft, startedAt: number) => {
+    if (failedSections(draft).length > 0) {
+      setLongFormDraft(draft);
+      return;
+    }
+    setLongFormDraft(null);
+    setGenerationProgress(100);
+    saveAndPreview(assembleLongFormBlog(draft), startedAt, draft.research);
+  };
+
+  const handleRetrySection = async (index: number) => {
+    if (!longFormDraft) return;
+
+    setIsGenerating(true);
+    setGenerationStep(PIPELINE_STAGES.findIndex((s) => s.stage === "sections"));
+    try {
+      const draft = await regenerateSection(longFormDraft, index, pipelineHandlers);
+      finishLongFormDraft(draft, generationStartedAt.current);
+    } catch (error) {
+      showModal("Retry Failed", "That section couldn't be written. Please try again.");
+    } finally {
+      setIsGenerating(false);
+      setStreamingContent("");
+      setGenerationStep(null);
+    }
+  };
+
+  const handleSkipFailedSections = () => {
+    if (!longFormDraft) return;
+    setLongFormDraft(null);
+    saveAndPreview(assembleLongFormBlog(longFormDraft), generationStartedAt.current, longFormDraft.research);
+  };
+
   const handleQuickGenerate = async () => {
     if (!topic.trim()) {
       showModal("Please enter a topic", "You need to provide a blog topic to generate content.");
@@ -290,6 +431,8 @@ export default function HomeScreen({ navigation }: Props) {
     await handleGenerate();
   };
 
+  const streamedWordCount = streamingContent.split(/\s+/).filter((word) => word.length > 0).length;
+
   return (
     <GradientBackground variant="primary" animated>
       <SafeAreaView className="flex-1">
@@ -440,9 +583,144 @@ export default function HomeScreen({ navigation }: Props) {
                     💡 Be specific about your target audience and main keywords for better SEO results. 
                     The more detailed your topic, the more targeted your content will be.
                   </Text>
+
+                  {/* Brand voice picker */}
+                  {brandVoices.length > 0 && (
+                    <>
+                      <Text className="text-white font-semibold mt-4 mb-2">Brand voice</Text>
+                      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                        <View className="flex-row gap-2">
+                          {[{ id: null, name: "None" }, ...brandVoices].map((voice) => (
+                            <Pressable
+                              key={voice.id ?? "none"}
+                              onPress={() => selectProfile(voice.id)}
+                              className={`px-3 py-1.5 rounded-full border ${
+                                selectedProfileId === voice.id ? "bg-white/40 border-white" : "bg-white/10 border-white/30"
+                              }`}
+                            >
+                              <Text className="text-white text-sm">{voice.name}</Text>
+                            </Pressable>
+                          ))}
+                        </View>
+                      </ScrollView>
+                    </>
+                  )}
+
+                  {/* Language picker */}
+                  <Text className="text-white font-semibold mt-4 mb-2">Language</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    <View className="flex-row gap-2">
+                      {SUPPORTED_LOCALES.map((locale) => (
+                        <Pressable
+                          key={locale.code}
+                          onPress={() => {
+                            setCurrentLocale(locale.code);
+                            if (locale.code !== currentLocale) setResearchData(null);
+                          }}
+                          className={`px-3 py-1.5 rounded-full border ${
+                            currentLocale === locale.code ? "bg-white/40 border-white" : "bg-white/10 border-white/30"
+                          }`}
+                        >
+                          <Text className="text-white text-sm">{locale.nativeName}</Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  </ScrollView>
+
+                  {/* Template picker */}
+                  <Text className="text-white font-semibold mt-4 mb-2">Template</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    <View className="flex-row gap-2">
+                      {[{ id: undefined, name: "None" }, ...getTemplates()].map((template) => (
+                        <Pressable
+                          key={template.id ?? "none"}
+                          onPress={() => setTemplateId(template.id)}
+                          className={`px-3 py-1.5 rounded-full border ${
+                            templateId === template.id ? "bg-white/40 border-white" : "bg-white/10 border-white/30"
+                          }`}
+                        >
+                          <Text className="text-white text-sm">{template.name}</Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  </ScrollView>
                 </GlassCard>
               </Animated.View>
 
+              {/* Live generation preview */}
+              {isGenerating && (
+                <Animated.View entering={FadeIn} className="mb-6">
+                  {generationStep !== null ? (
+                    <ProgressIndicator
+                      progress={generationProgress}
+                      title="Writing your article"
+                      subtitle={generationDetail || undefined}
+                      variant="steps"
+                      color="purple"
+                      steps={PIPELINE_STAGES.map((s) => s.label)}
+                      currentStep={generationStep}
+                    />
+                  ) : (
+                    <ProgressIndicator
+                      progress={generationProgress}
+                      title="Writing your article"
+                      subtitle={streamedWordCount > 0 ? `${streamedWordCount} words so far` : "Waiting for the first words..."}
+                      variant="linear"
+                      color="purple"
+                    />
+                  )}
+                  {streamingContent.length > 0 && (
+                    <GlassCard
+                      intensity={25}
+                      gradientColors={["rgba(255, 255, 255, 0.95)", "rgba(255, 255, 255, 0.8)"]}
+                      borderRadius={16}
+                      padding={16}
+                      className="mt-3"
+                    >
+                      <MarkdownDisplay>{livePreviewTail(streamingContent)}</MarkdownDisplay>
+                    </GlassCard>
+                  )}
+                </Animated.View>
+              )}
+
+              {/* Sections that failed in the long-form pipeline */}
+              {!isGenerating && longFormDraft && (
+                <Animated.View entering={FadeIn} className="mb-6">
+                  <GlassCard
+                    intensity={25}
+                    gradientColors={["rgba(255, 255, 255, 0.95)", "rgba(255, 255, 255, 0.8)"]}
+                    borderRadius={16}
+                    padding={16}
+                  >
+                    <Text className="text-lg font-semibold text-gray-900 mb-1">Some sections need another try</Text>
+                    <Text className="text-sm text-gray-600 mb-4">
+                      The rest of the article is ready. Retry the sections below or continue without them.
+                    </Text>
+                    {failedSections(longFormDraft).map(({ section, index }) => (
+                      <View key={index} className="flex-row items-center justify-between mb-3">
+                        <Text className="flex-1 text-sm font-medium text-gray-900 mr-3" numberOfLines={2}>
+                          {section.heading || "Introduction"}
+                        </Text>
+                        <GlassButton
+                          title="Retry"
+                          onPress={() => handleRetrySection(index)}
+                          variant="secondary"
+                          size="small"
+                          icon="refresh"
+                        />
+                      </View>
+                    ))}
+                    <GlassButton
+                      title="Continue without them"
+                      onPress={handleSkipFailedSections}
+                      variant="ghost"
+                      size="small"
+                      fullWidth
+                    />
+                  </GlassCard>
+                </Animated.View>
+              )}
+
               {/* Features (collapsible) */}
               <Animated.View entering={SlideInUp.delay(1200)}>
                 <Pressable onPress={() => setFeaturesExpanded((v) => !v)} className="flex-row items-center justify-between py-3 mb-2">
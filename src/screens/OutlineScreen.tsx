@@ -0,0 +1,365 @@
+import React, { useState, useEffect } from "react";
+import { View, Text, TextInput, Pressable } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import { Ionicons } from "@expo/vector-icons";
+import Animated, { FadeIn, SlideInUp } from "react-native-reanimated";
+
+import { HomeStackParamList } from "../navigation/AppNavigator";
+import { conductSEOResearch, ContentOutline, generateContentOutline } from "../api/seo-research";
+import useBlogStore from "../state/blogStore";
+import useSEOStore from "../state/seoStore";
+import useBrandVoiceStore from "../state/brandVoiceStore";
+import { cn } from "../utils/cn";
+import { getLocale } from "../utils/locale";
+import { logger } from "../utils/logger";
+
+// UI Components
+import GradientBackground from "../components/ui/GradientBackground";
+import GlassCard from "../components/ui/GlassCard";
+import GlassButton from "../components/ui/GlassButton";
+import GlassInput from "../components/ui/GlassInput";
+import GlassModal from "../components/ui/GlassModal";
+import InlineBanner from "../components/ui/InlineBanner";
+import ProgressIndicator from "../components/ui/ProgressIndicator";
+
+type OutlineScreenNavigationProp = NativeStackNavigationProp<HomeStackParamList, "Outline">;
+
+type OutlineScreenRouteProp = RouteProp<HomeStackParamList, "Outline">;
+
+interface Props {
+  navigation: OutlineScreenNavigationProp;
+  route: OutlineScreenRouteProp;
+}
+
+type OutlineHeading = ContentOutline["headings"][number];
+
+const WORD_STEP = 50;
+const MIN_SECTION_WORDS = 50;
+
+export default function OutlineScreen({ navigation, route }: Props) {
+  const { topic } = route.params;
+
+  const [outline, setOutline] = useState<ContentOutline | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+
+  const {
+    currentTopic,
+    currentResearch,
+    currentOutline,
+    currentLocale,
+    setCurrentTopic,
+    setCurrentResearch,
+    setCurrentOutline,
+  } = useBlogStore();
+  const { getCachedResearch, addResearch } = useSEOStore();
+  const { getSelectedProfile } = useBrandVoiceStore();
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  useEffect(() => {
+    // Reopen the outline already approved for this topic; edits only count once approved again
+    if (currentOutline && currentTopic === topic) {
+      setOutline(currentOutline);
+      setIsLoading(false);
+      return;
+    }
+    loadOutline();
+  }, [topic]);
+
+  const loadOutline = async () => {
+    setIsLoading(true);
+    try {
+      const brandVoice = getSelectedProfile();
+      // Research already loaded only applies if it was done for this topic, in this language
+      const sameLocale = getLocale(currentResearch?.locale).code === getLocale(currentLocale).code;
+      const loaded = currentTopic === topic && sameLocale ? currentResearch : null;
+      let research = getCachedResearch(topic, currentLocale) ?? loaded;
+      if (!research) {
+        research = await conductSEOResearch(topic, { brandVoice, locale: currentLocale });
+        addResearch(topic, research);
+      }
+      setCurrentResearch(research);
+      setOutline(await generateContentOutline(topic, research, { brandVoice, locale: currentLocale }));
+    } catch (error) {
+      logger.error("Outline generation error:", error);
+      showModal("Outline Failed", "Failed to create a content outline. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // H1 headings mirror the title, so only H2 and H3 sections are edited here
+  const sections = outline ? outline.headings.filter((h) => h.level > 1) : [];
+  const totalWords = sections.reduce((sum, h) => sum + h.wordCount, 0);
+
+  const updateSections = (update: (sections: OutlineHeading[]) => OutlineHeading[]) => {
+    setOutline((prev) => {
+      if (!prev) return prev;
+      const titles = prev.headings.filter((h) => h.level === 1);
+      return { ...prev, headings: [...titles, ...update(prev.headings.filter((h) => h.level > 1))] };
+    });
+  };
+
+  const updateSection = (index: number, patch: Partial<OutlineHeading>) => {
+    updateSections((list) => list.map((h, i) => (i === index ? { ...h, ...patch } : h)));
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    updateSections((list) => {
+      const target = index + direction;
+      if (target < 0 || target >= list.length) return list;
+      const next = [...list];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addSection = () => {
+    updateSections((list) => [...list, { level: 2, text: "", keywords: [], wordCount: 300 }]);
+  };
+
+  const deleteSection = (index: number) => {
+    updateSections((list) => list.filter((_, i) => i !== index));
+  };
+
+  const validationError = () => {
+    if (!outline) return "The outline hasn't loaded yet.";
+    if (!outline.title.trim()) return "Give the article a title.";
+    if (!sections.some((h) => h.level === 2)) return "Add at least one H2 section.";
+    if (sections[0].level !== 2) return "The first section must be an H2; H3s belong under an H2.";
+    if (sections.some((h) => !h.text.trim())) return "Every section needs a heading.";
+    return null;
+  };
+
+  const handleGenerate = () => {
+    const error = validationError();
+    if (error || !outline) {
+      showModal("Outline Incomplete", error ?? "");
+      return;
+    }
+    const approved = {
+      ...outline,
+      title: outline.title.trim(),
+      headings: outline.headings.map((h) => ({ ...h, text: h.text.trim() })),
+    };
+    setCurrentTopic(topic);
+    setCurrentOutline(approved);
+    navigation.navigate("Home", { generateFromOutline: true });
+  };
+
+  if (isLoading) {
+    return (
+      <GradientBackground variant="accent" animated>
+        <SafeAreaView className="flex-1">
+          <View className="flex-1 items-center justify-center px-6">
+            <ProgressIndicator
+              progress={60}
+              title="Planning Your Outline"
+              subtitle={`Structuring "${topic}" around your research`}
+              variant="circular"
+              color="purple"
+              size="large"
+              animated
+            />
+          </View>
+        </SafeAreaView>
+      </GradientBackground>
+    );
+  }
+
+  if (!outline) {
+    return (
+      <GradientBackground variant="accent" animated>
+        <SafeAreaView className="flex-1">
+          <View className="flex-1 items-center justify-center px-6">
+            <View className="w-24 h-24 rounded-3xl bg-white/20 items-center justify-center mb-6">
+              <Ionicons name="warning-outline" size={40} color="white" />
+            </View>
+            <Text className="text-2xl font-bold text-white text-center mb-4">Outline Failed</Text>
+            <Text className="text-lg text-white/80 text-center mb-8 leading-relaxed">
+              We couldn't plan an outline for this topic. Please try again.
+            </Text>
+            <GlassButton
+              title="Retry Outline"
+              onPress={loadOutline}
+              variant="primary"
+              size="medium"
+              icon="refresh-outline"
+            />
+          </View>
+        </SafeAreaView>
+        <GlassModal
+          visible={modalVisible}
+          title={modalTitle}
+          message={modalMessage}
+          actions={[{ label: "OK", onPress: () => setModalVisible(false), variant: "primary" }]}
+          onRequestClose={() => setModalVisible(false)}
+        />
+      </GradientBackground>
+    );
+  }
+
+  return (
+    <GradientBackground variant="accent" animated>
+      <SafeAreaView className="flex-1">
+        <Animated.ScrollView
+          className="flex-1"
+          contentContainerStyle={{ paddingBottom: 120 }}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View className="px-6 pt-4 space-y-6">
+            <Animated.View entering={FadeIn}>
+              <Text className="text-2xl font-bold text-white mb-1">Content Outline</Text>
+              <Text className="text-white/80">
+                {sections.length} sections • {totalWords.toLocaleString()} words planned
+              </Text>
+            </Animated.View>
+
+            {outline.isFallback && (
+              <InlineBanner
+                type="warning"
+                message="The AI response couldn't be read, so this is a generic starting outline. Edit it or regenerate."
+              />
+            )}
+
+            <Animated.View entering={SlideInUp.delay(100)}>
+              <GlassInput
+                label="Title"
+                value={outline.title}
+                onChangeText={(title) => setOutline({ ...outline, title })}
+                placeholder="Article title..."
+                variant="floating"
+                leftIcon="create-outline"
+              />
+            </Animated.View>
+
+            <Animated.View entering={SlideInUp.delay(200)}>
+              <GlassCard
+                intensity={25}
+                gradientColors={["rgba(255, 255, 255, 0.25)", "rgba(255, 255, 255, 0.1)"]}
+                borderRadius={16}
+                padding={16}
+              >
+                <Text className="text-lg font-semibold text-white mb-3">Sections</Text>
+
+                {sections.map((heading, index) => (
+                  <View
+                    key={index}
+                    className={cn("mb-3 rounded-xl bg-white/10 p-3", heading.level === 3 && "ml-6")}
+                  >
+                    <View className="flex-row items-center mb-2">
+                      <Pressable
+                        onPress={() => updateSection(index, { level: heading.level === 2 ? 3 : 2 })}
+                        className="px-2 py-1 rounded-md bg-white/20 mr-2"
+                      >
+                        <Text className="text-white text-xs font-semibold">H{heading.level}</Text>
+                      </Pressable>
+                      <TextInput
+                        value={heading.text}
+                        onChangeText={(text) => updateSection(index, { text })}
+                        placeholder="Section heading..."
+                        placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                        className="flex-1 bg-white/20 rounded-lg px-3 py-2 text-white"
+                      />
+                    </View>
+
+                    <View className="flex-row items-center justify-between">
+                      <View className="flex-row items-center">
+                        <Pressable
+                          onPress={() =>
+                            updateSection(index, {
+                              wordCount: Math.max(MIN_SECTION_WORDS, heading.wordCount - WORD_STEP),
+                            })
+                          }
+                          className="p-1"
+                        >
+                          <Ionicons name="remove-circle-outline" size={22} color="white" />
+                        </Pressable>
+                        <Text className="text-white text-sm mx-2">{heading.wordCount} words</Text>
+                        <Pressable
+                          onPress={() => updateSection(index, { wordCount: heading.wordCount + WORD_STEP })}
+                          className="p-1"
+                        >
+                          <Ionicons name="add-circle-outline" size={22} color="white" />
+                        </Pressable>
+                      </View>
+
+                      <View className="flex-row items-center">
+                        <Pressable onPress={() => moveSection(index, -1)} disabled={index === 0} className="p-1">
+                          <Ionicons name="arrow-up" size={20} color={index === 0 ? "rgba(255,255,255,0.3)" : "white"} />
+                        </Pressable>
+                        <Pressable
+                          onPress={() => moveSection(index, 1)}
+                          disabled={index === sections.length - 1}
+                          className="p-1"
+                        >
+                          <Ionicons
+                            name="arrow-down"
+                            size={20}
+                            color={index === sections.length - 1 ? "rgba(255,255,255,0.3)" : "white"}
+                          />
+                        </Pressable>
+                        <Pressable onPress={() => deleteSection(index)} className="p-1 ml-1">
+                          <Ionicons name="trash-outline" size={20} color="#fca5a5" />
+                        </Pressable>
+                      </View>
+                    </View>
+                  </View>
+                ))}
+
+                <GlassButton
+                  title="Add Section"
+                  onPress={addSection}
+                  variant="ghost"
+                  size="small"
+                  icon="add-outline"
+                  fullWidth
+                />
+              </GlassCard>
+            </Animated.View>
+
+            <Animated.View entering={SlideInUp.delay(300)} className="pb-8">
+              <View className="space-y-4">
+                <GlassButton
+                  title="Generate Article from Outline"
+                  onPress={handleGenerate}
+                  variant="primary"
+                  size="large"
+                  fullWidth
+                  icon="create"
+                  gradientColors={["rgba(59, 130, 246, 0.9)", "rgba(147, 51, 234, 0.9)"]}
+                />
+                <GlassButton
+                  title="Regenerate Outline"
+                  onPress={loadOutline}
+                  variant="secondary"
+                  size="medium"
+                  fullWidth
+                  icon="refresh-outline"
+                />
+              </View>
+            </Animated.View>
+          </View>
+        </Animated.ScrollView>
+
+        <GlassModal
+          visible={modalVisible}
+          title={modalTitle}
+          message={modalMessage}
+          actions={[{ label: "OK", onPress: () => setModalVisible(false), variant: "primary" }]}
+          onRequestClose={() => setModalVisible(false)}
+        />
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
@@ -13,6 +13,7 @@ import { RouteProp } from "@react-navigation/native";
 import { Ionicons } from "@expo/vector-icons";
 import * as Clipboard from "expo-clipboard";
 import InlineBanner from "../components/ui/InlineBanner";
+import SerpPreview from "../components/ui/SerpPreview";
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -22,6 +23,10 @@ import MarkdownDisplay from "react-native-markdown-display";
 
 import { HomeStackParamList } from "../navigation/AppNavigator";
 import { cn } from "../utils/cn";
+import useHistoryStore from "../state/historyStore";
+import useSettingsStore from "../state/settingsStore";
+import { provenanceDetails } from "../utils/blog-post";
+import { serpUrl } from "../seo/serp";
 
 type PreviewScreenNavigationProp = NativeStackNavigationProp<
   HomeStackParamList,
@@ -36,9 +41,19 @@ interface Props {
 }
 
 export default function PreviewScreen({ navigation, route }: Props) {
-  const { blogContent, topic } = route.params;
+  const { blogContent, topic, isFallback, bannedWords, blogId } = route.params;
+  const post = useHistoryStore((state) => (blogId ? state.getBlogById(blogId) : undefined));
+  const siteUrl = useSettingsStore((state) => state.siteUrl);
   const [isCopying, setIsCopying] = useState(false);
-  const [banner, setBanner] = useState<{ type: "success" | "error" | "warning" | "info"; message: string } | null>(null);
+  const [showSchema, setShowSchema] = useState(false);
+  const [banner, setBanner] = useState<{ type: "success" | "error" | "warning" | "info"; message: string } | null>(
+    isFallback
+      ? {
+          type: "warning",
+          message: "The AI response couldn't be fully read, so the title, keywords and FAQ are generic placeholders.",
+        }
+      : null,
+  );
   
   const copyButtonScale = useSharedValue(1);
   const shareButtonScale = useSharedValue(1);
@@ -156,9 +171,76 @@ export default function PreviewScreen({ navigation, route }: Props) {
               <InlineBanner type={banner.type} message={banner.message} />
             </View>
           )}
+          {bannedWords && bannedWords.length > 0 && (
+            <View className="mb-4">
+              <InlineBanner
+                type="warning"
+                message={`Off-brand words slipped through: ${bannedWords.join(", ")}. Edit them before publishing.`}
+              />
+            </View>
+          )}
           <MarkdownDisplay style={markdownStyles}>
             {blogContent}
           </MarkdownDisplay>
+
+          {/* What was saved alongside the content */}
+          {post && (
+            <View className="mt-6 pt-5 border-t border-gray-100">
+              <Text className="text-lg font-semibold text-gray-900 mb-3">Search Preview</Text>
+              <View className="mb-6">
+                <SerpPreview title={post.title} description={post.metaDescription} url={serpUrl(siteUrl, post)} />
+              </View>
+
+              <Text className="text-lg font-semibold text-gray-900 mb-3">Generation Details</Text>
+              <View className="bg-gray-50 rounded-xl p-4 mb-4">
+                {post.generationData &&
+                  provenanceDetails(post.generationData).map((row) => (
+                    <View key={row.label} className="flex-row justify-between mb-2">
+                      <Text className="text-sm text-gray-500">{row.label}</Text>
+                      <Text className="text-sm text-gray-900 flex-shrink ml-4 text-right" numberOfLines={1}>
+                        {row.value}
+                      </Text>
+                    </View>
+                  ))}
+                <View className="flex-row justify-between">
+                  <Text className="text-sm text-gray-500">Structure</Text>
+                  <Text className="text-sm text-gray-900">
+                    {post.headings.length} headings, {post.faqSection.length} FAQs
+                  </Text>
+                </View>
+              </View>
+
+              {post.faqSection.length > 0 && (
+                <View className="mb-4">
+                  <Text className="text-sm font-semibold text-gray-700 mb-2">FAQ</Text>
+                  {post.faqSection.map((faq, index) => (
+                    <Text key={index} className="text-sm text-gray-700 mb-1">
+                      • {faq.question}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
+              {!!post.schemaMarkup && (
+                <View>
+                  <Pressable onPress={() => setShowSchema(!showSchema)} className="flex-row items-center mb-2">
+                    <Ionicons name={showSchema ? "chevron-down" : "chevron-forward"} size={16} color="#374151" />
+                    <Text className="text-sm font-semibold text-gray-700 ml-1">Schema Markup (JSON-LD)</Text>
+                  </Pressable>
+                  {showSchema && (
+                    <ScrollView horizontal className="bg-gray-900 rounded-xl p-3">
+                      <Text
+                        className="text-xs text-green-300"
+                        style={{ fontFamily: Platform.OS === "ios" ? "Menlo" : "monospace" }}
+                      >
+                        {post.schemaMarkup}
+                      </Text>
+                    </ScrollView>
+                  )}
+                </View>
+              )}
+            </View>
+          )}
         </ScrollView>
 
         {/* Action Buttons */}
@@ -0,0 +1,338 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, Pressable, Platform } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import Animated, { FadeIn, SlideInUp } from "react-native-reanimated";
+
+import usePublishingStore, { PublishingSiteInput } from "../state/publishingStore";
+import { PUBLISHING_ADAPTERS, PublishingError, PublishingPlatform, PublishingSite, verifySite } from "../publishing";
+import { cn } from "../utils/cn";
+
+// UI Components
+import GradientBackground from "../components/ui/GradientBackground";
+import GlassCard from "../components/ui/GlassCard";
+import GlassButton from "../components/ui/GlassButton";
+import GlassModal from "../components/ui/GlassModal";
+
+// Both platforms' credentials are kept while editing so switching platform doesn't lose typed text
+interface SiteForm {
+  platform: PublishingPlatform;
+  name: string;
+  url: string;
+  categories: string;
+  username: string;
+  applicationPassword: string;
+  adminApiKey: string;
+}
+
+const EMPTY_FORM: SiteForm = {
+  platform: "wordpress",
+  name: "",
+  url: "",
+  categories: "",
+  username: "",
+  applicationPassword: "",
+  adminApiKey: "",
+};
+
+const PLATFORMS = Object.values(PUBLISHING_ADAPTERS);
+
+function toForm(site: PublishingSite): SiteForm {
+  return {
+    ...EMPTY_FORM,
+    ...site,
+    categories: site.categories.join(", "),
+  };
+}
+
+function fromForm(form: SiteForm): PublishingSiteInput {
+  const base = {
+    name: form.name.trim(),
+    url: form.url.trim(),
+    categories: form.categories
+      .split(",")
+      .map((c) => c.trim())
+      .filter(Boolean),
+  };
+  if (form.platform === "ghost") {
+    return { ...base, platform: "ghost", adminApiKey: form.adminApiKey.trim() };
+  }
+  return {
+    ...base,
+    platform: "wordpress",
+    username: form.username.trim(),
+    applicationPassword: form.applicationPassword.trim(),
+  };
+}
+
+function isComplete(site: PublishingSiteInput) {
+  if (!site.name || !site.url) return false;
+  return site.platform === "ghost" ? Boolean(site.adminApiKey) : Boolean(site.username && site.applicationPassword);
+}
+
+export default function PublishingSitesScreen() {
+  // id is undefined while adding a new site
+  const [editing, setEditing] = useState<{ id?: string; form: SiteForm } | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+  const [modalActions, setModalActions] = useState<
+    { label: string; onPress: () => void; variant?: "primary" | "secondary" | "destructive" }[]
+  >([]);
+
+  const { sites, addSite, updateSite, deleteSite } = usePublishingStore();
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalActions([{ label: "OK", onPress: () => setModalVisible(false), variant: "primary" }]);
+    setModalVisible(true);
+  };
+
+  const updateForm = (patch: Partial<SiteForm>) => {
+    setEditing((prev) => (prev ? { ...prev, form: { ...prev.form, ...patch } } : prev));
+  };
+
+  const handleTest = async () => {
+    if (!editing) return;
+    const site = fromForm(editing.form);
+    if (!isComplete(site)) {
+      showModal("Site Incomplete", "Enter the site's address and credentials first.");
+      return;
+    }
+    setTesting(true);
+    try {
+      const account = await verifySite({ ...site, id: editing.id ?? "test" } as PublishingSite);
+      showModal("Connected", `Signed in to ${site.url} as "${account}".`);
+    } catch (error) {
+      const message = error instanceof PublishingError ? error.message : "The connection test failed.";
+      showModal("Connection Failed", message);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const site = fromForm(editing.form);
+    if (!isComplete(site)) {
+      showModal("Site Incomplete", "A site needs a name, its address and credentials.");
+      return;
+    }
+    if (editing.id) {
+      updateSite(editing.id, site);
+    } else {
+      addSite(site);
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = (site: PublishingSite) => {
+    setModalTitle("Remove Site");
+    setModalMessage(`Remove "${site.name}" and its credentials? Posts already published there stay online.`);
+    setModalActions([
+      { label: "Cancel", onPress: () => setModalVisible(false), variant: "secondary" },
+      {
+        label: "Remove",
+        onPress: () => {
+          deleteSite(site.id);
+          setModalVisible(false);
+        },
+        variant: "destructive",
+      },
+    ]);
+    setModalVisible(true);
+  };
+
+  const renderField = (
+    label: string,
+    key: keyof Omit<SiteForm, "platform">,
+    placeholder: string,
+    secure = false,
+  ) => (
+    <View className="mb-3">
+      <Text className="text-sm font-semibold text-gray-700 mb-1">{label}</Text>
+      <TextInput
+        value={editing?.form[key] ?? ""}
+        onChangeText={(value) => updateForm({ [key]: value })}
+        placeholder={placeholder}
+        placeholderTextColor="#9ca3af"
+        autoCapitalize={key === "name" || key === "categories" ? "sentences" : "none"}
+        autoCorrect={false}
+        secureTextEntry={secure}
+        className="bg-gray-100 rounded-lg px-3 py-2 text-gray-900"
+      />
+    </View>
+  );
+
+  const renderEditor = () => {
+    if (!editing) return null;
+    const { platform } = editing.form;
+    return (
+      <Animated.View entering={FadeIn}>
+        <GlassCard
+          intensity={20}
+          gradientColors={["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"]}
+          borderRadius={16}
+          padding={20}
+        >
+          <Text className="text-lg font-bold text-gray-900 mb-4">{editing.id ? "Edit Site" : "New Site"}</Text>
+
+          <Text className="text-sm font-semibold text-gray-700 mb-2">Platform</Text>
+          <View className="flex-row flex-wrap gap-2 mb-3">
+            {PLATFORMS.map((adapter) => (
+              <Pressable
+                key={adapter.platform}
+                onPress={() => updateForm({ platform: adapter.platform })}
+                className={cn("px-3 py-1.5 rounded-full", platform === adapter.platform ? "bg-blue-500" : "bg-gray-200")}
+              >
+                <Text className={cn("text-sm", platform === adapter.platform ? "text-white" : "text-gray-700")}>
+                  {adapter.name}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {renderField("Name", "name", "e.g. Company blog")}
+          {renderField("Address", "url", "https://blog.example.com")}
+          {platform === "wordpress" ? (
+            <>
+              {renderField("Username", "username", "Your WordPress username")}
+              {renderField(
+                "Application password",
+                "applicationPassword",
+                "Users → Profile → Application Passwords",
+                true,
+              )}
+            </>
+          ) : (
+            renderField("Admin API key", "adminApiKey", "Settings → Integrations → Add custom integration", true)
+          )}
+          {renderField(
+            platform === "wordpress" ? "Categories" : "Primary tags",
+            "categories",
+            "Comma-separated, added to every post",
+          )}
+
+          <View className="flex-row space-x-3 mt-2">
+            <View className="flex-1">
+              <GlassButton
+                title="Test Connection"
+                onPress={handleTest}
+                variant="secondary"
+                size="medium"
+                fullWidth
+                loading={testing}
+                disabled={testing}
+              />
+            </View>
+          </View>
+          <View className="flex-row space-x-3 mt-3">
+            <View className="flex-1">
+              <GlassButton title="Cancel" onPress={() => setEditing(null)} variant="secondary" size="medium" fullWidth />
+            </View>
+            <View className="flex-1">
+              <GlassButton
+                title="Save"
+                onPress={handleSave}
+                variant="primary"
+                size="medium"
+                fullWidth
+                icon="checkmark"
+              />
+            </View>
+          </View>
+        </GlassCard>
+      </Animated.View>
+    );
+  };
+
+  return (
+    <GradientBackground variant="secondary" animated>
+      <SafeAreaView className="flex-1">
+        <Animated.ScrollView
+          className="flex-1"
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: Platform.OS === "ios" ? 140 : 120 }}
+        >
+          <View className="px-6 pt-4 space-y-6">
+            <Animated.View entering={FadeIn}>
+              <Text className="text-3xl font-bold text-gray-900 mb-2">Publishing Sites</Text>
+              <Text className="text-lg text-gray-600">Push posts straight to WordPress or Ghost</Text>
+            </Animated.View>
+
+            {!editing && (
+              <GlassButton
+                title="Add Site"
+                onPress={() => setEditing({ form: EMPTY_FORM })}
+                variant="primary"
+                size="medium"
+                icon="add"
+                fullWidth
+              />
+            )}
+
+            {renderEditor()}
+
+            {sites.length === 0 && !editing && (
+              <Text className="text-sm text-gray-600">
+                No sites yet. Add one to publish posts from the editor.
+              </Text>
+            )}
+
+            {sites.map((site, index) => (
+              <Animated.View key={site.id} entering={SlideInUp.delay(100 + index * 50)}>
+                <GlassCard
+                  intensity={20}
+                  gradientColors={["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"]}
+                  borderRadius={16}
+                  padding={16}
+                >
+                  <View className="flex-row items-center justify-between mb-1">
+                    <Text className="flex-1 text-base font-semibold text-gray-900 mr-2">{site.name}</Text>
+                    <View className="px-2 py-0.5 rounded-full bg-blue-100">
+                      <Text className="text-xs text-blue-700">{PUBLISHING_ADAPTERS[site.platform].name}</Text>
+                    </View>
+                  </View>
+                  <Text className="text-sm text-gray-600 mb-1" numberOfLines={1}>
+                    {site.url}
+                  </Text>
+                  {site.categories.length > 0 && (
+                    <Text className="text-xs text-gray-500 mb-1" numberOfLines={1}>
+                      Adds {site.categories.join(", ")}
+                    </Text>
+                  )}
+                  <View className="flex-row justify-end space-x-2 mt-2">
+                    <GlassButton
+                      title="Edit"
+                      onPress={() => setEditing({ id: site.id, form: toForm(site) })}
+                      variant="ghost"
+                      size="small"
+                      icon="create-outline"
+                    />
+                    <GlassButton
+                      title="Remove"
+                      onPress={() => handleDelete(site)}
+                      variant="ghost"
+                      size="small"
+                      icon="trash-outline"
+                    />
+                  </View>
+                </GlassCard>
+              </Animated.View>
+            ))}
+          </View>
+        </Animated.ScrollView>
+
+        <GlassModal
+          visible={modalVisible}
+          title={modalTitle}
+          message={modalMessage}
+          actions={modalActions}
+          onRequestClose={() => setModalVisible(false)}
+        />
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
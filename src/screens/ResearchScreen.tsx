@@ -31,6 +31,7 @@ import KeywordChip from "../components/ui/KeywordChip";
 import MetricsCard from "../components/ui/MetricsCard";
 import ProgressIndicator from "../components/ui/ProgressIndicator";
 import GlassModal from "../components/ui/GlassModal";
+import InlineBanner from "../components/ui/InlineBanner";
 import { logger } from "../utils/logger";
 
 type ResearchScreenNavigationProp = NativeStackNavigationProp<
@@ -63,7 +64,7 @@ export default function ResearchScreen({ navigation, route }: Props) {
 
   // Zustand stores
   const { addResearch, getCachedResearch } = useSEOStore();
-  const { setCurrentResearch, setIsResearching } = useBlogStore();
+  const { currentLocale, setCurrentResearch, setIsResearching } = useBlogStore();
 
   const showModal = (title: string, message: string, type: "info" | "warn" | "destructive" = "info") => {
     setModalTitle(title);
@@ -104,7 +105,7 @@ export default function ResearchScreen({ navigation, route }: Props) {
 
     try {
       // Check cache first
-      const cached = getCachedResearch(topic);
+      const cached = getCachedResearch(topic, currentLocale);
       if (cached) {
         setResearchData(cached);
         setCurrentResearch(cached);
@@ -114,7 +115,7 @@ export default function ResearchScreen({ navigation, route }: Props) {
       }
 
       // Conduct new research
-      const research = await conductSEOResearch(topic);
+      const research = await conductSEOResearch(topic, { locale: currentLocale });
       setResearchData(research);
       setCurrentResearch(research);
       addResearch(topic, research);
@@ -144,7 +145,7 @@ export default function ResearchScreen({ navigation, route }: Props) {
   };
 
   const handleGenerateBlog = () => {
-    navigation.navigate("Home");
+    navigation.navigate("Outline", { topic });
   };
 
   if (isLoading) {
@@ -225,6 +226,13 @@ export default function ResearchScreen({ navigation, route }: Props) {
           contentContainerStyle={{ paddingBottom: 120 }}
         >
           <View className="px-6 space-y-6">
+            {researchData.isFallback && (
+              <InlineBanner
+                type="warning"
+                message="The AI response couldn't be read, so this is generic placeholder research. Pull to refresh to try again."
+              />
+            )}
+
             {/* Overview Metrics */}
             <Animated.View entering={SlideInUp.delay(200)}>
               <Text className="text-xl font-bold text-white mb-4">
@@ -543,7 +551,7 @@ export default function ResearchScreen({ navigation, route }: Props) {
             <Animated.View entering={SlideInUp.delay(900)} className="pb-8">
               <View className="space-y-4">
                 <GlassButton
-                  title="Generate Blog with This Research"
+                  title="Plan Outline with This Research"
                   onPress={handleGenerateBlog}
                   variant="primary"
                   size="large"
@@ -0,0 +1,260 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { View, Text, Pressable, Platform, InteractionManager } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { RouteProp } from "@react-navigation/native";
+import Animated, { FadeIn, SlideInUp } from "react-native-reanimated";
+import { formatDistanceToNow } from "date-fns";
+
+import { HomeStackParamList } from "../navigation/AppNavigator";
+import useHistoryStore from "../state/historyStore";
+import useRevisionStore from "../state/revisionStore";
+import { BlogRevision } from "../types/blog";
+import { DiffGranularity, DiffSegment, diffPosts, diffWords } from "../utils/diff";
+import { cn } from "../utils/cn";
+
+// UI Components
+import GradientBackground from "../components/ui/GradientBackground";
+import GlassCard from "../components/ui/GlassCard";
+import GlassButton from "../components/ui/GlassButton";
+import GlassModal from "../components/ui/GlassModal";
+import DiffView from "../components/ui/DiffView";
+
+type RevisionHistoryScreenNavigationProp = NativeStackNavigationProp<HomeStackParamList, "RevisionHistory">;
+
+type RevisionHistoryScreenRouteProp = RouteProp<HomeStackParamList, "RevisionHistory">;
+
+interface Props {
+  navigation: RevisionHistoryScreenNavigationProp;
+  route: RevisionHistoryScreenRouteProp;
+}
+
+interface RevisionDiff {
+  // Which revisions and mode it was computed for
+  key: string;
+  title: DiffSegment[] | null;
+  content: DiffSegment[];
+  granularity: DiffGranularity;
+}
+
+function sourceLabel(revision: BlogRevision) {
+  switch (revision.source) {
+    case "original":
+      return "Original";
+    case "autosave":
+      return "Autosave";
+    case "save":
+      return "Saved";
+    case "restore":
+      return revision.restoredFrom !== undefined ? `Restored v${revision.restoredFrom}` : "Restored";
+  }
+}
+
+export default function RevisionHistoryScreen({ navigation, route }: Props) {
+  const { blogId } = route.params;
+  const blog = useHistoryStore((state) => state.getBlogById(blogId));
+  const restoreRevision = useHistoryStore((state) => state.restoreRevision);
+  const allRevisions = useRevisionStore((state) => state.revisions);
+  // Newest first
+  const revisions = useMemo(() => allRevisions.filter((r) => r.blogId === blogId).reverse(), [allRevisions, blogId]);
+
+  // The two revisions being compared; defaults to the latest change
+  const [selected, setSelected] = useState<string[]>(() => revisions.slice(0, 2).map((r) => r.id));
+  const [mode, setMode] = useState<"words" | "lines">("words");
+  const [restoreTarget, setRestoreTarget] = useState<BlogRevision | null>(null);
+
+  const pair = useMemo(() => {
+    const picked = revisions.filter((r) => selected.includes(r.id));
+    return picked.length === 2 ? { after: picked[0], before: picked[1] } : null;
+  }, [revisions, selected]);
+
+  // Diffing two long posts can take a while, so it runs once the screen has settled rather than while rendering
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const diffKey = pair ? `${pair.before.id}:${pair.after.id}:${mode}` : null;
+
+  useEffect(() => {
+    if (!pair || !diffKey) return;
+    const { before, after } = pair;
+    const task = InteractionManager.runAfterInteractions(() => {
+      const { segments, granularity } = diffPosts(before.content, after.content, mode);
+      setDiff({
+        key: diffKey,
+        title: before.title !== after.title ? diffWords(before.title, after.title) : null,
+        content: segments,
+        granularity,
+      });
+    });
+    return () => task.cancel();
+  }, [pair, diffKey, mode]);
+
+  const comparison = pair && diff?.key === diffKey ? { ...pair, ...diff } : null;
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      if (prev.includes(id)) return prev.filter((s) => s !== id);
+      // Selecting a third revision replaces the one picked first
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const handleRestore = () => {
+    if (!restoreTarget) return;
+    restoreRevision(blogId, restoreTarget.id);
+    setRestoreTarget(null);
+    navigation.goBack();
+  };
+
+  return (
+    <GradientBackground variant="secondary" animated>
+      <SafeAreaView className="flex-1">
+        <Animated.ScrollView
+          className="flex-1"
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: Platform.OS === "ios" ? 140 : 120 }}
+        >
+          <View className="px-6 pt-4 space-y-6">
+            <Animated.View entering={FadeIn}>
+              <Text className="text-3xl font-bold text-gray-900 mb-2">Revision History</Text>
+              <Text className="text-lg text-gray-600" numberOfLines={2}>
+                {blog ? `${blog.title} • version ${blog.version}` : "This post no longer exists"}
+              </Text>
+            </Animated.View>
+
+            {revisions.length === 0 && (
+              <Text className="text-sm text-gray-600">
+                No revisions yet. Every save from the editor adds one here.
+              </Text>
+            )}
+
+            {revisions.length > 0 && (
+              <Animated.View entering={SlideInUp.delay(100)}>
+                <GlassCard
+                  intensity={20}
+                  gradientColors={["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"]}
+                  borderRadius={16}
+                  padding={16}
+                >
+                  <View className="flex-row items-center justify-between mb-3">
+                    <Text className="text-base font-semibold text-gray-900">
+                      {pair ? `v${pair.before.version} → v${pair.after.version}` : "Compare"}
+                    </Text>
+                    <View className="flex-row gap-2">
+                      {(["words", "lines"] as const).map((m) => (
+                        <Pressable
+                          key={m}
+                          onPress={() => setMode(m)}
+                          className={cn("px-3 py-1 rounded-full", mode === m ? "bg-blue-500" : "bg-gray-200")}
+                        >
+                          <Text className={cn("text-sm", mode === m ? "text-white" : "text-gray-700")}>
+                            {m === "words" ? "Words" : "Lines"}
+                          </Text>
+                        </Pressable>
+                      ))}
+                    </View>
+                  </View>
+
+                  {comparison ? (
+                    <>
+                      {comparison.title && (
+                        <DiffView segments={comparison.title} className="text-base font-semibold text-gray-900 mb-2" />
+                      )}
+                      {comparison.granularity !== mode && (
+                        <Text className="text-xs text-gray-500 mb-2">
+                          {comparison.granularity === "lines"
+                            ? "Too many words changed to compare them one by one, so lines are shown instead."
+                            : "These revisions differ too much to compare, so the whole text is shown as replaced."}
+                        </Text>
+                      )}
+                      {comparison.content.some((segment) => segment.type !== "equal") ? (
+                        <DiffView segments={comparison.content} />
+                      ) : (
+                        <Text className="text-sm text-gray-600">The content of these revisions is identical.</Text>
+                      )}
+                    </>
+                  ) : pair ? (
+                    <Text className="text-sm text-gray-600">Comparing…</Text>
+                  ) : (
+                    <Text className="text-sm text-gray-600">Select two revisions below to compare them.</Text>
+                  )}
+                </GlassCard>
+              </Animated.View>
+            )}
+
+            {revisions.map((revision, index) => {
+              const previous = revisions[index + 1];
+              const delta = previous ? revision.wordCount - previous.wordCount : null;
+              const isSelected = selected.includes(revision.id);
+              return (
+                <Animated.View key={revision.id} entering={SlideInUp.delay(150 + Math.min(index, 10) * 50)}>
+                  <Pressable onPress={() => toggleSelected(revision.id)}>
+                    <GlassCard
+                      intensity={20}
+                      gradientColors={
+                        isSelected
+                          ? ["rgba(219, 234, 254, 0.95)", "rgba(191, 219, 254, 0.8)"]
+                          : ["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"]
+                      }
+                      borderRadius={16}
+                      padding={16}
+                    >
+                      <View className="flex-row items-center justify-between mb-1">
+                        <Text className="text-base font-semibold text-gray-900">
+                          v{revision.version} • {sourceLabel(revision)}
+                        </Text>
+                        {index === 0 && (
+                          <View className="px-2 py-0.5 rounded-full bg-green-100">
+                            <Text className="text-xs text-green-700">Current</Text>
+                          </View>
+                        )}
+                      </View>
+                      <Text className="text-sm text-gray-600 mb-1" numberOfLines={1}>
+                        {revision.title}
+                      </Text>
+                      <View className="flex-row items-center justify-between">
+                        <Text className="text-xs text-gray-500">
+                          {formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })} •{" "}
+                          {revision.wordCount.toLocaleString()} words
+                          {delta !== null && delta !== 0 && (
+                            <Text className={delta > 0 ? "text-green-700" : "text-red-700"}>
+                              {" "}
+                              ({delta > 0 ? "+" : "−"}
+                              {Math.abs(delta).toLocaleString()})
+                            </Text>
+                          )}
+                        </Text>
+                        {index > 0 && (
+                          <GlassButton
+                            title="Restore"
+                            onPress={() => setRestoreTarget(revision)}
+                            variant="ghost"
+                            size="small"
+                            icon="arrow-undo-outline"
+                          />
+                        )}
+                      </View>
+                    </GlassCard>
+                  </Pressable>
+                </Animated.View>
+              );
+            })}
+          </View>
+        </Animated.ScrollView>
+
+        <GlassModal
+          visible={!!restoreTarget}
+          title="Restore Revision"
+          message={
+            restoreTarget
+              ? `Bring back version ${restoreTarget.version}? It is saved as a new version, so the current text stays in the history.`
+              : ""
+          }
+          actions={[
+            { label: "Cancel", onPress: () => setRestoreTarget(null), variant: "secondary" },
+            { label: "Restore", onPress: handleRestore, variant: "primary" },
+          ]}
+          onRequestClose={() => setRestoreTarget(null)}
+        />
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
@@ -7,10 +7,13 @@ import {
   Platform,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Ionicons } from "@expo/vector-icons";
 import * as Application from "expo-application";
 import * as Sharing from "expo-sharing";
 import * as FileSystem from "expo-file-system";
+import * as DocumentPicker from "expo-document-picker";
 import Animated, {
   FadeIn,
   SlideInUp,
@@ -21,8 +24,38 @@ import Animated, {
 } from "react-native-reanimated";
 
 import useHistoryStore from "../state/historyStore";
-import useSEOStore from "../state/seoStore";
+import useSEOStore, { SEOResearchHistory } from "../state/seoStore";
 import useBlogStore from "../state/blogStore";
+import useTemplateStore from "../state/templateStore";
+import useBrandVoiceStore from "../state/brandVoiceStore";
+import usePublishingStore from "../state/publishingStore";
+import useSettingsStore from "../state/settingsStore";
+import { SettingsStackParamList } from "../navigation/AppNavigator";
+import { BlogPost } from "../types/blog";
+import {
+  applyRestore,
+  BackupImportError,
+  createBackup,
+  describeRestorePlan,
+  parseBackup,
+  planRestore,
+  RestoreMode,
+  RestorePlan,
+} from "../utils/backup";
+import { logger } from "../utils/logger";
+import {
+  AI_PROVIDERS,
+  MODEL_OPTIONS,
+  moveToFront,
+  PROVIDER_LABELS,
+  providerModel,
+  providerOrder,
+  TASK_LABELS,
+} from "../utils/ai-routing";
+import { AITask } from "../api/ai-router";
+import { AIProvider } from "../types/ai";
+import { markdownFiles } from "../utils/blog-export";
+import { createZip, toBase64 } from "../utils/zip";
 
 // UI Components
 import GradientBackground from "../components/ui/GradientBackground";
@@ -30,6 +63,14 @@ import GlassCard from "../components/ui/GlassCard";
 import GlassButton from "../components/ui/GlassButton";
 import GlassModal from "../components/ui/GlassModal";
 
+// Thresholds offered for approving a post
+const APPROVAL_SCORES = [60, 70, 80, 90];
+
+interface RestoreSnapshot {
+  blogs: BlogPost[];
+  research: SEOResearchHistory[];
+}
+
 interface SettingItem {
   id: string;
   title: string;
@@ -43,6 +84,8 @@ interface SettingItem {
 }
 
 export default function SettingsScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<SettingsStackParamList, "Settings">>();
+
   // State
   const [autoSave, setAutoSave] = useState(true);
   const [notifications, setNotifications] = useState(true);
@@ -52,11 +95,28 @@ export default function SettingsScreen() {
   const [modalMessage, setModalMessage] = useState("");
   const [modalType, setModalType] = useState<"info" | "warn" | "destructive">("info");
   const [modalActions, setModalActions] = useState<{ label: string; onPress: () => void; variant?: "primary" | "secondary" | "destructive" }[]>([]);
+  // Blogs and research as they were before the last restore, until it is undone
+  const [undoSnapshot, setUndoSnapshot] = useState<RestoreSnapshot | null>(null);
 
   // Zustand stores
-  const { blogs, clearHistory, exportBlogs, metrics } = useHistoryStore();
-  const { clearHistory: clearSEOHistory, exportResearch } = useSEOStore();
+  const { blogs, clearHistory, exportBlogs, restoreBlogs, metrics } = useHistoryStore();
+  const { clearHistory: clearSEOHistory, researchHistory, restoreResearch } = useSEOStore();
   const { resetCurrentBlog } = useBlogStore();
+  const { customTemplates } = useTemplateStore();
+  const { profiles } = useBrandVoiceStore();
+  const publishingSites = usePublishingStore((state) => state.sites);
+  const {
+    requireReview,
+    setRequireReview,
+    minApprovalScore,
+    setMinApprovalScore,
+    aiPriorities,
+    aiModels,
+    setAIPriority,
+    setAIModel,
+    resetAIRouting,
+  } = useSettingsStore();
+  const routing = { aiPriorities, aiModels };
 
   const showModal = (title: string, message: string, type: "info" | "warn" | "destructive" = "info", actions?: { label: string; onPress: () => void; variant?: "primary" | "secondary" | "destructive" }[]) => {
     setModalTitle(title);
@@ -98,16 +158,7 @@ export default function SettingsScreen() {
           label: "JSON",
           onPress: async () => {
             try {
-              const blogData = exportBlogs("json");
-              const researchData = exportResearch("json");
-              const combinedData = {
-                blogs: JSON.parse(blogData),
-                research: JSON.parse(researchData),
-                exportDate: new Date().toISOString(),
-                version: "1.0",
-              };
-              
-              const jsonString = JSON.stringify(combinedData, null, 2);
+              const jsonString = JSON.stringify(createBackup(blogs, researchHistory), null, 2);
               const fileName = `seo-blog-data-${new Date().toISOString().split('T')[0]}.json`;
               const fileUri = FileSystem.documentDirectory + fileName;
               
@@ -155,6 +206,40 @@ export default function SettingsScreen() {
           },
           variant: "primary"
         },
+        {
+          label: "Markdown",
+          onPress: async () => {
+            try {
+              // One .md file per post with YAML front matter, zipped
+              const zip = createZip(markdownFiles(useHistoryStore.getState().blogs));
+              const fileName = `seo-blogs-markdown-${new Date().toISOString().split('T')[0]}.zip`;
+              const fileUri = FileSystem.documentDirectory + fileName;
+
+              await FileSystem.writeAsStringAsync(fileUri, toBase64(zip), {
+                encoding: FileSystem.EncodingType.Base64,
+              });
+
+              if (await Sharing.isAvailableAsync()) {
+                await Sharing.shareAsync(fileUri, {
+                  mimeType: "application/zip",
+                  UTI: "public.zip-archive",
+                  dialogTitle: "Export Blogs as Markdown",
+                });
+              }
+
+              setModalVisible(false);
+              setTimeout(() => showModal("Export Complete", "Your blogs have been exported as Markdown files."), 100);
+            } catch (error) {
+              logger.error("Markdown export failed:", error);
+              setModalVisible(false);
+              setTimeout(
+                () => showModal("Export Failed", "Failed to export Markdown files. Please try again.", "destructive"),
+                100
+              );
+            }
+          },
+          variant: "primary"
+        },
       ]
     );
   };
@@ -162,16 +247,16 @@ export default function SettingsScreen() {
   const handleImportData = () => {
     showModal(
       "Import Data",
-      "This feature allows you to import previously exported data. Please ensure you have a valid JSON export file.",
+      "Restore blogs and research from a file made with Export Data. " +
+        "You'll see what would change before anything is restored.",
       "info",
       [
         { label: "Cancel", onPress: () => setModalVisible(false), variant: "secondary" },
         {
-          label: "Import",
+          label: "Choose File",
           onPress: () => {
-            // In a real app, you would open a file picker
             setModalVisible(false);
-            setTimeout(() => showModal("Coming Soon", "File import functionality will be available in a future update."), 100);
+            pickBackup();
           },
           variant: "primary"
         },
@@ -179,6 +264,105 @@ export default function SettingsScreen() {
     );
   };
 
+  const pickBackup = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: "application/json",
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const json = await FileSystem.readAsStringAsync(result.assets[0].uri);
+      const plan = planRestore(parseBackup(json), {
+        blogs: useHistoryStore.getState().blogs,
+        research: useSEOStore.getState().researchHistory,
+      });
+      setTimeout(() => confirmRestore(plan), 100);
+    } catch (error) {
+      logger.error("Backup import failed:", error);
+      const message =
+        error instanceof BackupImportError ? error.message : "Failed to read the file. Please try again.";
+      setTimeout(() => showModal("Import Failed", message, "destructive"), 100);
+    }
+  };
+
+  // Dry-run summary, then merge or replace for blogs and, when the backup has any, research
+  const confirmRestore = (plan: RestorePlan) => {
+    const hasResearch = plan.research.incoming.length > 0 || plan.research.missing > 0;
+    const chooseBlogs = (mode: RestoreMode) => {
+      setModalVisible(false);
+      if (hasResearch) {
+        setTimeout(() => confirmResearchRestore(plan, mode), 100);
+      } else {
+        applyBackup(plan, mode, "merge");
+      }
+    };
+    showModal(
+      "Restore Backup",
+      `${describeRestorePlan(plan)}\n\n` +
+        "Merge adds and updates blogs and keeps the rest; Replace makes your blogs match the backup.",
+      "info",
+      [
+        { label: "Cancel", onPress: () => setModalVisible(false), variant: "secondary" },
+        { label: "Replace", onPress: () => chooseBlogs("replace"), variant: "destructive" },
+        { label: "Merge", onPress: () => chooseBlogs("merge"), variant: "primary" },
+      ]
+    );
+  };
+
+  const confirmResearchRestore = (plan: RestorePlan, blogMode: RestoreMode) => {
+    const chooseResearch = (mode: RestoreMode) => {
+      setModalVisible(false);
+      applyBackup(plan, blogMode, mode);
+    };
+    showModal(
+      "Restore Research",
+      "Merge adds the backup's research to yours; Replace keeps only the research in the backup.",
+      "info",
+      [
+        { label: "Cancel", onPress: () => setModalVisible(false), variant: "secondary" },
+        { label: "Replace", onPress: () => chooseResearch("replace"), variant: "destructive" },
+        { label: "Merge", onPress: () => chooseResearch("merge"), variant: "primary" },
+      ]
+    );
+  };
+
+  const applyBackup = (plan: RestorePlan, blogMode: RestoreMode, researchMode: RestoreMode) => {
+    const history = useHistoryStore.getState();
+    const seo = useSEOStore.getState();
+    const snapshot = { blogs: history.blogs, research: seo.researchHistory };
+    setUndoSnapshot(snapshot);
+    restoreBlogs(applyRestore(history.blogs, plan.blogs, blogMode));
+    restoreResearch(applyRestore(seo.researchHistory, plan.research, researchMode));
+
+    const restored = useHistoryStore.getState().blogs.length;
+    setTimeout(
+      () =>
+        showModal("Restore Complete", `You now have ${restored} blog${restored === 1 ? "" : "s"}.`, "info", [
+          {
+            label: "Undo",
+            onPress: () => {
+              setModalVisible(false);
+              handleUndoRestore(snapshot);
+            },
+            variant: "secondary"
+          },
+          { label: "OK", onPress: () => setModalVisible(false), variant: "primary" },
+        ]),
+      100
+    );
+  };
+
+  const handleUndoRestore = (snapshot: RestoreSnapshot) => {
+    restoreBlogs(snapshot.blogs);
+    restoreResearch(snapshot.research);
+    setUndoSnapshot(null);
+    setTimeout(
+      () => showModal("Restore Undone", "Your blogs and research are back to how they were before the restore."),
+      100
+    );
+  };
+
   const handleClearAllData = () => {
     showModal(
       "Clear All Data",
@@ -268,6 +452,72 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleApprovalScore = () => {
+    showModal(
+      "Approval Threshold",
+      `Posts need at least this SEO score to be approved. Currently ${minApprovalScore}.`,
+      "info",
+      APPROVAL_SCORES.map((score) => ({
+        label: String(score),
+        onPress: () => {
+          setMinApprovalScore(score);
+          setModalVisible(false);
+        },
+        variant: score === minApprovalScore ? ("primary" as const) : ("secondary" as const),
+      }))
+    );
+  };
+
+  // Picking a provider moves it to the front; the rest keep their order as fallbacks
+  const handleAIPriority = (task: AITask) => {
+    const order = providerOrder(routing, task);
+    showModal(
+      `${TASK_LABELS[task]} Providers`,
+      `Tried in this order: ${order.map((provider) => PROVIDER_LABELS[provider]).join(" → ")}. ` +
+        "Choose which to try first.",
+      "info",
+      order.map((provider) => ({
+        label: PROVIDER_LABELS[provider],
+        onPress: () => {
+          setAIPriority(task, moveToFront(order, provider));
+          setModalVisible(false);
+        },
+        variant: provider === order[0] ? ("primary" as const) : ("secondary" as const),
+      }))
+    );
+  };
+
+  const handleAIModel = (provider: AIProvider) => {
+    const current = providerModel(routing, provider);
+    showModal(
+      `${PROVIDER_LABELS[provider]} Model`,
+      `Every task that uses ${PROVIDER_LABELS[provider]} runs on this model. Currently ${current}.`,
+      "info",
+      MODEL_OPTIONS[provider].map((model) => ({
+        label: model,
+        onPress: () => {
+          setAIModel(provider, model);
+          setModalVisible(false);
+        },
+        variant: model === current ? ("primary" as const) : ("secondary" as const),
+      }))
+    );
+  };
+
+  const handleResetAIRouting = () => {
+    showModal("Reset AI Providers", "Go back to the default provider order and models for every task?", "warn", [
+      { label: "Cancel", onPress: () => setModalVisible(false), variant: "secondary" },
+      {
+        label: "Reset",
+        onPress: () => {
+          resetAIRouting();
+          setModalVisible(false);
+        },
+        variant: "primary"
+      },
+    ]);
+  };
+
   // Settings sections
   const settingSections = [
     {
@@ -300,6 +550,81 @@ export default function SettingsScreen() {
           value: analytics,
           onToggle: setAnalytics,
         },
+        {
+          id: "templates",
+          title: "Blog Templates",
+          subtitle: `${customTemplates.length} custom • create, import and export section skeletons`,
+          icon: "albums-outline" as const,
+          type: "button" as const,
+          onPress: () => navigation.navigate("Templates"),
+        },
+        {
+          id: "brand-voices",
+          title: "Brand Voices",
+          subtitle: `${profiles.length} profile${profiles.length === 1 ? "" : "s"} • style, vocabulary and audience`,
+          icon: "megaphone-outline" as const,
+          type: "button" as const,
+          onPress: () => navigation.navigate("BrandVoices"),
+        },
+        {
+          id: "publishing-sites",
+          title: "Publishing Sites",
+          subtitle: `${publishingSites.length} connected • WordPress and Ghost`,
+          icon: "cloud-upload-outline" as const,
+          type: "button" as const,
+          onPress: () => navigation.navigate("PublishingSites"),
+        },
+      ],
+    },
+    {
+      title: "Editorial Workflow",
+      items: [
+        {
+          id: "require-review",
+          title: "Require Review",
+          subtitle: "Posts must be approved before they're scheduled or published",
+          icon: "people-outline" as const,
+          type: "toggle" as const,
+          value: requireReview,
+          onToggle: setRequireReview,
+        },
+        {
+          id: "approval-score",
+          title: "Approval Threshold",
+          subtitle: `Approve posts with an SEO score of ${minApprovalScore} or more`,
+          icon: "ribbon-outline" as const,
+          type: "button" as const,
+          onPress: handleApprovalScore,
+        },
+      ],
+    },
+    {
+      title: "AI Providers",
+      items: [
+        ...(Object.keys(TASK_LABELS) as AITask[]).map((task) => ({
+          id: `ai-priority-${task}`,
+          title: TASK_LABELS[task],
+          subtitle: providerOrder(routing, task).map((provider) => PROVIDER_LABELS[provider]).join(" → "),
+          icon: "git-branch-outline" as const,
+          type: "button" as const,
+          onPress: () => handleAIPriority(task),
+        })),
+        ...AI_PROVIDERS.map((provider) => ({
+          id: `ai-model-${provider}`,
+          title: `${PROVIDER_LABELS[provider]} Model`,
+          subtitle: providerModel(routing, provider),
+          icon: "hardware-chip-outline" as const,
+          type: "button" as const,
+          onPress: () => handleAIModel(provider),
+        })),
+        {
+          id: "ai-reset",
+          title: "Reset AI Providers",
+          subtitle: "Default provider order and models",
+          icon: "refresh-outline" as const,
+          type: "button" as const,
+          onPress: handleResetAIRouting,
+        },
       ],
     },
     {
@@ -313,6 +638,14 @@ export default function SettingsScreen() {
           type: "button" as const,
           onPress: handleExportData,
         },
+        {
+          id: "site-export",
+          title: "Export Static Site",
+          subtitle: "Hugo, Jekyll, Astro or plain HTML with sitemap and feeds",
+          icon: "globe-outline" as const,
+          type: "button" as const,
+          onPress: () => navigation.navigate("SiteExport"),
+        },
         {
           id: "import",
           title: "Import Data",
@@ -321,6 +654,18 @@ export default function SettingsScreen() {
           type: "button" as const,
           onPress: handleImportData,
         },
+        ...(undoSnapshot
+          ? [
+              {
+                id: "undo-restore",
+                title: "Undo Last Restore",
+                subtitle: "Put blogs and research back as they were before the import",
+                icon: "arrow-undo-outline" as const,
+                type: "button" as const,
+                onPress: () => handleUndoRestore(undoSnapshot),
+              },
+            ]
+          : []),
         {
           id: "clear",
           title: "Clear All Data",
@@ -0,0 +1,234 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, TextInput, Pressable, Platform } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import * as Sharing from "expo-sharing";
+import * as FileSystem from "expo-file-system";
+import Animated, { FadeIn } from "react-native-reanimated";
+
+import useHistoryStore from "../state/historyStore";
+import useSettingsStore from "../state/settingsStore";
+import { exportSite, getSiteExporters, SiteExportError } from "../site-export";
+import { getLocale } from "../utils/locale";
+import { logger } from "../utils/logger";
+import { createZip, toBase64 } from "../utils/zip";
+import { cn } from "../utils/cn";
+
+// UI Components
+import GradientBackground from "../components/ui/GradientBackground";
+import GlassCard from "../components/ui/GlassCard";
+import GlassButton from "../components/ui/GlassButton";
+import GlassModal from "../components/ui/GlassModal";
+
+const CARD_COLORS: [string, string] = ["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"];
+
+export default function SiteExportScreen() {
+  const blogs = useHistoryStore((state) => state.blogs);
+  const { siteUrl, setSiteUrl, authorName } = useSettingsStore();
+  const exporters = useMemo(() => getSiteExporters(), []);
+
+  const published = useMemo(
+    () =>
+      blogs
+        .filter((blog) => blog.status === "published")
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()),
+    [blogs],
+  );
+  // Posts left out of the bundle; everything published is included until deselected
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [exporterId, setExporterId] = useState(exporters[0].id);
+  const [siteTitle, setSiteTitle] = useState("");
+  const [siteDescription, setSiteDescription] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+
+  const selected = published.filter((blog) => !excluded.has(blog.id));
+
+  const showModal = (title: string, message: string) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalVisible(true);
+  };
+
+  const toggle = (id: string) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    const exporter = exporters.find((candidate) => candidate.id === exporterId)!;
+    setIsExporting(true);
+    try {
+      const files = exportSite(selected, exporter.id, {
+        siteUrl,
+        authorName,
+        title: siteTitle,
+        description: siteDescription,
+      });
+      const fileName = `site-${exporter.id}-${new Date().toISOString().split("T")[0]}.zip`;
+      const fileUri = FileSystem.documentDirectory + fileName;
+      await FileSystem.writeAsStringAsync(fileUri, toBase64(createZip(files)), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(fileUri, {
+          mimeType: "application/zip",
+          UTI: "public.zip-archive",
+          dialogTitle: `Export ${exporter.name} Site`,
+        });
+      }
+      const count = `${selected.length} post${selected.length === 1 ? "" : "s"}`;
+      showModal("Export Complete", `${count} exported for ${exporter.name}.`);
+    } catch (error) {
+      if (error instanceof SiteExportError) {
+        showModal("Can't Export Yet", error.message);
+      } else {
+        logger.error("Site export failed:", error);
+        showModal("Export Failed", "Failed to build the site bundle. Please try again.");
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderInput = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void,
+    placeholder: string,
+    url = false,
+  ) => (
+    <View className="mb-3">
+      <Text className="text-sm font-semibold text-gray-700 mb-1">{label}</Text>
+      <TextInput
+        value={value}
+        onChangeText={onChange}
+        placeholder={placeholder}
+        placeholderTextColor="#9ca3af"
+        autoCapitalize={url ? "none" : "sentences"}
+        keyboardType={url ? "url" : "default"}
+        className="bg-gray-100 rounded-lg px-3 py-2 text-gray-900"
+      />
+    </View>
+  );
+
+  return (
+    <GradientBackground variant="secondary" animated>
+      <SafeAreaView className="flex-1">
+        <Animated.ScrollView
+          className="flex-1"
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: Platform.OS === "ios" ? 140 : 120 }}
+        >
+          <View className="px-6 pt-4 space-y-6">
+            <Animated.View entering={FadeIn}>
+              <Text className="text-3xl font-bold text-gray-900 mb-2">Static Site</Text>
+              <Text className="text-lg text-gray-600">
+                Published posts as a bundle with rendered pages, sitemap and feeds
+              </Text>
+            </Animated.View>
+
+            <GlassCard intensity={20} gradientColors={CARD_COLORS} borderRadius={16} padding={20}>
+              <Text className="text-lg font-bold text-gray-900 mb-3">Format</Text>
+              {exporters.map((exporter) => (
+                <Pressable
+                  key={exporter.id}
+                  onPress={() => setExporterId(exporter.id)}
+                  className={cn(
+                    "flex-row items-center rounded-xl px-3 py-2 mb-2",
+                    exporterId === exporter.id ? "bg-blue-100" : "bg-gray-100",
+                  )}
+                >
+                  <Ionicons
+                    name={exporterId === exporter.id ? "radio-button-on" : "radio-button-off"}
+                    size={20}
+                    color={exporterId === exporter.id ? "#2563eb" : "#9ca3af"}
+                  />
+                  <View className="flex-1 ml-3">
+                    <Text className="text-base font-semibold text-gray-900">{exporter.name}</Text>
+                    <Text className="text-xs text-gray-600">{exporter.description}</Text>
+                  </View>
+                </Pressable>
+              ))}
+            </GlassCard>
+
+            <GlassCard intensity={20} gradientColors={CARD_COLORS} borderRadius={16} padding={20}>
+              <Text className="text-lg font-bold text-gray-900 mb-3">Site</Text>
+              {renderInput("Site URL", siteUrl, setSiteUrl, "https://example.com", true)}
+              {renderInput("Title", siteTitle, setSiteTitle, siteUrl.replace(/^https?:\/\//i, "") || "My Blog")}
+              {renderInput("Description", siteDescription, setSiteDescription, "Shown on the index page and in feeds")}
+            </GlassCard>
+
+            <GlassCard intensity={20} gradientColors={CARD_COLORS} borderRadius={16} padding={20}>
+              <View className="flex-row items-center justify-between mb-3">
+                <Text className="text-lg font-bold text-gray-900">
+                  Posts ({selected.length}/{published.length})
+                </Text>
+                {published.length > 0 && (
+                  <GlassButton
+                    title={excluded.size === 0 ? "Select None" : "Select All"}
+                    onPress={() =>
+                      setExcluded(excluded.size === 0 ? new Set(published.map((blog) => blog.id)) : new Set())
+                    }
+                    variant="ghost"
+                    size="small"
+                  />
+                )}
+              </View>
+              {published.length === 0 && (
+                <Text className="text-sm text-gray-600">
+                  No published posts yet. Mark a post as published to include it in a site export.
+                </Text>
+              )}
+              {published.map((blog) => (
+                <Pressable key={blog.id} onPress={() => toggle(blog.id)} className="flex-row items-center py-2">
+                  <Ionicons
+                    name={excluded.has(blog.id) ? "square-outline" : "checkbox"}
+                    size={22}
+                    color={excluded.has(blog.id) ? "#9ca3af" : "#2563eb"}
+                  />
+                  <View className="flex-1 ml-3">
+                    <Text className="text-base text-gray-900" numberOfLines={1}>
+                      {blog.title}
+                    </Text>
+                    <Text className="text-xs text-gray-500" numberOfLines={1}>
+                      {getLocale(blog.locale).code} • /{blog.slug}
+                    </Text>
+                  </View>
+                </Pressable>
+              ))}
+            </GlassCard>
+
+            <GlassButton
+              title="Export Site"
+              onPress={handleExport}
+              variant="primary"
+              size="medium"
+              icon="cloud-download-outline"
+              fullWidth
+              loading={isExporting}
+              disabled={selected.length === 0}
+            />
+          </View>
+        </Animated.ScrollView>
+
+        <GlassModal
+          visible={modalVisible}
+          title={modalTitle}
+          message={modalMessage}
+          actions={[{ label: "OK", onPress: () => setModalVisible(false), variant: "primary" }]}
+          onRequestClose={() => setModalVisible(false)}
+        />
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
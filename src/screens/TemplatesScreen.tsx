@@ -0,0 +1,434 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, Pressable, Platform } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Ionicons } from "@expo/vector-icons";
+import * as Sharing from "expo-sharing";
+import * as FileSystem from "expo-file-system";
+import * as DocumentPicker from "expo-document-picker";
+import Animated, { FadeIn, SlideInUp } from "react-native-reanimated";
+
+import useTemplateStore, { TemplateInput } from "../state/templateStore";
+import { BlogTemplate } from "../types/blog";
+import { CONTENT_TYPES, TemplateImportError, TemplateSection } from "../utils/blog-templates";
+import { cn } from "../utils/cn";
+import { logger } from "../utils/logger";
+
+// UI Components
+import GradientBackground from "../components/ui/GradientBackground";
+import GlassCard from "../components/ui/GlassCard";
+import GlassButton from "../components/ui/GlassButton";
+import GlassModal from "../components/ui/GlassModal";
+
+const SECTION_TYPES: TemplateSection["type"][] = ["heading", "paragraph", "list", "faq", "cta"];
+
+const EMPTY_TEMPLATE: TemplateInput = {
+  name: "",
+  description: "",
+  category: "guide",
+  tags: [],
+  structure: { sections: [{ title: "Introduction", type: "paragraph" }] },
+};
+
+type ModalAction = { label: string; onPress: () => void; variant?: "primary" | "secondary" | "destructive" };
+
+export default function TemplatesScreen() {
+  // The template being edited; id is undefined while creating a new one
+  const [editing, setEditing] = useState<{ id?: string; template: TemplateInput } | null>(null);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [modalTitle, setModalTitle] = useState("");
+  const [modalMessage, setModalMessage] = useState("");
+  const [modalType, setModalType] = useState<"info" | "warn" | "destructive">("info");
+  const [modalActions, setModalActions] = useState<ModalAction[]>([]);
+
+  const {
+    customTemplates,
+    getTemplates,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+    duplicateTemplate,
+    exportTemplates,
+    importTemplates,
+  } = useTemplateStore();
+
+  const showModal = (
+    title: string,
+    message: string,
+    type: "info" | "warn" | "destructive" = "info",
+    actions?: ModalAction[],
+  ) => {
+    setModalTitle(title);
+    setModalMessage(message);
+    setModalType(type);
+    setModalActions(actions || [{ label: "OK", onPress: () => setModalVisible(false), variant: "primary" }]);
+    setModalVisible(true);
+  };
+
+  const templates = getTemplates();
+
+  const handleExport = async (ids?: string[]) => {
+    if (!ids && customTemplates.length === 0) {
+      showModal("Nothing to Export", "Create or import a custom template first.");
+      return;
+    }
+    try {
+      const fileName = `blog-templates-${new Date().toISOString().split("T")[0]}.json`;
+      const fileUri = FileSystem.documentDirectory + fileName;
+      await FileSystem.writeAsStringAsync(fileUri, exportTemplates(ids));
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(fileUri, {
+          mimeType: "application/json",
+          dialogTitle: "Export Blog Templates",
+        });
+      }
+    } catch (error) {
+      logger.error("Template export failed:", error);
+      showModal("Export Failed", "Failed to export templates. Please try again.", "destructive");
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: "application/json",
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const json = await FileSystem.readAsStringAsync(result.assets[0].uri);
+      const count = importTemplates(json);
+      showModal("Import Complete", `${count} template${count === 1 ? "" : "s"} imported.`);
+    } catch (error) {
+      logger.error("Template import failed:", error);
+      const message =
+        error instanceof TemplateImportError ? error.message : "Failed to read the file. Please try again.";
+      showModal("Import Failed", message, "destructive");
+    }
+  };
+
+  const handleDelete = (template: BlogTemplate) => {
+    showModal("Delete Template", `Delete "${template.name}"? This can't be undone.`, "destructive", [
+      { label: "Cancel", onPress: () => setModalVisible(false), variant: "secondary" },
+      {
+        label: "Delete",
+        onPress: () => {
+          deleteTemplate(template.id);
+          setModalVisible(false);
+        },
+        variant: "destructive",
+      },
+    ]);
+  };
+
+  const handleEdit = (template: BlogTemplate) => {
+    const { id, isCustom: _isCustom, ...input } = template;
+    setEditing({ id, template: input });
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const { template } = editing;
+    const sections = template.structure.sections.map((s) => ({ ...s, title: s.title.trim() }));
+    if (!template.name.trim()) {
+      showModal("Template Incomplete", "Give the template a name.");
+      return;
+    }
+    if (sections.length === 0 || sections.some((s) => !s.title)) {
+      showModal("Template Incomplete", "Every section needs a title.");
+      return;
+    }
+    const cleaned = { ...template, name: template.name.trim(), structure: { sections } };
+    if (editing.id) {
+      updateTemplate(editing.id, cleaned);
+    } else {
+      addTemplate(cleaned);
+    }
+    setEditing(null);
+  };
+
+  const updateEditing = (patch: Partial<TemplateInput>) => {
+    setEditing((prev) => (prev ? { ...prev, template: { ...prev.template, ...patch } } : prev));
+  };
+
+  const updateSections = (update: (sections: TemplateSection[]) => TemplateSection[]) => {
+    setEditing((prev) =>
+      prev
+        ? {
+            ...prev,
+            template: { ...prev.template, structure: { sections: update(prev.template.structure.sections) } },
+          }
+        : prev,
+    );
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    updateSections((list) => {
+      const target = index + direction;
+      if (target < 0 || target >= list.length) return list;
+      const next = [...list];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const renderEditor = () => {
+    if (!editing) return null;
+    const { template } = editing;
+
+    return (
+      <Animated.View entering={FadeIn}>
+        <GlassCard
+          intensity={20}
+          gradientColors={["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"]}
+          borderRadius={16}
+          padding={20}
+        >
+          <Text className="text-lg font-bold text-gray-900 mb-4">
+            {editing.id ? "Edit Template" : "New Template"}
+          </Text>
+
+          <TextInput
+            value={template.name}
+            onChangeText={(name) => updateEditing({ name })}
+            placeholder="Template name"
+            placeholderTextColor="#9ca3af"
+            className="bg-gray-100 rounded-lg px-3 py-2 text-gray-900 mb-3"
+          />
+          <TextInput
+            value={template.description}
+            onChangeText={(description) => updateEditing({ description })}
+            placeholder="What is this template for?"
+            placeholderTextColor="#9ca3af"
+            multiline
+            className="bg-gray-100 rounded-lg px-3 py-2 text-gray-900 mb-4"
+          />
+
+          <Text className="text-sm font-semibold text-gray-700 mb-2">Content type</Text>
+          <View className="flex-row flex-wrap gap-2 mb-4">
+            {CONTENT_TYPES.map((type) => (
+              <Pressable
+                key={type}
+                onPress={() => updateEditing({ category: type })}
+                className={cn(
+                  "px-3 py-1.5 rounded-full",
+                  template.category === type ? "bg-blue-500" : "bg-gray-200",
+                )}
+              >
+                <Text className={cn("text-sm", template.category === type ? "text-white" : "text-gray-700")}>
+                  {type}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <Text className="text-sm font-semibold text-gray-700 mb-2">Sections</Text>
+          {template.structure.sections.map((section, index) => (
+            <View key={index} className="bg-gray-100 rounded-xl p-3 mb-3">
+              <View className="flex-row items-center mb-2">
+                <Pressable
+                  onPress={() =>
+                    updateSections((list) =>
+                      list.map((s, i) =>
+                        i === index
+                          ? { ...s, type: SECTION_TYPES[(SECTION_TYPES.indexOf(s.type) + 1) % SECTION_TYPES.length] }
+                          : s,
+                      ),
+                    )
+                  }
+                  className="px-2 py-1 rounded-md bg-blue-100 mr-2"
+                >
+                  <Text className="text-blue-700 text-xs font-semibold">{section.type}</Text>
+                </Pressable>
+                <TextInput
+                  value={section.title}
+                  onChangeText={(title) =>
+                    updateSections((list) => list.map((s, i) => (i === index ? { ...s, title } : s)))
+                  }
+                  placeholder="Section title"
+                  placeholderTextColor="#9ca3af"
+                  className="flex-1 bg-white rounded-lg px-3 py-2 text-gray-900"
+                />
+              </View>
+              <TextInput
+                value={section.placeholder ?? ""}
+                onChangeText={(placeholder) =>
+                  updateSections((list) =>
+                    list.map((s, i) => (i === index ? { ...s, placeholder: placeholder || undefined } : s)),
+                  )
+                }
+                placeholder="Guidance for the writer (optional)"
+                placeholderTextColor="#9ca3af"
+                className="bg-white rounded-lg px-3 py-2 text-gray-900 text-sm mb-2"
+              />
+              <View className="flex-row justify-end">
+                <Pressable onPress={() => moveSection(index, -1)} disabled={index === 0} className="p-1">
+                  <Ionicons name="arrow-up" size={18} color={index === 0 ? "#d1d5db" : "#4b5563"} />
+                </Pressable>
+                <Pressable
+                  onPress={() => moveSection(index, 1)}
+                  disabled={index === template.structure.sections.length - 1}
+                  className="p-1"
+                >
+                  <Ionicons
+                    name="arrow-down"
+                    size={18}
+                    color={index === template.structure.sections.length - 1 ? "#d1d5db" : "#4b5563"}
+                  />
+                </Pressable>
+                <Pressable
+                  onPress={() => updateSections((list) => list.filter((_, i) => i !== index))}
+                  className="p-1 ml-1"
+                >
+                  <Ionicons name="trash-outline" size={18} color="#ef4444" />
+                </Pressable>
+              </View>
+            </View>
+          ))}
+
+          <GlassButton
+            title="Add Section"
+            onPress={() => updateSections((list) => [...list, { title: "", type: "heading" }])}
+            variant="ghost"
+            size="small"
+            icon="add-outline"
+            fullWidth
+          />
+
+          <View className="flex-row space-x-3 mt-4">
+            <View className="flex-1">
+              <GlassButton title="Cancel" onPress={() => setEditing(null)} variant="secondary" size="medium" fullWidth />
+            </View>
+            <View className="flex-1">
+              <GlassButton title="Save" onPress={handleSave} variant="primary" size="medium" fullWidth icon="checkmark" />
+            </View>
+          </View>
+        </GlassCard>
+      </Animated.View>
+    );
+  };
+
+  const renderTemplate = (template: BlogTemplate, index: number) => (
+    <Animated.View key={template.id} entering={SlideInUp.delay(100 + index * 50)}>
+      <GlassCard
+        intensity={20}
+        gradientColors={["rgba(255, 255, 255, 0.9)", "rgba(255, 255, 255, 0.7)"]}
+        borderRadius={16}
+        padding={16}
+      >
+        <View className="flex-row items-center justify-between mb-1">
+          <Text className="flex-1 text-base font-semibold text-gray-900 mr-2">{template.name}</Text>
+          <View className="px-2 py-0.5 rounded-full bg-blue-100">
+            <Text className="text-xs text-blue-700">{template.category}</Text>
+          </View>
+        </View>
+        {!!template.description && <Text className="text-sm text-gray-600 mb-2">{template.description}</Text>}
+        <Text className="text-xs text-gray-500 mb-3" numberOfLines={2}>
+          {template.structure.sections.map((s) => s.title).join(" → ")}
+        </Text>
+
+        <View className="flex-row justify-end space-x-2">
+          {template.isCustom && (
+            <>
+              <GlassButton title="Edit" onPress={() => handleEdit(template)} variant="ghost" size="small" icon="create-outline" />
+              <GlassButton
+                title="Export"
+                onPress={() => handleExport([template.id])}
+                variant="ghost"
+                size="small"
+                icon="share-outline"
+              />
+              <GlassButton
+                title="Delete"
+                onPress={() => handleDelete(template)}
+                variant="ghost"
+                size="small"
+                icon="trash-outline"
+              />
+            </>
+          )}
+          <GlassButton
+            title="Duplicate"
+            onPress={() => {
+              const id = duplicateTemplate(template.id);
+              const copy = id ? useTemplateStore.getState().getTemplate(id) : undefined;
+              if (copy) handleEdit(copy);
+            }}
+            variant="ghost"
+            size="small"
+            icon="copy-outline"
+          />
+        </View>
+      </GlassCard>
+    </Animated.View>
+  );
+
+  return (
+    <GradientBackground variant="secondary" animated>
+      <SafeAreaView className="flex-1">
+        <Animated.ScrollView
+          className="flex-1"
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: Platform.OS === "ios" ? 140 : 120 }}
+        >
+          <View className="px-6 pt-4 space-y-6">
+            <Animated.View entering={FadeIn}>
+              <Text className="text-3xl font-bold text-gray-900 mb-2">Templates</Text>
+              <Text className="text-lg text-gray-600">Section skeletons that generated posts must follow</Text>
+            </Animated.View>
+
+            <View className="flex-row space-x-3">
+              <View className="flex-1">
+                <GlassButton
+                  title="New"
+                  onPress={() => setEditing({ template: EMPTY_TEMPLATE })}
+                  variant="primary"
+                  size="small"
+                  icon="add"
+                  fullWidth
+                />
+              </View>
+              <View className="flex-1">
+                <GlassButton title="Import" onPress={handleImport} variant="secondary" size="small" icon="download-outline" fullWidth />
+              </View>
+              <View className="flex-1">
+                <GlassButton
+                  title="Export All"
+                  onPress={() => handleExport()}
+                  variant="secondary"
+                  size="small"
+                  icon="share-outline"
+                  fullWidth
+                />
+              </View>
+            </View>
+
+            {renderEditor()}
+
+            <Text className="text-lg font-bold text-gray-900">Your Templates</Text>
+            {customTemplates.length === 0 ? (
+              <Text className="text-sm text-gray-600">
+                No custom templates yet. Create one, or duplicate a built-in template to customize it.
+              </Text>
+            ) : (
+              customTemplates.map(renderTemplate)
+            )}
+
+            <Text className="text-lg font-bold text-gray-900">Built-in</Text>
+            {templates.filter((t) => !t.isCustom).map(renderTemplate)}
+          </View>
+        </Animated.ScrollView>
+
+        <GlassModal
+          visible={modalVisible}
+          title={modalTitle}
+          message={modalMessage}
+          type={modalType}
+          actions={modalActions}
+          onRequestClose={() => setModalVisible(false)}
+        />
+      </SafeAreaView>
+    </GradientBackground>
+  );
+}
@@ -0,0 +1,66 @@
+import { describe, expect, test } from "vitest";
+import { analyzeSEO, countOccurrences, resolveConfig } from "./index";
+
+const post = {
+  title: "C++ Tips: Writing Faster Code in Modern C++",
+  metaDescription: "Practical C++ tips for faster code.",
+  keywords: ["c++", "why?"],
+  content: "# C++ Tips\n\nModern C++ is fast. Why? Because c++ compilers are good.\n\n## Profiling\n\nMeasure first.",
+};
+
+describe("seo analyzer", () => {
+  test("matches keywords with regex characters literally and as whole words", () => {
+    expect(countOccurrences("C++ and c++ but not abc++", "c++")).toBe(2);
+    expect(countOccurrences("Seoul is not seo. SEO!", "seo")).toBe(2);
+    expect(countOccurrences("東京のカフェ", "カフェ")).toBe(1);
+    expect(() => analyzeSEO({ ...post, keywords: ["(unclosed", "[a-"] })).not.toThrow();
+  });
+
+  test("scores the weighted share of applicable rules and lists errors first", () => {
+    const analysis = analyzeSEO(post);
+
+    expect(analysis.keywords.primary).toEqual({ keyword: "c++", occurrences: 3, density: 20 });
+    expect(analysis.keywords.secondary).toEqual([{ keyword: "why?", occurrences: 1, density: 6.67 }]);
+    expect(analysis.structure).toMatchObject({ hasH1: true, h2Count: 1, h3Count: 0, paragraphCount: 2, listCount: 0 });
+    expect(analysis.issues.map((i) => i.rule)).toEqual([
+      "meta-length",
+      "word-count",
+      "keyword-density",
+      "heading-structure",
+      "keyword-in-heading",
+      "keyword-in-conclusion",
+      "internal-links",
+    ]);
+    expect(analysis.keywords.placement).toEqual({
+      keyword: "c++",
+      title: true,
+      intro: true,
+      h2: false,
+      metaDescription: true,
+      slug: null,
+      imageAlt: null,
+      conclusion: false,
+    });
+    expect(analysis.score).toBeGreaterThan(0);
+    expect(analysis.score).toBeLessThan(100);
+  });
+
+  test("skips keyword rules without keywords instead of failing them", () => {
+    const withKeywords = analyzeSEO({ ...post, keywords: ["espresso"] });
+    const withoutKeywords = analyzeSEO({ ...post, keywords: [] });
+    expect(withoutKeywords.score).toBeGreaterThan(withKeywords.score);
+    expect(withoutKeywords.issues.find((i) => i.rule === "keyword-density")?.type).toBe("suggestion");
+  });
+
+  test("applies content type profiles and caller overrides", () => {
+    expect(resolveConfig("news").thresholds.targetWords).toBe(600);
+    expect(resolveConfig("listicle").weights.lists).toBe(10);
+    expect(resolveConfig(undefined).weights.lists).toBe(0);
+    expect(resolveConfig("news", { thresholds: { targetWords: 800 } }).thresholds.targetWords).toBe(800);
+
+    const listicle = analyzeSEO({ ...post, contentType: "listicle" });
+    expect(listicle.issues.some((i) => i.rule === "lists")).toBe(true);
+    const noTitleRules = analyzeSEO(post, { weights: { "title-length": 0, "title-keyword": 0 } });
+    expect(noTitleRules.issues.some((i) => i.section === "title")).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { SERP_LAYOUTS } from "../serp";
+import { AnalyzerConfig, AnalyzerThresholds, ContentType, RuleId } from "./types";
+
+export const DEFAULT_THRESHOLDS: AnalyzerThresholds = {
+  minTitleLength: 30,
+  minMetaLength: 120,
+  maxTitleWidth: SERP_LAYOUTS.desktop.title.maxWidth,
+  maxMetaWidth: SERP_LAYOUTS.desktop.description.maxWidth,
+  minWords: 300,
+  targetWords: 1500,
+  keywordDensity: [0.5, 3],
+  introWords: 100,
+  minH2: 2,
+  maxAvgSentenceWords: 20,
+  maxParagraphWords: 150,
+  minFleschScore: 60,
+  maxPassiveRatio: 0.1,
+  minTransitionRatio: 0.3,
+  minLists: 1,
+};
+
+export const DEFAULT_WEIGHTS: Record<RuleId, number> = {
+  "title-length": 10,
+  "title-keyword": 15,
+  "meta-length": 10,
+  "meta-keyword": 5,
+  "word-count": 15,
+  "keyword-density": 15,
+  "keyword-in-intro": 5,
+  "keyword-in-heading": 5,
+  "keyword-in-slug": 5,
+  "keyword-in-image-alt": 3,
+  "keyword-in-conclusion": 3,
+  "heading-structure": 10,
+  "image-alt": 5,
+  "internal-links": 5,
+  "sentence-length": 10,
+  "paragraph-length": 5,
+  "flesch-score": 10,
+  "passive-voice": 5,
+  "transition-words": 5,
+  lists: 0,
+};
+
+export interface AnalyzerOverrides {
+  thresholds?: Partial<AnalyzerThresholds>;
+  weights?: Partial<Record<RuleId, number>>;
+}
+
+// What each kind of post is expected to look like, on top of the defaults
+export const CONTENT_TYPE_CONFIG: Record<ContentType, AnalyzerOverrides> = {
+  guide: { thresholds: { targetWords: 2000, minH2: 3 }, weights: { lists: 5 } },
+  "how-to": { thresholds: { targetWords: 1200, minH2: 3 }, weights: { lists: 10 } },
+  listicle: { thresholds: { minH2: 5 }, weights: { lists: 10 } },
+  review: { thresholds: { targetWords: 1500 } },
+  comparison: { thresholds: { targetWords: 1800 }, weights: { lists: 5 } },
+  // News is short and front-loaded: length matters less than getting to the point
+  news: {
+    thresholds: { targetWords: 600, minH2: 1, introWords: 50 },
+    weights: { "word-count": 5, "keyword-in-intro": 10 },
+  },
+};
+
+/** Defaults, then the content type's profile, then caller overrides. */
+export function resolveConfig(contentType?: ContentType, overrides: AnalyzerOverrides = {}): AnalyzerConfig {
+  const profile = contentType ? CONTENT_TYPE_CONFIG[contentType] : {};
+  return {
+    thresholds: { ...DEFAULT_THRESHOLDS, ...profile.thresholds, ...overrides.thresholds },
+    weights: { ...DEFAULT_WEIGHTS, ...profile.weights, ...overrides.weights },
+  };
+}
@@ -0,0 +1,40 @@
+import { countWords } from "../../utils/locale";
+import { stripMarkdown } from "../../utils/markdown";
+import { analyzeReadability } from "../readability";
+import { analyzeStructure } from "../structure";
+import { countOccurrences } from "../keywords";
+import { auditKeywordPlacement } from "../placement";
+import { DEFAULT_THRESHOLDS } from "./config";
+import { AnalysisContext, AnalyzerInput, AnalyzerThresholds } from "./types";
+
+export function buildContext(
+  input: AnalyzerInput,
+  thresholds: AnalyzerThresholds = DEFAULT_THRESHOLDS,
+): AnalysisContext {
+  const text = stripMarkdown(input.content);
+  const wordCount = countWords(text);
+  const structure = analyzeStructure(input.content, input.siteUrl);
+  const keyword = input.keywords.map((k) => k.trim()).find(Boolean);
+
+  return {
+    ...input,
+    text,
+    wordCount,
+    readability: analyzeReadability(input.content, input.locale),
+    structure,
+    placement: keyword
+      ? auditKeywordPlacement({ ...input, keyword, structure, introWords: thresholds.introWords })
+      : null,
+    keywordStats: input.keywords
+      .map((keyword) => keyword.trim())
+      .filter(Boolean)
+      .map((keyword) => {
+        const occurrences = countOccurrences(text, keyword);
+        return {
+          keyword,
+          occurrences,
+          density: wordCount > 0 ? Math.round((occurrences / wordCount) * 10000) / 100 : 0,
+        };
+      }),
+  };
+}
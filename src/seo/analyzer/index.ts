@@ -0,0 +1,51 @@
+import { SEOAnalysis } from "../../types/blog";
+import { AnalyzerOverrides, resolveConfig } from "./config";
+import { buildContext } from "./context";
+import { RULES } from "./rules";
+import { AnalyzerInput, SEOIssue } from "./types";
+
+export * from "./types";
+export { CONTENT_TYPE_CONFIG, DEFAULT_THRESHOLDS, DEFAULT_WEIGHTS, resolveConfig } from "./config";
+export type { AnalyzerOverrides } from "./config";
+export { countOccurrences } from "../keywords";
+export { RULES } from "./rules";
+
+const SEVERITY: Record<SEOIssue["type"], number> = { error: 0, warning: 1, suggestion: 2 };
+
+/**
+ * Score a post against the SEO rules configured for its content type. The
+ * score is the weighted share of rules passed, ignoring rules that don't
+ * apply; issues are ordered errors first.
+ */
+export function analyzeSEO(input: AnalyzerInput, overrides?: AnalyzerOverrides): SEOAnalysis {
+  const config = resolveConfig(input.contentType, overrides);
+  const context = buildContext(input, config.thresholds);
+
+  let earned = 0;
+  let possible = 0;
+  const issues: SEOIssue[] = [];
+  for (const rule of RULES) {
+    const weight = config.weights[rule.id];
+    if (weight <= 0) continue;
+    const outcome = rule.check(context, config.thresholds);
+    issues.push(...outcome.issues);
+    if (outcome.score !== null) {
+      earned += weight * Math.min(1, Math.max(0, outcome.score));
+      possible += weight;
+    }
+  }
+
+  const [primary, ...secondary] = context.keywordStats;
+  return {
+    score: possible > 0 ? Math.round((earned / possible) * 100) : 0,
+    // Stable sort keeps rule order within each severity
+    issues: issues.sort((a, b) => SEVERITY[a.type] - SEVERITY[b.type]),
+    keywords: {
+      primary: primary ?? { keyword: "", density: 0, occurrences: 0 },
+      secondary,
+      placement: context.placement,
+    },
+    readability: context.readability,
+    structure: context.structure,
+  };
+}
@@ -0,0 +1,207 @@
+import { describe, expect, test } from "vitest";
+import { DEFAULT_THRESHOLDS } from "./config";
+import { buildContext } from "./context";
+import {
+  fleschScore,
+  headingStructure,
+  imageAlt,
+  internalLinks,
+  keywordDensity,
+  keywordInIntro,
+  lists,
+  metaKeyword,
+  metaLength,
+  paragraphLength,
+  passiveVoice,
+  sentenceLength,
+  titleKeyword,
+  titleLength,
+  transitionWords,
+  wordCount,
+} from "./rules";
+import { AnalyzerInput, SEORule } from "./types";
+
+const input: AnalyzerInput = {
+  title: "Cold Brew Coffee: A Complete Guide for Beginners",
+  metaDescription:
+    "Learn how to make cold brew coffee at home with the right beans, grind and ratio, plus tips for storing it for weeks at a time.",
+  keywords: ["cold brew", "coffee ratio"],
+  content: [
+    "# Cold Brew Coffee Guide",
+    "Cold brew is coffee steeped in cold water. It tastes smooth.",
+    "## Beans",
+    "Pick medium roast beans. Cold brew loves them.",
+    "## Ratio",
+    "- One part coffee",
+    "- Four parts water",
+  ].join("\n\n"),
+};
+
+function run(rule: SEORule, overrides: Partial<AnalyzerInput> = {}, thresholds = {}) {
+  return rule.check(buildContext({ ...input, ...overrides }), { ...DEFAULT_THRESHOLDS, ...thresholds });
+}
+
+function messages(rule: SEORule, overrides: Partial<AnalyzerInput> = {}, thresholds = {}) {
+  return run(rule, overrides, thresholds).issues.map((issue) => `${issue.type}: ${issue.message}`);
+}
+
+describe("seo rules", () => {
+  test("title-length", () => {
+    expect(run(titleLength)).toEqual({ score: 1, issues: [] });
+    expect(messages(titleLength, { title: "Cold brew" })).toEqual(["warning: Title is 9 characters; aim for at least 30"]);
+    // Wide capitals overflow Google's 600px long before 60 characters
+    expect(messages(titleLength, { title: "WWWWW ".repeat(7) })).toEqual([
+      "warning: Title is 694px wide and gets cut off after 600px in search results",
+    ]);
+    expect(run(titleLength, { title: "iiiii ".repeat(10) }).score).toBe(1);
+    expect(messages(titleLength, { title: " " })).toEqual(["error: Add a title"]);
+    expect(run(titleLength, { title: "Cold brew" }).issues[0]).toMatchObject({
+      section: "title",
+      rule: "title-length",
+    });
+  });
+
+  test("title-keyword", () => {
+    expect(run(titleKeyword).score).toBe(1);
+    expect(messages(titleKeyword, { title: "Iced Coffee Basics" })).toEqual([
+      'warning: Include the primary keyword "cold brew" in the title',
+    ]);
+    expect(run(titleKeyword, { keywords: [] })).toEqual({ score: null, issues: [] });
+  });
+
+  test("meta-length", () => {
+    expect(run(metaLength).score).toBe(1);
+    expect(messages(metaLength, { metaDescription: "Too short." })).toEqual([
+      "warning: Meta description is 10 characters; aim for at least 120",
+    ]);
+    expect(messages(metaLength, { metaDescription: "" })).toEqual(["error: Add a meta description"]);
+  });
+
+  test("meta-keyword", () => {
+    expect(run(metaKeyword).score).toBe(1);
+    expect(messages(metaKeyword, { keywords: ["french press"] })).toEqual([
+      'suggestion: Mention "french press" in the meta description',
+    ]);
+    expect(run(metaKeyword, { metaDescription: "" }).score).toBeNull();
+  });
+
+  test("word-count", () => {
+    expect(messages(wordCount)).toEqual(["warning: Content is 31 words; write at least 300"]);
+    expect(run(wordCount).score).toBeCloseTo(31 / 1500);
+    expect(messages(wordCount, {}, { minWords: 10, targetWords: 100 })).toEqual([
+      "suggestion: Consider expanding to around 100 words to cover the topic in depth",
+    ]);
+    expect(run(wordCount, {}, { minWords: 10, targetWords: 30 })).toEqual({ score: 1, issues: [] });
+  });
+
+  test("keyword-density", () => {
+    // "cold brew" appears 3 times in 31 words
+    expect(messages(keywordDensity, {}, { keywordDensity: [0.5, 20] })).toEqual([
+      'suggestion: Secondary keyword "coffee ratio" isn\'t used',
+    ]);
+    expect(run(keywordDensity, {}, { keywordDensity: [0.5, 20] }).score).toBe(1);
+    expect(messages(keywordDensity, { keywords: ["cold brew"] })).toEqual([
+      'warning: "cold brew" density is 9.68%, which reads as keyword stuffing; keep it under 3%',
+    ]);
+    expect(messages(keywordDensity, { keywords: ["cold brew"] }, { keywordDensity: [15, 20] })).toEqual([
+      'warning: "cold brew" density is 9.68%; aim for 15-20%',
+    ]);
+    expect(messages(keywordDensity, { keywords: ["espresso"] })).toEqual([
+      'error: Primary keyword "espresso" isn\'t in the content',
+    ]);
+    expect(run(keywordDensity, { keywords: [] }).score).toBeNull();
+  });
+
+  test("keyword-in-intro", () => {
+    expect(run(keywordInIntro).score).toBe(1);
+    expect(messages(keywordInIntro, {}, { introWords: 3 })).toEqual([]);
+    expect(messages(keywordInIntro, { keywords: ["medium roast"] }, { introWords: 10 })).toEqual([
+      'suggestion: Use "medium roast" within the first 10 words',
+    ]);
+  });
+
+  test("heading-structure", () => {
+    expect(run(headingStructure)).toEqual({ score: 1, issues: [] });
+    expect(messages(headingStructure, { content: "## Only\n\n#### Deep" })).toEqual([
+      "warning: Add an H1 heading",
+      "warning: Break the post into at least 2 H2 sections (found 1)",
+      'suggestion: "Deep" jumps from H2 to H4',
+    ]);
+    expect(run(headingStructure, { content: "## Only\n\n#### Deep" }).score).toBeCloseTo(0);
+    expect(messages(headingStructure, { content: "# One\n\n# Two\n\n## A\n\n## B" })).toEqual([
+      "warning: Use a single H1 heading (found 2)",
+    ]);
+  });
+
+  test("image-alt", () => {
+    expect(run(imageAlt).score).toBeNull();
+    const content = "# Title\n\n![Cold brew jar](jar.png)\n\n![](beans.png) and <img src=\"pour.png\">";
+    expect(messages(imageAlt, { content })).toEqual([
+      "warning: 2 images have no alt text; describe them for search and screen readers",
+    ]);
+    expect(run(imageAlt, { content }).score).toBeCloseTo(1 / 3);
+  });
+
+  test("internal-links", () => {
+    expect(messages(internalLinks)).toEqual(["suggestion: Link to at least one related page on your site"]);
+    expect(run(internalLinks, { content: "See [our grinder guide](/grinders)." }).score).toBe(1);
+    const absolute = "See [the guide](https://www.example.com/guide).";
+    expect(run(internalLinks, { content: absolute }).score).toBe(0);
+    expect(run(internalLinks, { content: absolute, siteUrl: "https://example.com" }).score).toBe(1);
+  });
+
+  test("sentence-length", () => {
+    expect(run(sentenceLength).score).toBe(1);
+    const long = `${"word ".repeat(40)}end.`;
+    expect(messages(sentenceLength, { content: long })).toEqual([
+      "suggestion: Sentences average 41 words; aim for 20 or fewer",
+    ]);
+    expect(run(sentenceLength, { content: long }).score).toBeCloseTo(20 / 41);
+    expect(run(sentenceLength, { content: "" }).score).toBeNull();
+  });
+
+  test("paragraph-length", () => {
+    expect(run(paragraphLength).score).toBe(1);
+    const content = `# Title\n\n${"word ".repeat(200)}\n\nShort paragraph.`;
+    expect(messages(paragraphLength, { content })).toEqual([
+      "suggestion: 1 paragraph is longer than 150 words; split it up",
+    ]);
+    expect(run(paragraphLength, { content }).score).toBe(0.5);
+  });
+
+  test("flesch-score", () => {
+    expect(run(fleschScore).score).toBe(1);
+    const dense = "Organizational methodologies necessitate comprehensive institutional considerations.";
+    expect(messages(fleschScore, { content: dense })).toEqual([
+      "warning: Flesch Reading Ease is 0 (Very difficult); aim for 60+ with shorter sentences",
+    ]);
+    expect(run(fleschScore, { content: dense }).score).toBe(0);
+    expect(run(fleschScore, { locale: "fr-FR" }).score).toBeNull();
+  });
+
+  test("passive-voice", () => {
+    expect(run(passiveVoice)).toEqual({ score: 1, issues: [] });
+    const content = "The beans were ground. The water was poured. We waited.";
+    expect(messages(passiveVoice, { content })).toEqual([
+      "suggestion: 67% of sentences use the passive voice; keep it under 10%",
+    ]);
+    expect(run(passiveVoice, { content }).score).toBeCloseTo(1 - 0.57 / 0.9);
+  });
+
+  test("transition-words", () => {
+    expect(messages(transitionWords)).toEqual([
+      'suggestion: 0% of sentences use transitions like "however" or "for example"; aim for 30%',
+    ]);
+    const content = "Grind beans. Then add water. Wait a day. Next, strain it. However, serve it cold.";
+    expect(run(transitionWords, { content })).toEqual({ score: 1, issues: [] });
+    expect(run(transitionWords, { content: "Grind beans. Add water." }).score).toBeNull();
+  });
+
+  test("lists", () => {
+    expect(run(lists).score).toBe(1);
+    expect(messages(lists, { content: "# Title\n\nNo lists here." })).toEqual([
+      "suggestion: Add a bulleted or numbered list to make the post easier to scan",
+    ]);
+    expect(run(lists, { content: "# Title\n\n1. One\n2. Two" }, { minLists: 2 }).score).toBe(0.5);
+  });
+});
@@ -0,0 +1,267 @@
+import { SERP_LAYOUTS, SerpField, truncateToWidth } from "../serp";
+import { countOccurrences } from "../keywords";
+import { AnalysisContext, AnalyzerThresholds, RuleId, RuleOutcome, SEOIssue, SEORule, SEOSection } from "./types";
+
+type Flag = (type: SEOIssue["type"], message: string) => SEOIssue;
+
+// Wraps a check with a `flag` helper that tags its issues with the rule and section
+function rule(
+  id: RuleId,
+  section: SEOSection,
+  check: (context: AnalysisContext, thresholds: AnalyzerThresholds, flag: Flag) => RuleOutcome,
+): SEORule {
+  const flag: Flag = (type, message) => ({ type, message, section, rule: id });
+  return { id, section, check: (context, thresholds) => check(context, thresholds, flag) };
+}
+
+const pass: RuleOutcome = { score: 1, issues: [] };
+const notApplicable: RuleOutcome = { score: null, issues: [] };
+
+function primaryKeyword(context: AnalysisContext) {
+  return context.keywordStats[0];
+}
+
+// Too-short text by characters, too-long text by the pixels Google has room for
+function checkLength(text: string, minLength: number, field: SerpField, name: string, flag: Flag): RuleOutcome {
+  const length = text.trim().length;
+  if (length < minLength) {
+    return { score: 0, issues: [flag("warning", `${name} is ${length} characters; aim for at least ${minLength}`)] };
+  }
+  const { truncated, width } = truncateToWidth(text, field);
+  if (truncated) {
+    const message = `${name} is ${width}px wide and gets cut off after ${field.maxWidth}px in search results`;
+    return { score: 0, issues: [flag("warning", message)] };
+  }
+  return pass;
+}
+
+export const titleLength = rule("title-length", "title", ({ title }, { minTitleLength, maxTitleWidth }, flag) => {
+  if (!title.trim()) return { score: 0, issues: [flag("error", "Add a title")] };
+  const field = { ...SERP_LAYOUTS.desktop.title, maxWidth: maxTitleWidth };
+  return checkLength(title, minTitleLength, field, "Title", flag);
+});
+
+export const titleKeyword = rule("title-keyword", "title", (context, _, flag) => {
+  const primary = primaryKeyword(context);
+  if (!primary) return notApplicable;
+  if (countOccurrences(context.title, primary.keyword) > 0) return pass;
+  return { score: 0, issues: [flag("warning", `Include the primary keyword "${primary.keyword}" in the title`)] };
+});
+
+export const metaLength = rule("meta-length", "meta", (context, { minMetaLength, maxMetaWidth }, flag) => {
+  if (!context.metaDescription.trim()) return { score: 0, issues: [flag("error", "Add a meta description")] };
+  const field = { ...SERP_LAYOUTS.desktop.description, maxWidth: maxMetaWidth };
+  return checkLength(context.metaDescription, minMetaLength, field, "Meta description", flag);
+});
+
+export const metaKeyword = rule("meta-keyword", "meta", (context, _, flag) => {
+  const primary = primaryKeyword(context);
+  if (!primary || !context.metaDescription.trim()) return notApplicable;
+  if (countOccurrences(context.metaDescription, primary.keyword) > 0) return pass;
+  return { score: 0, issues: [flag("suggestion", `Mention "${primary.keyword}" in the meta description`)] };
+});
+
+export const wordCount = rule("word-count", "content", ({ wordCount: words }, { minWords, targetWords }, flag) => {
+  if (words >= targetWords) return pass;
+  const score = Math.min(1, words / targetWords);
+  if (words < minWords) {
+    return { score, issues: [flag("warning", `Content is ${words} words; write at least ${minWords}`)] };
+  }
+  return {
+    score,
+    issues: [flag("suggestion", `Consider expanding to around ${targetWords} words to cover the topic in depth`)],
+  };
+});
+
+export const keywordDensity = rule("keyword-density", "keywords", (context, { keywordDensity: [min, max] }, flag) => {
+  const primary = primaryKeyword(context);
+  if (!primary) {
+    return { score: null, issues: [flag("suggestion", "Add target keywords to check how they are used")] };
+  }
+
+  // Secondary keywords only add hints; the score follows the primary keyword
+  const missing = context.keywordStats
+    .slice(1)
+    .filter((k) => k.occurrences === 0)
+    .map((k) => flag("suggestion", `Secondary keyword "${k.keyword}" isn't used`));
+  const { keyword, occurrences, density } = primary;
+
+  if (occurrences === 0) {
+    return { score: 0, issues: [flag("error", `Primary keyword "${keyword}" isn't in the content`), ...missing] };
+  }
+  if (density < min) {
+    return {
+      score: 0.5,
+      issues: [flag("warning", `"${keyword}" density is ${density}%; aim for ${min}-${max}%`), ...missing],
+    };
+  }
+  if (density > max) {
+    return {
+      score: 0.25,
+      issues: [
+        flag("warning", `"${keyword}" density is ${density}%, which reads as keyword stuffing; keep it under ${max}%`),
+        ...missing,
+      ],
+    };
+  }
+  return { score: 1, issues: missing };
+});
+
+export const keywordInIntro = rule("keyword-in-intro", "keywords", (context, { introWords }, flag) => {
+  const primary = primaryKeyword(context);
+  if (!primary || !context.text) return notApplicable;
+  const intro = context.text.split(/\s+/).slice(0, introWords).join(" ");
+  if (countOccurrences(intro, primary.keyword) > 0) return pass;
+  return { score: 0, issues: [flag("suggestion", `Use "${primary.keyword}" within the first ${introWords} words`)] };
+});
+
+// Score and message for one place in the placement audit; null places don't apply
+function placed(found: boolean | null | undefined, message: string, flag: Flag): RuleOutcome {
+  if (found === null || found === undefined) return notApplicable;
+  return found ? pass : { score: 0, issues: [flag("suggestion", message)] };
+}
+
+export const keywordInHeading = rule("keyword-in-heading", "keywords", ({ placement }, _, flag) =>
+  placed(placement?.h2, `Use "${placement?.keyword}" in at least one H2 heading`, flag),
+);
+
+export const keywordInSlug = rule("keyword-in-slug", "keywords", ({ placement }, _, flag) =>
+  placed(placement?.slug, `Put "${placement?.keyword}" in the URL slug`, flag),
+);
+
+export const keywordInImageAlt = rule("keyword-in-image-alt", "keywords", ({ placement }, _, flag) =>
+  placed(placement?.imageAlt, `Describe at least one image with "${placement?.keyword}" in its alt text`, flag),
+);
+
+export const keywordInConclusion = rule("keyword-in-conclusion", "keywords", ({ placement }, _, flag) =>
+  placed(placement?.conclusion, `Mention "${placement?.keyword}" again in the conclusion`, flag),
+);
+
+export const headingStructure = rule("heading-structure", "structure", ({ structure }, { minH2 }, flag) => {
+  const issues: SEOIssue[] = [];
+  let score = 1;
+
+  const { h1Count, h2Count, outline } = structure;
+  if (h1Count !== 1) {
+    score -= 0.4;
+    issues.push(flag("warning", h1Count === 0 ? "Add an H1 heading" : `Use a single H1 heading (found ${h1Count})`));
+  }
+
+  if (h2Count < minH2) {
+    score -= 0.4;
+    issues.push(flag("warning", `Break the post into at least ${minH2} H2 sections (found ${h2Count})`));
+  }
+
+  const skipped = outline.find((h) => h.skippedFrom !== undefined);
+  if (skipped) {
+    score -= 0.2;
+    issues.push(flag("suggestion", `"${skipped.text}" jumps from H${skipped.skippedFrom} to H${skipped.level}`));
+  }
+
+  return { score: Math.max(0, score), issues };
+});
+
+export const sentenceLength = rule("sentence-length", "readability", (context, { maxAvgSentenceWords }, flag) => {
+  const { sentenceCount, avgWordsPerSentence } = context.readability;
+  if (sentenceCount === 0) return notApplicable;
+  if (avgWordsPerSentence <= maxAvgSentenceWords) return pass;
+  const average = Math.round(avgWordsPerSentence);
+  return {
+    score: maxAvgSentenceWords / avgWordsPerSentence,
+    issues: [flag("suggestion", `Sentences average ${average} words; aim for ${maxAvgSentenceWords} or fewer`)],
+  };
+});
+
+export const paragraphLength = rule("paragraph-length", "readability", (context, { maxParagraphWords }, flag) => {
+  const counts = context.readability.paragraphs.wordCounts;
+  if (counts.length === 0) return notApplicable;
+  const long = counts.filter((words) => words > maxParagraphWords).length;
+  if (long === 0) return pass;
+  const message =
+    long === 1
+      ? `1 paragraph is longer than ${maxParagraphWords} words; split it up`
+      : `${long} paragraphs are longer than ${maxParagraphWords} words; split them up`;
+  return { score: 1 - long / counts.length, issues: [flag("suggestion", message)] };
+});
+
+export const fleschScore = rule("flesch-score", "readability", ({ readability }, { minFleschScore: min }, flag) => {
+  const ease = readability.fleschReadingEase;
+  if (ease === null) return notApplicable;
+  if (ease >= min) return pass;
+  const message = `Flesch Reading Ease is ${ease} (${readability.level}); aim for ${min}+ with shorter sentences`;
+  return { score: ease / min, issues: [flag("warning", message)] };
+});
+
+function percent(ratio: number) {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+export const passiveVoice = rule("passive-voice", "readability", ({ readability }, { maxPassiveRatio: max }, flag) => {
+  const ratio = readability.passiveRatio;
+  if (ratio === null || readability.sentenceCount === 0) return notApplicable;
+  if (ratio <= max) return pass;
+  return {
+    score: Math.max(0, 1 - (ratio - max) / (1 - max)),
+    issues: [flag("suggestion", `${percent(ratio)} of sentences use the passive voice; keep it under ${percent(max)}`)],
+  };
+});
+
+export const transitionWords = rule("transition-words", "readability", (context, { minTransitionRatio: min }, flag) => {
+  const ratio = context.readability.transitionRatio;
+  // A handful of sentences is too few to judge flow
+  if (ratio === null || context.readability.sentenceCount < 5) return notApplicable;
+  if (ratio >= min) return pass;
+  const share = percent(ratio);
+  const message = `${share} of sentences use transitions like "however" or "for example"; aim for ${percent(min)}`;
+  return { score: ratio / min, issues: [flag("suggestion", message)] };
+});
+
+export const imageAlt = rule("image-alt", "structure", ({ structure }, _, flag) => {
+  const { imageCount, imagesMissingAlt } = structure;
+  if (imageCount === 0) return notApplicable;
+  const missing = imagesMissingAlt.length;
+  if (missing === 0) return pass;
+  const message =
+    missing === 1
+      ? "1 image has no alt text; describe it for search and screen readers"
+      : `${missing} images have no alt text; describe them for search and screen readers`;
+  return { score: 1 - missing / imageCount, issues: [flag("warning", message)] };
+});
+
+export const internalLinks = rule("internal-links", "structure", ({ structure, wordCount: words }, _, flag) => {
+  if (words === 0) return notApplicable;
+  if (structure.internalLinks > 0) return pass;
+  return { score: 0, issues: [flag("suggestion", "Link to at least one related page on your site")] };
+});
+
+export const lists = rule("lists", "structure", ({ structure: { listCount } }, { minLists }, flag) => {
+  if (listCount >= minLists) return pass;
+  return {
+    score: listCount / minLists,
+    issues: [flag("suggestion", "Add a bulleted or numbered list to make the post easier to scan")],
+  };
+});
+
+// In the order their issues are listed
+export const RULES: SEORule[] = [
+  titleLength,
+  titleKeyword,
+  metaLength,
+  metaKeyword,
+  wordCount,
+  keywordDensity,
+  keywordInIntro,
+  keywordInHeading,
+  keywordInSlug,
+  keywordInImageAlt,
+  keywordInConclusion,
+  headingStructure,
+  imageAlt,
+  internalLinks,
+  sentenceLength,
+  paragraphLength,
+  fleschScore,
+  passiveVoice,
+  transitionWords,
+  lists,
+];
@@ -0,0 +1,108 @@
+import { BlogGenerationOptions } from "../../api/blog-generator";
+import { KeywordPlacement, ReadabilityReport, SEOAnalysis, StructureReport } from "../../types/blog";
+
+export type ContentType = NonNullable<BlogGenerationOptions["contentType"]>;
+
+export type SEOIssue = SEOAnalysis["issues"][number];
+
+// Part of the post a rule looks at; shown next to its issues
+export type SEOSection = "title" | "meta" | "content" | "keywords" | "structure" | "readability";
+
+export type RuleId =
+  | "title-length"
+  | "title-keyword"
+  | "meta-length"
+  | "meta-keyword"
+  | "word-count"
+  | "keyword-density"
+  | "keyword-in-intro"
+  | "keyword-in-heading"
+  | "keyword-in-slug"
+  | "keyword-in-image-alt"
+  | "keyword-in-conclusion"
+  | "heading-structure"
+  | "image-alt"
+  | "internal-links"
+  | "sentence-length"
+  | "paragraph-length"
+  | "flesch-score"
+  | "passive-voice"
+  | "transition-words"
+  | "lists";
+
+export interface AnalyzerInput {
+  title: string;
+  content: string;
+  metaDescription: string;
+  // The first keyword is the primary one
+  keywords: string[];
+  contentType?: ContentType;
+  // Language of the content; readability formulas only run for English
+  locale?: string;
+  // The blog's address, so absolute links to it count as internal
+  siteUrl?: string;
+  // The post's URL slug, checked for the primary keyword
+  slug?: string;
+}
+
+export interface KeywordStats {
+  keyword: string;
+  occurrences: number;
+  // Occurrences per 100 words
+  density: number;
+}
+
+// Everything the rules need, computed once per analysis
+export interface AnalysisContext extends AnalyzerInput {
+  // Content without markdown syntax
+  text: string;
+  wordCount: number;
+  readability: ReadabilityReport;
+  structure: StructureReport;
+  // Null without a primary keyword
+  placement: KeywordPlacement | null;
+  keywordStats: KeywordStats[];
+}
+
+export interface AnalyzerThresholds {
+  // Characters below which titles and descriptions are too thin
+  minTitleLength: number;
+  minMetaLength: number;
+  // Pixels Google shows on desktop before cutting the text off
+  maxTitleWidth: number;
+  maxMetaWidth: number;
+  // Below this the post is too thin to rank
+  minWords: number;
+  // Length the post type usually needs to compete
+  targetWords: number;
+  keywordDensity: [min: number, max: number];
+  // The primary keyword should appear within this many opening words
+  introWords: number;
+  minH2: number;
+  maxAvgSentenceWords: number;
+  maxParagraphWords: number;
+  // Flesch Reading Ease the post should reach
+  minFleschScore: number;
+  // Shares of sentences, 0-1
+  maxPassiveRatio: number;
+  minTransitionRatio: number;
+  minLists: number;
+}
+
+export interface AnalyzerConfig {
+  thresholds: AnalyzerThresholds;
+  // Weight of each rule in the overall score; 0 turns a rule off
+  weights: Record<RuleId, number>;
+}
+
+export interface RuleOutcome {
+  // Share of the rule's weight earned, 0-1; null when the rule doesn't apply (e.g. no keywords set)
+  score: number | null;
+  issues: SEOIssue[];
+}
+
+export interface SEORule {
+  id: RuleId;
+  section: SEOSection;
+  check: (context: AnalysisContext, thresholds: AnalyzerThresholds) => RuleOutcome;
+}
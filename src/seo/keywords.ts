@@ -0,0 +1,30 @@
+// Letters and digits that make a match part of a longer word, e.g. "seo" inside "seoul"
+const WORD_CHAR = /[0-9A-Za-z\u00C0-\u024F\u0370-\u03FF\u0400-\u04FF]/;
+
+/**
+ * Case-insensitive whole-phrase occurrences of `phrase` in `text`. Plain
+ * string search rather than a RegExp, so keywords like "c++" or "why?" are
+ * matched literally.
+ */
+export function countOccurrences(text: string, phrase: string) {
+  const haystack = text.toLowerCase();
+  const needle = phrase.trim().toLowerCase();
+  if (!needle) return 0;
+
+  let count = 0;
+  let from = 0;
+  for (let at = haystack.indexOf(needle); at >= 0; at = haystack.indexOf(needle, from)) {
+    const before = haystack[at - 1] ?? "";
+    const after = haystack[at + needle.length] ?? "";
+    // Only letters at the edges of the phrase can run into neighbouring text
+    const startsWord = !WORD_CHAR.test(needle[0]) || !WORD_CHAR.test(before);
+    const endsWord = !WORD_CHAR.test(needle[needle.length - 1]) || !WORD_CHAR.test(after);
+    if (startsWord && endsWord) {
+      count++;
+      from = at + needle.length;
+    } else {
+      from = at + 1;
+    }
+  }
+  return count;
+}
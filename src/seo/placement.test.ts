@@ -0,0 +1,59 @@
+import { describe, expect, test } from "vitest";
+import { auditKeywordPlacement, conclusionText } from "./placement";
+import { analyzeStructure } from "./structure";
+
+const content = [
+  "# Cold Brew at Home",
+  "Cold brew is coffee steeped in cold water.",
+  "## Choosing a cold brew ratio",
+  "Start with one to eight. ![Cold brew in a mason jar](jar.jpg) ![](filter.jpg)",
+  "## Final Thoughts",
+  "Give it a try this weekend.",
+  "### Serving ideas",
+  "Add milk.",
+  "## FAQ",
+  "### Does it keep?",
+  "For two weeks.",
+].join("\n\n");
+
+function audit(overrides: { content?: string; slug?: string; keyword?: string } = {}) {
+  const markdown = overrides.content ?? content;
+  return auditKeywordPlacement({
+    title: "Cold Brew at Home",
+    content: markdown,
+    metaDescription: "",
+    slug: overrides.slug,
+    keyword: overrides.keyword ?? "cold brew",
+    structure: analyzeStructure(markdown),
+    introWords: 100,
+  });
+}
+
+describe("keyword placement", () => {
+  test("checks each place and skips the ones the post doesn't have", () => {
+    expect(audit({ slug: "cold-brew-home" })).toEqual({
+      keyword: "cold brew",
+      title: true,
+      intro: true,
+      h2: true,
+      metaDescription: null,
+      slug: true,
+      imageAlt: true,
+      conclusion: false,
+    });
+    expect(audit().slug).toBeNull();
+    expect(audit({ content: "Just one paragraph about cold brew." })).toMatchObject({ h2: null, imageAlt: null });
+  });
+
+  test("matches the keyword in slugs without stop words or punctuation", () => {
+    expect(audit({ slug: "cost-cold-brew-2026", keyword: "cost of cold brew" }).slug).toBe(true);
+    expect(audit({ slug: "cold-brewing", keyword: "cold brew" }).slug).toBe(false);
+  });
+
+  test("reads the conclusion section including its subsections, or else the last paragraph", () => {
+    const { outline } = analyzeStructure(content);
+    expect(conclusionText(content, outline)).toBe("Give it a try this weekend. Serving ideas Add milk.");
+    const plain = "# Title\n\nFirst.\n\n## Steps\n\nLast of all, enjoy cold brew.";
+    expect(conclusionText(plain, analyzeStructure(plain).outline)).toBe("Last of all, enjoy cold brew.");
+  });
+});
@@ -0,0 +1,91 @@
+import { KeywordPlacement, OutlineHeading, StructureReport } from "../types/blog";
+import { SUPPORTED_LOCALES } from "../utils/locale";
+import { inlineText, parseMarkdown } from "../utils/markdown-ast";
+import { stripMarkdown } from "../utils/markdown";
+import { postSlug, slugify } from "../utils/slug";
+import { countOccurrences } from "./keywords";
+
+export interface PlacementInput {
+  title: string;
+  content: string;
+  metaDescription: string;
+  slug?: string;
+  keyword: string;
+  structure: StructureReport;
+  // The primary keyword should appear within this many opening words
+  introWords: number;
+}
+
+// English closing headings, plus the conclusion heading the generators write in each language
+const CONCLUSION_HEADINGS = [
+  "conclusion",
+  "summary",
+  "final thoughts",
+  "wrapping up",
+  "key takeaways",
+  "the bottom line",
+  "bottom line",
+  ...SUPPORTED_LOCALES.map((locale) => locale.headings.conclusion.toLowerCase()),
+];
+
+function isConclusionHeading(heading: OutlineHeading) {
+  const text = heading.text.toLowerCase().replace(/[.:!?\s]+$/, "");
+  return CONCLUSION_HEADINGS.some(
+    (name) => text === name || text.startsWith(`${name}:`) || text.startsWith(`${name} `),
+  );
+}
+
+/** Text of the section under the last conclusion heading, or else the post's last paragraph. */
+export function conclusionText(content: string, outline: OutlineHeading[]): string | null {
+  const index = outline.map(isConclusionHeading).lastIndexOf(true);
+  if (index >= 0) {
+    const heading = outline[index];
+    const next = outline.slice(index + 1).find((h) => h.level <= heading.level);
+    // Drop the heading line itself
+    const section = content.slice(heading.offset, next ? next.offset : content.length).replace(/^.*\n?/, "");
+    return stripMarkdown(section).trim() || null;
+  }
+  const paragraphs = parseMarkdown(content).children.filter((node) => node.type === "paragraph");
+  const last = paragraphs[paragraphs.length - 1];
+  return last && last.type === "paragraph" ? inlineText(last.children) || null : null;
+}
+
+// Slugs drop punctuation and sometimes stop words, so compare slug to slug
+function slugHasKeyword(slug: string, keyword: string) {
+  const padded = `-${slug}-`;
+  return [slugify(keyword), postSlug(keyword)].some((part) => part !== "" && padded.includes(`-${part}-`));
+}
+
+/** Whether the primary keyword appears in each place search engines and readers look for it. */
+export function auditKeywordPlacement(input: PlacementInput): KeywordPlacement {
+  const { keyword, structure } = input;
+  const has = (text: string) => countOccurrences(text, keyword) > 0;
+  const h2s = structure.outline.filter((h) => h.level === 2);
+  const intro = stripMarkdown(input.content).split(/\s+/).slice(0, input.introWords).join(" ");
+  const conclusion = conclusionText(input.content, structure.outline);
+
+  return {
+    keyword,
+    title: has(input.title),
+    intro: has(intro),
+    h2: h2s.length > 0 ? h2s.some((h) => has(h.text)) : null,
+    metaDescription: input.metaDescription.trim() ? has(input.metaDescription) : null,
+    slug: input.slug?.trim() ? slugHasKeyword(input.slug.trim(), keyword) : null,
+    imageAlt: structure.imageCount > 0 ? structure.imageAlts.some(has) : null,
+    conclusion: conclusion !== null ? has(conclusion) : null,
+  };
+}
+
+/** Rows of a placement checklist; places the post doesn't have are left out. */
+export function placementChecklist(placement: KeywordPlacement): Array<{ label: string; found: boolean }> {
+  const rows: Array<{ label: string; found: boolean | null }> = [
+    { label: "Title", found: placement.title },
+    { label: "Introduction", found: placement.intro },
+    { label: "H2 heading", found: placement.h2 },
+    { label: "Meta description", found: placement.metaDescription },
+    { label: "URL slug", found: placement.slug },
+    { label: "Image alt text", found: placement.imageAlt },
+    { label: "Conclusion", found: placement.conclusion },
+  ];
+  return rows.filter((row): row is { label: string; found: boolean } => row.found !== null);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "vitest";
+import { analyzeReadability, countSyllables, readingEaseLevel, splitSentences } from "./readability";
+
+const post = [
+  "# Cold Brew",
+  "The cat sat on the mat. It was fed by the dog. However, the dog ran away.",
+  "## Method",
+  "The implementation of organizational methodologies necessitates comprehensive institutional considerations.",
+  "- Grind the beans coarsely.",
+  "```\nconst ignored = true. Not prose.\n```",
+].join("\n\n");
+
+describe("readability", () => {
+  test("estimates English syllables", () => {
+    expect(["cat", "table", "make", "coffee", "beautiful", "jumped", "wanted", "boxes"].map(countSyllables)).toEqual([
+      1, 2, 1, 2, 3, 1, 2, 1,
+    ]);
+    expect(countSyllables("42")).toBe(0);
+  });
+
+  test("splits sentences without breaking abbreviations or decimals", () => {
+    expect(splitSentences("Use e.g. a burr grinder. It costs $3.50 today! Does it work?")).toEqual([
+      "Use e.g. a burr grinder.",
+      "It costs $3.50 today!",
+      "Does it work?",
+    ]);
+    expect(splitSentences("東京は大きい。カフェが多い。")).toEqual(["東京は大きい。", "カフェが多い。"]);
+  });
+
+  test("scores prose and skips headings and code", () => {
+    const report = analyzeReadability(post);
+    expect(report.sentenceCount).toBe(5);
+    expect(report.wordCount).toBe(30);
+    expect(report.passiveRatio).toBe(0.2);
+    expect(report.transitionRatio).toBe(0.2);
+    expect(report.paragraphs.wordCounts).toEqual([17, 9]);
+    expect(report.paragraphs.distribution).toEqual({ short: 2, medium: 0, long: 0, veryLong: 0 });
+    expect(report.fleschReadingEase).toBeGreaterThanOrEqual(0);
+    expect(report.fleschReadingEase).toBeLessThan(60);
+    expect(report.level).toBe(readingEaseLevel(report.fleschReadingEase));
+    expect(report.worstSentences.map((s) => s.text)).toEqual([
+      "The implementation of organizational methodologies necessitates comprehensive institutional considerations.",
+    ]);
+  });
+
+  test("counts passive voice but not adjectives after a form of to be", () => {
+    const passive = (text: string) => analyzeReadability(text).passiveRatio;
+
+    expect(passive("The guide was written last year.")).toBe(1);
+    expect(passive("The beans are often stored in jars.")).toBe(1);
+    expect(passive("The roast was perfected by our team.")).toBe(1);
+    expect(passive("She is interested in espresso.")).toBe(0);
+    expect(passive("He was tired after the long shift.")).toBe(0);
+    expect(passive("The shop is open until noon.")).toBe(0);
+    expect(passive("We were excited and a little worried.")).toBe(0);
+  });
+
+  test("rates plain sentences as easy", () => {
+    const report = analyzeReadability("We made cold brew. It was good. Then we drank it all.");
+    expect(report.fleschReadingEase).toBeGreaterThanOrEqual(90);
+    expect(report.level).toBe("Very easy");
+    expect(report.fleschKincaidGrade).toBeLessThan(3);
+    expect(report.worstSentences).toEqual([]);
+  });
+
+  test("leaves English formulas out for other languages", () => {
+    const report = analyzeReadability(post, "de-DE");
+    expect(report).toMatchObject({
+      fleschReadingEase: null,
+      fleschKincaidGrade: null,
+      passiveRatio: null,
+      transitionRatio: null,
+      level: "Not measured",
+      sentenceCount: 5,
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { ReadabilityReport, ReadabilitySentence } from "../types/blog";
+import { countWords, getLocale } from "../utils/locale";
+import { inlineText, parseMarkdown, walkBlocks } from "../utils/markdown-ast";
+
+// Abbreviations whose trailing period doesn't end a sentence
+const ABBREVIATIONS = /(?:^|\s)(?:e\.g|i\.e|etc|vs|mr|mrs|ms|dr|prof|st|approx|no|fig)\.$/i;
+
+const BE_VERB = "(?:am|is|are|was|were|be|been|being|get|gets|got|gotten)";
+const IRREGULAR_PARTICIPLES = [
+  "arisen", "begun", "bitten", "blown", "born", "bought", "brought", "built", "caught", "chosen", "cut", "done",
+  "drawn", "driven", "eaten", "fallen", "fed", "felt", "forgotten", "found", "frozen", "given", "gone", "ground",
+  "grown", "heard", "held", "hidden", "hit", "hung", "kept", "known", "laid", "led", "left", "lent", "lost", "made",
+  "meant", "met", "paid", "put", "read", "ridden", "run", "said", "seen", "sent", "set", "shaken", "shown", "shut",
+  "sold", "spent", "spoken", "stolen", "struck", "sung", "taken", "taught", "thought", "thrown", "told", "torn",
+  "understood", "won", "worn", "written",
+];
+// Regular participles that rarely stand as adjectives; "is interested" or "was tired" only count with a "by"
+const REGULAR_PARTICIPLES = [
+  "added", "allowed", "announced", "applied", "asked", "based", "believed", "boiled", "brewed", "called", "checked",
+  "claimed", "collected", "completed", "considered", "created", "defined", "delivered", "described", "designed",
+  "developed", "discovered", "discussed", "displayed", "expected", "explained", "filtered", "followed", "formed",
+  "generated", "handled", "included", "installed", "introduced", "invented", "launched", "listed", "loaded",
+  "managed", "mentioned", "needed", "noticed", "offered", "opened", "ordered", "owned", "placed", "planned", "played",
+  "poured", "prepared", "presented", "printed", "produced", "provided", "published", "raised", "received",
+  "recommended", "recorded", "released", "removed", "replaced", "reported", "required", "reviewed", "roasted",
+  "saved", "selected", "served", "shared", "signed", "solved", "steeped", "stored", "submitted", "supported",
+  "tested", "trained", "treated", "updated", "used", "viewed", "visited", "washed", "watched",
+];
+const PARTICIPLES = [...IRREGULAR_PARTICIPLES, ...REGULAR_PARTICIPLES].join("|");
+const ADVERB = "(?:\\w+ly|not|never|often|always|also|still|sometimes|already)";
+// A form of "to be" (or "to get"), an optional adverb, then a known past participle: "was written",
+// "is often used"; or any "-ed"/"-en" word followed by its agent: "was tested by the team"
+const PASSIVE = new RegExp(
+  `\\b${BE_VERB}\\s+(?:${ADVERB}\\s+)?(?:(?:${PARTICIPLES})\\b|\\w+(?:ed|en)\\s+by\\b)`,
+  "i",
+);
+
+const TRANSITIONS = [
+  "above all", "accordingly", "additionally", "after all", "afterwards", "also", "although", "as a result",
+  "as well as", "because", "besides", "by contrast", "consequently", "even though", "eventually", "finally",
+  "first", "firstly", "for example", "for instance", "furthermore", "hence", "however", "in addition",
+  "in conclusion", "in contrast", "in fact", "in other words", "in short", "indeed", "instead", "likewise",
+  "meanwhile", "moreover", "nevertheless", "next", "nonetheless", "on the other hand", "otherwise", "second",
+  "secondly", "similarly", "since", "so that", "specifically", "subsequently", "that said", "then", "therefore",
+  "thus", "to summarize", "ultimately", "unless", "whereas",
+];
+const TRANSITION = new RegExp(`\\b(?:${TRANSITIONS.map((t) => t.replace(/ /g, "\\s+")).join("|")})\\b`, "i");
+
+// Sentences easier than this are never listed as the worst, however long
+const PLAIN_ENGLISH_EASE = 60;
+const LONG_SENTENCE_WORDS = 25;
+const WORST_SENTENCE_COUNT = 5;
+
+/** English syllable estimate: vowel groups, minus silent endings like "-e", "-es" and "-ed". */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!letters) return 0;
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/([^laeiouy])es$|([^td])ed$|([^laeiouy])e$/, "$1$2$3").replace(/^y/, "");
+  return Math.max(1, trimmed.match(/[aeiouy]+/g)?.length ?? 0);
+}
+
+/** Split prose into sentences, keeping "e.g." and decimals like "3.5" inside their sentence. */
+export function splitSentences(text: string): string[] {
+  const fragments = text.match(/[^.!?。！？]+(?:[.!?。！？]+|$)|[.!?。！？]+/g) ?? [];
+  const sentences: string[] = [];
+  for (const fragment of fragments) {
+    const previous = sentences[sentences.length - 1];
+    const continues =
+      previous !== undefined &&
+      (!/^\s/.test(fragment) || ABBREVIATIONS.test(previous) || /^\s*[a-z]/.test(fragment)) &&
+      !/[。！？]$/.test(previous);
+    if (continues) {
+      sentences[sentences.length - 1] = previous + fragment;
+    } else {
+      sentences.push(fragment);
+    }
+  }
+  return sentences.map((s) => s.trim()).filter((s) => countWords(s) > 0);
+}
+
+/** Body paragraphs and list items of a markdown post; headings, code and tables aren't prose. */
+function proseBlocks(markdown: string) {
+  const paragraphs: string[] = [];
+  const listItems: string[] = [];
+  walkBlocks(parseMarkdown(markdown).children, (node, parents) => {
+    if (node.type !== "paragraph") return;
+    const text = inlineText(node.children);
+    if (!text) return;
+    (parents.some((parent) => parent.type === "listItem") ? listItems : paragraphs).push(text);
+  });
+  return { paragraphs, listItems };
+}
+
+function fleschReadingEase(words: number, sentences: number, syllables: number) {
+  return 206.835 - 1.015 * (words / sentences) - 84.6 * (syllables / words);
+}
+
+function clampEase(score: number) {
+  return Math.round(Math.min(100, Math.max(0, score)));
+}
+
+function fleschKincaidGrade(words: number, sentences: number, syllables: number) {
+  return 0.39 * (words / sentences) + 11.8 * (syllables / words) - 15.59;
+}
+
+/** The conventional band names for Flesch Reading Ease scores. */
+export function readingEaseLevel(score: number | null): string {
+  if (score === null) return "Not measured";
+  if (score >= 90) return "Very easy";
+  if (score >= 80) return "Easy";
+  if (score >= 70) return "Fairly easy";
+  if (score >= 60) return "Standard";
+  if (score >= 50) return "Fairly difficult";
+  if (score >= 30) return "Difficult";
+  return "Very difficult";
+}
+
+function round(value: number, digits = 0) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function englishWords(sentence: string) {
+  return sentence.match(/[A-Za-z]+(?:['’][A-Za-z]+)*/g) ?? [];
+}
+
+/**
+ * Readability of a markdown post: Flesch scores, passive voice and
+ * transitions for English, and sentence and paragraph lengths for every
+ * language.
+ */
+export function analyzeReadability(markdown: string, locale?: string): ReadabilityReport {
+  const english = getLocale(locale).code.startsWith("en");
+  const { paragraphs, listItems } = proseBlocks(markdown);
+  const sentences = [...paragraphs, ...listItems].flatMap(splitSentences);
+
+  const scored: ReadabilitySentence[] = sentences.map((text) => {
+    const words = countWords(text);
+    const tokens = englishWords(text);
+    const syllables = tokens.reduce((sum, word) => sum + countSyllables(word), 0);
+    const measured = english && tokens.length > 0;
+    return {
+      text,
+      words,
+      fleschReadingEase: measured ? clampEase(fleschReadingEase(tokens.length, 1, syllables)) : null,
+      passive: english && PASSIVE.test(text),
+    };
+  });
+
+  const wordCount = scored.reduce((sum, s) => sum + s.words, 0);
+  const tokenCount = english ? sentences.reduce((sum, s) => sum + englishWords(s).length, 0) : 0;
+  const syllableCount = english
+    ? sentences.reduce((sum, s) => sum + englishWords(s).reduce((n, word) => n + countSyllables(word), 0), 0)
+    : 0;
+  const measurable = english && tokenCount > 0 && sentences.length > 0;
+
+  const ease = measurable ? clampEase(fleschReadingEase(tokenCount, sentences.length, syllableCount)) : null;
+  const grade = measurable
+    ? round(Math.max(0, fleschKincaidGrade(tokenCount, sentences.length, syllableCount)), 1)
+    : null;
+  // Share of sentences with a trait; null when the trait is only detected in English
+  const ratio = (matches: (sentence: ReadabilitySentence) => boolean) =>
+    english && scored.length > 0 ? round(scored.filter(matches).length / scored.length, 2) : null;
+  const paragraphWords = paragraphs.map((p) => countWords(p));
+  const paragraphTotal = paragraphWords.reduce((sum, words) => sum + words, 0);
+
+  const worstSentences = scored
+    .filter((s) =>
+      s.fleschReadingEase !== null
+        ? s.fleschReadingEase < PLAIN_ENGLISH_EASE && s.words >= 8
+        : s.words > LONG_SENTENCE_WORDS,
+    )
+    .sort((a, b) =>
+      a.fleschReadingEase !== null && b.fleschReadingEase !== null
+        ? a.fleschReadingEase - b.fleschReadingEase
+        : b.words - a.words,
+    )
+    .slice(0, WORST_SENTENCE_COUNT);
+
+  return {
+    fleschReadingEase: ease,
+    fleschKincaidGrade: grade,
+    level: readingEaseLevel(ease),
+    wordCount,
+    sentenceCount: sentences.length,
+    avgWordsPerSentence: sentences.length > 0 ? round(wordCount / sentences.length, 1) : 0,
+    avgSyllablesPerWord: measurable ? round(syllableCount / tokenCount, 2) : null,
+    passiveRatio: ratio((s) => s.passive),
+    transitionRatio: ratio((s) => TRANSITION.test(s.text)),
+    paragraphs: {
+      wordCounts: paragraphWords,
+      average: paragraphWords.length > 0 ? round(paragraphTotal / paragraphWords.length) : 0,
+      distribution: {
+        short: paragraphWords.filter((w) => w <= 50).length,
+        medium: paragraphWords.filter((w) => w > 50 && w <= 100).length,
+        long: paragraphWords.filter((w) => w > 100 && w <= 150).length,
+        veryLong: paragraphWords.filter((w) => w > 150).length,
+      },
+    },
+    worstSentences,
+  };
+}
+
+/** Label/value rows for showing a report; metrics that weren't measured are left out. */
+export function readabilityDetails(report: ReadabilityReport): Array<{ label: string; value: string }> {
+  const rows: Array<{ label: string; value: string }> = [];
+  if (report.fleschReadingEase !== null) {
+    rows.push({ label: "Flesch Reading Ease", value: `${report.fleschReadingEase} (${report.level})` });
+  }
+  if (report.fleschKincaidGrade !== null) {
+    rows.push({ label: "Grade level", value: report.fleschKincaidGrade.toFixed(1) });
+  }
+  rows.push({ label: "Words per sentence", value: String(report.avgWordsPerSentence) });
+  if (report.passiveRatio !== null) {
+    rows.push({ label: "Passive voice", value: `${Math.round(report.passiveRatio * 100)}% of sentences` });
+  }
+  if (report.transitionRatio !== null) {
+    rows.push({ label: "Transitions", value: `${Math.round(report.transitionRatio * 100)}% of sentences` });
+  }
+  const { short, medium, long, veryLong } = report.paragraphs.distribution;
+  if (report.paragraphs.wordCounts.length > 0) {
+    rows.push({ label: "Paragraphs", value: `${short} short, ${medium} medium, ${long + veryLong} long` });
+  }
+  return rows;
+}
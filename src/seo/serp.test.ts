@@ -0,0 +1,46 @@
+import { describe, expect, test } from "vitest";
+import { SERP_LAYOUTS, serpBreadcrumb, serpSnippet, serpUrl, textWidth, truncateToWidth } from "./serp";
+
+describe("serp preview", () => {
+  test("measures text with Arial metrics", () => {
+    expect(textWidth("Hello", 20)).toBe(Math.round(((722 + 556 + 222 + 222 + 556) * 20) / 1000));
+    expect(textWidth("iiii", 20)).toBeLessThan(textWidth("WWWW", 20) / 4);
+    expect(textWidth("é", 20)).toBe(textWidth("e", 20));
+    expect(textWidth("東京", 20)).toBe(40);
+  });
+
+  test("cuts at the last whole word that fits with an ellipsis", () => {
+    const title = "The Complete Beginner's Guide to Making Smooth Cold Brew Coffee at Home in 2025";
+    const result = truncateToWidth(title, SERP_LAYOUTS.desktop.title);
+
+    expect(result.truncated).toBe(true);
+    expect(result.width).toBeGreaterThan(600);
+    expect(result.text.endsWith(" ...")).toBe(true);
+    expect(title.slice(0, result.cutIndex)).toBe(result.text.slice(0, -4));
+    expect(title[result.cutIndex]).toBe(" ");
+    expect(textWidth(result.text, 20)).toBeLessThanOrEqual(600);
+
+    expect(truncateToWidth("Cold Brew Guide", SERP_LAYOUTS.desktop.title)).toEqual({
+      source: "Cold Brew Guide",
+      text: "Cold Brew Guide",
+      truncated: false,
+      cutIndex: 15,
+      width: textWidth("Cold Brew Guide", 20),
+      maxWidth: 600,
+    });
+  });
+
+  test("cuts mid-word when a single word overflows", () => {
+    const result = truncateToWidth("W".repeat(40), SERP_LAYOUTS.desktop.title);
+    expect(result.cutIndex).toBeGreaterThan(20);
+    expect(result.text).toBe(`${"W".repeat(result.cutIndex)} ...`);
+  });
+
+  test("builds the URL breadcrumb", () => {
+    const url = serpUrl("https://www.example.com/", { id: "1", title: "Cold Brew Guide", locale: "de-DE" });
+    expect(url).toBe("https://www.example.com/de-de/cold-brew-guide");
+    expect(serpBreadcrumb(url)).toEqual(["example.com", "de-de", "cold-brew-guide"]);
+    expect(serpBreadcrumb(serpUrl(" ", { id: "1", title: "Größe" }))).toEqual(["your-site.com", "en-us", "größe"]);
+    expect(serpSnippet({ title: "A", description: "B", url }, "mobile").title.maxWidth).toBe(680);
+  });
+});
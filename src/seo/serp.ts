@@ -0,0 +1,148 @@
+import { postUrl, PostAddress } from "../utils/hreflang";
+
+export type SerpDevice = "desktop" | "mobile";
+
+// Stands in for the blog's address until one is set in Settings
+export const PLACEHOLDER_SITE_URL = "https://your-site.com";
+
+// Advance widths of Arial for ASCII 32-126, in thousandths of the font size
+// (Arial shares Helvetica's metrics). Google renders results in Arial.
+const ARIAL_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, // space to /
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, // 0 to ?
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, // @ to O
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, // P to _
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, // ` to o
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584, // p to ~
+];
+const AVERAGE_WIDTH = 556;
+const FULL_WIDTH = 1000;
+// CJK, kana, hangul and full-width forms take a full em
+const WIDE_CHAR = /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+const ELLIPSIS = " ...";
+
+export interface SerpField {
+  fontSize: number;
+  // Google cuts the text off beyond this many pixels
+  maxWidth: number;
+}
+
+export interface SerpLayout {
+  // Width of a result's text column
+  lineWidth: number;
+  title: SerpField;
+  description: SerpField;
+}
+
+// Result layouts as Google renders them: titles at 20px, descriptions at 14px. Mobile titles
+// and descriptions wrap onto two lines of the narrower column before they are cut.
+export const SERP_LAYOUTS: Record<SerpDevice, SerpLayout> = {
+  desktop: { lineWidth: 600, title: { fontSize: 20, maxWidth: 600 }, description: { fontSize: 14, maxWidth: 920 } },
+  mobile: { lineWidth: 340, title: { fontSize: 20, maxWidth: 680 }, description: { fontSize: 14, maxWidth: 680 } },
+};
+
+function charWidth(char: string) {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return ARIAL_WIDTHS[code - 32];
+  if (WIDE_CHAR.test(char)) return FULL_WIDTH;
+  // Accented Latin letters are as wide as their base letter
+  const base = char.normalize("NFD")[0];
+  if (base !== char && base.charCodeAt(0) <= 126) return charWidth(base);
+  return AVERAGE_WIDTH;
+}
+
+/** Rendered width of `text` in pixels at `fontSize`. */
+export function textWidth(text: string, fontSize: number) {
+  let units = 0;
+  for (const char of text) units += charWidth(char);
+  return Math.round((units * fontSize) / 1000);
+}
+
+export interface TruncatedText {
+  // The full text with whitespace collapsed, as Google reads it
+  source: string;
+  // Text as shown in results, with " ..." when cut off
+  text: string;
+  truncated: boolean;
+  // Index in `source` where the hidden part starts; its length when nothing is cut
+  cutIndex: number;
+  width: number;
+  maxWidth: number;
+}
+
+/**
+ * Cut `text` the way Google does: at the last whole word that fits together
+ * with " ...", or mid-word when even the first word is too wide.
+ */
+export function truncateToWidth(text: string, { fontSize, maxWidth }: SerpField): TruncatedText {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const width = textWidth(normalized, fontSize);
+  if (width <= maxWidth) {
+    return { source: normalized, text: normalized, truncated: false, cutIndex: normalized.length, width, maxWidth };
+  }
+
+  const budget = maxWidth - textWidth(ELLIPSIS, fontSize);
+  // Length of the longest prefix that fits
+  let fits = 0;
+  let used = 0;
+  for (const char of normalized) {
+    used += (charWidth(char) * fontSize) / 1000;
+    if (used > budget) break;
+    fits += char.length;
+  }
+  const lastSpace = normalized.lastIndexOf(" ", fits);
+  // Only break at a word boundary if it doesn't throw away most of the line
+  const cutIndex = lastSpace > fits / 2 ? lastSpace : fits;
+  return {
+    source: normalized,
+    text: normalized.slice(0, cutIndex).replace(/[\s,.;:\u2013\u2014-]+$/, "") + ELLIPSIS,
+    truncated: true,
+    cutIndex,
+    width,
+    maxWidth,
+  };
+}
+
+/** URL a post would be listed under, on the placeholder site when no site URL is set. */
+export function serpUrl(siteUrl: string, post: PostAddress) {
+  return postUrl(siteUrl.trim() || PLACEHOLDER_SITE_URL, post);
+}
+
+/** "example.com › blog › cold-brew" style breadcrumb parts of a URL. */
+export function serpBreadcrumb(url: string): string[] {
+  const match = url.trim().match(/^(?:[a-z][a-z0-9+.-]*:\/\/)?([^/?#]+)([^?#]*)/i);
+  if (!match) return [];
+  const host = match[1].replace(/^www\./i, "");
+  const segments = match[2]
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+  return [host, ...segments];
+}
+
+export interface SerpSnippet {
+  device: SerpDevice;
+  breadcrumb: string[];
+  title: TruncatedText;
+  description: TruncatedText;
+}
+
+/** Everything needed to draw a search result for a post on one device. */
+export function serpSnippet(
+  input: { title: string; description: string; url: string },
+  device: SerpDevice,
+): SerpSnippet {
+  const layout = SERP_LAYOUTS[device];
+  return {
+    device,
+    breadcrumb: serpBreadcrumb(input.url),
+    title: truncateToWidth(input.title, layout.title),
+    description: truncateToWidth(input.description, layout.description),
+  };
+}
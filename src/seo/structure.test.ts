@@ -0,0 +1,44 @@
+import { describe, expect, test } from "vitest";
+import { analyzeStructure, linkScope } from "./structure";
+
+describe("structure", () => {
+  test("reports headings, skipped levels and blocks", () => {
+    const markdown = [
+      "# Cold Brew",
+      "Steep [coarse](/grind) beans. See [Wikipedia](https://en.wikipedia.org/wiki/Cold_brew).",
+      "#### Too deep",
+      "# Second H1",
+      "- ![](jar.png)\n  - Nested",
+      "| a | b |\n| - | - |\n| 1 | 2 |",
+      "```\n## not a heading\n```",
+    ].join("\n\n");
+    const report = analyzeStructure(markdown);
+
+    expect(report.outline).toEqual([
+      { level: 1, text: "Cold Brew", anchor: "cold-brew", offset: 0 },
+      { level: 4, text: "Too deep", anchor: "too-deep", offset: markdown.indexOf("####"), skippedFrom: 1 },
+      { level: 1, text: "Second H1", anchor: "second-h1", offset: markdown.indexOf("# Second") },
+    ]);
+    expect(report).toMatchObject({
+      hasH1: true,
+      h1Count: 2,
+      h2Count: 0,
+      paragraphCount: 1,
+      listCount: 1,
+      tableCount: 1,
+      codeBlockCount: 1,
+      imageCount: 1,
+      imagesMissingAlt: [{ url: "jar.png", offset: markdown.indexOf("![]") }],
+      internalLinks: 1,
+      externalLinks: 1,
+    });
+  });
+
+  test("classifies links against the site", () => {
+    expect(linkScope("#faq")).toBe("internal");
+    expect(linkScope("../posts/a")).toBe("internal");
+    expect(linkScope("https://www.example.com/a", "https://example.com")).toBe("internal");
+    expect(linkScope("//cdn.example.net/x", "https://example.com")).toBe("external");
+    expect(linkScope("mailto:hi@example.com")).toBeNull();
+  });
+});
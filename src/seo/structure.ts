@@ -0,0 +1,89 @@
+import { OutlineHeading, StructureReport } from "../types/blog";
+import { blockInlines, inlineText, parseMarkdown, walkBlocks } from "../utils/markdown-ast";
+import { slugify } from "../utils/slug";
+
+function hostOf(url: string) {
+  const match = url.match(/^(?:[a-z][a-z0-9+.-]*:)?\/\/([^/?#:]+)/i);
+  return match ? match[1].toLowerCase().replace(/^www\./, "") : null;
+}
+
+/**
+ * Whether a link stays on the site: relative paths and anchors do, as do
+ * absolute URLs on the site's host. mailto: and other schemes are neither.
+ */
+export function linkScope(url: string, siteUrl?: string): "internal" | "external" | null {
+  const target = url.trim();
+  if (!target) return null;
+  const host = hostOf(target);
+  if (host === null) return /^[a-z][a-z0-9+.-]*:/i.test(target) ? null : "internal";
+  const siteHost = siteUrl ? hostOf(siteUrl.trim()) : null;
+  return host === siteHost ? "internal" : "external";
+}
+
+/** Headings, blocks, images and links of a markdown post. */
+export function analyzeStructure(markdown: string, siteUrl?: string): StructureReport {
+  const report: StructureReport = {
+    outline: [],
+    hasH1: false,
+    h1Count: 0,
+    h2Count: 0,
+    h3Count: 0,
+    paragraphCount: 0,
+    listCount: 0,
+    tableCount: 0,
+    codeBlockCount: 0,
+    imageCount: 0,
+    imagesMissingAlt: [],
+    imageAlts: [],
+    internalLinks: 0,
+    externalLinks: 0,
+  };
+
+  walkBlocks(parseMarkdown(markdown).children, (node, parents) => {
+    const inList = parents.some((parent) => parent.type === "listItem");
+    switch (node.type) {
+      case "heading": {
+        const previous = report.outline[report.outline.length - 1];
+        const heading: OutlineHeading = {
+          level: node.depth,
+          text: inlineText(node.children) || node.text,
+          anchor: slugify(node.text),
+          offset: node.offset,
+        };
+        if (previous && node.depth > previous.level + 1) heading.skippedFrom = previous.level;
+        report.outline.push(heading);
+        break;
+      }
+      case "paragraph":
+        if (!inList) report.paragraphCount++;
+        break;
+      case "list":
+        if (!inList) report.listCount++;
+        break;
+      case "table":
+        report.tableCount++;
+        break;
+      case "code":
+        report.codeBlockCount++;
+        break;
+    }
+
+    for (const inline of blockInlines(node)) {
+      if (inline.type === "image") {
+        report.imageCount++;
+        if (inline.alt) report.imageAlts.push(inline.alt);
+        else report.imagesMissingAlt.push({ url: inline.url, offset: node.offset });
+      } else if (inline.type === "link") {
+        const scope = linkScope(inline.url, siteUrl);
+        if (scope === "internal") report.internalLinks++;
+        if (scope === "external") report.externalLinks++;
+      }
+    }
+  });
+
+  report.h1Count = report.outline.filter((h) => h.level === 1).length;
+  report.h2Count = report.outline.filter((h) => h.level === 2).length;
+  report.h3Count = report.outline.filter((h) => h.level === 3).length;
+  report.hasH1 = report.h1Count > 0;
+  return report;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "vitest";
+import { ContentSuggestion } from "../types/blog";
+import { analyzeSEO } from "./analyzer";
+import { applyPatch, planSuggestions, rankSuggestions, SuggestionInput } from "./suggestions";
+
+type Impact = ContentSuggestion["impact"];
+type Effort = ContentSuggestion["effort"];
+
+const longSentence =
+  "Cold brew takes longer than most people expect because the grounds need to sit in cold water for many hours " +
+  "before the flavour is fully extracted and ready to drink.";
+
+const content = [
+  "# Cold Brew Guide",
+  "Making coffee at home is easy once you know the basics.",
+  "## Choosing beans",
+  longSentence,
+  "## Brewing ratio",
+  "Use one part coffee to eight parts water. ![](/images/cold-brew-jar.jpg)",
+  "## FAQ",
+  "### Is it stronger?",
+  "Usually, yes.",
+].join("\n\n");
+
+function input(overrides: Partial<SuggestionInput> = {}): SuggestionInput {
+  const fields = { title: "A Guide to Coffee at Home", content, metaDescription: "", keywords: ["cold brew ratio"] };
+  return {
+    ...fields,
+    analysis: analyzeSEO(fields),
+    questions: [
+      { question: "Is it stronger?", suggestedAnswer: "Usually, yes.", relatedKeywords: [] },
+      { question: "How long does it keep?", suggestedAnswer: "About two weeks in the fridge.", relatedKeywords: [] },
+    ],
+    ...overrides,
+  };
+}
+
+describe("suggestions", () => {
+  test("plans model edits for the passages analyzer issues point at", () => {
+    const { targets } = planSuggestions(input());
+    const byId = Object.fromEntries(targets.map((t) => [t.suggestion.id, t]));
+
+    expect(byId["title-keyword"].original).toBe("A Guide to Coffee at Home");
+    expect(byId["meta-description"]).toMatchObject({ field: "metaDescription", original: "" });
+    expect(byId["intro-keyword"].original).toBe("Making coffee at home is easy once you know the basics.");
+
+    // "Brewing ratio" shares a word with the keyword, so it is the H2 to change
+    const heading = targets.find((t) => t.suggestion.id.startsWith("heading-keyword"))!;
+    expect(heading.suggestion.title).toBe('Add "cold brew ratio" to H2 #2');
+    expect(heading.original).toBe("Brewing ratio");
+    expect(content.slice(heading.selection.start, heading.selection.end)).toBe("Brewing ratio");
+
+    const sentence = targets.find((t) => t.suggestion.rule === "sentence-length")!;
+    expect(sentence.suggestion.title).toBe("Split this 30-word sentence");
+    expect(sentence.original).toBe(longSentence);
+  });
+
+  test("patches alt text and unanswered People Also Ask questions without a model", () => {
+    const { suggestions } = planSuggestions(input());
+    const alt = suggestions.find((s) => s.rule === "image-alt")!;
+    const faq = suggestions.filter((s) => s.id.startsWith("faq-"));
+
+    expect(alt.patch?.replacement).toBe("![cold brew jar](/images/cold-brew-jar.jpg");
+    expect(faq.map((s) => s.description)).toEqual(["How long does it keep?"]);
+
+    const patched = applyPatch(input(), faq[0].patch!)!.draft.content;
+    expect(patched).toMatch(/Usually, yes\.\n\n### How long does it keep\?\n\nAbout two weeks in the fridge\.$/);
+    // Issues the edits fix aren't repeated as advice
+    expect(suggestions.some((s) => s.rule === "title-keyword" || (s.rule === "image-alt" && !s.patch))).toBe(false);
+  });
+
+  test("adds an FAQ section when the post has none", () => {
+    const plain = "Intro paragraph.\n\n## Steps\n\nLast line.";
+    const analysis = analyzeSEO({ ...input(), content: plain });
+    const { suggestions } = planSuggestions(input({ content: plain, analysis }));
+    const faq = suggestions.find((s) => s.id.startsWith("faq-"))!;
+
+    expect(applyPatch(input({ content: plain }), faq.patch!)!.draft.content).toBe(
+      `${plain}\n\n## Frequently Asked Questions\n\n### Is it stronger?\n\nUsually, yes.`,
+    );
+  });
+
+  test("ranks by impact for the effort", () => {
+    const patch = { field: "content" as const, selection: { start: 0, end: 1 }, original: "a", replacement: "b" };
+    const make = (id: string, impact: Impact, effort: Effort, patched = false): ContentSuggestion => ({
+      id,
+      type: "content",
+      title: id,
+      description: "",
+      impact,
+      effort,
+      patch: patched ? patch : undefined,
+    });
+
+    const ranked = rankSuggestions([
+      make("hard-high", "high", "hard"),
+      make("easy-low", "low", "easy"),
+      make("easy-medium", "medium", "easy"),
+      make("easy-medium-patch", "medium", "easy", true),
+      make("easy-high", "high", "easy"),
+    ]);
+    expect(ranked.map((s) => s.id)).toEqual(["easy-high", "easy-medium-patch", "easy-medium", "hard-high", "easy-low"]);
+  });
+
+  test("applies a patch where the passage moved to and undoes it", () => {
+    const draft = { title: "T", metaDescription: "", content: "One. Two. One." };
+    const patch = { field: "content" as const, selection: { start: 10, end: 14 }, original: "One.", replacement: "1" };
+
+    // Of the two matches, the one nearest where the passage was
+    const moved = { ...draft, content: `A ${draft.content}` };
+    const applied = applyPatch(moved, patch)!;
+    expect(applied.draft.content).toBe("A One. Two. 1");
+    expect(applyPatch(applied.draft, applied.inverse)!.draft).toEqual(moved);
+
+    expect(applyPatch({ ...draft, content: "Rewritten." }, patch)).toBeNull();
+  });
+
+  test("only fills an empty field with a patch that has no original", () => {
+    const patch = {
+      field: "metaDescription" as const,
+      selection: { start: 0, end: 0 },
+      original: "",
+      replacement: "New",
+    };
+    const draft = { title: "T", metaDescription: " ", content: "" };
+
+    const filled = applyPatch(draft, patch)!;
+    expect(filled.draft.metaDescription).toBe("New");
+    expect(applyPatch(filled.draft, filled.inverse)!.draft.metaDescription).toBe("");
+    expect(applyPatch({ ...draft, metaDescription: "Typed meanwhile" }, patch)).toBeNull();
+  });
+});
@@ -0,0 +1,411 @@
+import { PeopleAlsoAsk } from "../api/seo-research";
+import { ContentPatch, ContentSuggestion, SEOAnalysis } from "../types/blog";
+import { extractFaq, faqSectionRange } from "../utils/blog-post";
+import { getLocale } from "../utils/locale";
+import { parseMarkdown } from "../utils/markdown-ast";
+import { RuleId, SEOSection } from "./analyzer";
+
+// The parts of a post a patch can change
+export interface DraftFields {
+  title: string;
+  metaDescription: string;
+  content: string;
+}
+
+export interface SuggestionInput extends DraftFields {
+  // The first keyword is the primary one
+  keywords: string[];
+  locale?: string;
+  analysis: SEOAnalysis;
+  // People Also Ask questions from the post's research, for FAQ entries
+  questions?: PeopleAlsoAsk[];
+}
+
+// A passage the model should rewrite; becomes an applicable suggestion once it has
+export interface EditTarget {
+  suggestion: Omit<ContentSuggestion, "patch" | "suggestedChange">;
+  field: ContentPatch["field"];
+  selection: ContentPatch["selection"];
+  original: string;
+  // What to do with the passage, phrased for the model
+  instruction: string;
+}
+
+// Sentences longer than this are worth splitting
+const LONG_SENTENCE_WORDS = 25;
+// Per kind of edit, so the list stays short enough to act on
+const MAX_SENTENCE_EDITS = 3;
+const MAX_FAQ_ENTRIES = 3;
+
+const IMPACT_VALUE: Record<ContentSuggestion["impact"], number> = { high: 3, medium: 2, low: 1 };
+const EFFORT_COST: Record<ContentSuggestion["effort"], number> = { easy: 1, medium: 2, hard: 3 };
+
+const SECTION_TYPE: Record<SEOSection, ContentSuggestion["type"]> = {
+  title: "content",
+  meta: "content",
+  content: "content",
+  keywords: "keyword",
+  structure: "structure",
+  readability: "readability",
+};
+
+// Work a writer needs for issues no patch can fix; unlisted rules are "medium"
+const RULE_EFFORT: Partial<Record<RuleId, ContentSuggestion["effort"]>> = {
+  "word-count": "hard",
+  "keyword-density": "medium",
+  "internal-links": "easy",
+  "sentence-length": "hard",
+  "paragraph-length": "medium",
+  "flesch-score": "hard",
+  "passive-voice": "medium",
+  "transition-words": "medium",
+};
+
+// Rules whose issues are replaced by the concrete edits planned for them
+const EDITED_RULES: RuleId[] = [
+  "title-keyword",
+  "meta-length",
+  "meta-keyword",
+  "keyword-in-intro",
+  "keyword-in-heading",
+  "image-alt",
+];
+
+/** Highest impact for the least effort first; applicable suggestions before advice on ties. */
+export function rankSuggestions(suggestions: ContentSuggestion[]): ContentSuggestion[] {
+  const value = (s: ContentSuggestion) => IMPACT_VALUE[s.impact] / EFFORT_COST[s.effort];
+  return [...suggestions].sort((a, b) => value(b) - value(a) || Number(!!b.patch) - Number(!!a.patch));
+}
+
+function lineAt(text: string, offset: number) {
+  const end = text.indexOf("\n", offset);
+  return text.slice(offset, end < 0 ? text.length : end);
+}
+
+// Punctuation and spacing between words, Latin and CJK
+const SEPARATORS = /[\s!-/:-@[-`{-~\u00A1\u00BF\u2013\u2014\u3001\u3002\uFF01\uFF0C\uFF1F]+/g;
+
+function wordSet(text: string) {
+  return new Set(text.toLowerCase().split(SEPARATORS).filter(Boolean));
+}
+
+// The H2 sharing most words with the keyword, so the keyword fits without rewriting its meaning
+function headingForKeyword(input: SuggestionInput, keyword: string) {
+  const wanted = wordSet(keyword);
+  const h2s = input.analysis.structure.outline
+    .filter((heading) => heading.level === 2)
+    .map((heading) => ({ heading }));
+  if (h2s.length === 0) return null;
+
+  let best = h2s[0];
+  let bestOverlap = -1;
+  for (const candidate of h2s) {
+    const overlap = [...wordSet(candidate.heading.text)].filter((word) => wanted.has(word)).length;
+    if (overlap > bestOverlap) {
+      best = candidate;
+      bestOverlap = overlap;
+    }
+  }
+  return { ...best, number: h2s.indexOf(best) + 1 };
+}
+
+// The post's opening paragraph as written, with its offset
+function introParagraph(content: string) {
+  const first = parseMarkdown(content).children.find((node) => node.type === "paragraph");
+  if (!first) return null;
+  const text = content.slice(first.offset).split(/\n[ \t]*\n/)[0].trimEnd();
+  return { offset: first.offset, text };
+}
+
+function editTargets(input: SuggestionInput): EditTarget[] {
+  const { analysis } = input;
+  const targets: EditTarget[] = [];
+  const raised = new Set(analysis.issues.map((issue) => issue.rule));
+  const keyword = input.keywords.map((k) => k.trim()).find(Boolean);
+
+  if (keyword && raised.has("title-keyword") && input.title.trim()) {
+    targets.push({
+      suggestion: {
+        id: "title-keyword",
+        type: "keyword",
+        title: `Put "${keyword}" in the title`,
+        description: "The title is the strongest signal of what the post is about.",
+        impact: "high",
+        effort: "easy",
+        section: "title",
+        rule: "title-keyword",
+      },
+      field: "title",
+      selection: { start: 0, end: input.title.length },
+      original: input.title,
+      instruction: `Rewrite this blog post title so it includes "${keyword}" naturally. Stay under 60 characters.`,
+    });
+  }
+
+  if (raised.has("meta-length") || (keyword && raised.has("meta-keyword"))) {
+    const empty = !input.metaDescription.trim();
+    const task = empty ? "Write a meta description for the post" : "Rewrite this meta description";
+    const mention = keyword ? ` that mentions "${keyword}"` : "";
+    targets.push({
+      suggestion: {
+        id: "meta-description",
+        type: "content",
+        title: empty ? "Write a meta description" : "Rewrite the meta description",
+        description: "Search results show it under the title; a complete one earns more clicks.",
+        impact: empty ? "high" : "medium",
+        effort: "easy",
+        section: "meta",
+        rule: raised.has("meta-length") ? "meta-length" : "meta-keyword",
+      },
+      field: "metaDescription",
+      selection: { start: 0, end: input.metaDescription.length },
+      original: input.metaDescription,
+      instruction: `${task} in 120-155 characters${mention}. Summarize what the reader gets; no quotes.`,
+    });
+  }
+
+  const intro = introParagraph(input.content);
+  if (keyword && intro && raised.has("keyword-in-intro")) {
+    targets.push({
+      suggestion: {
+        id: "intro-keyword",
+        type: "keyword",
+        title: `Use "${keyword}" in the introduction`,
+        description: "Readers and search engines both check the opening lines for the topic.",
+        impact: "medium",
+        effort: "easy",
+        section: "keywords",
+        rule: "keyword-in-intro",
+      },
+      field: "content",
+      selection: { start: intro.offset, end: intro.offset + intro.text.length },
+      original: intro.text,
+      instruction: `Rewrite this opening paragraph so "${keyword}" appears in its first sentence. Keep everything else it says.`,
+    });
+  }
+
+  const h2 = keyword && raised.has("keyword-in-heading") ? headingForKeyword(input, keyword) : null;
+  if (keyword && h2) {
+    const line = lineAt(input.content, h2.heading.offset);
+    const atx = line.match(/^(#{1,6}[ \t]+)(.*?)[ \t]*$/);
+    if (atx && atx[2]) {
+      const start = h2.heading.offset + atx[1].length;
+      targets.push({
+        suggestion: {
+          id: `heading-keyword-${h2.heading.offset}`,
+          type: "keyword",
+          title: `Add "${keyword}" to H2 #${h2.number}`,
+          description: `"${h2.heading.text}" is the closest match among your section headings.`,
+          impact: "medium",
+          effort: "easy",
+          section: "keywords",
+          rule: "keyword-in-heading",
+        },
+        field: "content",
+        selection: { start, end: start + atx[2].length },
+        original: atx[2],
+        instruction: `Rewrite this section heading so it includes "${keyword}" while keeping its meaning. Return only the heading text, without #.`,
+      });
+    }
+  }
+
+  const sentences = analysis.readability.worstSentences
+    .filter((sentence) => sentence.words > LONG_SENTENCE_WORDS || sentence.passive)
+    .sort((a, b) => b.words - a.words);
+  let sentenceEdits = 0;
+  for (const sentence of sentences) {
+    if (sentenceEdits >= MAX_SENTENCE_EDITS) break;
+    // Sentences with inline markup read differently from the source and can't be patched
+    const at = input.content.indexOf(sentence.text);
+    if (at < 0) continue;
+    const long = sentence.words > LONG_SENTENCE_WORDS;
+    targets.push({
+      suggestion: {
+        id: `sentence-${at}`,
+        type: "readability",
+        title: long ? `Split this ${sentence.words}-word sentence` : "Rewrite this sentence in the active voice",
+        description: sentence.text,
+        impact: long ? "medium" : "low",
+        effort: "easy",
+        section: "readability",
+        rule: long ? "sentence-length" : "passive-voice",
+      },
+      field: "content",
+      selection: { start: at, end: at + sentence.text.length },
+      original: sentence.text,
+      instruction: long
+        ? "Split this sentence into two or three shorter sentences. Keep every fact and the tone."
+        : "Rewrite this sentence in the active voice. Keep every fact and the tone.",
+    });
+    sentenceEdits++;
+  }
+
+  return targets;
+}
+
+// "cold-brew_ratio.jpg" -> "cold brew ratio"; empty when the file name is an id or hash
+function altFromUrl(url: string) {
+  const file = url.split(/[?#]/)[0].split("/").pop() ?? "";
+  let name = file.replace(/\.[a-z0-9]+$/i, "");
+  try {
+    name = decodeURIComponent(name);
+  } catch {
+    // Keep the raw name
+  }
+  const words = name.split(/[-_\s.]+/).filter((word) => /[A-Za-z\u00C0-\u024F]{2,}/.test(word));
+  return words.length > 0 && !/\d{3,}/.test(name) ? words.join(" ").toLowerCase() : "";
+}
+
+function imageAltSuggestions(input: SuggestionInput): ContentSuggestion[] {
+  const suggestions: ContentSuggestion[] = [];
+  const seen = new Set<number>();
+  for (const image of input.analysis.structure.imagesMissingAlt) {
+    const marker = `![](${image.url}`;
+    const at = input.content.indexOf(marker, image.offset);
+    if (at < 0 || seen.has(at)) continue;
+    seen.add(at);
+    // The nearest heading above describes the image better than nothing
+    const heading = [...input.analysis.structure.outline].reverse().find((h) => h.offset <= at);
+    const alt = altFromUrl(image.url) || heading?.text || input.title.trim();
+    if (!alt) continue;
+    suggestions.push({
+      id: `image-alt-${at}`,
+      type: "structure",
+      title: `Add alt text: "${alt}"`,
+      description: "Screen readers and image search read the alt text. Adjust it if it doesn't match the picture.",
+      impact: "medium",
+      effort: "easy",
+      section: "structure",
+      rule: "image-alt",
+      suggestedChange: `![${alt}](${image.url})`,
+      patch: {
+        field: "content",
+        selection: { start: at, end: at + marker.length },
+        original: marker,
+        replacement: `![${alt}](${image.url}`,
+      },
+    });
+  }
+  return suggestions;
+}
+
+function normalizeQuestion(question: string) {
+  return question.toLowerCase().replace(SEPARATORS, " ").trim();
+}
+
+function faqSuggestions(input: SuggestionInput): ContentSuggestion[] {
+  const content = input.content.trimEnd();
+  if (!content || !input.questions?.length) return [];
+
+  const asked = new Set(extractFaq(content).map((faq) => normalizeQuestion(faq.question)));
+  const open = input.questions
+    .filter((paa) => paa.question.trim() && paa.suggestedAnswer.trim())
+    .filter((paa) => !asked.has(normalizeQuestion(paa.question)))
+    .slice(0, MAX_FAQ_ENTRIES);
+  if (open.length === 0) return [];
+
+  // Entries go after the last line of the FAQ section, or into a new FAQ section at the end
+  const range = faqSectionRange(content);
+  const sectionEnd = range ? content.slice(0, range.end).trimEnd().length : content.length;
+  const lineStart = content.lastIndexOf("\n", sectionEnd - 1) + 1;
+  const anchor = content.slice(lineStart, sectionEnd);
+  const faqHeading = range ? "" : `## ${getLocale(input.locale).headings.faq}\n\n`;
+
+  return open.map((paa) => {
+    const entry = `### ${paa.question.trim()}\n\n${paa.suggestedAnswer.trim()}`;
+    return {
+      id: `faq-${normalizeQuestion(paa.question).replace(/ /g, "-")}`,
+      type: "content",
+      title: "Answer a People Also Ask question",
+      description: paa.question.trim(),
+      impact: "medium",
+      effort: "easy",
+      section: "content",
+      suggestedChange: entry,
+      patch: {
+        field: "content",
+        selection: { start: lineStart, end: sectionEnd },
+        original: anchor,
+        replacement: `${anchor}\n\n${faqHeading}${entry}`,
+      },
+    };
+  });
+}
+
+// Analyzer issues without a concrete edit, kept as advice
+function issueSuggestions(input: SuggestionInput): ContentSuggestion[] {
+  return input.analysis.issues
+    .filter((issue) => !issue.rule || !EDITED_RULES.includes(issue.rule as RuleId))
+    .map((issue, index) => ({
+      id: `issue-${issue.rule ?? "analysis"}-${index}`,
+      type: SECTION_TYPE[(issue.section as SEOSection) ?? "content"] ?? "content",
+      title: issue.message,
+      description: "",
+      impact: issue.type === "error" ? "high" : issue.type === "warning" ? "medium" : "low",
+      effort: RULE_EFFORT[issue.rule as RuleId] ?? "medium",
+      section: issue.section,
+      rule: issue.rule,
+    }));
+}
+
+/**
+ * Suggestions for a post from its analysis: edits that can be made without a
+ * model (alt text, FAQ entries from research) come with patches, passages
+ * that need rewriting are returned as targets for the model, and remaining
+ * analyzer issues become plain advice.
+ */
+export function planSuggestions(input: SuggestionInput): { suggestions: ContentSuggestion[]; targets: EditTarget[] } {
+  const targets = editTargets(input);
+  // Sentence rules stay as advice since only a few sentences get edits
+  const covered = new Set(targets.map((target) => target.suggestion.rule));
+  const advice = issueSuggestions(input).filter(
+    (s) => !covered.has(s.rule) || s.rule === "sentence-length" || s.rule === "passive-voice",
+  );
+  return { suggestions: [...imageAltSuggestions(input), ...faqSuggestions(input), ...advice], targets };
+}
+
+/** The suggestion for a target once the model has rewritten its passage. */
+export function suggestionForTarget(target: EditTarget, replacement: string): ContentSuggestion {
+  const { field, selection, original } = target;
+  return { ...target.suggestion, suggestedChange: replacement, patch: { field, selection, original, replacement } };
+}
+
+// Where `original` is now: at its recorded place, else the occurrence nearest to it
+function locate(text: string, original: string, start: number) {
+  if (text.slice(start, start + original.length) === original) return start;
+  let nearest = -1;
+  for (let at = text.indexOf(original); at >= 0; at = text.indexOf(original, at + 1)) {
+    if (nearest < 0 || Math.abs(at - start) < Math.abs(nearest - start)) nearest = at;
+  }
+  return nearest;
+}
+
+/**
+ * Apply a patch to a draft, returning the patched draft and the patch that
+ * undoes it, or null when the passage it replaces is gone. A patch with no
+ * original text only fills an empty field.
+ */
+export function applyPatch(
+  draft: DraftFields,
+  patch: ContentPatch,
+): { draft: DraftFields; inverse: ContentPatch } | null {
+  const text = draft[patch.field];
+  let at: number;
+  if (!patch.original) {
+    if (text.trim()) return null;
+    at = 0;
+  } else {
+    at = locate(text, patch.original, patch.selection.start);
+    if (at < 0) return null;
+  }
+  const end = patch.original ? at + patch.original.length : text.length;
+  return {
+    draft: { ...draft, [patch.field]: text.slice(0, at) + patch.replacement + text.slice(end) },
+    inverse: {
+      field: patch.field,
+      selection: { start: at, end: at + patch.replacement.length },
+      original: patch.replacement,
+      replacement: patch.original,
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { escapeHtml } from "../utils/markdown-html";
+import { SiteContext } from "./types";
+
+export const RSS_PATH = "feed.xml";
+export const ATOM_PATH = "atom.xml";
+
+// Feeds list the newest posts only, as readers expect
+const FEED_SIZE = 20;
+
+export function siteBase(site: SiteContext) {
+  return site.options.siteUrl.trim().replace(/\/+$/, "");
+}
+
+// "]]>" would end the section early, so it is split across two
+function cdata(text: string) {
+  return `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+/**
+ * Sitemap of the index page and every post indexed at its own URL; posts whose
+ * canonical URL is elsewhere are left out. Translations list their alternates.
+ */
+export function sitemapXml(site: SiteContext, indexPath: string): string {
+  const base = siteBase(site);
+  const lastmod = site.pages.reduce((latest, page) => Math.max(latest, page.updated.getTime()), 0);
+  const urls = [
+    `  <url>\n    <loc>${escapeHtml(`${base}/${indexPath}`)}</loc>\n` +
+      (lastmod ? `    <lastmod>${new Date(lastmod).toISOString()}</lastmod>\n` : "") +
+      "  </url>",
+    ...site.pages
+      .filter((page) => page.canonical === page.url)
+      .map((page) => {
+        const links = page.alternates.map(
+          ({ hreflang, url }) => `    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${escapeHtml(url)}" />\n`,
+        );
+        return (
+          `  <url>\n    <loc>${escapeHtml(page.url)}</loc>\n` +
+          `    <lastmod>${page.updated.toISOString()}</lastmod>\n${links.join("")}  </url>`
+        );
+      }),
+  ];
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
+
+/** RSS 2.0 feed with each post's full HTML in content:encoded. */
+export function rssFeed(site: SiteContext): string {
+  const base = siteBase(site);
+  const { title, description } = site.options;
+  const items = site.pages.slice(0, FEED_SIZE).map((page) =>
+    [
+      "    <item>",
+      `      <title>${escapeHtml(page.post.title)}</title>`,
+      `      <link>${escapeHtml(page.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeHtml(page.url)}</guid>`,
+      `      <pubDate>${page.published.toUTCString()}</pubDate>`,
+      `      <description>${escapeHtml(page.description)}</description>`,
+      ...page.post.tags.map((tag) => `      <category>${escapeHtml(tag)}</category>`),
+      `      <content:encoded>${cdata(page.html)}</content:encoded>`,
+      "    </item>",
+    ].join("\n"),
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" ' +
+      'xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    "  <channel>",
+    `    <title>${escapeHtml(title)}</title>`,
+    `    <link>${escapeHtml(`${base}/`)}</link>`,
+    `    <description>${escapeHtml(description || title)}</description>`,
+    `    <lastBuildDate>${site.generated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeHtml(`${base}/${RSS_PATH}`)}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+}
+
+/** Atom 1.0 feed; the site title stands in as author when no author name is set. */
+export function atomFeed(site: SiteContext): string {
+  const base = siteBase(site);
+  const { title, description, authorName } = site.options;
+  const updated = site.pages.reduce((latest, page) => Math.max(latest, page.updated.getTime()), 0);
+  const entries = site.pages.slice(0, FEED_SIZE).map((page) =>
+    [
+      "  <entry>",
+      `    <title>${escapeHtml(page.post.title)}</title>`,
+      `    <id>${escapeHtml(page.url)}</id>`,
+      `    <link href="${escapeHtml(page.url)}" />`,
+      `    <published>${page.published.toISOString()}</published>`,
+      `    <updated>${page.updated.toISOString()}</updated>`,
+      `    <summary>${escapeHtml(page.description)}</summary>`,
+      ...page.post.tags.map((tag) => `    <category term="${escapeHtml(tag)}" />`),
+      `    <content type="html">${escapeHtml(page.html)}</content>`,
+      "  </entry>",
+    ].join("\n"),
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeHtml(title)}</title>`,
+    ...(description ? [`  <subtitle>${escapeHtml(description)}</subtitle>`] : []),
+    `  <id>${escapeHtml(`${base}/`)}</id>`,
+    `  <link href="${escapeHtml(`${base}/`)}" />`,
+    `  <link rel="self" href="${escapeHtml(`${base}/${ATOM_PATH}`)}" />`,
+    `  <updated>${new Date(updated || site.generated.getTime()).toISOString()}</updated>`,
+    `  <author><name>${escapeHtml(authorName.trim() || title)}</name></author>`,
+    ...entries,
+    "</feed>",
+    "",
+  ].join("\n");
+}
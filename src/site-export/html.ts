@@ -0,0 +1,107 @@
+import { getLocale } from "../utils/locale";
+import { hreflangLinkTags } from "../utils/hreflang";
+import { escapeHtml } from "../utils/markdown-html";
+import { ATOM_PATH, RSS_PATH, siteBase } from "./feeds";
+import { SiteContext, SitePage } from "./types";
+
+const STYLES = `body{max-width:42rem;margin:0 auto;padding:2rem 1rem;color:#1f2937}
+body{font:1.05rem/1.65 system-ui,sans-serif}
+a{color:#2563eb}img{max-width:100%;height:auto}pre{overflow-x:auto;background:#f3f4f6;padding:1rem}
+table{border-collapse:collapse}th,td{border:1px solid #d1d5db;padding:.4rem .6rem}
+.heading-anchor{opacity:.3;text-decoration:none}.meta{color:#6b7280;font-size:.9rem}`;
+
+function formatDate(date: Date, locale: string) {
+  return date.toLocaleDateString(locale, { year: "numeric", month: "long", day: "numeric" });
+}
+
+/** Date line shown under a post's title. */
+export function dateLine(page: SitePage) {
+  const locale = getLocale(page.post.locale).code;
+  return `<time datetime="${page.published.toISOString()}">${formatDate(page.published, locale)}</time>`;
+}
+
+/** Linked list of every post, newest first. `href` gives the link to a post from wherever the list is placed. */
+export function postList(site: SiteContext, href: (page: SitePage) => string) {
+  const items = site.pages.map(
+    (page) =>
+      `<li lang="${getLocale(page.post.locale).code}">\n` +
+      `<h2><a href="${escapeHtml(href(page))}">${escapeHtml(page.post.title)}</a></h2>\n` +
+      `<p class="meta">${dateLine(page)}</p>\n` +
+      `<p>${escapeHtml(page.description)}</p>\n</li>`,
+  );
+  return `<ul class="posts">\n${items.join("\n")}\n</ul>`;
+}
+
+function feedLinks(site: SiteContext) {
+  const base = siteBase(site);
+  const title = escapeHtml(site.options.title);
+  return [
+    `<link rel="alternate" type="application/rss+xml" title="${title}" href="${escapeHtml(`${base}/${RSS_PATH}`)}" />`,
+    `<link rel="alternate" type="application/atom+xml" title="${title}" href="${escapeHtml(`${base}/${ATOM_PATH}`)}" />`,
+  ];
+}
+
+function document(lang: string, head: string[], body: string) {
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="${lang}">`,
+    "<head>",
+    '<meta charset="utf-8" />',
+    '<meta name="viewport" content="width=device-width, initial-scale=1" />',
+    ...head,
+    `<style>${STYLES}</style>`,
+    "</head>",
+    "<body>",
+    body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+/** A post as a complete page: canonical and hreflang links, feeds and JSON-LD in the head. */
+export function postDocument(page: SitePage, site: SiteContext): string {
+  const { post } = page;
+  const head = [
+    `<title>${escapeHtml(post.title)}</title>`,
+    `<meta name="description" content="${escapeHtml(page.description)}" />`,
+    ...(post.keywords.length > 0 ? [`<meta name="keywords" content="${escapeHtml(post.keywords.join(", "))}" />`] : []),
+    `<link rel="canonical" href="${escapeHtml(page.canonical)}" />`,
+    ...(page.alternates.length > 0 ? [hreflangLinkTags(page.alternates)] : []),
+    ...feedLinks(site),
+    `<meta property="og:type" content="article" />`,
+    `<meta property="og:title" content="${escapeHtml(post.title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(page.description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(page.canonical)}" />`,
+    ...(post.featuredImage ? [`<meta property="og:image" content="${escapeHtml(post.featuredImage)}" />`] : []),
+    `<script type="application/ld+json">${page.jsonLd}</script>`,
+  ];
+  const meta = `<p class="meta">${dateLine(page)}</p>`;
+  // The date goes under the title, whether the post brings its own H1 or not
+  const article = page.hasTitle
+    ? page.html.replace("</h1>", `</h1>\n${meta}`)
+    : `<h1>${escapeHtml(post.title)}</h1>\n${meta}\n${page.html}`;
+  const body = [
+    `<nav><a href="${escapeHtml(`${siteBase(site)}/`)}">${escapeHtml(site.options.title)}</a></nav>`,
+    "<main>",
+    "<article>",
+    article,
+    "</article>",
+    "</main>",
+  ].join("\n");
+  return document(getLocale(post.locale).code, head, body);
+}
+
+/** Page listing every post, served at `path` on the site. */
+export function indexDocument(site: SiteContext, path: string, href: (page: SitePage) => string): string {
+  const { title, description } = site.options;
+  const head = [
+    `<title>${escapeHtml(title)}</title>`,
+    ...(description ? [`<meta name="description" content="${escapeHtml(description)}" />`] : []),
+    `<link rel="canonical" href="${escapeHtml(`${siteBase(site)}/${path}`)}" />`,
+    ...feedLinks(site),
+  ];
+  const intro = description ? `\n<p>${escapeHtml(description)}</p>` : "";
+  const lang = getLocale(site.pages[0]?.post.locale).code;
+  return document(lang, head, `<main>\n<h1>${escapeHtml(title)}</h1>${intro}\n${postList(site, href)}\n</main>`);
+}
@@ -0,0 +1,119 @@
+import { BlogPost } from "../types/blog";
+import { buildJsonLd } from "../utils/json-ld";
+import { canonicalUrl, hreflangAlternates, postUrl } from "../utils/hreflang";
+import { getLocale } from "../utils/locale";
+import { stripMarkdown } from "../utils/markdown";
+import { renderMarkdown } from "../utils/markdown-html";
+import { slugify, uniqueSlug } from "../utils/slug";
+import { ZipEntry } from "../utils/zip";
+import { SITE_EXPORTERS } from "./targets";
+import { SiteContext, SiteExporter, SiteOptions, SitePage } from "./types";
+
+export * from "./types";
+export { atomFeed, rssFeed, sitemapXml } from "./feeds";
+export { indexDocument, postDocument, postList } from "./html";
+
+// Length of the description taken from the post when it has no meta description
+const DESCRIPTION_LENGTH = 160;
+
+export class SiteExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SiteExportError";
+  }
+}
+
+/** Targets in the order they're offered. */
+export function getSiteExporters(): SiteExporter[] {
+  return [...SITE_EXPORTERS];
+}
+
+/** Add a target, or replace the one with the same id. */
+export function registerSiteExporter(exporter: SiteExporter) {
+  const index = SITE_EXPORTERS.findIndex((existing) => existing.id === exporter.id);
+  if (index === -1) SITE_EXPORTERS.push(exporter);
+  else SITE_EXPORTERS[index] = exporter;
+}
+
+function excerpt(content: string) {
+  const paragraph = content
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .find((block) => block && !/^(#|```|~~~|\||!\[)/.test(block));
+  const text = stripMarkdown(paragraph ?? "");
+  if (text.length <= DESCRIPTION_LENGTH) return text;
+  const cut = text.lastIndexOf(" ", DESCRIPTION_LENGTH - 1);
+  return `${text.slice(0, cut > 0 ? cut : DESCRIPTION_LENGTH - 1)}…`;
+}
+
+function preparePage(post: BlogPost, options: SiteOptions): SitePage {
+  const rendered = renderMarkdown(post.content);
+  return {
+    post,
+    path: `${getLocale(post.locale).code.toLowerCase()}/${post.slug}`,
+    url: postUrl(options.siteUrl, post),
+    canonical: canonicalUrl(options.siteUrl, post),
+    description: post.metaDescription.trim() || excerpt(post.content),
+    published: new Date(post.scheduledAt ?? post.createdAt),
+    updated: new Date(post.updatedAt),
+    html: rendered.html,
+    headings: rendered.headings,
+    hasTitle: rendered.html.startsWith("<h1"),
+    // "<" is escaped so text in the schema can't close the <script> tag around it
+    jsonLd: JSON.stringify(buildJsonLd(post, options)).replace(/</g, "\\u003c"),
+    alternates: [],
+  };
+}
+
+/**
+ * Prepare the published posts among `posts` for export: rendered bodies,
+ * JSON-LD and hreflang links between translations exported together.
+ */
+export function buildSite(posts: BlogPost[], options: SiteOptions, generated = new Date()): SiteContext {
+  const siteUrl = options.siteUrl.trim().replace(/\/+$/, "");
+  if (!/^https?:\/\/[^\s/]+(?:\/\S*)?$/i.test(siteUrl)) {
+    throw new SiteExportError("Set your site URL first; sitemaps and feeds need absolute links.");
+  }
+  const published = posts.filter((post) => post.status === "published");
+  if (published.length === 0) {
+    throw new SiteExportError("Select at least one published post to export.");
+  }
+
+  // Posts without a slug, or sharing one, still need a folder of their own
+  const taken = new Map<string, Set<string>>();
+  const addressed = published.map((post) => {
+    const locale = getLocale(post.locale).code;
+    const used = taken.get(locale) ?? new Set<string>();
+    taken.set(locale, used);
+    const slug = uniqueSlug(post.slug || slugify(post.title) || post.id, used);
+    used.add(slug);
+    return slug === post.slug ? post : { ...post, slug };
+  });
+
+  const host = siteUrl.replace(/^https?:\/\//i, "");
+  const resolved: Required<SiteOptions> = {
+    siteUrl,
+    authorName: options.authorName,
+    title: options.title?.trim() || host,
+    description: options.description?.trim() ?? "",
+  };
+  const pages = addressed
+    .map((post) => preparePage(post, resolved))
+    .sort((a, b) => b.published.getTime() - a.published.getTime());
+
+  for (const page of pages) {
+    const groupId = page.post.translationGroupId;
+    if (!groupId) continue;
+    const group = addressed.filter((post) => post.translationGroupId === groupId);
+    if (group.length > 1) page.alternates = hreflangAlternates(group, siteUrl);
+  }
+
+  return { options: resolved, pages, generated };
+}
+
+/** Every file of a bundle for the target `exporterId`. */
+export function exportSite(posts: BlogPost[], exporterId: string, options: SiteOptions): ZipEntry[] {
+  const exporter = SITE_EXPORTERS.find((candidate) => candidate.id === exporterId);
+  if (!exporter) throw new SiteExportError(`There is no "${exporterId}" export.`);
+  return exporter.files(buildSite(posts, options));
+}
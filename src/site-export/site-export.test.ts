@@ -0,0 +1,115 @@
+import { describe, expect, test } from "vitest";
+import { BlogPost } from "../types/blog";
+import { buildSite, exportSite, getSiteExporters, registerSiteExporter, SiteExportError } from "./index";
+
+function post(id: string, overrides: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id,
+    title: "Cold Brew at Home",
+    content: "## Steps\n\nSteep the grounds </script> overnight.\n",
+    topic: "cold brew",
+    metaDescription: "",
+    keywords: ["cold brew"],
+    createdAt: new Date("2026-01-02T08:00:00Z"),
+    updatedAt: new Date("2026-01-03T09:30:00Z"),
+    status: "published",
+    seoScore: 80,
+    wordCount: 5,
+    readingTime: 1,
+    tags: ["drinks"],
+    isFavorite: false,
+    version: 1,
+    slug: "cold-brew",
+    headings: [],
+    faqSection: [],
+    ...overrides,
+  };
+}
+
+const options = { siteUrl: "https://brew.dev/", authorName: "Sam" };
+
+const posts = [
+  post("en", { translationGroupId: "g" }),
+  post("de", {
+    title: "Kaltbrühkaffee",
+    slug: "kaltbruehkaffee",
+    locale: "de-DE",
+    translationGroupId: "g",
+    createdAt: new Date("2026-02-01T00:00:00Z"),
+  }),
+  post("elsewhere", { slug: "syndicated", canonicalUrl: "https://medium.com/@sam/cold-brew" }),
+  post("draft", { status: "draft" }),
+];
+
+describe("site export", () => {
+  test("prepares published posts only, newest first, with translations linked", () => {
+    const site = buildSite(posts, options);
+
+    expect(site.options.title).toBe("brew.dev");
+    expect(site.pages.map((page) => page.path)).toEqual([
+      "de-de/kaltbruehkaffee",
+      "en-us/cold-brew",
+      "en-us/syndicated",
+    ]);
+    expect(site.pages[1].description).toBe("Steep the grounds </script> overnight.");
+    expect(site.pages[1].alternates.map((a) => a.hreflang)).toEqual(["de-DE", "en-US", "x-default"]);
+    expect(site.pages[1].jsonLd).not.toContain("</script>");
+    expect(JSON.parse(site.pages[1].jsonLd)["@graph"][0].url).toBe("https://brew.dev/en-us/cold-brew");
+
+    expect(() => buildSite(posts, { ...options, siteUrl: "" })).toThrow(SiteExportError);
+    expect(() => buildSite([posts[3]], options)).toThrow("at least one published post");
+  });
+
+  test("writes complete pages, a sitemap of indexable URLs and feeds for plain HTML", () => {
+    const files = new Map(exportSite(posts, "html", options).map((file) => [file.name, file.content as string]));
+
+    expect([...files.keys()]).toEqual([
+      "de-de/kaltbruehkaffee/index.html",
+      "en-us/cold-brew/index.html",
+      "en-us/syndicated/index.html",
+      "index.html",
+      "sitemap.xml",
+      "feed.xml",
+      "atom.xml",
+    ]);
+    const page = files.get("en-us/cold-brew/index.html")!;
+    expect(page).toContain('<html lang="en-US">');
+    expect(page).toContain('<link rel="canonical" href="https://brew.dev/en-us/cold-brew" />');
+    expect(page).toContain('<link rel="alternate" hreflang="de-DE" href="https://brew.dev/de-de/kaltbruehkaffee" />');
+    expect(page).toMatch(/<script type="application\/ld\+json">\{"@context":"https:\/\/schema.org"/);
+    expect(page).toContain("<h1>Cold Brew at Home</h1>");
+    expect(page).toContain('<h2 id="steps">');
+    expect(files.get("index.html")).toContain('<a href="de-de/kaltbruehkaffee/">Kaltbrühkaffee</a>');
+
+    const sitemap = files.get("sitemap.xml")!;
+    expect(sitemap.match(/<loc>[^<]+<\/loc>/g)).toEqual([
+      "<loc>https://brew.dev/</loc>",
+      "<loc>https://brew.dev/de-de/kaltbruehkaffee</loc>",
+      "<loc>https://brew.dev/en-us/cold-brew</loc>",
+    ]);
+    expect(files.get("feed.xml")).toContain("<pubDate>Sun, 01 Feb 2026 00:00:00 GMT</pubDate>");
+    expect(files.get("atom.xml")).toContain("<author><name>Sam</name></author>");
+  });
+
+  test("framework targets write front matter with the JSON-LD, and new targets can be registered", () => {
+    const hugo = exportSite(posts, "hugo", options).find((file) => file.name === "content/posts/en-us/cold-brew.html");
+    expect(hugo?.content).toMatch(/^---\ntitle: "Cold Brew at Home"\n/);
+    expect(hugo?.content).toContain('url: "/en-us/cold-brew/"');
+    expect(hugo?.content).toContain('jsonld: "{\\"@context\\":');
+
+    const jekyll = exportSite(posts, "jekyll", options).map((file) => file.name);
+    expect(jekyll).toContain("_posts/de-de/2026-02-01-kaltbruehkaffee.html");
+
+    registerSiteExporter({
+      id: "titles",
+      name: "Titles",
+      description: "A list of titles",
+      files: (site) => [{ name: "titles.txt", content: site.pages.map((page) => page.post.title).join("\n") }],
+    });
+    expect(getSiteExporters().map((exporter) => exporter.id)).toEqual(["hugo", "jekyll", "astro", "html", "titles"]);
+    expect(exportSite(posts, "titles", options)[0].content).toBe(
+      "Kaltbrühkaffee\nCold Brew at Home\nCold Brew at Home",
+    );
+    expect(() => exportSite(posts, "gatsby", options)).toThrow('There is no "gatsby" export.');
+  });
+});
@@ -0,0 +1,167 @@
+import { frontMatter, FrontMatterValue } from "../utils/blog-export";
+import { ZipEntry } from "../utils/zip";
+import { atomFeed, ATOM_PATH, rssFeed, RSS_PATH, sitemapXml } from "./feeds";
+import { indexDocument, postDocument, postList } from "./html";
+import { SiteContext, SiteExporter, SitePage } from "./types";
+
+// Where frameworks publish a post, as written in front matter; each post becomes a folder
+const permalink = (page: SitePage) => `/${page.path}/`;
+// The same address as a link
+const sitePath = (page: SitePage) => encodeURI(permalink(page));
+
+// Sitemap and feeds, placed in the folder the framework copies to the site root as-is
+function feedFiles(site: SiteContext, folder: string, indexPath: string): ZipEntry[] {
+  return [
+    { name: `${folder}sitemap.xml`, content: sitemapXml(site, indexPath) },
+    { name: `${folder}${RSS_PATH}`, content: rssFeed(site) },
+    { name: `${folder}${ATOM_PATH}`, content: atomFeed(site) },
+  ];
+}
+
+function readme(title: string, steps: string[]) {
+  return { name: "README.md", content: `# ${title}\n\n${steps.map((step) => `- ${step}`).join("\n")}\n` };
+}
+
+// Front matter fields every framework target writes; each adds its own names for the rest
+function commonFields(page: SitePage) {
+  return {
+    title: page.post.title,
+    description: page.description,
+    keywords: page.post.keywords,
+    tags: page.post.tags,
+  };
+}
+
+function indexFrontMatter(site: SiteContext, fields: Record<string, FrontMatterValue> = {}) {
+  return frontMatter({ ...fields, title: site.options.title, description: site.options.description || undefined });
+}
+
+function isoDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export const hugo: SiteExporter = {
+  id: "hugo",
+  name: "Hugo",
+  description: "HTML content files with front matter, a JSON-LD partial, sitemap and feeds in static/",
+  files: (site) => [
+    ...site.pages.map((page) => ({
+      name: `content/posts/${page.path}.html`,
+      content: `${frontMatter({
+        ...commonFields(page),
+        date: page.published,
+        lastmod: page.updated,
+        url: permalink(page),
+        draft: false,
+        images: page.post.featuredImage ? [page.post.featuredImage] : undefined,
+        canonicalURL: page.canonical === page.url ? undefined : page.canonical,
+        jsonld: page.jsonLd,
+      })}\n\n${page.html}\n`,
+    })),
+    {
+      name: "content/posts/_index.html",
+      content: `${indexFrontMatter(site)}\n\n${postList(site, sitePath)}\n`,
+    },
+    {
+      name: "layouts/partials/jsonld.html",
+      content: '{{- with .Params.jsonld }}\n<script type="application/ld+json">{{ . | safeJS }}</script>\n{{- end }}\n',
+    },
+    ...feedFiles(site, "static/", "posts/"),
+    readme("Hugo export", [
+      "Copy `content`, `layouts` and `static` into your Hugo site.",
+      'Add `{{ partial "jsonld.html" . }}` to the `<head>` of your single-page layout.',
+      'Set `disableKinds = ["sitemap"]` in your config so Hugo keeps this sitemap instead of writing its own.',
+    ]),
+  ],
+};
+
+export const jekyll: SiteExporter = {
+  id: "jekyll",
+  name: "Jekyll",
+  description: "Dated posts in _posts with permalinks, a JSON-LD include, sitemap and feeds",
+  files: (site) => [
+    ...site.pages.map((page) => {
+      const folder = page.path.slice(0, page.path.lastIndexOf("/") + 1);
+      const slug = page.path.slice(folder.length);
+      return {
+        name: `_posts/${folder}${isoDay(page.published)}-${slug}.html`,
+        content: `${frontMatter({
+          layout: "post",
+          ...commonFields(page),
+          date: page.published,
+          last_modified_at: page.updated,
+          lang: page.post.locale,
+          permalink: permalink(page),
+          image: page.post.featuredImage,
+          canonical_url: page.canonical === page.url ? undefined : page.canonical,
+          jsonld: page.jsonLd,
+        })}\n\n${page.html}\n`,
+      };
+    }),
+    {
+      name: "blog/index.html",
+      content: `${indexFrontMatter(site, { layout: "default" })}\n\n${postList(site, sitePath)}\n`,
+    },
+    {
+      name: "_includes/jsonld.html",
+      content: '{%- if page.jsonld %}\n<script type="application/ld+json">{{ page.jsonld }}</script>\n{%- endif %}\n',
+    },
+    ...feedFiles(site, "", "blog/"),
+    readme("Jekyll export", [
+      "Copy everything into the root of your Jekyll site.",
+      "Add `{% include jsonld.html %}` to the `<head>` of your post layout.",
+      "Remove jekyll-sitemap and jekyll-feed from your plugins so they don't overwrite these files.",
+    ]),
+  ],
+};
+
+// Astro reads the body as markdown; a blank line would end the HTML block, so blank lines in code become entities
+function astroBody(html: string) {
+  return html.replace(/\n(?=\n)/g, "&#10;");
+}
+
+export const astro: SiteExporter = {
+  id: "astro",
+  name: "Astro",
+  description: "A blog content collection, a JSON-LD component, an index page and feeds in public/",
+  files: (site) => [
+    ...site.pages.map((page) => ({
+      name: `src/content/blog/${page.path}.md`,
+      content: `${frontMatter({
+        ...commonFields(page),
+        pubDate: page.published,
+        updatedDate: page.updated,
+        lang: page.post.locale,
+        heroImage: page.post.featuredImage,
+        canonical: page.canonical === page.url ? undefined : page.canonical,
+        jsonld: page.jsonLd,
+      })}\n\n${astroBody(page.html)}\n`,
+    })),
+    { name: "src/pages/blog/index.html", content: indexDocument(site, "blog/", sitePath) },
+    {
+      name: "src/components/JsonLd.astro",
+      content:
+        "---\nconst { jsonld } = Astro.props;\n---\n" +
+        '{jsonld && <script type="application/ld+json" set:html={jsonld} />}\n',
+    },
+    ...feedFiles(site, "public/", "blog/"),
+    readme("Astro export", [
+      "Copy `src` and `public` into your Astro project.",
+      "Posts are in the `blog` collection; their ids are the post paths, e.g. `en-us/my-post`.",
+      "Render `<JsonLd jsonld={post.data.jsonld} />` in the `<head>` of your post layout.",
+    ]),
+  ],
+};
+
+export const html: SiteExporter = {
+  id: "html",
+  name: "Plain HTML",
+  description: "Finished pages ready to upload to any web host",
+  files: (site) => [
+    ...site.pages.map((page) => ({ name: `${page.path}/index.html`, content: postDocument(page, site) })),
+    { name: "index.html", content: indexDocument(site, "", (page) => `${encodeURI(page.path)}/`) },
+    ...feedFiles(site, "", ""),
+  ],
+};
+
+export const SITE_EXPORTERS: SiteExporter[] = [hugo, jekyll, astro, html];
@@ -0,0 +1,53 @@
+import { BlogHeading, BlogPost } from "../types/blog";
+import { HreflangAlternate } from "../utils/hreflang";
+import { ZipEntry } from "../utils/zip";
+
+export interface SiteOptions {
+  // Public address of the blog; sitemaps and feeds need absolute URLs
+  siteUrl: string;
+  authorName: string;
+  // Heading of the index page and name of the feeds; the site's host name when empty
+  title?: string;
+  description?: string;
+}
+
+// A post prepared once and written out by every target
+export interface SitePage {
+  post: BlogPost;
+  // Where the page lives on the site, without slashes around it, e.g. "de-de/kaltgetraenke"
+  path: string;
+  url: string;
+  // Differs from `url` when the post was first published elsewhere
+  canonical: string;
+  // Meta description, or the opening of the post when it has none
+  description: string;
+  published: Date;
+  updated: Date;
+  // Rendered body with heading anchors
+  html: string;
+  headings: BlogHeading[];
+  // Whether the body starts with its own H1, so templates don't add the title again
+  hasTitle: boolean;
+  // Compact JSON-LD document, safe to embed in a <script> tag
+  jsonLd: string;
+  // Translations of the post in the same bundle, empty when it has none
+  alternates: HreflangAlternate[];
+}
+
+export interface SiteContext {
+  options: Required<SiteOptions>;
+  // Newest first
+  pages: SitePage[];
+  generated: Date;
+}
+
+/**
+ * One bundle layout, e.g. Hugo. `files` returns every file of the bundle with
+ * paths relative to the folder it should be dropped into.
+ */
+export interface SiteExporter {
+  id: string;
+  name: string;
+  description: string;
+  files: (site: SiteContext) => ZipEntry[];
+}
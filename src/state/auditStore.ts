@@ -0,0 +1,31 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { StatusChange } from "../types/blog";
+
+// Audit trail of workflow moves. Append-only: entries outlive the posts they're about and are never edited
+interface AuditState {
+  // Oldest first
+  changes: StatusChange[];
+
+  recordChange: (change: Omit<StatusChange, "id" | "at">) => void;
+}
+
+const useAuditStore = create<AuditState>()(
+  persist(
+    (set) => ({
+      changes: [],
+
+      recordChange: (change) => {
+        const id = `change-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+        set((state) => ({ changes: [...state.changes, { ...change, id, at: new Date() }] }));
+      },
+    }),
+    {
+      name: "audit-store",
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useAuditStore;
@@ -2,12 +2,18 @@ import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { BlogDraft, SEOAnalysis, ContentSuggestion } from "../types/blog";
-import { SEOResearchData } from "../api/seo-research";
+import { ContentOutline, SEOResearchData } from "../api/seo-research";
+import { LongFormDraft } from "../api/blog-pipeline";
+import { countWords, DEFAULT_LOCALE, readingTimeMinutes } from "../utils/locale";
 
 interface BlogState {
   // Current blog generation state
   currentTopic: string;
   currentResearch: SEOResearchData | null;
+  // Outline approved on the Outline screen; long-form generation follows it exactly
+  currentOutline: ContentOutline | null;
+  // BCP 47 locale for the next research, outline and generation
+  currentLocale: string;
   currentDraft: BlogDraft | null;
   currentAnalysis: SEOAnalysis | null;
   currentSuggestions: ContentSuggestion[];
@@ -17,6 +23,12 @@ interface BlogState {
   isResearching: boolean;
   isAnalyzing: boolean;
   generationProgress: number;
+  streamingContent: string;
+  // Index into PIPELINE_STAGES while a section-by-section generation runs, otherwise null
+  generationStep: number | null;
+  generationDetail: string;
+  // Long-form draft kept around while failed sections can still be retried
+  longFormDraft: LongFormDraft | null;
   
   // UI state
   showResearchPanel: boolean;
@@ -26,6 +38,8 @@ interface BlogState {
   // Actions
   setCurrentTopic: (topic: string) => void;
   setCurrentResearch: (research: SEOResearchData | null) => void;
+  setCurrentOutline: (outline: ContentOutline | null) => void;
+  setCurrentLocale: (locale: string) => void;
   setCurrentDraft: (draft: BlogDraft | null) => void;
   setCurrentAnalysis: (analysis: SEOAnalysis | null) => void;
   setCurrentSuggestions: (suggestions: ContentSuggestion[]) => void;
@@ -34,6 +48,9 @@ interface BlogState {
   setIsResearching: (researching: boolean) => void;
   setIsAnalyzing: (analyzing: boolean) => void;
   setGenerationProgress: (progress: number) => void;
+  setStreamingContent: (content: string) => void;
+  setGenerationStep: (step: number | null, detail?: string) => void;
+  setLongFormDraft: (draft: LongFormDraft | null) => void;
   
   setShowResearchPanel: (show: boolean) => void;
   setShowSuggestions: (show: boolean) => void;
@@ -57,6 +74,8 @@ const useBlogStore = create<BlogState>()(
       // Initial state
       currentTopic: "",
       currentResearch: null,
+      currentOutline: null,
+      currentLocale: DEFAULT_LOCALE,
       currentDraft: null,
       currentAnalysis: null,
       currentSuggestions: [],
@@ -65,6 +84,10 @@ const useBlogStore = create<BlogState>()(
       isResearching: false,
       isAnalyzing: false,
       generationProgress: 0,
+      streamingContent: "",
+      generationStep: null,
+      generationDetail: "",
+      longFormDraft: null,
       
       showResearchPanel: false,
       showSuggestions: false,
@@ -73,6 +96,12 @@ const useBlogStore = create<BlogState>()(
       // Actions
       setCurrentTopic: (topic) => set({ currentTopic: topic }),
       setCurrentResearch: (research) => set({ currentResearch: research }),
+      setCurrentOutline: (outline) => set({ currentOutline: outline }),
+      // Research and outlines are written in one language, so switching drops them
+      setCurrentLocale: (locale) =>
+        set((state) =>
+          state.currentLocale === locale ? {} : { currentLocale: locale, currentResearch: null, currentOutline: null }
+        ),
       setCurrentDraft: (draft) => set({ currentDraft: draft }),
       setCurrentAnalysis: (analysis) => set({ currentAnalysis: analysis }),
       setCurrentSuggestions: (suggestions) => set({ currentSuggestions: suggestions }),
@@ -81,6 +110,9 @@ const useBlogStore = create<BlogState>()(
       setIsResearching: (researching) => set({ isResearching: researching }),
       setIsAnalyzing: (analyzing) => set({ isAnalyzing: analyzing }),
       setGenerationProgress: (progress) => set({ generationProgress: progress }),
+      setStreamingContent: (content) => set({ streamingContent: content }),
+      setGenerationStep: (step, detail = "") => set({ generationStep: step, generationDetail: detail }),
+      setLongFormDraft: (draft) => set({ longFormDraft: draft }),
       
       setShowResearchPanel: (show) => set({ showResearchPanel: show }),
       setShowSuggestions: (show) => set({ showSuggestions: show }),
@@ -95,8 +127,8 @@ const useBlogStore = create<BlogState>()(
               ...currentDraft,
               content,
               lastSaved: new Date(),
-              wordCount: content.split(/\s+/).filter(word => word.length > 0).length,
-              readingTime: Math.ceil(content.split(/\s+/).length / 200), // 200 words per minute
+              wordCount: countWords(content),
+              readingTime: readingTimeMinutes(content),
             },
           });
         }
@@ -158,6 +190,7 @@ const useBlogStore = create<BlogState>()(
       resetCurrentBlog: () => set({
         currentTopic: "",
         currentResearch: null,
+        currentOutline: null,
         currentDraft: null,
         currentAnalysis: null,
         currentSuggestions: [],
@@ -169,6 +202,10 @@ const useBlogStore = create<BlogState>()(
         isResearching: false,
         isAnalyzing: false,
         generationProgress: 0,
+        streamingContent: "",
+        generationStep: null,
+        generationDetail: "",
+        longFormDraft: null,
       }),
     }),
     {
@@ -178,6 +215,8 @@ const useBlogStore = create<BlogState>()(
       partialize: (state) => ({
         currentTopic: state.currentTopic,
         currentResearch: state.currentResearch,
+        currentOutline: state.currentOutline,
+        currentLocale: state.currentLocale,
         currentDraft: state.currentDraft,
         currentAnalysis: state.currentAnalysis,
         currentSuggestions: state.currentSuggestions,
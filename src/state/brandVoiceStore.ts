@@ -0,0 +1,65 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { BrandVoiceProfile } from "../types/blog";
+
+export type BrandVoiceInput = Omit<BrandVoiceProfile, "id" | "createdAt" | "updatedAt">;
+
+interface BrandVoiceState {
+  profiles: BrandVoiceProfile[];
+  // Profile preselected on the Home screen for the next generation
+  selectedProfileId: string | null;
+
+  getProfile: (id: string) => BrandVoiceProfile | undefined;
+  getSelectedProfile: () => BrandVoiceProfile | undefined;
+  addProfile: (profile: BrandVoiceInput) => string;
+  updateProfile: (id: string, updates: Partial<BrandVoiceInput>) => void;
+  deleteProfile: (id: string) => void;
+  selectProfile: (id: string | null) => void;
+}
+
+const useBrandVoiceStore = create<BrandVoiceState>()(
+  persist(
+    (set, get) => ({
+      profiles: [],
+      selectedProfileId: null,
+
+      getProfile: (id) => get().profiles.find((profile) => profile.id === id),
+
+      getSelectedProfile: () => {
+        const { selectedProfileId } = get();
+        return selectedProfileId ? get().getProfile(selectedProfileId) : undefined;
+      },
+
+      addProfile: (profile) => {
+        const id = `voice-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+        const now = new Date();
+        set((state) => ({ profiles: [...state.profiles, { ...profile, id, createdAt: now, updatedAt: now }] }));
+        return id;
+      },
+
+      updateProfile: (id, updates) => {
+        set((state) => ({
+          profiles: state.profiles.map((profile) =>
+            profile.id === id ? { ...profile, ...updates, updatedAt: new Date() } : profile
+          ),
+        }));
+      },
+
+      deleteProfile: (id) => {
+        set((state) => ({
+          profiles: state.profiles.filter((profile) => profile.id !== id),
+          selectedProfileId: state.selectedProfileId === id ? null : state.selectedProfileId,
+        }));
+      },
+
+      selectProfile: (id) => set({ selectedProfileId: id }),
+    }),
+    {
+      name: "brand-voice-store",
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useBrandVoiceStore;
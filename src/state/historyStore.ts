@@ -1,10 +1,31 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { BlogPost, BlogMetrics } from "../types/blog";
+import { BlogPost, BlogMetrics, PostStatus, RemotePublication } from "../types/blog";
 // Added imports for offline queue processing
 import { conductSEOResearch, SEOResearchData } from "../api/seo-research";
 import { generateEnhancedSEOBlog } from "../api/blog-generator";
+import { TranslatedPost } from "../api/translation";
+import { countWords, getLocale, readingTimeMinutes } from "../utils/locale";
+import { postSlug, uniqueSlug } from "../utils/slug";
+import {
+  backfillBlogPost,
+  blogPostFromGenerated,
+  extractFaq,
+  extractHeadings,
+  refreshSchemaMarkup,
+} from "../utils/blog-post";
+import useSettingsStore from "./settingsStore";
+import useRevisionStore from "./revisionStore";
+import usePublishingStore from "./publishingStore";
+import useAuditStore from "./auditStore";
+import { publishPost, ScheduleOutcome } from "../publishing";
+import { duePosts } from "../utils/schedule";
+import { checkTransition, TransitionContext, WorkflowConfig } from "../utils/workflow";
+import { hasTrackedChanges } from "../utils/revisions";
+import { stripMarkdown } from "../utils/markdown";
+import { blogsToCsv } from "../utils/blog-export";
+import { parseQuery, SearchIndex } from "../utils/search";
 import { networkService } from "../utils/network";
 import { logger } from "../utils/logger";
 
@@ -17,9 +38,10 @@ interface HistoryState {
   // Filters and search
   searchQuery: string;
   selectedTags: string[];
-  sortBy: "date" | "title" | "seoScore" | "wordCount";
+  // Relevance ranks search results; without a search it lists the newest first
+  sortBy: "relevance" | "date" | "title" | "seoScore" | "wordCount";
   sortOrder: "asc" | "desc";
-  statusFilter: "all" | "draft" | "published" | "archived";
+  statusFilter: "all" | BlogPost["status"];
   
   // Pagination
   currentPage: number;
@@ -36,9 +58,36 @@ interface HistoryState {
   
   // Actions
   addBlog: (blog: BlogPost) => void;
-  updateBlog: (id: string, updates: Partial<BlogPost>) => void;
+  // Changes to the title, content, meta description or keywords are saved as a new revision
+  updateBlog: (id: string, updates: Partial<BlogPost>, source?: "save" | "autosave") => void;
+  // Saves where a post was pushed and the status synced back; not an edit, so updatedAt stays
+  recordPublication: (id: string, publication: RemotePublication, status: BlogPost["status"]) => void;
+  // Moves the post along the workflow and logs who did it; returns why the move was refused, if it was
+  transitionStatus: (
+    id: string,
+    to: PostStatus,
+    context?: TransitionContext & { actor?: string }
+  ) => string | undefined;
+  // Sets when the post goes out; null takes it off the schedule. Returns why it was refused, if it was
+  schedulePost: (id: string, at: Date | null) => string | undefined;
+  // Picks the publishing sites a scheduled post is pushed to when it goes out
+  setPublishTargets: (id: string, siteIds: string[]) => void;
+  // Publishes scheduled posts that are due and pushes each to the sites picked for it; resolves with how many.
+  // Posts in `except` are left to the backend's publishing job
+  publishDuePosts: (now?: Date, except?: string[]) => Promise<number>;
+  // Marks a post the backend's job published as published and pushes it to the sites picked for it,
+  // unless it already went out from here
+  applyScheduleOutcome: (outcome: ScheduleOutcome) => Promise<void>;
+  // Brings back a revision's content as a new version; returns false if the revision is gone
+  restoreRevision: (blogId: string, revisionId: string) => boolean;
   deleteBlog: (id: string) => void;
   duplicateBlog: (id: string) => void;
+  // Saves a translation as a sibling draft in the source's translation group and returns its id
+  addTranslation: (sourceId: string, translation: TranslatedPost) => string | undefined;
+  // Every post in the blog's translation group, including the blog itself
+  getTranslations: (id: string) => BlogPost[];
+  // Slugs used by other posts in the same language; a post's slug must not be one of them
+  getTakenSlugs: (locale: string | undefined, exceptId?: string) => string[];
   
   toggleFavorite: (id: string) => void;
   addTag: (tag: string) => void;
@@ -46,9 +95,9 @@ interface HistoryState {
   
   setSearchQuery: (query: string) => void;
   setSelectedTags: (tags: string[]) => void;
-  setSortBy: (sortBy: "date" | "title" | "seoScore" | "wordCount") => void;
+  setSortBy: (sortBy: HistoryState["sortBy"]) => void;
   setSortOrder: (order: "asc" | "desc") => void;
-  setStatusFilter: (status: "all" | "draft" | "published" | "archived") => void;
+  setStatusFilter: (status: HistoryState["statusFilter"]) => void;
   
   setCurrentPage: (page: number) => void;
   setItemsPerPage: (items: number) => void;
@@ -62,7 +111,8 @@ interface HistoryState {
   
   // Bulk operations
   bulkDelete: (ids: string[]) => void;
-  bulkUpdateStatus: (ids: string[], status: BlogPost["status"]) => void;
+  // Moves every post the workflow allows; returns the ones refused and why
+  bulkUpdateStatus: (ids: string[], status: PostStatus) => Array<{ id: string; reason: string }>;
   bulkAddTag: (ids: string[], tag: string) => void;
   
   // Analytics
@@ -71,8 +121,10 @@ interface HistoryState {
   getTopTopics: (limit?: number) => Array<{ topic: string; count: number }>;
   
   // Export/Import
-  exportBlogs: (format: "json" | "csv" | "markdown") => string;
-  importBlogs: (data: string, format: "json") => void;
+  // Markdown exports are one file per post; see markdownFiles in utils/blog-export
+  exportBlogs: (format: "json" | "csv") => string;
+  // Swaps in posts restored from a backup; slugs are made unique and favorites follow the posts
+  restoreBlogs: (blogs: BlogPost[]) => void;
   
   // Reset
   clearHistory: () => void;
@@ -90,10 +142,94 @@ export type QueuedTask = {
     includeSchema?: boolean;
     tone?: string;
     contentType?: string;
+    locale?: string;
   };
   attempts: number;
 };
 
+function schemaOptions() {
+  const { siteUrl, authorName } = useSettingsStore.getState();
+  return { siteUrl, authorName };
+}
+
+// Post URLs include the language, so slugs only need to be unique within one
+function sameLocale(a: string | undefined, b: string | undefined) {
+  return getLocale(a).code === getLocale(b).code;
+}
+
+function slugsInLocale(blogs: BlogPost[], locale: string | undefined) {
+  return blogs.filter((b) => sameLocale(b.locale, locale)).map((b) => b.slug);
+}
+
+// Newest first, as the history stores them; on a clash the oldest post keeps the plain slug
+function withUniqueSlugs(blogs: BlogPost[]) {
+  const assigned: BlogPost[] = [];
+  for (const blog of [...blogs].reverse()) {
+    const slug = blog.slug || postSlug(blog.title ?? "", blog.locale) || blog.id;
+    const unique = uniqueSlug(slug, slugsInLocale(assigned, blog.locale));
+    assigned.push(unique === blog.slug ? blog : { ...blog, slug: unique });
+  }
+  return assigned.reverse();
+}
+
+// Full-text index of the history. It's filled on the first search, then the actions that add, edit or remove
+// posts update it as they go; restores and rehydration start it over.
+const blogSearch = new SearchIndex<BlogPost>([
+  { name: "title", boost: 3, value: (blog) => blog.title },
+  { name: "keywords", boost: 2, value: (blog) => blog.keywords.join("\n") },
+  { name: "tags", boost: 2, value: (blog) => blog.tags.join("\n") },
+  { name: "topic", boost: 1.5, value: (blog) => blog.topic },
+  { name: "content", boost: 1, value: (blog) => stripMarkdown(blog.content) },
+]);
+let blogSearchFilled = false;
+
+function indexBlogs(blogs: BlogPost[]) {
+  if (blogSearchFilled) blogs.forEach((blog) => blogSearch.add(blog));
+}
+
+function unindexBlogs(ids: string[]) {
+  if (blogSearchFilled) ids.forEach((id) => blogSearch.remove(id));
+}
+
+function resetBlogSearch() {
+  blogSearch.clear();
+  blogSearchFilled = false;
+}
+
+function workflowConfig(): WorkflowConfig {
+  const { requireReview, minApprovalScore } = useSettingsStore.getState();
+  return { requireReview, minApprovalScore };
+}
+
+// A post leaving "scheduled" drops its time, unless it went out at that time
+function withStatus(blog: BlogPost, status: PostStatus, scheduledAt?: Date): BlogPost {
+  const published = status === "published" && blog.status === "scheduled";
+  return {
+    ...blog,
+    status,
+    scheduledAt: status === "scheduled" ? scheduledAt : published ? blog.scheduledAt : undefined,
+    updatedAt: new Date(),
+  };
+}
+
+// Set while publishDuePosts runs, so overlapping runs don't push the same posts twice
+let publishingDuePosts = false;
+
+// A site that can't be reached leaves the post published here; it can be pushed again from the editor
+async function pushToSites(id: string, siteIds: string[]) {
+  const sites = usePublishingStore.getState().sites.filter((site) => siteIds.includes(site.id));
+  for (const site of sites) {
+    const post = useHistoryStore.getState().getBlogById(id);
+    if (!post) return;
+    try {
+      const { publication, status } = await publishPost(site, post);
+      useHistoryStore.getState().recordPublication(id, publication, status);
+    } catch (error) {
+      logger.error(`Publishing scheduled post ${id} to ${site.name} failed:`, error);
+    }
+  }
+}
+
 const useHistoryStore = create<HistoryState>()(
   persist(
     (set, get) => ({
@@ -104,7 +240,7 @@ const useHistoryStore = create<HistoryState>()(
       
       searchQuery: "",
       selectedTags: [],
-      sortBy: "date",
+      sortBy: "relevance",
       sortOrder: "desc",
       statusFilter: "all",
       
@@ -133,9 +269,10 @@ const useHistoryStore = create<HistoryState>()(
         while (networkService.isOnline() && get().queuedTasks.length > 0) {
           const task = get().queuedTasks[0];
           try {
+            const startedAt = Date.now();
             let researchData: SEOResearchData | undefined = undefined;
             if (task.withResearch) {
-              const research = await conductSEOResearch(task.topic);
+              const research = await conductSEOResearch(task.topic, { locale: task.options?.locale });
               researchData = research;
             }
             const blogData = await generateEnhancedSEOBlog({
@@ -146,25 +283,16 @@ const useHistoryStore = create<HistoryState>()(
               includeFAQ: task.options?.includeFAQ ?? true,
               includeSchema: task.options?.includeSchema ?? true,
               wordCount: task.options?.wordCount ?? 2500,
+              locale: task.options?.locale,
             });
 
-            const blogPost: BlogPost = {
-              id: `blog-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
-              title: blogData.title,
-              content: blogData.content,
+            const blogPost = blogPostFromGenerated(blogData, {
               topic: task.topic,
-              metaDescription: blogData.metaDescription,
-              keywords: blogData.keywords,
-              createdAt: new Date(),
-              updatedAt: new Date(),
-              status: "draft",
-              seoScore: blogData.seoScore,
-              wordCount: blogData.wordCount,
-              readingTime: blogData.readingTime,
-              tags: [],
-              isFavorite: false,
-              version: 1,
-            };
+              researchId: "",
+              generationTime: Date.now() - startedAt,
+              prompt: task.topic,
+              schema: task.options?.includeSchema === false ? undefined : schemaOptions(),
+            });
             get().addBlog(blogPost);
 
             // remove processed task
@@ -192,30 +320,159 @@ const useHistoryStore = create<HistoryState>()(
       addBlog: (blog) => {
         const { blogs, tags } = get();
         const newTags = [...new Set([...tags, ...blog.tags])];
+        // Copies and re-generated posts often share a title; the URL has to stay unique
+        const base = blog.slug || postSlug(blog.title, blog.locale) || blog.id;
+        const slug = uniqueSlug(base, slugsInLocale(blogs, blog.locale));
+        const added = { ...blog, slug };
         set({
-          blogs: [blog, ...blogs],
+          blogs: [added, ...blogs],
           tags: newTags,
         });
+        indexBlogs([added]);
         get().calculateMetrics();
       },
       
-      updateBlog: (id, updates) => {
+      updateBlog: (id, updates, source = "save") => {
         const { blogs } = get();
-        const updatedBlogs = blogs.map(blog =>
-          blog.id === id
-            ? { ...blog, ...updates, updatedAt: new Date() }
-            : blog
-        );
+        const updatedBlogs = blogs.map(blog => {
+          if (blog.id !== id) return blog;
+          // The version is owned by the revision history; editors may pass a stale copy of the post
+          const updated = { ...blog, ...updates, version: blog.version, updatedAt: new Date() };
+          if (!hasTrackedChanges(blog, updated)) return updated;
+          return { ...updated, version: useRevisionStore.getState().recordRevision(blog, updated, source) };
+        });
         set({ blogs: updatedBlogs });
+        indexBlogs(updatedBlogs.filter((blog) => blog.id === id));
         get().calculateMetrics();
       },
-      
+
+      recordPublication: (id, publication, status) => {
+        const blog = get().getBlogById(id);
+        if (blog && blog.status !== status) {
+          // The site is the source of truth for what's live, so this skips the workflow's guards
+          useAuditStore.getState().recordChange({
+            blogId: id,
+            blogTitle: blog.title,
+            from: blog.status,
+            to: status,
+            actor: "Site sync",
+            note: publication.url || undefined,
+          });
+        }
+        set({
+          blogs: get().blogs.map((blog) => {
+            if (blog.id !== id) return blog;
+            const others = (blog.publications ?? []).filter((p) => p.siteId !== publication.siteId);
+            return { ...blog, status, publications: [...others, publication] };
+          }),
+        });
+        get().calculateMetrics();
+      },
+
+      transitionStatus: (id, to, { actor, note, ...context } = {}) => {
+        const blog = get().getBlogById(id);
+        if (!blog) return "This post no longer exists.";
+        const reason = checkTransition(blog, to, workflowConfig(), { ...context, note });
+        if (reason) return reason;
+
+        set({ blogs: get().blogs.map((b) => (b.id === id ? withStatus(b, to, context.scheduledAt) : b)) });
+        useAuditStore.getState().recordChange({
+          blogId: id,
+          blogTitle: blog.title,
+          from: blog.status,
+          to,
+          actor: actor ?? (useSettingsStore.getState().authorName.trim() || "You"),
+          note: note?.trim() || undefined,
+        });
+        get().calculateMetrics();
+        return undefined;
+      },
+
+      schedulePost: (id, at) => {
+        const blog = get().getBlogById(id);
+        if (!blog) return "This post no longer exists.";
+        if (!at) {
+          // Back to approved when review is required; a draft if it can't be approved any more, e.g. its score dropped
+          if (workflowConfig().requireReview && !get().transitionStatus(id, "approved")) return undefined;
+          return get().transitionStatus(id, "draft");
+        }
+        if (blog.status !== "scheduled") return get().transitionStatus(id, "scheduled", { scheduledAt: at });
+
+        // A new time for a scheduled post isn't a workflow move
+        if (at.getTime() <= Date.now()) return "Pick a time that hasn't passed yet.";
+        set({
+          blogs: get().blogs.map((b) => (b.id === id ? { ...b, scheduledAt: at, updatedAt: new Date() } : b)),
+        });
+        return undefined;
+      },
+
+      setPublishTargets: (id, siteIds) => {
+        set({ blogs: get().blogs.map((b) => (b.id === id ? { ...b, publishTo: siteIds, updatedAt: new Date() } : b)) });
+      },
+
+      publishDuePosts: async (now = new Date(), except = []) => {
+        // The timer, the app coming to the foreground and the background task can all fire at once
+        if (publishingDuePosts) return 0;
+        publishingDuePosts = true;
+        try {
+          const published: BlogPost[] = [];
+          for (const blog of duePosts(get().blogs, now).filter((post) => !except.includes(post.id))) {
+            const reason = get().transitionStatus(blog.id, "published", { actor: "Scheduler" });
+            if (reason) logger.warn(`Scheduled post ${blog.id} wasn't published: ${reason}`);
+            else published.push(blog);
+          }
+          for (const blog of published) await pushToSites(blog.id, blog.publishTo ?? []);
+          return published.length;
+        } finally {
+          publishingDuePosts = false;
+        }
+      },
+
+      applyScheduleOutcome: async ({ postId, siteIds }) => {
+        // Published from here meanwhile, or taken off the schedule: either way there's nothing left to push
+        if (get().getBlogById(postId)?.status !== "scheduled") return;
+        const reason = get().transitionStatus(postId, "published", { actor: "Scheduler" });
+        if (reason) {
+          logger.warn(`Scheduled post ${postId} wasn't marked published: ${reason}`);
+          return;
+        }
+        await pushToSites(postId, siteIds);
+      },
+
+      restoreRevision: (blogId, revisionId) => {
+        const blog = get().blogs.find(b => b.id === blogId);
+        const revision = useRevisionStore.getState().revisions.find(r => r.id === revisionId && r.blogId === blogId);
+        if (!blog || !revision) return false;
+
+        const restored: BlogPost = refreshSchemaMarkup({
+          ...blog,
+          title: revision.title,
+          content: revision.content,
+          metaDescription: revision.metaDescription,
+          keywords: revision.keywords,
+          wordCount: countWords(revision.content),
+          readingTime: readingTimeMinutes(revision.content),
+          headings: extractHeadings(revision.content),
+          faqSection: extractFaq(revision.content),
+          updatedAt: new Date(),
+        }, schemaOptions());
+        if (!hasTrackedChanges(blog, restored)) return true;
+
+        const version = useRevisionStore.getState().recordRevision(blog, restored, "restore", revision.version);
+        set({ blogs: get().blogs.map(b => (b.id === blogId ? { ...restored, version } : b)) });
+        indexBlogs([restored]);
+        get().calculateMetrics();
+        return true;
+      },
+
       deleteBlog: (id) => {
         const { blogs, favorites } = get();
         set({
           blogs: blogs.filter(blog => blog.id !== id),
           favorites: favorites.filter(fav => fav !== id),
         });
+        unindexBlogs([id]);
+        useRevisionStore.getState().deleteRevisions([id]);
         get().calculateMetrics();
       },
       
@@ -231,11 +488,73 @@ const useHistoryStore = create<HistoryState>()(
             updatedAt: new Date(),
             status: "draft",
             version: 1,
+            // A copy is a new post, not another translation of the original
+            translationGroupId: undefined,
+            translatedFromId: undefined,
+            // Pushing the copy must create new remote posts, not overwrite the original's
+            publications: undefined,
+            scheduledAt: undefined,
           };
           get().addBlog(duplicatedBlog);
         }
       },
       
+      addTranslation: (sourceId, translation) => {
+        const source = get().blogs.find(blog => blog.id === sourceId);
+        if (!source) return undefined;
+
+        // The first translation turns the source into the root of a new group
+        const groupId = source.translationGroupId ?? source.id;
+        if (!source.translationGroupId) {
+          get().updateBlog(source.id, { translationGroupId: groupId });
+        }
+
+        const now = new Date();
+        const translated: BlogPost = {
+          ...source,
+          id: `blog-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+          title: translation.title,
+          slug: postSlug(translation.title, translation.locale),
+          // The translation is its own page, not a copy of the source
+          canonicalUrl: undefined,
+          publications: undefined,
+          scheduledAt: undefined,
+          content: translation.content,
+          metaDescription: translation.metaDescription,
+          keywords: translation.keywords,
+          locale: translation.locale,
+          headings: extractHeadings(translation.content),
+          faqSection: extractFaq(translation.content),
+          translationGroupId: groupId,
+          translatedFromId: source.id,
+          createdAt: now,
+          updatedAt: now,
+          status: "draft",
+          wordCount: countWords(translation.content),
+          readingTime: readingTimeMinutes(translation.content),
+          isFavorite: false,
+          version: 1,
+          generationData: source.generationData && {
+            ...source.generationData,
+            model: translation.model ?? "unknown",
+            provider: translation.provider,
+          },
+        };
+        // Rebuilt so the schema describes the translation rather than the source
+        get().addBlog(refreshSchemaMarkup(translated, schemaOptions()));
+        return translated.id;
+      },
+
+      getTakenSlugs: (locale, exceptId) =>
+        slugsInLocale(get().blogs.filter((b) => b.id !== exceptId), locale),
+
+      getTranslations: (id) => {
+        const { blogs } = get();
+        const blog = blogs.find(b => b.id === id);
+        if (!blog?.translationGroupId) return blog ? [blog] : [];
+        return blogs.filter(b => b.translationGroupId === blog.translationGroupId);
+      },
+      
       toggleFavorite: (id) => {
         const { favorites } = get();
         const isFavorite = favorites.includes(id);
@@ -273,13 +592,20 @@ const useHistoryStore = create<HistoryState>()(
       // Computed getters
       getFilteredBlogs: () => {
         const { blogs, searchQuery, selectedTags, sortBy, sortOrder, statusFilter } = get();
+
+        const query = parseQuery(searchQuery);
+        let scores: Map<string, number> | null = null;
+        if (query.clauses.length > 0) {
+          if (!blogSearchFilled) {
+            blogs.forEach((blog) => blogSearch.add(blog));
+            blogSearchFilled = true;
+          }
+          scores = new Map(blogSearch.search(query).map((hit) => [hit.id, hit.score]));
+        }
         
         let filtered = blogs.filter(blog => {
           // Search filter
-          const matchesSearch = !searchQuery || 
-            blog.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            blog.topic.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            blog.content.toLowerCase().includes(searchQuery.toLowerCase());
+          const matchesSearch = !scores || scores.has(blog.id);
           
           // Tag filter
           const matchesTags = selectedTags.length === 0 ||
@@ -296,6 +622,11 @@ const useHistoryStore = create<HistoryState>()(
           let comparison = 0;
           
           switch (sortBy) {
+            case "relevance":
+              comparison = scores
+                ? scores.get(a.id)! - scores.get(b.id)!
+                : new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+              break;
             case "date":
               comparison = new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
               break;
@@ -345,16 +676,18 @@ const useHistoryStore = create<HistoryState>()(
           blogs: blogs.filter(blog => !ids.includes(blog.id)),
           favorites: favorites.filter(fav => !ids.includes(fav)),
         });
+        unindexBlogs(ids);
+        useRevisionStore.getState().deleteRevisions(ids);
         get().calculateMetrics();
       },
       
       bulkUpdateStatus: (ids, status) => {
-        const { blogs } = get();
-        const updatedBlogs = blogs.map(blog =>
-          ids.includes(blog.id) ? { ...blog, status, updatedAt: new Date() } : blog
-        );
-        set({ blogs: updatedBlogs });
-        get().calculateMetrics();
+        const refused: Array<{ id: string; reason: string }> = [];
+        for (const id of ids) {
+          const reason = get().transitionStatus(id, status);
+          if (reason) refused.push({ id, reason });
+        }
+        return refused;
       },
       
       bulkAddTag: (ids, tag) => {
@@ -363,6 +696,7 @@ const useHistoryStore = create<HistoryState>()(
           ids.includes(blog.id) ? { ...blog, tags: [...new Set([...blog.tags, tag])], updatedAt: new Date() } : blog
         );
         set({ blogs: updatedBlogs });
+        indexBlogs(updatedBlogs.filter((blog) => ids.includes(blog.id)));
         get().calculateMetrics();
       },
       
@@ -423,35 +757,40 @@ const useHistoryStore = create<HistoryState>()(
       // Export/Import
       exportBlogs: (format) => {
         const { blogs } = get();
-        if (format === 'json') {
-          return JSON.stringify(blogs, null, 2);
+        switch (format) {
+          case "json":
+            return JSON.stringify(blogs, null, 2);
+          case "csv":
+            return blogsToCsv(blogs);
+          default:
+            // Untyped callers still asking for "markdown" used to get JSON back
+            throw new Error(`Unsupported export format "${format}"; Markdown is exported with markdownFiles`);
         }
-        // Add CSV and markdown export logic as needed
-        return JSON.stringify(blogs);
       },
       
-      importBlogs: (data, format) => {
-        if (format === 'json') {
-          try {
-            const importedBlogs = JSON.parse(data);
-            set(state => ({ blogs: [...state.blogs, ...importedBlogs] }));
-            get().calculateMetrics();
-          } catch (error) {
-            logger.error('Failed to import blogs:', error);
-          }
-        }
+      restoreBlogs: (restored) => {
+        const blogs = withUniqueSlugs(restored);
+        set({
+          blogs,
+          favorites: blogs.filter(blog => blog.isFavorite).map(blog => blog.id),
+          tags: [...new Set([...get().tags, ...blogs.flatMap(blog => blog.tags)])],
+        });
+        resetBlogSearch();
+        get().calculateMetrics();
       },
       
       // Reset
       clearHistory: () => {
         set({ blogs: [], favorites: [], tags: [], metrics: null });
+        resetBlogSearch();
+        useRevisionStore.getState().clearRevisions();
       },
       
       resetFilters: () => {
         set({
           searchQuery: '',
           selectedTags: [],
-          sortBy: 'date',
+          sortBy: 'relevance',
           sortOrder: 'desc',
           statusFilter: 'all',
           currentPage: 1,
@@ -461,6 +800,21 @@ const useHistoryStore = create<HistoryState>()(
     {
       name: "history-store",
       storage: createJSONStorage(() => AsyncStorage),
+      version: 2,
+      migrate: (persistedState, version) => {
+        const state = persistedState as Partial<HistoryState>;
+        // v1: posts keep headings, FAQ and prompt provenance
+        if (version < 1 && state.blogs) {
+          state.blogs = state.blogs.map(backfillBlogPost);
+        }
+        // v2: posts have unique slugs per language, oldest post keeping the plain one
+        if (version < 2 && state.blogs) {
+          state.blogs = withUniqueSlugs(state.blogs);
+        }
+        return state as HistoryState;
+      },
+      // Stored posts replace whatever was indexed before they loaded
+      onRehydrateStorage: () => () => resetBlogSearch(),
       // Persist essential fields including queue
       partialize: (state) => ({
         blogs: state.blogs,
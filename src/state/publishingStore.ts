@@ -0,0 +1,110 @@
+import { create } from "zustand";
+import { persist, createJSONStorage, PersistStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as SecureStore from "expo-secure-store";
+import { GhostSite, PublishingSite, WordPressSite } from "../publishing";
+import { logger } from "../utils/logger";
+
+export type PublishingSiteInput = Omit<WordPressSite, "id"> | Omit<GhostSite, "id">;
+
+interface PublishingState {
+  // Each site keeps its own credentials
+  sites: PublishingSite[];
+
+  getSite: (id: string) => PublishingSite | undefined;
+  addSite: (site: PublishingSiteInput) => string;
+  updateSite: (id: string, site: PublishingSiteInput) => void;
+  deleteSite: (id: string) => void;
+}
+
+type PersistedPublishing = Pick<PublishingState, "sites">;
+
+// The parts of a site's credentials that never touch AsyncStorage
+type SiteSecrets = Partial<Pick<WordPressSite, "applicationPassword"> & Pick<GhostSite, "adminApiKey">>;
+
+// Readable once the device has been unlocked after boot, so background publishing can use them
+const SECURE_OPTIONS: SecureStore.SecureStoreOptions = { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK };
+
+const secretKey = (siteId: string) => `publishing-site.${siteId}`;
+
+function splitSecrets(site: PublishingSite): { site: PublishingSite; secrets: SiteSecrets } {
+  if (site.platform === "wordpress") {
+    const { applicationPassword, ...rest } = site;
+    return { site: { ...rest, applicationPassword: "" }, secrets: { applicationPassword } };
+  }
+  const { adminApiKey, ...rest } = site;
+  return { site: { ...rest, adminApiKey: "" }, secrets: { adminApiKey } };
+}
+
+async function readSecrets(siteId: string): Promise<SiteSecrets> {
+  const stored = await SecureStore.getItemAsync(secretKey(siteId), SECURE_OPTIONS);
+  return stored ? (JSON.parse(stored) as SiteSecrets) : {};
+}
+
+/**
+ * Keeps site settings in AsyncStorage like the other stores, but each site's password or API key in
+ * SecureStore under the site's id. Sites saved before that still carry their secret; it's moved over on load.
+ */
+function publishingStorage(): PersistStorage<PersistedPublishing> {
+  const json = createJSONStorage<PersistedPublishing>(() => AsyncStorage)!;
+
+  const write: PersistStorage<PersistedPublishing>["setItem"] = async (name, value) => {
+    const split = value.state.sites.map(splitSecrets);
+    await Promise.all(
+      split.map(({ site, secrets }) =>
+        SecureStore.setItemAsync(secretKey(site.id), JSON.stringify(secrets), SECURE_OPTIONS),
+      ),
+    );
+    await json.setItem(name, { ...value, state: { ...value.state, sites: split.map(({ site }) => site) } });
+  };
+
+  return {
+    getItem: async (name) => {
+      const value = await json.getItem(name);
+      if (!value) return null;
+      const sites = await Promise.all(
+        value.state.sites.map(async (site) => ({ ...site, ...(await readSecrets(site.id)) }) as PublishingSite),
+      );
+      const legacy = value.state.sites.some((site) => Object.values(splitSecrets(site).secrets).some(Boolean));
+      const restored = { ...value, state: { ...value.state, sites } };
+      if (legacy) await write(name, restored);
+      return restored;
+    },
+    setItem: write,
+    removeItem: json.removeItem,
+  };
+}
+
+const usePublishingStore = create<PublishingState>()(
+  persist(
+    (set, get) => ({
+      sites: [],
+
+      getSite: (id) => get().sites.find((site) => site.id === id),
+
+      addSite: (site) => {
+        const id = `site-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+        set((state) => ({ sites: [...state.sites, { ...site, id }] }));
+        return id;
+      },
+
+      updateSite: (id, site) => {
+        set((state) => ({ sites: state.sites.map((existing) => (existing.id === id ? { ...site, id } : existing)) }));
+      },
+
+      deleteSite: (id) => {
+        set((state) => ({ sites: state.sites.filter((site) => site.id !== id) }));
+        SecureStore.deleteItemAsync(secretKey(id), SECURE_OPTIONS).catch((error) =>
+          logger.warn("Couldn't remove a deleted site's credentials:", error),
+        );
+      },
+    }),
+    {
+      name: "publishing-store",
+      storage: publishingStorage(),
+      partialize: (state) => ({ sites: state.sites }),
+    }
+  )
+);
+
+export default usePublishingStore;
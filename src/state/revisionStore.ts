@@ -0,0 +1,47 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { BlogPost, BlogRevision, RevisionSource } from "../types/blog";
+import { appendRevision } from "../utils/revisions";
+
+// Revisions live apart from the history store so the post list loads without every snapshot
+interface RevisionState {
+  // Oldest first
+  revisions: BlogRevision[];
+
+  // Saves `after` as a revision of the post and returns the version it was saved as
+  recordRevision: (
+    before: BlogPost,
+    after: BlogPost,
+    source: Exclude<RevisionSource, "original">,
+    restoredFrom?: number
+  ) => number;
+  deleteRevisions: (blogIds: string[]) => void;
+  clearRevisions: () => void;
+}
+
+const useRevisionStore = create<RevisionState>()(
+  persist(
+    (set, get) => ({
+      revisions: [],
+
+      recordRevision: (before, after, source, restoredFrom) => {
+        const { revisions, version } = appendRevision(get().revisions, before, after, source, { restoredFrom });
+        set({ revisions });
+        return version;
+      },
+
+      deleteRevisions: (blogIds) => {
+        set((state) => ({ revisions: state.revisions.filter((revision) => !blogIds.includes(revision.blogId)) }));
+      },
+
+      clearRevisions: () => set({ revisions: [] }),
+    }),
+    {
+      name: "revision-store",
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useRevisionStore;
@@ -0,0 +1,32 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Crypto from "expo-crypto";
+
+// This install's share of the backend's publishing schedule
+interface ScheduleSyncState {
+  // Random id the backend files this install's schedule under; it's all that keeps other installs out of it
+  clientId: string;
+  // Scheduled posts the backend last said it holds. It marks those published on time, so the app leaves them alone
+  // even while the backend can't be reached
+  heldByServer: string[];
+
+  setHeldByServer: (postIds: string[]) => void;
+}
+
+const useScheduleSyncStore = create<ScheduleSyncState>()(
+  persist(
+    (set) => ({
+      clientId: Crypto.randomUUID(),
+      heldByServer: [],
+
+      setHeldByServer: (postIds) => set({ heldByServer: postIds }),
+    }),
+    {
+      name: "schedule-sync-store",
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useScheduleSyncStore;
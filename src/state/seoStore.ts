@@ -3,8 +3,10 @@ import { persist, createJSONStorage } from "zustand/middleware";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { SEOResearchData } from "../api/seo-research";
 import { logger } from "../utils/logger";
+import { getLocale, isDefaultLocale } from "../utils/locale";
+import { toCsv } from "../utils/csv";
 
-interface SEOResearchHistory {
+export interface SEOResearchHistory {
   id: string;
   topic: string;
   research: SEOResearchData;
@@ -37,7 +39,7 @@ interface SEOState {
   setCurrentResearchId: (id: string | null) => void;
   
   // Cache management
-  getCachedResearch: (topic: string) => SEOResearchData | undefined;
+  getCachedResearch: (topic: string, locale?: string) => SEOResearchData | undefined;
   setCachedResearch: (topic: string, research: SEOResearchData) => void;
   clearCache: () => void;
   
@@ -48,13 +50,19 @@ interface SEOState {
   
   // Export/Import
   exportResearch: (format: "json" | "csv") => string;
-  importResearch: (data: string, format: "json") => void;
+  // Swaps in research restored from a backup
+  restoreResearch: (research: SEOResearchHistory[]) => void;
   
   // Cleanup
   clearHistory: () => void;
   cleanupOldResearch: (daysOld: number) => void;
 }
 
+// English research keeps the bare topic key; other languages are cached separately
+function researchCacheKey(topic: string, locale?: string) {
+  return isDefaultLocale(locale) ? topic.toLowerCase() : `${topic.toLowerCase()}::${getLocale(locale).code}`;
+}
+
 const useSEOStore = create<SEOState>()(
   persist(
     (set, get) => ({
@@ -83,8 +91,10 @@ const useSEOStore = create<SEOState>()(
           currentResearchId: id,
         });
         
-        // Also cache it
-        get().setCachedResearch(topic, research);
+        // Also cache it, unless it is canned fallback data that should be retried
+        if (!research.isFallback) {
+          get().setCachedResearch(topic, research);
+        }
         get().calculateAnalytics();
         
         return id;
@@ -127,15 +137,15 @@ const useSEOStore = create<SEOState>()(
       setCurrentResearchId: (id) => set({ currentResearchId: id }),
       
       // Cache management
-      getCachedResearch: (topic) => {
+      getCachedResearch: (topic, locale) => {
         const { researchCache } = get();
-        return researchCache.get(topic.toLowerCase());
+        return researchCache.get(researchCacheKey(topic, locale));
       },
       
       setCachedResearch: (topic, research) => {
         const { researchCache } = get();
         const newCache = new Map(researchCache);
-        newCache.set(topic.toLowerCase(), research);
+        newCache.set(researchCacheKey(topic, research.locale), research);
         set({ researchCache: newCache });
       },
       
@@ -254,28 +264,20 @@ const useSEOStore = create<SEOState>()(
               research.research.primaryKeywords.map(k => k.keyword).join("; "),
               research.usedInBlogs.length.toString(),
             ]);
-            return [headers, ...rows].map(row => row.join(",")).join("\n");
+            return toCsv([headers, ...rows]);
           default:
             return JSON.stringify(researchHistory, null, 2);
         }
       },
       
-      importResearch: (data, format) => {
-        try {
-          if (format === "json") {
-            const importedResearch: SEOResearchHistory[] = JSON.parse(data);
-            const { researchHistory } = get();
-            
-            // Merge with existing research, avoiding duplicates
-            const existingIds = new Set(researchHistory.map(research => research.id));
-            const newResearch = importedResearch.filter(research => !existingIds.has(research.id));
-            
-            set({ researchHistory: [...researchHistory, ...newResearch] });
-            get().calculateAnalytics();
-          }
-        } catch (error) {
-          logger.error("Failed to import research:", error);
-        }
+      restoreResearch: (research) => {
+        set({
+          researchHistory: research,
+          currentResearchId: research.some((entry) => entry.id === get().currentResearchId)
+            ? get().currentResearchId
+            : null,
+        });
+        get().calculateAnalytics();
       },
       
       // Cleanup
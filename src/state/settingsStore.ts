@@ -0,0 +1,52 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { DEFAULT_WORKFLOW, WorkflowConfig } from "../utils/workflow";
+import { AIRoutingSettings } from "../utils/ai-routing";
+import { AITask } from "../api/ai-router";
+import { AIProvider } from "../types/ai";
+
+interface SettingsState extends WorkflowConfig, AIRoutingSettings {
+  // Public address of the blog, used to build absolute URLs in exports
+  siteUrl: string;
+  // Author credited in JSON-LD schema markup
+  authorName: string;
+
+  setSiteUrl: (url: string) => void;
+  setAuthorName: (name: string) => void;
+  setRequireReview: (required: boolean) => void;
+  setMinApprovalScore: (score: number) => void;
+  setAIPriority: (task: AITask, providers: AIProvider[]) => void;
+  setAIModel: (provider: AIProvider, model: string) => void;
+  resetAIRouting: () => void;
+}
+
+const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      siteUrl: "",
+      authorName: "",
+      ...DEFAULT_WORKFLOW,
+      aiPriorities: {},
+      aiModels: {},
+
+      setSiteUrl: (url) => set({ siteUrl: url.trim() }),
+      setAuthorName: (name) => set({ authorName: name }),
+      setRequireReview: (required) => set({ requireReview: required }),
+      setMinApprovalScore: (score) => set({ minApprovalScore: Math.max(0, Math.min(100, Math.round(score))) }),
+      setAIPriority: (task, providers) => {
+        // The router needs at least one provider to try
+        if (providers.length === 0) return;
+        set((state) => ({ aiPriorities: { ...state.aiPriorities, [task]: providers } }));
+      },
+      setAIModel: (provider, model) => set((state) => ({ aiModels: { ...state.aiModels, [provider]: model.trim() } })),
+      resetAIRouting: () => set({ aiPriorities: {}, aiModels: {} }),
+    }),
+    {
+      name: "settings-store",
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export default useSettingsStore;
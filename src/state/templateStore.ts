@@ -0,0 +1,104 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { BlogTemplate } from "../types/blog";
+import { BUILT_IN_TEMPLATES, ContentType, parseTemplates, serializeTemplates } from "../utils/blog-templates";
+
+export type TemplateInput = Omit<BlogTemplate, "id" | "isCustom">;
+
+interface TemplateState {
+  customTemplates: BlogTemplate[];
+
+  // Queries
+  getTemplates: () => BlogTemplate[];
+  getTemplate: (id: string) => BlogTemplate | undefined;
+  getTemplatesByCategory: (category: ContentType) => BlogTemplate[];
+
+  // Custom template management
+  addTemplate: (template: TemplateInput) => string;
+  updateTemplate: (id: string, updates: Partial<TemplateInput>) => void;
+  deleteTemplate: (id: string) => void;
+  duplicateTemplate: (id: string) => string | undefined;
+
+  // Export/Import
+  exportTemplates: (ids?: string[]) => string;
+  importTemplates: (json: string) => number;
+}
+
+function newTemplateId() {
+  return `template-${Date.now()}-${Math.random().toString(36).substring(2, 10)}`;
+}
+
+const useTemplateStore = create<TemplateState>()(
+  persist(
+    (set, get) => ({
+      customTemplates: [],
+
+      getTemplates: () => [...BUILT_IN_TEMPLATES, ...get().customTemplates],
+
+      getTemplate: (id) => get().getTemplates().find((template) => template.id === id),
+
+      getTemplatesByCategory: (category) =>
+        get().getTemplates().filter((template) => template.category === category),
+
+      addTemplate: (template) => {
+        const id = newTemplateId();
+        set((state) => ({ customTemplates: [...state.customTemplates, { ...template, id, isCustom: true }] }));
+        return id;
+      },
+
+      updateTemplate: (id, updates) => {
+        set((state) => ({
+          customTemplates: state.customTemplates.map((template) =>
+            template.id === id ? { ...template, ...updates } : template
+          ),
+        }));
+      },
+
+      deleteTemplate: (id) => {
+        set((state) => ({ customTemplates: state.customTemplates.filter((template) => template.id !== id) }));
+      },
+
+      duplicateTemplate: (id) => {
+        const source = get().getTemplate(id);
+        if (!source) return undefined;
+        const { id: _id, isCustom: _isCustom, ...rest } = source;
+        return get().addTemplate({ ...rest, name: `${source.name} (Copy)` });
+      },
+
+      exportTemplates: (ids) => {
+        const templates = ids ? get().getTemplates().filter((template) => ids.includes(template.id)) : get().customTemplates;
+        return serializeTemplates(templates);
+      },
+
+      // Throws TemplateImportError when the file is invalid. Templates whose id
+      // matches an existing custom template replace it; ids that clash with a
+      // built-in template are reassigned.
+      importTemplates: (json) => {
+        const imported = parseTemplates(json).map((template) =>
+          BUILT_IN_TEMPLATES.some((builtIn) => builtIn.id === template.id)
+            ? { ...template, id: newTemplateId() }
+            : template
+        );
+        const importedIds = new Set(imported.map((template) => template.id));
+        set((state) => ({
+          customTemplates: [
+            ...state.customTemplates.filter((template) => !importedIds.has(template.id)),
+            ...imported,
+          ],
+        }));
+        return imported.length;
+      },
+    }),
+    {
+      name: "template-store",
+      storage: createJSONStorage(() => AsyncStorage),
+      // Built-in templates ship with the app, so only custom ones are persisted
+      partialize: (state) => ({
+        customTemplates: state.customTemplates,
+      }),
+    }
+  )
+);
+
+export default useTemplateStore;
@@ -1,3 +1,5 @@
+export type AIProvider = "openai" | "gemini" | "grok";
+
 export interface AIMessage {
   role: "user" | "assistant" | "system";
   content: string;
@@ -7,18 +9,34 @@ export interface AIRequestOptions {
   temperature?: number;
   maxTokens?: number;
   model?: string;
+  // Cancels the request; a stream stops delivering chunks and rejects
+  signal?: AbortSignal;
+}
+
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 export interface AIResponse {
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  provider?: AIProvider;
+  model?: string;
+  usage?: AIUsage;
 }
 
 export interface AIService {
   chat(messages: AIMessage[], options?: AIRequestOptions): Promise<AIResponse>;
   complete(prompt: string, options?: AIRequestOptions): Promise<AIResponse>;
 }
+
+export interface AIStreamChunk {
+  delta: string;
+  content: string;
+  completionTokens: number;
+}
+
+export interface AIStreamHandlers {
+  onChunk?: (chunk: AIStreamChunk) => void;
+}
@@ -1,3 +1,57 @@
+import { AIProvider, AIUsage } from "./ai";
+
+export interface BlogHeading {
+  level: number;
+  text: string;
+  anchor: string;
+}
+
+export interface BlogFaqItem {
+  question: string;
+  answer: string;
+}
+
+// Kind of article a post is; it shapes the generation prompt and the SEO analyzer's thresholds
+export type ContentType = "how-to" | "listicle" | "review" | "comparison" | "guide" | "news";
+
+// How and from what a post was generated
+export interface GenerationProvenance {
+  researchId: string;
+  // Milliseconds from starting generation to the finished post
+  generationTime: number;
+  model: string;
+  prompt: string;
+  provider?: AIProvider;
+  // Version of the generation prompt, e.g. "single-shot@1"; "legacy" for posts saved before it was tracked
+  promptVersion: string;
+  // Tokens spent writing the post; absent when the provider didn't report usage
+  tokenUsage?: AIUsage;
+}
+
+// A copy of a post on a publishing site; later pushes update this remote post instead of creating another
+export interface RemotePublication {
+  siteId: string;
+  // The post's id on the platform
+  remoteId: string;
+  url: string;
+  // Status as the platform names it, e.g. "publish" on WordPress or "published" on Ghost
+  remoteStatus: string;
+  // The featured image as uploaded, so an unchanged image isn't uploaded again
+  featuredImage?: { source: string; url: string; id?: string };
+  // Last push or status check; local edits after this haven't been published
+  syncedAt: Date;
+}
+
+// Editorial workflow a post moves through; see utils/workflow for the allowed moves
+export type PostStatus =
+  | "draft"
+  | "in-review"
+  | "changes-requested"
+  | "approved"
+  | "scheduled"
+  | "published"
+  | "archived";
+
 export interface BlogPost {
   id: string;
   title: string;
@@ -7,7 +61,7 @@ export interface BlogPost {
   keywords: string[];
   createdAt: Date;
   updatedAt: Date;
-  status: "draft" | "published" | "archived";
+  status: PostStatus;
   seoScore: number;
   wordCount: number;
   readingTime: number;
@@ -15,12 +69,63 @@ export interface BlogPost {
   tags: string[];
   isFavorite: boolean;
   version: number;
-  generationData?: {
-    researchId: string;
-    generationTime: number;
-    model: string;
-    prompt: string;
-  };
+  // Last part of the post's URL, unique among posts in the same language
+  slug: string;
+  // Absolute URL search engines should index instead of the post's own URL, e.g. where it was first published
+  canonicalUrl?: string;
+  // BCP 47 locale the post is written in; unset means English
+  locale?: string;
+  // What it was generated as; unset for posts saved before it was kept, which get the default SEO profile
+  contentType?: ContentType;
+  // Shared by a post and its translations, which are exported as hreflang alternates
+  translationGroupId?: string;
+  // Post this one was translated from
+  translatedFromId?: string;
+  headings: BlogHeading[];
+  faqSection: BlogFaqItem[];
+  // JSON-LD returned with the generated post
+  schemaMarkup?: string;
+  generationData?: GenerationProvenance;
+  // One entry per publishing site the post was pushed to
+  publications?: RemotePublication[];
+  // When a scheduled post goes out; kept after it's published as the day it went out
+  scheduledAt?: Date;
+  // Ids of the publishing sites a scheduled post is pushed to when it goes out
+  publishTo?: string[];
+}
+
+// One move of a post through the workflow; entries are only ever appended
+export interface StatusChange {
+  id: string;
+  blogId: string;
+  // Title at the time, so the entry still reads well after the post is renamed or deleted
+  blogTitle: string;
+  from: PostStatus;
+  to: PostStatus;
+  // Author name from settings, or what moved it automatically, e.g. "Scheduler"
+  actor: string;
+  at: Date;
+  // Why, e.g. the changes a reviewer asked for
+  note?: string;
+}
+
+// What created a revision: "original" is the post as it was before its first tracked edit
+export type RevisionSource = "original" | "autosave" | "save" | "restore";
+
+// Snapshot of a post's editable content at one version
+export interface BlogRevision {
+  id: string;
+  blogId: string;
+  version: number;
+  title: string;
+  content: string;
+  metaDescription: string;
+  keywords: string[];
+  wordCount: number;
+  source: RevisionSource;
+  createdAt: Date;
+  // Version a "restore" revision brought back
+  restoredFrom?: number;
 }
 
 export interface BlogDraft extends Omit<BlogPost, "id" | "createdAt" | "updatedAt"> {
@@ -46,30 +151,126 @@ export interface BlogTemplate {
   isCustom: boolean;
 }
 
+export type ReadingLevel = "elementary" | "middle-school" | "high-school" | "college" | "professional";
+
+export interface BrandVoiceProfile {
+  id: string;
+  name: string;
+  styleDescription: string;
+  preferredWords: string[];
+  bannedWords: string[];
+  sampleParagraphs: string[];
+  readingLevel: ReadingLevel;
+  audiencePersona: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReadabilitySentence {
+  text: string;
+  words: number;
+  // Flesch Reading Ease of the sentence alone; null outside English
+  fleschReadingEase: number | null;
+  passive: boolean;
+}
+
+// Readability of a post's prose. Formula-based metrics are English-only and null for other languages.
+export interface ReadabilityReport {
+  // Flesch Reading Ease clamped to 0-100; higher is easier, 60+ reads as plain English
+  fleschReadingEase: number | null;
+  // US school grade needed to follow the text
+  fleschKincaidGrade: number | null;
+  // Plain-language label for the reading ease, e.g. "Fairly difficult"
+  level: string;
+  wordCount: number;
+  sentenceCount: number;
+  avgWordsPerSentence: number;
+  avgSyllablesPerWord: number | null;
+  // Share of sentences in the passive voice, 0-1
+  passiveRatio: number | null;
+  // Share of sentences containing a transition word or phrase, 0-1
+  transitionRatio: number | null;
+  paragraphs: {
+    // Word count of each body paragraph, in order
+    wordCounts: number[];
+    average: number;
+    // Paragraphs of up to 50, 100 and 150 words, and longer
+    distribution: { short: number; medium: number; long: number; veryLong: number };
+  };
+  // Hardest sentences first
+  worstSentences: ReadabilitySentence[];
+}
+
+export interface OutlineHeading extends BlogHeading {
+  // Character offset of the heading line in the content
+  offset: number;
+  // Level of the previous heading when this one skips levels, e.g. 2 for an H4 straight after an H2
+  skippedFrom?: number;
+}
+
+// Document structure read from the parsed markdown
+export interface StructureReport {
+  outline: OutlineHeading[];
+  hasH1: boolean;
+  h1Count: number;
+  h2Count: number;
+  h3Count: number;
+  // Body paragraphs, excluding list items and table cells
+  paragraphCount: number;
+  // Top-level lists; nested lists count with their parent
+  listCount: number;
+  tableCount: number;
+  codeBlockCount: number;
+  imageCount: number;
+  imagesMissingAlt: Array<{ url: string; offset: number }>;
+  // Alt text of the images that have it, in order
+  imageAlts: string[];
+  // Relative links and links to the site's own host
+  internalLinks: number;
+  externalLinks: number;
+}
+
+// Where the primary keyword appears. Places the post doesn't have (no images, no
+// conclusion, no slug yet) are null rather than false.
+export interface KeywordPlacement {
+  keyword: string;
+  title: boolean;
+  // Within the opening words of the content
+  intro: boolean;
+  h2: boolean | null;
+  metaDescription: boolean | null;
+  slug: boolean | null;
+  imageAlt: boolean | null;
+  // The section under a conclusion heading, or else the closing paragraph
+  conclusion: boolean | null;
+}
+
 export interface SEOAnalysis {
   score: number;
   issues: Array<{
     type: "error" | "warning" | "suggestion";
     message: string;
     section?: string;
+    // Id of the analyzer rule that raised it
+    rule?: string;
   }>;
   keywords: {
     primary: { keyword: string; density: number; occurrences: number };
     secondary: Array<{ keyword: string; density: number; occurrences: number }>;
+    // Null without a primary keyword
+    placement: KeywordPlacement | null;
   };
-  readability: {
-    score: number;
-    level: string;
-    avgSentenceLength: number;
-    avgWordsPerSentence: number;
-  };
-  structure: {
-    hasH1: boolean;
-    h2Count: number;
-    h3Count: number;
-    paragraphCount: number;
-    listCount: number;
-  };
+  readability: ReadabilityReport;
+  structure: StructureReport;
+}
+
+// A replacement of one passage of a post's title, meta description or content
+export interface ContentPatch {
+  field: "title" | "metaDescription" | "content";
+  // Where `original` sat when the patch was made; it is searched for again if the text has moved
+  selection: { start: number; end: number };
+  original: string;
+  replacement: string;
 }
 
 export interface ContentSuggestion {
@@ -81,6 +282,10 @@ export interface ContentSuggestion {
   effort: "easy" | "medium" | "hard";
   section?: string;
   suggestedChange?: string;
+  // Id of the analyzer rule the suggestion addresses
+  rule?: string;
+  // The edit itself, when the suggestion can be applied with one tap
+  patch?: ContentPatch;
 }
 
 export interface BlogMetrics {
@@ -0,0 +1,31 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { getAIRouterConfig, resetAIRouterConfig, DEFAULT_ROUTER_CONFIG } from "../api/ai-router";
+import { applyAIRouting, moveToFront, providerModel, providerOrder } from "./ai-routing";
+
+describe("ai routing settings", () => {
+  afterEach(() => resetAIRouterConfig());
+
+  test("moves a provider to the front and keeps the rest as fallbacks in order", () => {
+    expect(moveToFront(["openai", "gemini", "grok"], "grok")).toEqual(["grok", "openai", "gemini"]);
+    expect(moveToFront(["openai", "gemini", "grok"], "openai")).toEqual(["openai", "gemini", "grok"]);
+  });
+
+  test("falls back to the router defaults for tasks and providers without overrides", () => {
+    const settings = { aiPriorities: { blog: ["gemini" as const] }, aiModels: { grok: "grok-3-mini-beta" } };
+
+    expect(providerOrder(settings, "blog")).toEqual(["gemini"]);
+    expect(providerOrder(settings, "edit")).toEqual(DEFAULT_ROUTER_CONFIG.priorities.edit);
+    expect(providerModel(settings, "grok")).toBe("grok-3-mini-beta");
+    expect(providerModel(settings, "openai")).toBe(DEFAULT_ROUTER_CONFIG.models.openai);
+  });
+
+  test("replaces earlier overrides instead of layering on top of them", () => {
+    applyAIRouting({ aiPriorities: { research: ["grok", "openai"] }, aiModels: { openai: "gpt-4o-mini" } });
+    expect(getAIRouterConfig().priorities.research).toEqual(["grok", "openai"]);
+    expect(getAIRouterConfig().models.openai).toBe("gpt-4o-mini");
+
+    applyAIRouting({ aiPriorities: {}, aiModels: {} });
+    expect(getAIRouterConfig().priorities).toEqual(DEFAULT_ROUTER_CONFIG.priorities);
+    expect(getAIRouterConfig().models).toEqual(DEFAULT_ROUTER_CONFIG.models);
+  });
+});
@@ -0,0 +1,52 @@
+import { AITask, configureAIRouter, DEFAULT_ROUTER_CONFIG, resetAIRouterConfig } from "../api/ai-router";
+import { AIProvider } from "../types/ai";
+
+export const AI_PROVIDERS: AIProvider[] = ["openai", "gemini", "grok"];
+
+export const PROVIDER_LABELS: Record<AIProvider, string> = {
+  openai: "OpenAI",
+  gemini: "Gemini",
+  grok: "Grok",
+};
+
+export const TASK_LABELS: Record<AITask, string> = {
+  research: "Research",
+  outline: "Outlines",
+  blog: "Writing & Translation",
+  edit: "Editor Rewrites",
+};
+
+// Models offered for each provider; the first is the router's default
+export const MODEL_OPTIONS: Record<AIProvider, string[]> = {
+  openai: ["gpt-4o-2024-11-20", "gpt-4o-mini", "gpt-4.1"],
+  gemini: ["gemini-1.5-pro-latest", "gemini-1.5-flash-latest", "gemini-2.0-flash"],
+  grok: ["grok-3-beta", "grok-3-mini-beta"],
+};
+
+export interface AIRoutingSettings {
+  // Provider order chosen for each task; tasks left out use the router's default
+  aiPriorities: Partial<Record<AITask, AIProvider[]>>;
+  // Model chosen for each provider; providers left out use the router's default
+  aiModels: Partial<Record<AIProvider, string>>;
+}
+
+/** Providers tried for a task, in order, with the saved overrides applied. */
+export function providerOrder(settings: AIRoutingSettings, task: AITask): AIProvider[] {
+  return settings.aiPriorities[task] ?? DEFAULT_ROUTER_CONFIG.priorities[task];
+}
+
+/** Model used on a provider, with the saved overrides applied. */
+export function providerModel(settings: AIRoutingSettings, provider: AIProvider): string {
+  return settings.aiModels[provider] || DEFAULT_ROUTER_CONFIG.models[provider];
+}
+
+/** Put a provider first, keeping the others in their current order. */
+export function moveToFront(order: AIProvider[], provider: AIProvider): AIProvider[] {
+  return [provider, ...order.filter((p) => p !== provider)];
+}
+
+/** Replace the router's configuration with the defaults plus the saved overrides. */
+export function applyAIRouting({ aiPriorities, aiModels }: AIRoutingSettings) {
+  resetAIRouterConfig();
+  configureAIRouter({ priorities: aiPriorities, models: aiModels });
+}
@@ -0,0 +1,123 @@
+import { describe, expect, test } from "vitest";
+import { BlogPost } from "../types/blog";
+import { SEOResearchHistory } from "../state/seoStore";
+import { SEOResearchData } from "../api/seo-research";
+import { applyRestore, BackupImportError, createBackup, describeRestorePlan, parseBackup, planRestore } from "./backup";
+
+function post(id: string, overrides: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id,
+    title: `Post ${id}`,
+    content: "Cold brew takes time.",
+    topic: "coffee",
+    metaDescription: "",
+    keywords: ["cold brew"],
+    createdAt: new Date("2026-01-01T00:00:00Z"),
+    updatedAt: new Date("2026-02-01T00:00:00Z"),
+    status: "draft",
+    seoScore: 70,
+    wordCount: 4,
+    readingTime: 1,
+    tags: [],
+    isFavorite: false,
+    version: 1,
+    slug: `post-${id}`,
+    headings: [],
+    faqSection: [],
+    ...overrides,
+  };
+}
+
+const keyword = {
+  keyword: "cold brew",
+  searchVolume: "high",
+  difficulty: "easy",
+  intent: "informational",
+  relevanceScore: 90,
+};
+const researchData = {
+  primaryKeywords: [keyword],
+  secondaryKeywords: [],
+  longTailKeywords: [],
+  peopleAlsoAsk: [],
+  relatedSearches: [],
+  contentGaps: [],
+  searchIntent: { primary: "informational", confidence: 80, reasoning: "" },
+  competitorInsights: { commonTopics: [], missingAngles: [], contentLength: { min: 1, max: 2, recommended: 1 } },
+  seoScore: { keywordOptimization: 80, contentStructure: 80, userIntent: 80, overall: 80 },
+  locale: "de-DE",
+} as SEOResearchData;
+
+function research(id: string, usedInBlogs: string[] = []): SEOResearchHistory {
+  return { id, topic: "coffee", research: researchData, createdAt: new Date("2026-01-01T00:00:00Z"), usedInBlogs };
+}
+
+// A backup as it looks after a round trip through the export file
+const roundTrip = (blogs: BlogPost[], entries: SEOResearchHistory[] = []) =>
+  parseBackup(JSON.stringify(createBackup(blogs, entries)));
+
+describe("backup", () => {
+  test("restores dates, fills defaults and keeps fields the schema doesn't list", () => {
+    const { blogs, research: entries } = roundTrip([post("a", { locale: "fr-FR", canonicalUrl: "https://x.dev/a" })], [
+      research("r1"),
+    ]);
+
+    expect(blogs[0].createdAt).toBeInstanceOf(Date);
+    expect(blogs[0].updatedAt.toISOString()).toBe("2026-02-01T00:00:00.000Z");
+    expect(blogs[0]).toMatchObject({ locale: "fr-FR", canonicalUrl: "https://x.dev/a", slug: "post-a" });
+    expect(entries[0].createdAt).toBeInstanceOf(Date);
+    expect(entries[0].research.locale).toBe("de-DE");
+
+    const minimal = parseBackup(
+      JSON.stringify({ blogs: [{ id: "b", title: "Cold Brew", content: "Two words", createdAt: "2026-03-01" }] }),
+    );
+    expect(minimal.blogs[0]).toMatchObject({ status: "draft", tags: [], wordCount: 2, slug: "cold-brew" });
+  });
+
+  test("rejects files that don't validate, naming the entry and field", () => {
+    expect(() => parseBackup("{")).toThrow(new BackupImportError("The file is not valid JSON."));
+    expect(() => parseBackup("[]")).toThrow("This isn't a data export from this app.");
+    expect(() => parseBackup(JSON.stringify({ version: "2.0", blogs: [] }))).toThrow("newer version");
+    expect(() => parseBackup(JSON.stringify({ blogs: [post("a"), { ...post("b"), createdAt: "soon" }] }))).toThrow(
+      'Blog 2 is invalid:\n- createdAt: expected date, got "soon"',
+    );
+  });
+
+  test("plans new, updated and conflicting entries without changing anything", () => {
+    const local = [
+      post("edited-here", { content: "Newer local text.", updatedAt: new Date("2026-03-01T00:00:00Z") }),
+      post("edited-there", { updatedAt: new Date("2026-01-15T00:00:00Z") }),
+      post("same"),
+      post("local-only"),
+    ];
+    const backup = roundTrip(
+      [post("new"), post("edited-here"), post("edited-there", { content: "Backup text." }), post("same")],
+      [research("r1", ["b2"])],
+    );
+
+    const plan = planRestore(backup, { blogs: local, research: [research("r1", ["b1"])] });
+
+    expect(plan.blogs.added.map((b) => b.id)).toEqual(["new"]);
+    expect(plan.blogs.updated.map((b) => b.id)).toEqual(["edited-there"]);
+    expect(plan.blogs.conflicts.map((b) => b.id)).toEqual(["edited-here"]);
+    expect(plan.blogs).toMatchObject({ unchanged: 1, missing: 1 });
+    expect(plan.research.updated[0].usedInBlogs).toEqual(["b1", "b2"]);
+    expect(describeRestorePlan(plan).split("\n").slice(1)).toEqual([
+      "4 blogs: 1 new, 1 updated, 1 edited here since the backup, 1 unchanged. " +
+        "1 blog on this device isn't in the backup.",
+      "1 research entry: 0 new, 1 updated",
+      "Merge keeps the posts edited on this device; Replace restores the backup's copies.",
+    ]);
+
+    const merged = applyRestore(local, plan.blogs, "merge");
+    expect(merged.map((b) => b.id)).toEqual(["new", "edited-here", "edited-there", "same", "local-only"]);
+    expect(merged[1].content).toBe("Newer local text.");
+    expect(merged[2].content).toBe("Backup text.");
+    expect(applyRestore(local, plan.blogs, "replace").map((b) => b.id)).toEqual([
+      "new",
+      "edited-here",
+      "edited-there",
+      "same",
+    ]);
+  });
+});
@@ -0,0 +1,256 @@
+import { BlogPost } from "../types/blog";
+import { SEOResearchHistory } from "../state/seoStore";
+import { seoResearchSchema } from "../api/schemas";
+import { backfillBlogPost } from "./blog-post";
+import { countWords, readingTimeMinutes } from "./locale";
+import { hasTrackedChanges } from "./revisions";
+import { formatIssues, Infer, s } from "./schema";
+import { POST_STATUSES } from "./workflow";
+
+// Written as a string by the first exports; a file from a newer major version is refused
+const BACKUP_VERSION = "1.0";
+
+export interface Backup {
+  version: string;
+  exportDate: string;
+  blogs: BlogPost[];
+  research: SEOResearchHistory[];
+}
+
+export type RestoreMode = "merge" | "replace";
+
+// How a backup's entries of one kind compare with the ones on the device
+export interface CollectionPlan<T> {
+  // Every entry in the backup, what "replace" leaves behind
+  incoming: T[];
+  added: T[];
+  // The backup's copy is the newer one
+  updated: T[];
+  // The copy on the device was edited after the backup was made; "merge" keeps it
+  conflicts: T[];
+  unchanged: number;
+  // On the device but not in the backup; "replace" deletes them
+  missing: number;
+}
+
+export interface RestorePlan {
+  backup: Backup;
+  blogs: CollectionPlan<BlogPost>;
+  research: CollectionPlan<SEOResearchHistory>;
+}
+
+export class BackupImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupImportError";
+  }
+}
+
+// The fields the app relies on; anything else a post carries is kept as it is
+const blogSchema = s.object({
+  id: s.string({ min: 1 }),
+  title: s.string({ min: 1 }),
+  content: s.string(),
+  topic: s.string().optional(),
+  metaDescription: s.string().optional(),
+  keywords: s.array(s.string()).optional(),
+  tags: s.array(s.string()).optional(),
+  status: s.enum(POST_STATUSES).optional(),
+  createdAt: s.date(),
+  updatedAt: s.date().optional(),
+  scheduledAt: s.date().optional(),
+  seoScore: s.number({ min: 0, max: 100 }).optional(),
+  isFavorite: s.boolean().optional(),
+  version: s.number({ min: 1, integer: true }).optional(),
+  slug: s.string().optional(),
+  locale: s.string().optional(),
+});
+
+const researchSchema = s.object({
+  id: s.string({ min: 1 }),
+  topic: s.string({ min: 1 }),
+  research: seoResearchSchema,
+  createdAt: s.date(),
+  usedInBlogs: s.array(s.string()).optional(),
+});
+
+export function createBackup(blogs: BlogPost[], research: SEOResearchHistory[]): Backup {
+  return { version: BACKUP_VERSION, exportDate: new Date().toISOString(), blogs, research };
+}
+
+function toBlogPost(raw: object, blog: Infer<typeof blogSchema>): BlogPost {
+  return backfillBlogPost({
+    ...(raw as BlogPost),
+    ...blog,
+    topic: blog.topic ?? blog.title,
+    metaDescription: blog.metaDescription ?? "",
+    keywords: blog.keywords ?? [],
+    tags: blog.tags ?? [],
+    // A schedule without its date can't go out
+    status: blog.status === "scheduled" && !blog.scheduledAt ? "draft" : (blog.status ?? "draft"),
+    updatedAt: blog.updatedAt ?? blog.createdAt,
+    seoScore: blog.seoScore ?? 0,
+    wordCount: countWords(blog.content),
+    readingTime: readingTimeMinutes(blog.content),
+    isFavorite: blog.isFavorite ?? false,
+    version: blog.version ?? 1,
+    slug: blog.slug ?? "",
+  });
+}
+
+// Items of one list in the file, validated; a file listing an id twice keeps the last copy
+function parseItems<T extends { id: string }>(
+  items: unknown,
+  label: string,
+  parse: (item: object, index: number) => T,
+): T[] {
+  if (items === undefined) return [];
+  if (!Array.isArray(items)) throw new BackupImportError(`"${label}" should be a list.`);
+  const byId = new Map<string, T>();
+  items.forEach((item, index) => {
+    if (!item || typeof item !== "object") {
+      throw new BackupImportError(`Entry ${index + 1} in ${label} is not an object.`);
+    }
+    const parsed = parse(item, index);
+    byId.delete(parsed.id);
+    byId.set(parsed.id, parsed);
+  });
+  return [...byId.values()];
+}
+
+/**
+ * Parse the combined export written by Settings. Every post and research
+ * entry must validate or nothing is restored; dates come back as Dates.
+ */
+export function parseBackup(json: string): Backup {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new BackupImportError("The file is not valid JSON.");
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data) || !("blogs" in data || "research" in data)) {
+    throw new BackupImportError("This isn't a data export from this app.");
+  }
+
+  const file = data as { version?: unknown; exportDate?: unknown; blogs?: unknown; research?: unknown };
+  const major = Number.parseInt(String(file.version ?? BACKUP_VERSION), 10);
+  if (major > Number.parseInt(BACKUP_VERSION, 10)) {
+    throw new BackupImportError("This file was exported by a newer version of the app.");
+  }
+
+  const blogs = parseItems(file.blogs, "blogs", (item, index) => {
+    const result = blogSchema.validate(item);
+    if (!result.success) {
+      throw new BackupImportError(`Blog ${index + 1} is invalid:\n${formatIssues(result.issues)}`);
+    }
+    return toBlogPost(item, result.data);
+  });
+  const research = parseItems(file.research, "research", (item, index) => {
+    const result = researchSchema.validate(item);
+    if (!result.success) {
+      throw new BackupImportError(`Research ${index + 1} is invalid:\n${formatIssues(result.issues)}`);
+    }
+    const raw = item as SEOResearchHistory;
+    return {
+      ...result.data,
+      // Keep what the schema doesn't list, such as the research locale
+      research: { ...raw.research, ...result.data.research },
+      usedInBlogs: result.data.usedInBlogs ?? [],
+    };
+  });
+
+  return {
+    version: typeof file.version === "string" ? file.version : BACKUP_VERSION,
+    exportDate: typeof file.exportDate === "string" ? file.exportDate : "",
+    blogs,
+    research,
+  };
+}
+
+function sameBlog(a: BlogPost, b: BlogPost) {
+  return !hasTrackedChanges(a, b) && a.status === b.status && a.slug === b.slug && a.tags.join() === b.tags.join();
+}
+
+function planCollection<T extends { id: string }>(
+  incoming: T[],
+  current: T[],
+  compare: (local: T, backup: T) => "unchanged" | "updated" | "conflict",
+): CollectionPlan<T> {
+  const local = new Map(current.map((item) => [item.id, item]));
+  const plan: CollectionPlan<T> = { incoming, added: [], updated: [], conflicts: [], unchanged: 0, missing: 0 };
+  for (const item of incoming) {
+    const existing = local.get(item.id);
+    if (!existing) {
+      plan.added.push(item);
+      continue;
+    }
+    const outcome = compare(existing, item);
+    if (outcome === "unchanged") plan.unchanged++;
+    else if (outcome === "updated") plan.updated.push(item);
+    else plan.conflicts.push(item);
+  }
+  const ids = new Set(incoming.map((item) => item.id));
+  plan.missing = current.filter((item) => !ids.has(item.id)).length;
+  return plan;
+}
+
+/** Dry run: what restoring `backup` would add, update or overwrite on this device. */
+export function planRestore(
+  backup: Backup,
+  current: { blogs: BlogPost[]; research: SEOResearchHistory[] },
+): RestorePlan {
+  const blogs = planCollection(backup.blogs, current.blogs, (local, copy) => {
+    if (sameBlog(local, copy)) return "unchanged";
+    return new Date(local.updatedAt).getTime() > copy.updatedAt.getTime() ? "conflict" : "updated";
+  });
+
+  // Research isn't edited, only linked to more posts, so a restored copy keeps the links made since
+  const localResearch = new Map(current.research.map((entry) => [entry.id, entry]));
+  const research = planCollection(
+    backup.research.map((entry) => {
+      const existing = localResearch.get(entry.id);
+      if (!existing) return entry;
+      return { ...entry, usedInBlogs: [...new Set([...existing.usedInBlogs, ...entry.usedInBlogs])] };
+    }),
+    current.research,
+    (local, copy) => (JSON.stringify(local) === JSON.stringify(copy) ? "unchanged" : "updated"),
+  );
+
+  return { backup, blogs, research };
+}
+
+/** The entries to keep after restoring one kind of data with `mode`. */
+export function applyRestore<T extends { id: string }>(current: T[], plan: CollectionPlan<T>, mode: RestoreMode): T[] {
+  if (mode === "replace") return plan.incoming;
+  const updates = new Map(plan.updated.map((item) => [item.id, item]));
+  return [...plan.added, ...current.map((item) => updates.get(item.id) ?? item)];
+}
+
+function plural(count: number, [one, many]: [string, string]) {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+function describeCollection(plan: CollectionPlan<unknown>, noun: [string, string]) {
+  const parts = [`${plan.added.length} new`, `${plan.updated.length} updated`];
+  if (plan.conflicts.length > 0) parts.push(`${plan.conflicts.length} edited here since the backup`);
+  if (plan.unchanged > 0) parts.push(`${plan.unchanged} unchanged`);
+  const line = `${plural(plan.incoming.length, noun)}: ${parts.join(", ")}`;
+  if (plan.missing === 0) return line;
+  const verb = plan.missing === 1 ? "isn't" : "aren't";
+  return `${line}. ${plural(plan.missing, noun)} on this device ${verb} in the backup.`;
+}
+
+/** Dry-run summary for the restore confirmation. */
+export function describeRestorePlan(plan: RestorePlan): string {
+  const exported = new Date(plan.backup.exportDate);
+  const lines = [
+    Number.isNaN(exported.getTime()) ? "Backup" : `Backup from ${exported.toLocaleDateString()}`,
+    describeCollection(plan.blogs, ["blog", "blogs"]),
+    describeCollection(plan.research, ["research entry", "research entries"]),
+  ];
+  if (plan.blogs.conflicts.length > 0) {
+    lines.push("Merge keeps the posts edited on this device; Replace restores the backup's copies.");
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "vitest";
+import { BlogPost } from "../types/blog";
+import { blogsToCsv, markdownFiles, postToMarkdown } from "./blog-export";
+
+function post(overrides: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id: "blog-1",
+    title: 'Cold Brew: The "Slow" Way',
+    content: "# Cold Brew\n\nSteep it overnight.\n",
+    topic: "cold brew, at home",
+    metaDescription: "How to make cold brew at home.",
+    keywords: ["cold brew", "coffee"],
+    createdAt: new Date("2026-01-02T08:00:00Z"),
+    updatedAt: new Date("2026-01-03T09:30:00Z"),
+    status: "published",
+    seoScore: 88,
+    wordCount: 5,
+    readingTime: 1,
+    tags: ["drinks"],
+    isFavorite: false,
+    version: 1,
+    slug: "cold-brew-slow-way",
+    headings: [],
+    faqSection: [],
+    ...overrides,
+  };
+}
+
+describe("blog export", () => {
+  test("writes one CSV row per post with quoted fields", () => {
+    const [header, row] = blogsToCsv([post()]).split("\r\n");
+
+    expect(header).toBe(
+      "ID,Title,Slug,Status,Language,Topic,Meta Description,Keywords,Tags,Word Count,Reading Time (min),SEO Score," +
+        "Created At,Updated At",
+    );
+    expect(row).toBe(
+      'blog-1,"Cold Brew: The ""Slow"" Way",cold-brew-slow-way,published,en-US,"cold brew, at home",' +
+        "How to make cold brew at home.,cold brew; coffee,drinks,5,1,88," +
+        "2026-01-02T08:00:00.000Z,2026-01-03T09:30:00.000Z",
+    );
+  });
+
+  test("puts post metadata in YAML front matter", () => {
+    const markdown = postToMarkdown(post({ tags: [], createdAt: "2026-01-02T08:00:00.000Z" as unknown as Date }));
+
+    expect(markdown).toBe(
+      [
+        "---",
+        'title: "Cold Brew: The \\"Slow\\" Way"',
+        'slug: "cold-brew-slow-way"',
+        'description: "How to make cold brew at home."',
+        "keywords:",
+        '  - "cold brew"',
+        '  - "coffee"',
+        "tags: []",
+        "date: 2026-01-02T08:00:00.000Z",
+        "updated: 2026-01-03T09:30:00.000Z",
+        'status: "published"',
+        "---",
+        "",
+        "# Cold Brew",
+        "",
+        "Steep it overnight.",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("names files by slug, adding the language where slugs can repeat", () => {
+    const names = markdownFiles([
+      post(),
+      post({ id: "blog-2", locale: "de-DE" }),
+      post({ id: "blog-3", slug: "" }),
+      post({ id: "blog-4" }),
+    ]).map((file) => file.name);
+
+    expect(names).toEqual([
+      "cold-brew-slow-way.md",
+      "cold-brew-slow-way.de-de.md",
+      "blog-3.md",
+      "cold-brew-slow-way-2.md",
+    ]);
+  });
+});
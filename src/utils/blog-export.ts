@@ -0,0 +1,105 @@
+import { BlogPost } from "../types/blog";
+import { toCsv } from "./csv";
+import { getLocale, isDefaultLocale } from "./locale";
+import { ZipEntry } from "./zip";
+
+export type FrontMatterValue = string | number | boolean | Date | string[] | undefined;
+
+// Persisted posts carry their dates as ISO strings
+function toDate(value: Date | string) {
+  return value instanceof Date ? value : new Date(value);
+}
+
+function yamlValue(value: Exclude<FrontMatterValue, string[] | undefined>) {
+  if (value instanceof Date) return value.toISOString();
+  // A JSON string is a valid YAML double-quoted scalar, so titles with colons or quotes stay strings
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+/** YAML front matter block; undefined fields are left out and lists are written one item per line. */
+export function frontMatter(fields: Record<string, FrontMatterValue>): string {
+  const lines = ["---"];
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      lines.push(value.length === 0 ? `${key}: []` : `${key}:`);
+      value.forEach((item) => lines.push(`  - ${yamlValue(item)}`));
+    } else {
+      lines.push(`${key}: ${yamlValue(value)}`);
+    }
+  }
+  lines.push("---");
+  return lines.join("\n");
+}
+
+const CSV_HEADERS = [
+  "ID",
+  "Title",
+  "Slug",
+  "Status",
+  "Language",
+  "Topic",
+  "Meta Description",
+  "Keywords",
+  "Tags",
+  "Word Count",
+  "Reading Time (min)",
+  "SEO Score",
+  "Created At",
+  "Updated At",
+];
+
+/** One row per post with its metadata; the body is left to the Markdown export. */
+export function blogsToCsv(blogs: BlogPost[]): string {
+  return toCsv([
+    CSV_HEADERS,
+    ...blogs.map((blog) => [
+      blog.id,
+      blog.title,
+      blog.slug,
+      blog.status,
+      getLocale(blog.locale).code,
+      blog.topic,
+      blog.metaDescription,
+      blog.keywords.join("; "),
+      blog.tags.join("; "),
+      blog.wordCount,
+      blog.readingTime,
+      blog.seoScore,
+      toDate(blog.createdAt),
+      toDate(blog.updatedAt),
+    ]),
+  ]);
+}
+
+export function postToMarkdown(blog: BlogPost): string {
+  const header = frontMatter({
+    title: blog.title,
+    slug: blog.slug,
+    description: blog.metaDescription || undefined,
+    keywords: blog.keywords,
+    tags: blog.tags,
+    date: toDate(blog.createdAt),
+    updated: toDate(blog.updatedAt),
+    status: blog.status,
+    locale: blog.locale,
+    canonical: blog.canonicalUrl,
+  });
+  return `${header}\n\n${blog.content.trim()}\n`;
+}
+
+/**
+ * One Markdown file per post, named after its slug. Slugs are only unique
+ * within a language, so other languages add their code: `cold-brew.de-de.md`.
+ */
+export function markdownFiles(blogs: BlogPost[]): ZipEntry[] {
+  const used = new Set<string>();
+  return blogs.map((blog) => {
+    const base = blog.slug || blog.id;
+    const stem = isDefaultLocale(blog.locale) ? base : `${base}.${getLocale(blog.locale).code.toLowerCase()}`;
+    let name = `${stem}.md`;
+    for (let n = 2; used.has(name); n++) name = `${stem}-${n}.md`;
+    used.add(name);
+    return { name, content: postToMarkdown(blog) };
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "vitest";
+import { backfillBlogPost, blogPostFromGenerated, extractFaq, extractHeadings } from "./blog-post";
+import { BlogPost } from "../types/blog";
+
+const content = [
+  "# Cold Brew at Home",
+  "Intro.",
+  "```",
+  "# not a heading",
+  "```",
+  "## Häufig gestellte Fragen",
+  "### How long does it steep?",
+  "12 to 18 hours.",
+  "",
+  "### Which grind?",
+  "Coarse.",
+  "## Conclusion",
+  "### Not a question",
+  "Done.",
+].join("\n");
+
+describe("blog post", () => {
+  test("extracts headings outside code fences", () => {
+    expect(extractHeadings(content).map((h) => [h.level, h.text])).toEqual([
+      [1, "Cold Brew at Home"],
+      [2, "Häufig gestellte Fragen"],
+      [3, "How long does it steep?"],
+      [3, "Which grind?"],
+      [2, "Conclusion"],
+      [3, "Not a question"],
+    ]);
+    expect(extractHeadings(content)[0].anchor).toBe("cold-brew-at-home");
+  });
+
+  test("reads questions under a localized FAQ heading up to the next section", () => {
+    expect(extractFaq(content)).toEqual([
+      { question: "How long does it steep?", answer: "12 to 18 hours." },
+      { question: "Which grind?", answer: "Coarse." },
+    ]);
+    expect(extractFaq("## Steps\n### One\nDo it.")).toEqual([]);
+  });
+
+  test("backfills posts saved before headings and provenance versions existed", () => {
+    const legacy = {
+      id: "blog-1",
+      content,
+      generationData: { researchId: "", generationTime: 0, model: "gpt-4o", prompt: "cold brew" },
+    } as unknown as BlogPost;
+
+    const post = backfillBlogPost(legacy);
+    expect(post.headings).toHaveLength(6);
+    expect(post.faqSection).toHaveLength(2);
+    expect(post.generationData?.promptVersion).toBe("legacy");
+  });
+
+  test("keeps what the post was generated as, for the SEO analyzer", () => {
+    const generated = {
+      title: "Cold Brew at Home",
+      metaDescription: "",
+      content,
+      keywords: ["cold brew"],
+      headings: [],
+      seoScore: 80,
+      readingTime: 1,
+      wordCount: 30,
+      contentType: "how-to" as const,
+    };
+    const context = { topic: "cold brew", researchId: "research-1", generationTime: 1200, prompt: "cold brew" };
+
+    const post = blogPostFromGenerated(generated, context);
+    expect(post.contentType).toBe("how-to");
+    expect(post.generationData?.researchId).toBe("research-1");
+  });
+});
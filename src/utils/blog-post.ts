@@ -0,0 +1,152 @@
+import { GeneratedBlog } from "../api/blog-generator";
+import { BlogFaqItem, BlogHeading, BlogPost, GenerationProvenance } from "../types/blog";
+import { postSlug, slugify } from "./slug";
+import { parseMarkdown, walkBlocks } from "./markdown-ast";
+import { SUPPORTED_LOCALES } from "./locale";
+import { buildJsonLd, JsonLdOptions, serializeJsonLd } from "./json-ld";
+
+export interface GenerationContext {
+  topic: string;
+  researchId: string;
+  // Milliseconds the generation took
+  generationTime: number;
+  prompt: string;
+  // Site details for the JSON-LD schema; the post gets no schema without them
+  schema?: JsonLdOptions;
+}
+
+/** Markdown headings of a post, in document order. Headings inside code blocks aren't headings. */
+export function extractHeadings(content: string): BlogHeading[] {
+  const headings: BlogHeading[] = [];
+  walkBlocks(parseMarkdown(content).children, (node) => {
+    if (node.type === "heading" && node.text) {
+      headings.push({ level: node.depth, text: node.text, anchor: slugify(node.text) });
+    }
+  });
+  return headings;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "FAQ" plus the FAQ heading the generators write in each supported language
+const FAQ_HEADING = new RegExp(
+  `^#{2,3}[ \\t]+(?:faqs?|${SUPPORTED_LOCALES.map((l) => escapeRegExp(l.headings.faq)).join("|")})(?:[ \\t].*)?$`,
+  "im"
+);
+
+/** Offsets of a post's FAQ section, from its heading to the next heading at its level or above. */
+export function faqSectionRange(content: string): { start: number; end: number; level: number } | null {
+  const heading = content.match(FAQ_HEADING);
+  if (!heading || heading.index === undefined) return null;
+
+  const level = heading[0].match(/^#+/)![0].length;
+  const bodyStart = heading.index + heading[0].length;
+  const end = content.slice(bodyStart).search(new RegExp(`^#{1,${level}}\\s`, "m"));
+  return { start: heading.index, end: end >= 0 ? bodyStart + end : content.length, level };
+}
+
+/**
+ * Questions and answers from a post's FAQ section: each H3 under the FAQ
+ * heading is a question and the text below it the answer.
+ */
+export function extractFaq(content: string): BlogFaqItem[] {
+  const range = faqSectionRange(content);
+  if (!range) return [];
+
+  // Skip the heading line itself
+  const section = content.slice(range.start, range.end).replace(/^.*/, "");
+
+  return section
+    .split(/^#{3,6}\s+/m)
+    .slice(1)
+    .map((block) => {
+      const [question, ...answer] = block.split("\n");
+      return { question: question.trim(), answer: answer.join("\n").trim() };
+    })
+    .filter((faq) => faq.question && faq.answer);
+}
+
+/** Build the history entry for a freshly generated post, keeping everything the generator returned. */
+export function blogPostFromGenerated(blog: GeneratedBlog, context: GenerationContext): BlogPost {
+  const now = new Date();
+  const post: BlogPost = {
+    id: `blog-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+    title: blog.title,
+    content: blog.content,
+    topic: context.topic,
+    metaDescription: blog.metaDescription,
+    keywords: blog.keywords,
+    createdAt: now,
+    updatedAt: now,
+    status: "draft",
+    seoScore: blog.seoScore,
+    wordCount: blog.wordCount,
+    readingTime: blog.readingTime,
+    tags: [],
+    isFavorite: false,
+    version: 1,
+    slug: postSlug(blog.title, blog.locale),
+    locale: blog.locale,
+    contentType: blog.contentType,
+    headings: blog.headings.length > 0 ? blog.headings : extractHeadings(blog.content),
+    faqSection: blog.faqSection ?? extractFaq(blog.content),
+    generationData: {
+      researchId: context.researchId,
+      generationTime: context.generationTime,
+      model: blog.model ?? "unknown",
+      prompt: context.prompt,
+      provider: blog.provider,
+      promptVersion: blog.promptVersion ?? "unknown",
+      tokenUsage: blog.usage,
+    },
+  };
+  // Built from the post rather than taken from the model, which often returns invalid JSON-LD
+  return context.schema ? { ...post, schemaMarkup: serializeJsonLd(buildJsonLd(post, context.schema)) } : post;
+}
+
+/** Rebuild the stored JSON-LD after an edit. Posts saved without schema markup stay without it. */
+export function refreshSchemaMarkup(post: BlogPost, options: JsonLdOptions): BlogPost {
+  return post.schemaMarkup ? { ...post, schemaMarkup: serializeJsonLd(buildJsonLd(post, options)) } : post;
+}
+
+/**
+ * Fill in fields added to BlogPost since a post was saved: headings and FAQ
+ * are recovered from the markdown, the slug is made from the title, and
+ * provenance is marked "legacy". Slugs aren't made unique here.
+ */
+export function backfillBlogPost(post: BlogPost): BlogPost {
+  return {
+    ...post,
+    slug: post.slug || postSlug(post.title ?? "", post.locale) || post.id,
+    headings: post.headings ?? extractHeadings(post.content ?? ""),
+    faqSection: post.faqSection ?? extractFaq(post.content ?? ""),
+    generationData: post.generationData && {
+      ...post.generationData,
+      promptVersion: post.generationData.promptVersion ?? "legacy",
+    },
+  };
+}
+
+/** Label/value rows describing how a post was generated, for the Preview and Edit screens. */
+export function provenanceDetails(data: GenerationProvenance): Array<{ label: string; value: string }> {
+  const rows = [
+    { label: "Model", value: data.provider ? `${data.model} (${data.provider})` : data.model },
+    { label: "Prompt version", value: data.promptVersion },
+  ];
+  if (data.generationTime > 0) {
+    rows.push({ label: "Duration", value: `${(data.generationTime / 1000).toFixed(1)}s` });
+  }
+  if (data.tokenUsage) {
+    const { promptTokens, completionTokens, totalTokens } = data.tokenUsage;
+    rows.push({
+      label: "Tokens",
+      value: `${totalTokens.toLocaleString()} (${promptTokens.toLocaleString()} in / ${completionTokens.toLocaleString()} out)`,
+    });
+  }
+  if (data.researchId) {
+    rows.push({ label: "Research", value: data.researchId });
+  }
+  return rows;
+}
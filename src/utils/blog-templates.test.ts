@@ -0,0 +1,35 @@
+import { describe, expect, test } from "vitest";
+import { BUILT_IN_TEMPLATES, CONTENT_TYPES, parseTemplates, serializeTemplates, templateSkeleton } from "./blog-templates";
+
+const howTo = BUILT_IN_TEMPLATES.find((t) => t.category === "how-to")!;
+
+describe("blog templates", () => {
+  test("ships one built-in template per content type", () => {
+    expect(BUILT_IN_TEMPLATES.map((t) => t.category).sort()).toEqual([...CONTENT_TYPES].sort());
+  });
+
+  test("renders the section skeleton with an unheaded introduction", () => {
+    const skeleton = templateSkeleton(howTo).split("\n");
+
+    expect(skeleton[0]).toBe(
+      "1. (no heading, introduction): prose paragraphs. The problem, who this guide is for and the end result",
+    );
+    expect(skeleton[1]).toBe("2. ## What You'll Need: a bulleted or numbered list. Tools, accounts and prerequisites");
+    expect(skeleton).toHaveLength(howTo.structure.sections.length);
+  });
+
+  test("round-trips through export and marks imports as custom", () => {
+    const [imported] = parseTemplates(serializeTemplates([howTo]));
+
+    expect(imported).toEqual({ ...howTo, isCustom: true });
+  });
+
+  test("rejects invalid templates with field-level errors", () => {
+    const broken = { ...howTo, category: "poem", structure: { sections: [{ title: "", type: "table" }] } };
+
+    expect(() => parseTemplates(JSON.stringify([broken]))).toThrow(
+      /Template 1 is invalid:[\s\S]*sections\[0\]\.type: expected one of[\s\S]*category: expected one of/,
+    );
+    expect(() => parseTemplates("not json")).toThrow("The file is not valid JSON.");
+  });
+});
@@ -0,0 +1,226 @@
+import { BlogTemplate } from "../types/blog";
+import { formatIssues, s, Schema } from "./schema";
+
+export const CONTENT_TYPES = ["how-to", "listicle", "review", "comparison", "guide", "news"] as const;
+
+export type ContentType = (typeof CONTENT_TYPES)[number];
+
+export type TemplateSection = BlogTemplate["structure"]["sections"][number];
+
+const TEMPLATE_EXPORT_VERSION = 1;
+
+function section(
+  type: TemplateSection["type"],
+  title: string,
+  placeholder?: string,
+): TemplateSection {
+  return placeholder ? { title, type, placeholder } : { title, type };
+}
+
+export const BUILT_IN_TEMPLATES: BlogTemplate[] = [
+  {
+    id: "builtin-how-to",
+    name: "Step-by-Step How-To",
+    description: "Walk readers through a task from prerequisites to a finished result.",
+    category: "how-to",
+    tags: ["tutorial", "steps"],
+    isCustom: false,
+    structure: {
+      sections: [
+        section("paragraph", "Introduction", "The problem, who this guide is for and the end result"),
+        section("list", "What You'll Need", "Tools, accounts and prerequisites"),
+        section("heading", "Step-by-Step Instructions", "One H3 per step, each with the why as well as the how"),
+        section("list", "Common Mistakes to Avoid"),
+        section("heading", "Troubleshooting"),
+        section("faq", "Frequently Asked Questions"),
+        section("cta", "Next Steps"),
+      ],
+    },
+  },
+  {
+    id: "builtin-listicle",
+    name: "Numbered Listicle",
+    description: "A ranked or curated list where every item gets its own scannable section.",
+    category: "listicle",
+    tags: ["list", "roundup"],
+    isCustom: false,
+    structure: {
+      sections: [
+        section("paragraph", "Introduction", "Why this list matters and how items were chosen"),
+        section("heading", "The List", "One numbered H3 per item with a short verdict and key details"),
+        section("paragraph", "How to Choose", "Decision criteria that help readers pick"),
+        section("faq", "Frequently Asked Questions"),
+        section("cta", "Conclusion"),
+      ],
+    },
+  },
+  {
+    id: "builtin-review",
+    name: "In-Depth Review",
+    description: "A hands-on product or service review ending in a clear verdict.",
+    category: "review",
+    tags: ["review", "verdict"],
+    isCustom: false,
+    structure: {
+      sections: [
+        section("paragraph", "Overview", "What it is, who makes it and the headline verdict"),
+        section("list", "Key Features"),
+        section("heading", "Hands-On Experience", "Setup, day-to-day use and performance"),
+        section("list", "Pros and Cons"),
+        section("heading", "Pricing and Value"),
+        section("heading", "Alternatives"),
+        section("faq", "Frequently Asked Questions"),
+        section("cta", "Final Verdict"),
+      ],
+    },
+  },
+  {
+    id: "builtin-comparison",
+    name: "Head-to-Head Comparison",
+    description: "Compare options side by side and recommend one per use case.",
+    category: "comparison",
+    tags: ["versus", "comparison"],
+    isCustom: false,
+    structure: {
+      sections: [
+        section("paragraph", "Introduction", "The options being compared and the short answer"),
+        section("list", "Comparison at a Glance", "A markdown table of the key criteria"),
+        section("heading", "Feature-by-Feature Breakdown", "One H3 per criterion"),
+        section("heading", "Pricing"),
+        section("list", "Which One Should You Choose?", "Recommendations by use case"),
+        section("faq", "Frequently Asked Questions"),
+        section("cta", "Conclusion"),
+      ],
+    },
+  },
+  {
+    id: "builtin-guide",
+    name: "Ultimate Guide",
+    description: "A comprehensive pillar article that covers a topic end to end.",
+    category: "guide",
+    tags: ["pillar", "evergreen"],
+    isCustom: false,
+    structure: {
+      sections: [
+        section("paragraph", "Introduction", "Hook, scope and what the reader will learn"),
+        section("heading", "What Is It and Why It Matters"),
+        section("heading", "Core Concepts"),
+        section("heading", "Strategies and Best Practices"),
+        section("list", "Tools and Resources"),
+        section("heading", "Real-World Examples"),
+        section("faq", "Frequently Asked Questions"),
+        section("cta", "Conclusion"),
+      ],
+    },
+  },
+  {
+    id: "builtin-news",
+    name: "News Article",
+    description: "Inverted-pyramid news coverage: the facts first, context and impact after.",
+    category: "news",
+    tags: ["news", "timely"],
+    isCustom: false,
+    structure: {
+      sections: [
+        section("paragraph", "Lead", "Who, what, when, where and why in two or three sentences"),
+        section("list", "Key Takeaways"),
+        section("heading", "Background"),
+        section("heading", "What It Means", "Impact on readers and the industry"),
+        section("heading", "What Happens Next"),
+        section("cta", "Stay Informed"),
+      ],
+    },
+  },
+];
+
+const SECTION_INSTRUCTIONS: Record<TemplateSection["type"], string> = {
+  heading: "an H2 section of prose, split into H3 subsections where useful",
+  paragraph: "prose paragraphs",
+  list: "a bulleted or numbered list",
+  faq: "an FAQ section with each question as an H3 and a concise answer",
+  cta: "a closing section that ends with a clear call to action",
+};
+
+/**
+ * Render a template as the required-structure block of a generation prompt.
+ * The first paragraph section is treated as the introduction and gets no H2.
+ */
+export function templateSkeleton(template: BlogTemplate): string {
+  const lines = template.structure.sections.map((section, index) => {
+    const heading = index === 0 && section.type === "paragraph" ? "(no heading, introduction)" : `## ${section.title}`;
+    const guidance = [section.placeholder, section.content].filter(Boolean).join(". ");
+    return `${index + 1}. ${heading}: ${SECTION_INSTRUCTIONS[section.type]}${guidance ? `. ${guidance}` : ""}`;
+  });
+  return lines.join("\n");
+}
+
+const templateSchema: Schema<BlogTemplate> = s.object({
+  id: s.string({ min: 1 }),
+  name: s.string({ min: 1, max: 80 }),
+  description: s.string({ max: 300 }),
+  structure: s.object({
+    sections: s.array(
+      s.object({
+        title: s.string({ min: 1 }),
+        type: s.enum(["heading", "paragraph", "list", "faq", "cta"] as const),
+        content: s.string().optional(),
+        placeholder: s.string().optional(),
+      }),
+      { min: 1 },
+    ),
+  }),
+  category: s.enum(CONTENT_TYPES),
+  tags: s.array(s.string()),
+  isCustom: s.boolean(),
+});
+
+export class TemplateImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateImportError";
+  }
+}
+
+export function serializeTemplates(templates: BlogTemplate[]): string {
+  return JSON.stringify(
+    { version: TEMPLATE_EXPORT_VERSION, exportedAt: new Date().toISOString(), templates },
+    null,
+    2,
+  );
+}
+
+/**
+ * Parse templates from an export file. Accepts the export envelope, a bare
+ * array or a single template. Every template must validate or nothing is
+ * imported; imported templates are always marked custom.
+ */
+export function parseTemplates(json: string): BlogTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new TemplateImportError("The file is not valid JSON.");
+  }
+
+  const envelope = data as { version?: unknown; templates?: unknown };
+  if (envelope && typeof envelope === "object" && "templates" in envelope) {
+    if (typeof envelope.version === "number" && envelope.version > TEMPLATE_EXPORT_VERSION) {
+      throw new TemplateImportError("This file was exported by a newer version of the app.");
+    }
+    data = envelope.templates;
+  }
+  const items = Array.isArray(data) ? data : [data];
+  if (items.length === 0) {
+    throw new TemplateImportError("The file doesn't contain any templates.");
+  }
+
+  return items.map((item, index) => {
+    // Imported templates are custom no matter how they were exported
+    const candidate = item && typeof item === "object" ? { ...item, isCustom: true } : item;
+    const result = templateSchema.validate(candidate);
+    if (!result.success) {
+      throw new TemplateImportError(`Template ${index + 1} is invalid:\n${formatIssues(result.issues)}`);
+    }
+    return result.data;
+  });
+}
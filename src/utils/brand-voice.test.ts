@@ -0,0 +1,43 @@
+import { describe, expect, test } from "vitest";
+import { brandVoicePrompt, findBannedWords } from "./brand-voice";
+import { BrandVoiceProfile } from "../types/blog";
+
+const profile: BrandVoiceProfile = {
+  id: "voice-1",
+  name: "Acme",
+  styleDescription: "Warm and direct",
+  preferredWords: ["practical"],
+  bannedWords: ["leverage", "game-changer"],
+  sampleParagraphs: ["We keep it simple.  "],
+  readingLevel: "high-school",
+  audiencePersona: "Small-business owners",
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+};
+
+describe("brand voice", () => {
+  test("renders every part of the profile into the prompt", () => {
+    expect(brandVoicePrompt(profile)).toBe(
+      [
+        "BRAND VOICE (Acme):",
+        "- Style: Warm and direct",
+        "- Audience: Small-business owners",
+        "- Reading level: high-school - clear, conversational sentences (Flesch 60-70)",
+        "- Prefer these words and phrases: practical",
+        "- NEVER use these words or phrases: leverage, game-changer",
+        "- Match the voice of these sample paragraphs (style only, don't reuse their content):",
+        '  """We keep it simple."""',
+      ].join("\n"),
+    );
+  });
+
+  test("flags whole-word banned terms case-insensitively", () => {
+    const content = "Leverage this game-changer. We leveraged it, then leverage again (a Game-Changer!)";
+
+    expect(findBannedWords(content, profile.bannedWords)).toEqual([
+      { word: "leverage", count: 2 },
+      { word: "game-changer", count: 2 },
+    ]);
+    expect(findBannedWords("Nothing to see", profile.bannedWords)).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { BrandVoiceProfile, ReadingLevel } from "../types/blog";
+
+export const READING_LEVELS: Array<{ level: ReadingLevel; label: string; guidance: string }> = [
+  { level: "elementary", label: "Elementary", guidance: "very short sentences and everyday words (Flesch 80+)" },
+  { level: "middle-school", label: "Middle school", guidance: "short sentences and plain language (Flesch 70-80)" },
+  { level: "high-school", label: "High school", guidance: "clear, conversational sentences (Flesch 60-70)" },
+  { level: "college", label: "College", guidance: "richer vocabulary and longer sentences where needed (Flesch 50-60)" },
+  { level: "professional", label: "Professional", guidance: "precise industry terminology for expert readers (Flesch 30-50)" },
+];
+
+export interface BannedWordMatch {
+  word: string;
+  count: number;
+}
+
+function readingGuidance(level: ReadingLevel) {
+  return READING_LEVELS.find((l) => l.level === level)?.guidance ?? "";
+}
+
+/** Render a brand voice profile as a prompt block. */
+export function brandVoicePrompt(profile: BrandVoiceProfile): string {
+  const lines = [
+    `BRAND VOICE (${profile.name}):`,
+    `- Style: ${profile.styleDescription}`,
+    `- Audience: ${profile.audiencePersona}`,
+    `- Reading level: ${profile.readingLevel} - ${readingGuidance(profile.readingLevel)}`,
+  ];
+  if (profile.preferredWords.length > 0) {
+    lines.push(`- Prefer these words and phrases: ${profile.preferredWords.join(", ")}`);
+  }
+  if (profile.bannedWords.length > 0) {
+    lines.push(`- NEVER use these words or phrases: ${profile.bannedWords.join(", ")}`);
+  }
+  if (profile.sampleParagraphs.length > 0) {
+    lines.push(
+      "- Match the voice of these sample paragraphs (style only, don't reuse their content):",
+      ...profile.sampleParagraphs.map((sample) => `  """${sample.trim()}"""`),
+    );
+  }
+  return lines.join("\n");
+}
+
+// Letters (including accented Latin) and digits; a character class avoids relying on \p{L} support
+const WORD_CHARS = "A-Za-z0-9\\u00C0-\\u024F";
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find banned words or phrases that made it into generated text. Matching is
+ * case-insensitive on whole words, so banning "leverage" doesn't flag
+ * "leveraged" but does flag "Leverage".
+ */
+export function findBannedWords(content: string, bannedWords: string[]): BannedWordMatch[] {
+  const matches: BannedWordMatch[] = [];
+  for (const word of bannedWords) {
+    const trimmed = word.trim();
+    if (!trimmed) continue;
+    const pattern = new RegExp(`(?:^|[^${WORD_CHARS}])${escapeRegExp(trimmed)}(?![${WORD_CHARS}])`, "gi");
+    const count = content.match(pattern)?.length ?? 0;
+    if (count > 0) matches.push({ word: trimmed, count });
+  }
+  return matches;
+}
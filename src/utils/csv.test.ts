@@ -0,0 +1,20 @@
+import { describe, expect, test } from "vitest";
+import { toCsv } from "./csv";
+
+describe("csv", () => {
+  test("quotes fields with commas, quotes, line breaks or edge spaces", () => {
+    const csv = toCsv([
+      ["Topic", "Notes", "Score"],
+      ["Coffee, tea and more", 'Say "hi"', 90],
+      ["Line\nbreak", " padded", null],
+    ]);
+
+    expect(csv).toBe(
+      'Topic,Notes,Score\r\n"Coffee, tea and more","Say ""hi""",90\r\n"Line\nbreak"," padded",\r\n',
+    );
+  });
+
+  test("writes dates as ISO timestamps", () => {
+    expect(toCsv([[new Date("2026-05-01T10:00:00Z"), true]])).toBe("2026-05-01T10:00:00.000Z,true\r\n");
+  });
+});
@@ -0,0 +1,15 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Fields holding a delimiter, a quote or a line break have to be quoted
+const NEEDS_QUOTES = /[",\r\n]/;
+
+function csvField(value: CsvValue) {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return NEEDS_QUOTES.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV: quoted fields where needed, quotes doubled, CRLF line endings. */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
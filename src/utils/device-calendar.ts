@@ -0,0 +1,64 @@
+import * as Calendar from "expo-calendar";
+import { Platform } from "react-native";
+import { BlogPost } from "../types/blog";
+import { calendarDate } from "./schedule";
+
+// The app keeps its entries in a calendar of its own, so exporting again can replace them wholesale
+const CALENDAR_TITLE = "Blog Schedule";
+const CALENDAR_COLOR = "#667eea";
+const EVENT_MINUTES = 30;
+
+export class CalendarExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarExportError";
+  }
+}
+
+async function calendarSource(): Promise<Partial<Calendar.Calendar>> {
+  if (Platform.OS === "ios") {
+    const fallback = await Calendar.getDefaultCalendarAsync();
+    return { sourceId: fallback.source.id, source: fallback.source };
+  }
+  return { source: { isLocalAccount: true, name: CALENDAR_TITLE, type: Calendar.SourceType.LOCAL } };
+}
+
+/**
+ * Put the scheduled and published posts in the device's "Blog Schedule"
+ * calendar, replacing what an earlier export put there. Resolves with the
+ * number of entries.
+ */
+export async function exportToDeviceCalendar(posts: BlogPost[]): Promise<number> {
+  const { granted } = await Calendar.requestCalendarPermissionsAsync();
+  if (!granted) {
+    throw new CalendarExportError("Allow calendar access in the device settings to export the schedule.");
+  }
+
+  const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+  for (const previous of calendars.filter((calendar) => calendar.title === CALENDAR_TITLE)) {
+    await Calendar.deleteCalendarAsync(previous.id);
+  }
+  const calendarId = await Calendar.createCalendarAsync({
+    title: CALENDAR_TITLE,
+    name: CALENDAR_TITLE,
+    color: CALENDAR_COLOR,
+    entityType: Calendar.EntityTypes.EVENT,
+    accessLevel: Calendar.CalendarAccessLevel.OWNER,
+    ownerAccount: "personal",
+    ...(await calendarSource()),
+  });
+
+  let count = 0;
+  for (const post of posts) {
+    const start = calendarDate(post);
+    if (!start) continue;
+    await Calendar.createEventAsync(calendarId, {
+      title: post.status === "scheduled" ? `Publish: ${post.title}` : post.title,
+      startDate: start,
+      endDate: new Date(start.getTime() + EVENT_MINUTES * 60 * 1000),
+      notes: post.metaDescription,
+    });
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "vitest";
+import { diffLines, diffPosts, diffWords } from "./diff";
+
+describe("diffWords", () => {
+  test("marks replaced words as a deletion followed by an insertion", () => {
+    expect(diffWords("The quick brown fox.", "The slow brown fox jumps.")).toEqual([
+      { type: "equal", text: "The" },
+      { type: "delete", text: " quick" },
+      { type: "insert", text: " slow" },
+      { type: "equal", text: " brown fox" },
+      { type: "insert", text: " jumps" },
+      { type: "equal", text: "." },
+    ]);
+  });
+
+  test("handles empty and identical texts", () => {
+    expect(diffWords("", "")).toEqual([]);
+    expect(diffWords("same text", "same text")).toEqual([{ type: "equal", text: "same text" }]);
+    expect(diffWords("", "new")).toEqual([{ type: "insert", text: "new" }]);
+    expect(diffWords("old", "")).toEqual([{ type: "delete", text: "old" }]);
+  });
+
+  test("reassembles both sides of the diff", () => {
+    const before = "One two three four five six seven.\n\nEight nine ten.";
+    const after = "One 2 three five six, seven and eight.\n\nNine ten!";
+    const segments = diffWords(before, after);
+    const side = (skip: string) =>
+      segments
+        .filter((s) => s.type !== skip)
+        .map((s) => s.text)
+        .join("");
+    expect(side("insert")).toBe(before);
+    expect(side("delete")).toBe(after);
+  });
+});
+
+describe("diffLines", () => {
+  test("compares whole lines and keeps their newlines", () => {
+    expect(diffLines("# Title\nFirst.\nSecond.\n", "# Title\nFirst, edited.\nSecond.")).toEqual([
+      { type: "equal", text: "# Title\n" },
+      { type: "delete", text: "First.\nSecond.\n" },
+      { type: "insert", text: "First, edited.\nSecond." },
+    ]);
+  });
+});
+
+describe("diffPosts", () => {
+  // Distinct words, so no two texts built from different seeds share any
+  const words = (seed: string, count: number) =>
+    Array.from({ length: count }, (_, i) => `${seed}${i}${i % 12 === 11 ? ".\n" : " "}`).join("");
+
+  test("keeps word granularity for a long post with a few edits", () => {
+    const before = words("w", 2500);
+    const after = before.replace("w100 ", "changed ").replace("w2000 ", "");
+    const { segments, granularity } = diffPosts(before, after, "words");
+    expect(granularity).toBe("words");
+    expect(segments.filter((s) => s.type !== "equal")).toEqual([
+      { type: "delete", text: " w100" },
+      { type: "insert", text: " changed" },
+      { type: "delete", text: " w2000" },
+    ]);
+  });
+
+  test("falls back to lines, then to replacing the post, as the texts grow apart", () => {
+    const before = words("a", 2500);
+    const rewritten = diffPosts(before, words("b", 2500), "words");
+    expect(rewritten.granularity).toBe("lines");
+    expect(rewritten.segments.map((s) => s.type)).toEqual(["delete", "insert"]);
+
+    // A word per line, so even the line diff has thousands of edits to make
+    const listed = (seed: string) => words(seed, 2500).replace(/ /g, "\n");
+    const replaced = diffPosts(listed("a"), listed("b"), "words");
+    expect(replaced.granularity).toBe("replaced");
+    expect(replaced.segments.map((s) => [s.type, s.text === listed(s.type === "delete" ? "a" : "b")])).toEqual([
+      ["delete", true],
+      ["insert", true],
+    ]);
+    expect(diffWords(listed("a"), listed("b")).map((s) => s.type)).toEqual(["delete", "insert"]);
+  });
+});
@@ -0,0 +1,158 @@
+export interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+// Words and single punctuation marks, each with the whitespace before it, so a diff never splits a word
+// and spaces don't count as edits of their own
+function tokenize(text: string) {
+  return text.match(/\s*(?:[^\s.,;:!?()"]+|[^\s])|\s+/g) ?? [];
+}
+
+// Lines with their trailing newline, so joining the tokens gives back the text
+function splitLines(text: string) {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function push(segments: DiffSegment[], type: DiffSegment["type"], text: string) {
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+// Past this many token edits a diff is mostly noise, and the trace below grows with its square
+const MAX_EDITS = 1000;
+
+/**
+ * Diff two token lists using Myers' O(ND) algorithm, so long posts with few
+ * changes stay fast. Adjacent tokens of the same kind are merged, and
+ * deletions come before insertions at each change. Returns null when the
+ * lists differ by more than MAX_EDITS tokens.
+ */
+function diffTokens(a: string[], b: string[]): DiffSegment[] | null {
+  // The unchanged start and end of the texts don't need searching
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+  const head = a.slice(0, start).join("");
+  const tail = a.slice(a.length - end).join("");
+  a = a.slice(start, a.length - end);
+  b = b.slice(start, b.length - end);
+
+  const max = Math.min(a.length + b.length, MAX_EDITS);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 2);
+  // Only diagonals -d..d are reachable after d edits, so each snapshot keeps just that window
+  const trace: Int32Array[] = [];
+  let found = a.length === 0 && b.length === 0;
+
+  search: for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      // Extend the furthest-reaching path from diagonal k+1 (an insertion) or k-1 (a deletion)
+      const down = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]);
+      let x = down ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        found = true;
+        break search;
+      }
+    }
+  }
+  if (!found) return null;
+
+  // Walk the trace backwards to recover the edit script
+  const reversed: DiffSegment[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[d + k - 1] < vd[d + k + 1]) ? k + 1 : k - 1;
+    const prevX = d > 0 ? vd[d + prevK] : 0;
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: "equal", text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        reversed.push({ type: "insert", text: b[--y] });
+      } else {
+        reversed.push({ type: "delete", text: a[--x] });
+      }
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  if (head) push(segments, "equal", head);
+  let pendingDelete = "";
+  let pendingInsert = "";
+  const flush = () => {
+    if (pendingDelete) push(segments, "delete", pendingDelete);
+    if (pendingInsert) push(segments, "insert", pendingInsert);
+    pendingDelete = "";
+    pendingInsert = "";
+  };
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    const segment = reversed[i];
+    if (segment.type === "equal") {
+      flush();
+      push(segments, "equal", segment.text);
+    } else if (segment.type === "delete") {
+      pendingDelete += segment.text;
+    } else {
+      pendingInsert += segment.text;
+    }
+  }
+  flush();
+  if (tail) push(segments, "equal", tail);
+  return segments;
+}
+
+// Shows the whole text as swapped out, for texts too far apart to diff
+function replaced(before: string, after: string): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  if (before) segments.push({ type: "delete", text: before });
+  if (after) segments.push({ type: "insert", text: after });
+  return segments;
+}
+
+/** Word-level diff, for comparing passages and prose edits. Texts too far apart come back as replaced entirely. */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  return diffTokens(tokenize(before), tokenize(after)) ?? replaced(before, after);
+}
+
+/** Line-level diff, for comparing whole posts where paragraphs moved or were rewritten. */
+export function diffLines(before: string, after: string): DiffSegment[] {
+  return diffTokens(splitLines(before), splitLines(after)) ?? replaced(before, after);
+}
+
+export type DiffGranularity = "words" | "lines" | "replaced";
+
+/**
+ * Diff two posts at the granularity asked for, falling back to lines when
+ * too many words changed, and to replaced entirely when too many lines did.
+ */
+export function diffPosts(
+  before: string,
+  after: string,
+  granularity: "words" | "lines",
+): { segments: DiffSegment[]; granularity: DiffGranularity } {
+  if (granularity === "words") {
+    const words = diffTokens(tokenize(before), tokenize(after));
+    if (words) return { segments: words, granularity: "words" };
+  }
+  const lines = diffTokens(splitLines(before), splitLines(after));
+  if (lines) return { segments: lines, granularity: "lines" };
+  return { segments: replaced(before, after), granularity: "replaced" };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "vitest";
+import { hreflangAlternates, hreflangLinkTags, hreflangSitemap, isValidCanonicalUrl } from "./hreflang";
+import { BlogPost } from "../types/blog";
+import { slugify } from "./slug";
+
+function post(id: string, title: string, locale?: string, extra: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id,
+    title,
+    content: "",
+    topic: "coffee",
+    metaDescription: "",
+    keywords: [],
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    status: "draft",
+    seoScore: 0,
+    wordCount: 0,
+    readingTime: 0,
+    tags: [],
+    isFavorite: false,
+    version: 1,
+    slug: slugify(title),
+    locale,
+    headings: [],
+    faqSection: [],
+    translationGroupId: "blog-1",
+    ...extra,
+  };
+}
+
+const group = [
+  post("blog-2", "Kaffee & Mühlen", "de-DE", { translatedFromId: "blog-1" }),
+  post("blog-1", "Coffee Grinders", undefined),
+  post("blog-3", "コーヒーミル", "ja-JP", { translatedFromId: "blog-1" }),
+];
+
+describe("hreflang", () => {
+  test("lists every language plus x-default for the original", () => {
+    expect(hreflangAlternates(group, "https://example.com/")).toEqual([
+      { hreflang: "de-DE", url: "https://example.com/de-de/kaffee-m%C3%BChlen" },
+      { hreflang: "en-US", url: "https://example.com/en-us/coffee-grinders" },
+      { hreflang: "ja-JP", url: "https://example.com/ja-jp/%E3%82%B3%E3%83%BC%E3%83%92%E3%83%BC%E3%83%9F%E3%83%AB" },
+      { hreflang: "x-default", url: "https://example.com/en-us/coffee-grinders" },
+    ]);
+  });
+
+  test("keeps the most recently updated post when a language repeats", () => {
+    const newer = post("blog-4", "Kaffeemühlen", "de-DE", { updatedAt: new Date(1000), translatedFromId: "blog-1" });
+    const alternates = hreflangAlternates([...group, newer], "https://example.com");
+    expect(alternates.find((a) => a.hreflang === "de-DE")?.url).toBe("https://example.com/de-de/kaffeem%C3%BChlen");
+    expect(alternates).toHaveLength(4);
+  });
+
+  test("uses the post's slug, and its canonical URL when one is set", () => {
+    const custom = post("blog-1", "Coffee Grinders", undefined, { slug: "best-grinders" });
+    const syndicated = post("blog-2", "Kaffee & Mühlen", "de-DE", {
+      canonicalUrl: " https://medium.com/@sam/muehlen ",
+    });
+    expect(hreflangAlternates([custom, syndicated], "https://example.com")).toEqual([
+      { hreflang: "de-DE", url: "https://medium.com/@sam/muehlen" },
+      { hreflang: "en-US", url: "https://example.com/en-us/best-grinders" },
+      { hreflang: "x-default", url: "https://example.com/en-us/best-grinders" },
+    ]);
+    expect(isValidCanonicalUrl("https://example.com/post")).toBe(true);
+    expect(isValidCanonicalUrl("example.com/post")).toBe(false);
+  });
+
+  test("renders link tags and a sitemap entry per translation", () => {
+    const alternates = hreflangAlternates(group.slice(0, 2), "https://example.com");
+    expect(hreflangLinkTags(alternates)).toBe(
+      [
+        '<link rel="alternate" hreflang="de-DE" href="https://example.com/de-de/kaffee-m%C3%BChlen" />',
+        '<link rel="alternate" hreflang="en-US" href="https://example.com/en-us/coffee-grinders" />',
+        '<link rel="alternate" hreflang="x-default" href="https://example.com/en-us/coffee-grinders" />',
+      ].join("\n"),
+    );
+    const sitemap = hreflangSitemap(alternates);
+    expect(sitemap.match(/<url>/g)).toHaveLength(2);
+    expect(sitemap.match(/<xhtml:link /g)).toHaveLength(6);
+  });
+});
@@ -0,0 +1,86 @@
+import { BlogPost } from "../types/blog";
+import { DEFAULT_LOCALE, getLocale } from "./locale";
+import { slugify } from "./slug";
+
+export interface HreflangAlternate {
+  // BCP 47 locale, or "x-default" for the version served to unmatched languages
+  hreflang: string;
+  url: string;
+}
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export type PostAddress = Pick<BlogPost, "id" | "title" | "locale"> & Partial<Pick<BlogPost, "slug" | "canonicalUrl">>;
+
+/**
+ * Public URL of a post: `<site>/<locale>/<slug>`, e.g. https://example.com/de-de/mein-beitrag.
+ * Posts without a slug yet are addressed by their title.
+ */
+export function postUrl(siteUrl: string, post: PostAddress) {
+  const base = siteUrl.trim().replace(/\/+$/, "");
+  const locale = getLocale(post.locale).code.toLowerCase();
+  return `${base}/${locale}/${encodeURI(post.slug || slugify(post.title) || post.id)}`;
+}
+
+/** The URL search engines should index for a post: its canonical URL when set, otherwise its own. */
+export function canonicalUrl(siteUrl: string, post: PostAddress) {
+  return post.canonicalUrl?.trim() || postUrl(siteUrl, post);
+}
+
+/** Whether `url` can be used as a canonical URL: absolute http(s) with a host. */
+export function isValidCanonicalUrl(url: string) {
+  return /^https?:\/\/[^\s/?#]+\.[^\s/?#]+(?:[/?#]\S*)?$/i.test(url.trim());
+}
+
+/**
+ * One alternate per language in a translation group, plus x-default pointing
+ * at the original post. If a language appears twice, the most recently
+ * updated post wins.
+ */
+export function hreflangAlternates(posts: BlogPost[], siteUrl: string): HreflangAlternate[] {
+  const byLocale = new Map<string, BlogPost>();
+  for (const post of posts) {
+    const locale = getLocale(post.locale).code;
+    const existing = byLocale.get(locale);
+    if (!existing || new Date(post.updatedAt).getTime() > new Date(existing.updatedAt).getTime()) {
+      byLocale.set(locale, post);
+    }
+  }
+  if (byLocale.size === 0) return [];
+
+  const alternates = [...byLocale.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([hreflang, post]) => ({ hreflang, url: canonicalUrl(siteUrl, post) }));
+  const original =
+    posts.find((p) => !p.translatedFromId && byLocale.get(getLocale(p.locale).code) === p) ??
+    byLocale.get(DEFAULT_LOCALE) ??
+    byLocale.values().next().value!;
+  return [...alternates, { hreflang: "x-default", url: canonicalUrl(siteUrl, original) }];
+}
+
+/** `<link rel="alternate">` tags for the `<head>` of every page in the group. */
+export function hreflangLinkTags(alternates: HreflangAlternate[]) {
+  return alternates
+    .map(({ hreflang, url }) => `<link rel="alternate" hreflang="${hreflang}" href="${escapeXml(url)}" />`)
+    .join("\n");
+}
+
+/** XML sitemap listing each translation with all of its alternates, as search engines expect. */
+export function hreflangSitemap(alternates: HreflangAlternate[]) {
+  const links = alternates
+    .map(({ hreflang, url }) => `    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${escapeXml(url)}" />`)
+    .join("\n");
+  const urls = alternates
+    .filter((a) => a.hreflang !== "x-default")
+    .map(({ url }) => `  <url>\n    <loc>${escapeXml(url)}</loc>\n${links}\n  </url>`)
+    .join("\n");
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    urls,
+    "</urlset>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,138 @@
+import { describe, expect, test } from "vitest";
+import { buildJsonLd, JsonLdNode, validateJsonLd } from "./json-ld";
+import { BlogPost } from "../types/blog";
+
+function post(extra: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id: "blog-1",
+    title: "How to Brew Cold Brew",
+    content: [
+      "# How to Brew Cold Brew",
+      "## Grind the beans",
+      "Use a **coarse** grind.",
+      "## Steep overnight",
+      "Leave it for 12 hours.",
+      "## Conclusion",
+      "Enjoy.",
+    ].join("\n"),
+    topic: "cold brew",
+    metaDescription: "Make smooth cold brew at home.",
+    keywords: ["cold brew", "coffee"],
+    createdAt: new Date("2026-01-02T03:04:05Z"),
+    updatedAt: new Date("2026-01-03T03:04:05Z"),
+    status: "draft",
+    seoScore: 80,
+    wordCount: 20,
+    slug: "how-to-brew-cold-brew",
+    readingTime: 1,
+    featuredImage: "https://example.com/cold-brew.jpg",
+    tags: [],
+    isFavorite: false,
+    version: 1,
+    headings: [
+      { level: 2, text: "Grind the beans", anchor: "grind-the-beans" },
+      { level: 2, text: "Steep overnight", anchor: "steep-overnight" },
+    ],
+    faqSection: [{ question: "How long does it keep?", answer: "About **two weeks** in the fridge." }],
+    ...extra,
+  };
+}
+
+const options = { siteUrl: "https://example.com/", authorName: "Sam" };
+
+function node(graph: JsonLdNode[], type: string) {
+  return graph.find((n) => n["@type"] === type);
+}
+
+describe("json-ld", () => {
+  test("builds article, FAQ, how-to and breadcrumb schemas from the post", () => {
+    const graph = buildJsonLd(post(), options)["@graph"];
+
+    expect(graph.map((n) => n["@type"])).toEqual(["BlogPosting", "FAQPage", "HowTo", "BreadcrumbList"]);
+    expect(node(graph, "BlogPosting")).toMatchObject({
+      headline: "How to Brew Cold Brew",
+      datePublished: "2026-01-02T03:04:05.000Z",
+      author: { "@type": "Person", name: "Sam" },
+      url: "https://example.com/en-us/how-to-brew-cold-brew",
+      inLanguage: "en-US",
+    });
+    expect(node(graph, "FAQPage")?.mainEntity).toEqual([
+      {
+        "@type": "Question",
+        name: "How long does it keep?",
+        acceptedAnswer: { "@type": "Answer", text: "About two weeks in the fridge." },
+      },
+    ]);
+    expect(node(graph, "HowTo")?.step).toEqual([
+      {
+        "@type": "HowToStep",
+        position: 1,
+        name: "Grind the beans",
+        text: "Use a coarse grind.",
+        url: "https://example.com/en-us/how-to-brew-cold-brew#grind-the-beans",
+      },
+      {
+        "@type": "HowToStep",
+        position: 2,
+        name: "Steep overnight",
+        text: "Leave it for 12 hours.",
+        url: "https://example.com/en-us/how-to-brew-cold-brew#steep-overnight",
+      },
+    ]);
+    expect(validateJsonLd(buildJsonLd(post(), options))).toEqual([]);
+  });
+
+  test("leaves out FAQ and how-to schemas when the post has neither", () => {
+    const graph = buildJsonLd(post({ title: "Cold Brew Explained", faqSection: [] }), options)["@graph"];
+    expect(graph.map((n) => n["@type"])).toEqual(["BlogPosting", "BreadcrumbList"]);
+  });
+
+  test("reports missing required and recommended properties", () => {
+    const document = buildJsonLd(post({ featuredImage: undefined }), { siteUrl: "", authorName: "" });
+    expect(validateJsonLd(document)).toEqual([
+      {
+        type: "BlogPosting",
+        property: "author",
+        message: "author is recommended; set an author name",
+        severity: "warning",
+      },
+      {
+        type: "BlogPosting",
+        property: "image",
+        message: "image is recommended; add a featured image",
+        severity: "warning",
+      },
+      {
+        type: "BreadcrumbList",
+        property: "itemListElement[0].item",
+        message: "ListItem item must be an absolute URL; set the site URL",
+        severity: "error",
+      },
+      {
+        type: "BreadcrumbList",
+        property: "itemListElement[1].item",
+        message: "ListItem item must be an absolute URL; set the site URL",
+        severity: "error",
+      },
+    ]);
+  });
+
+  test("validates stored markup strings, including malformed ones", () => {
+    expect(validateJsonLd("{not json")).toEqual([
+      { type: "JSON-LD", property: "", message: "Schema markup is not valid JSON", severity: "error" },
+    ]);
+    const faq = JSON.stringify({
+      "@context": "https://schema.org",
+      "@type": "FAQPage",
+      mainEntity: [{ "@type": "Question", name: "Why?", acceptedAnswer: { "@type": "Answer" } }],
+    });
+    expect(validateJsonLd(faq)).toEqual([
+      {
+        type: "FAQPage",
+        property: "mainEntity[0].acceptedAnswer.text",
+        message: "Answer text is required",
+        severity: "error",
+      },
+    ]);
+  });
+});
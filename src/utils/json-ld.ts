@@ -0,0 +1,314 @@
+import { BlogPost } from "../types/blog";
+import { getLocale, SUPPORTED_LOCALES } from "./locale";
+import { canonicalUrl } from "./hreflang";
+import { stripMarkdown } from "./markdown";
+
+export type JsonLdNode = { "@type": string; [property: string]: unknown };
+
+export interface JsonLdDocument {
+  "@context": "https://schema.org";
+  "@graph": JsonLdNode[];
+}
+
+export interface JsonLdOptions {
+  // Public address of the blog; URLs in the schema are relative without it
+  siteUrl: string;
+  authorName: string;
+}
+
+export interface JsonLdIssue {
+  type: string;
+  // Dotted path to the offending property, e.g. "mainEntity[2].acceptedAnswer"
+  property: string;
+  message: string;
+  // Errors make the node ineligible for rich results; warnings are recommended properties
+  severity: "error" | "warning";
+}
+
+// Google truncates longer article headlines
+const MAX_HEADLINE_LENGTH = 110;
+
+function isoDate(date: Date | string) {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function isAbsoluteUrl(value: unknown) {
+  return typeof value === "string" && /^https?:\/\/[^/\s]+/i.test(value);
+}
+
+// Headings that close a post rather than describe a step
+const NON_STEP_HEADINGS = new Set(
+  SUPPORTED_LOCALES.flatMap((l) => [l.headings.conclusion, l.headings.faq]).map((h) => h.toLowerCase()),
+);
+
+/** Body text of each H2 section, in order. */
+function h2Sections(content: string) {
+  const sections: Array<{ heading: string; body: string }> = [];
+  let inFence = false;
+  for (const line of content.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = !inFence && line.match(/^##[ \t]+(.+?)[ \t#]*$/);
+    if (match) {
+      sections.push({ heading: match[1], body: "" });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].body += `${line}\n`;
+    }
+  }
+  return sections;
+}
+
+function firstParagraph(markdown: string) {
+  const paragraph = markdown
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .find((block) => block && !block.startsWith("#") && !/^(```|~~~)/.test(block));
+  return stripMarkdown(paragraph ?? "");
+}
+
+export function articleSchema(post: BlogPost, options: JsonLdOptions): JsonLdNode {
+  const sections = post.headings.filter((h) => h.level === 2).map((h) => h.text);
+  const url = canonicalUrl(options.siteUrl, post);
+  const siteUrl = options.siteUrl.trim().replace(/\/+$/, "");
+  const siteName = siteUrl.replace(/^https?:\/\//i, "");
+  return {
+    "@type": "BlogPosting",
+    headline: post.title,
+    description: post.metaDescription || undefined,
+    image: post.featuredImage ? [post.featuredImage] : undefined,
+    datePublished: isoDate(post.createdAt),
+    dateModified: isoDate(post.updatedAt),
+    author: options.authorName.trim() ? { "@type": "Person", name: options.authorName.trim() } : undefined,
+    publisher: siteUrl ? { "@type": "Organization", name: siteName, url: siteUrl } : undefined,
+    mainEntityOfPage: { "@type": "WebPage", "@id": url },
+    url,
+    inLanguage: getLocale(post.locale).code,
+    keywords: post.keywords.length > 0 ? post.keywords.join(", ") : undefined,
+    wordCount: post.wordCount || undefined,
+    articleSection: sections.length > 0 ? sections : undefined,
+  };
+}
+
+export function faqPageSchema(post: BlogPost): JsonLdNode | null {
+  if (post.faqSection.length === 0) return null;
+  return {
+    "@type": "FAQPage",
+    mainEntity: post.faqSection.map((faq) => ({
+      "@type": "Question",
+      name: stripMarkdown(faq.question),
+      acceptedAnswer: { "@type": "Answer", text: stripMarkdown(faq.answer) },
+    })),
+  };
+}
+
+/**
+ * HowTo markup for step-by-step posts: a "How to ..." title whose H2 sections
+ * (other than the conclusion and FAQ) become the steps. Other posts get none.
+ */
+export function howToSchema(post: BlogPost, options: JsonLdOptions): JsonLdNode | null {
+  if (!/^how[ \t]+to[ \t]/i.test(post.title.trim())) return null;
+
+  const url = canonicalUrl(options.siteUrl, post);
+  const steps = h2Sections(post.content)
+    .filter((section) => !NON_STEP_HEADINGS.has(section.heading.toLowerCase()))
+    .map((section) => ({ name: stripMarkdown(section.heading), text: firstParagraph(section.body) }))
+    .filter((step) => step.text);
+  if (steps.length < 2) return null;
+
+  return {
+    "@type": "HowTo",
+    name: post.title,
+    description: post.metaDescription || undefined,
+    image: post.featuredImage || undefined,
+    step: steps.map((step, index) => {
+      const anchor = post.headings.find((h) => h.level === 2 && stripMarkdown(h.text) === step.name)?.anchor;
+      return {
+        "@type": "HowToStep",
+        position: index + 1,
+        name: step.name,
+        text: step.text,
+        url: anchor ? `${url}#${anchor}` : undefined,
+      };
+    }),
+  };
+}
+
+export function breadcrumbSchema(post: BlogPost, options: JsonLdOptions): JsonLdNode {
+  const siteUrl = options.siteUrl.trim().replace(/\/+$/, "");
+  return {
+    "@type": "BreadcrumbList",
+    itemListElement: [
+      { "@type": "ListItem", position: 1, name: "Home", item: siteUrl || "/" },
+      { "@type": "ListItem", position: 2, name: post.title, item: canonicalUrl(options.siteUrl, post) },
+    ],
+  };
+}
+
+// JSON.stringify drops undefined properties, so optional values can be left unset above
+function compact(node: JsonLdNode): JsonLdNode {
+  return JSON.parse(JSON.stringify(node));
+}
+
+/** Every applicable schema for a post, as one JSON-LD `@graph`. */
+export function buildJsonLd(post: BlogPost, options: JsonLdOptions): JsonLdDocument {
+  const nodes = [
+    articleSchema(post, options),
+    faqPageSchema(post),
+    howToSchema(post, options),
+    breadcrumbSchema(post, options),
+  ];
+  return {
+    "@context": "https://schema.org",
+    "@graph": nodes.filter((node): node is JsonLdNode => node !== null).map(compact),
+  };
+}
+
+/** The schema as it is stored on a post and embedded in a `<script type="application/ld+json">` tag. */
+export function serializeJsonLd(document: JsonLdDocument) {
+  return JSON.stringify(document, null, 2);
+}
+
+type Report = (property: string, message: string, severity?: JsonLdIssue["severity"]) => void;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasText(value: unknown) {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function checkDate(node: Record<string, unknown>, property: string, report: Report, severity: JsonLdIssue["severity"]) {
+  if (node[property] === undefined) {
+    report(property, `${property} is recommended`, severity);
+  } else if (typeof node[property] !== "string" || isNaN(Date.parse(node[property] as string))) {
+    report(property, `${property} must be an ISO 8601 date`);
+  }
+}
+
+function checkArticle(node: Record<string, unknown>, report: Report) {
+  if (!hasText(node.headline)) {
+    report("headline", "headline is required");
+  } else if ((node.headline as string).length > MAX_HEADLINE_LENGTH) {
+    report("headline", `headline is longer than ${MAX_HEADLINE_LENGTH} characters and will be truncated`, "warning");
+  }
+  checkDate(node, "datePublished", report, "warning");
+  checkDate(node, "dateModified", report, "warning");
+  if (node.author === undefined) {
+    report("author", "author is recommended; set an author name", "warning");
+  } else if (!isObject(node.author) || !hasText(node.author.name)) {
+    report("author", "author must have a name");
+  }
+  if (node.image === undefined) {
+    report("image", "image is recommended; add a featured image", "warning");
+  } else if (![node.image].flat().every(isAbsoluteUrl)) {
+    report("image", "image must be an absolute URL");
+  }
+}
+
+function checkFaqPage(node: Record<string, unknown>, report: Report) {
+  if (!Array.isArray(node.mainEntity) || node.mainEntity.length === 0) {
+    report("mainEntity", "mainEntity must list at least one Question");
+    return;
+  }
+  node.mainEntity.forEach((question: unknown, index) => {
+    const path = `mainEntity[${index}]`;
+    if (!isObject(question) || question["@type"] !== "Question") {
+      report(path, "each mainEntity item must be a Question");
+      return;
+    }
+    if (!hasText(question.name)) report(`${path}.name`, "Question name is required");
+    const answer = question.acceptedAnswer;
+    if (!isObject(answer) || answer["@type"] !== "Answer") {
+      report(`${path}.acceptedAnswer`, "Question needs an acceptedAnswer of type Answer");
+    } else if (!hasText(answer.text)) {
+      report(`${path}.acceptedAnswer.text`, "Answer text is required");
+    }
+  });
+}
+
+function checkHowTo(node: Record<string, unknown>, report: Report) {
+  if (!hasText(node.name)) report("name", "name is required");
+  if (!Array.isArray(node.step) || node.step.length === 0) {
+    report("step", "step must list at least one HowToStep");
+    return;
+  }
+  node.step.forEach((step: unknown, index) => {
+    const path = `step[${index}]`;
+    if (!isObject(step) || (step["@type"] !== "HowToStep" && step["@type"] !== "HowToSection")) {
+      report(path, "each step must be a HowToStep or HowToSection");
+    } else if (step["@type"] === "HowToStep" && !hasText(step.text)) {
+      report(`${path}.text`, "HowToStep text is required");
+    }
+  });
+}
+
+function checkBreadcrumbList(node: Record<string, unknown>, report: Report) {
+  if (!Array.isArray(node.itemListElement) || node.itemListElement.length < 2) {
+    report("itemListElement", "itemListElement must list at least two ListItems");
+    return;
+  }
+  node.itemListElement.forEach((item: unknown, index, items) => {
+    const path = `itemListElement[${index}]`;
+    if (!isObject(item) || item["@type"] !== "ListItem") {
+      report(path, "each itemListElement entry must be a ListItem");
+      return;
+    }
+    if (item.position !== index + 1) report(`${path}.position`, `position must be ${index + 1}`);
+    if (!hasText(item.name)) report(`${path}.name`, "ListItem name is required");
+    // The last crumb is the current page and may omit its URL
+    if (item.item === undefined ? index < items.length - 1 : !isAbsoluteUrl(item.item)) {
+      report(`${path}.item`, "ListItem item must be an absolute URL; set the site URL");
+    }
+  });
+}
+
+const RULES: Record<string, (node: Record<string, unknown>, report: Report) => void> = {
+  Article: checkArticle,
+  BlogPosting: checkArticle,
+  FAQPage: checkFaqPage,
+  HowTo: checkHowTo,
+  BreadcrumbList: checkBreadcrumbList,
+};
+
+/**
+ * Check a JSON-LD document or node against the schema.org properties Google
+ * requires (errors) and recommends (warnings) for each supported type.
+ * Accepts a parsed object or the JSON string stored on a post.
+ */
+export function validateJsonLd(input: unknown): JsonLdIssue[] {
+  let document = input;
+  if (typeof input === "string") {
+    try {
+      document = JSON.parse(input);
+    } catch {
+      return [{ type: "JSON-LD", property: "", message: "Schema markup is not valid JSON", severity: "error" }];
+    }
+  }
+
+  const issues: JsonLdIssue[] = [];
+  if (!isObject(document)) {
+    return [{ type: "JSON-LD", property: "", message: "Schema markup must be a JSON object", severity: "error" }];
+  }
+  if (typeof document["@context"] !== "string" || !/^https?:\/\/schema\.org\/?$/.test(document["@context"])) {
+    issues.push({
+      type: "JSON-LD",
+      property: "@context",
+      message: '@context must be "https://schema.org"',
+      severity: "error",
+    });
+  }
+
+  const nodes = Array.isArray(document["@graph"]) ? document["@graph"] : [document];
+  for (const node of nodes) {
+    const type = isObject(node) && typeof node["@type"] === "string" ? node["@type"] : undefined;
+    if (!type) {
+      issues.push({ type: "JSON-LD", property: "@type", message: "Every node needs a @type", severity: "error" });
+      continue;
+    }
+    RULES[type]?.(node as Record<string, unknown>, (property, message, severity = "error") =>
+      issues.push({ type, property, message, severity }),
+    );
+  }
+  return issues;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, test } from "vitest";
+import { countWords, getLocale, languagePrompt, readingTimeMinutes } from "./locale";
+
+describe("locale", () => {
+  test("falls back to English for unknown or missing locales", () => {
+    expect(getLocale("de-de").code).toBe("de-DE");
+    expect(getLocale("xx-XX").code).toBe("en-US");
+    expect(languagePrompt(undefined)).toBe("");
+    expect(languagePrompt("en-US")).toBe("");
+    expect(languagePrompt("ja-JP")).toContain("Japanese (ja-JP)");
+  });
+
+  test("counts each Chinese or Japanese character as a word", () => {
+    expect(countWords("Hello world")).toBe(2);
+    expect(countWords("東京 のカフェ guide")).toBe(7);
+    expect(countWords("서울 여행 가이드")).toBe(3);
+  });
+
+  test("reads CJK characters faster than whole words", () => {
+    expect(readingTimeMinutes("word ".repeat(400))).toBe(2);
+    expect(readingTimeMinutes("字".repeat(1000))).toBe(2);
+  });
+});
@@ -0,0 +1,117 @@
+export interface LocaleInfo {
+  // BCP 47 tag, also used as the hreflang value
+  code: string;
+  name: string;
+  nativeName: string;
+  // Fixed headings the long-form pipeline writes itself rather than asking the model for
+  headings: { conclusion: string; faq: string };
+}
+
+export const DEFAULT_LOCALE = "en-US";
+
+export const SUPPORTED_LOCALES: LocaleInfo[] = [
+  {
+    code: "en-US",
+    name: "English",
+    nativeName: "English",
+    headings: { conclusion: "Conclusion", faq: "Frequently Asked Questions" },
+  },
+  {
+    code: "de-DE",
+    name: "German",
+    nativeName: "Deutsch",
+    headings: { conclusion: "Fazit", faq: "Häufig gestellte Fragen" },
+  },
+  {
+    code: "fr-FR",
+    name: "French",
+    nativeName: "Français",
+    headings: { conclusion: "Conclusion", faq: "Questions fréquentes" },
+  },
+  {
+    code: "es-ES",
+    name: "Spanish",
+    nativeName: "Español",
+    headings: { conclusion: "Conclusión", faq: "Preguntas frecuentes" },
+  },
+  {
+    code: "it-IT",
+    name: "Italian",
+    nativeName: "Italiano",
+    headings: { conclusion: "Conclusione", faq: "Domande frequenti" },
+  },
+  {
+    code: "pt-BR",
+    name: "Brazilian Portuguese",
+    nativeName: "Português (Brasil)",
+    headings: { conclusion: "Conclusão", faq: "Perguntas frequentes" },
+  },
+  {
+    code: "nl-NL",
+    name: "Dutch",
+    nativeName: "Nederlands",
+    headings: { conclusion: "Conclusie", faq: "Veelgestelde vragen" },
+  },
+  {
+    code: "ja-JP",
+    name: "Japanese",
+    nativeName: "日本語",
+    headings: { conclusion: "まとめ", faq: "よくある質問" },
+  },
+  {
+    code: "zh-CN",
+    name: "Simplified Chinese",
+    nativeName: "简体中文",
+    headings: { conclusion: "总结", faq: "常见问题" },
+  },
+  {
+    code: "ko-KR",
+    name: "Korean",
+    nativeName: "한국어",
+    headings: { conclusion: "결론", faq: "자주 묻는 질문" },
+  },
+];
+
+export function getLocale(code: string | undefined): LocaleInfo {
+  return (
+    SUPPORTED_LOCALES.find((l) => l.code.toLowerCase() === code?.toLowerCase()) ??
+    SUPPORTED_LOCALES.find((l) => l.code === DEFAULT_LOCALE)!
+  );
+}
+
+export function isDefaultLocale(code: string | undefined) {
+  return !code || getLocale(code).code === DEFAULT_LOCALE;
+}
+
+/**
+ * Prompt block pinning the output language. English prompts are left
+ * unchanged so existing generations and cache entries stay valid.
+ */
+export function languagePrompt(code: string | undefined): string {
+  if (isDefaultLocale(code)) return "";
+  const { code: tag, name } = getLocale(code);
+  return `LANGUAGE: Write everything in ${name} (${tag}) for native ${name} speakers: title, meta description, headings, body, FAQ and keywords. Use the keywords people actually search for in ${name} rather than literal translations of English terms. Keep JSON keys and markdown syntax in English.`;
+}
+
+// Chinese and Japanese (Han, Hiragana, Katakana) are written without spaces between words; Korean uses spaces
+const CJK_CHAR = /[\u3040-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/g;
+
+/**
+ * Count words the way word processors do for mixed scripts: each Chinese or
+ * Japanese character counts as one word, everything else is split on whitespace.
+ */
+export function countWords(text: string): number {
+  const cjk = text.match(CJK_CHAR)?.length ?? 0;
+  const rest = text
+    .replace(CJK_CHAR, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 0).length;
+  return cjk + rest;
+}
+
+/** Reading time in minutes at 200 words or 500 CJK characters per minute. */
+export function readingTimeMinutes(text: string): number {
+  const cjk = text.match(CJK_CHAR)?.length ?? 0;
+  const words = countWords(text) - cjk;
+  return Math.ceil(words / 200 + cjk / 500);
+}
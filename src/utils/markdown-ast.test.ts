@@ -0,0 +1,85 @@
+import { describe, expect, test } from "vitest";
+import { inlineText, MdBlock, parseInline, parseMarkdown, walkBlocks } from "./markdown-ast";
+
+function types(blocks: MdBlock[]) {
+  return blocks.map((block) => block.type);
+}
+
+describe("markdown ast", () => {
+  test("parses block structure", () => {
+    const markdown = [
+      "# Guide",
+      "Intro with a # that is not a heading.",
+      "",
+      "Setext Title",
+      "------------",
+      "- One",
+      "  - Nested",
+      "- Two",
+      "",
+      "1. First",
+      "",
+      "| Bean | Roast |",
+      "| --- | :---: |",
+      "| Arabica | Medium |",
+      "",
+      "```md",
+      "# not a heading",
+      "```",
+      "> Quoted **text**",
+      "",
+      "***",
+    ].join("\n");
+    const { children } = parseMarkdown(markdown);
+
+    expect(types(children)).toEqual([
+      "heading",
+      "paragraph",
+      "heading",
+      "list",
+      "list",
+      "table",
+      "code",
+      "blockquote",
+      "thematicBreak",
+    ]);
+    expect(children[2]).toMatchObject({ type: "heading", depth: 2, text: "Setext Title", line: 3 });
+    expect(children[6]).toMatchObject({ type: "code", lang: "md", value: "# not a heading" });
+
+    const bullets = children[3];
+    expect(bullets.type === "list" && bullets.items.map((item) => types(item.children))).toEqual([
+      ["paragraph", "list"],
+      ["paragraph"],
+    ]);
+    const table = children[5];
+    expect(table.type === "table" && table.rows.map((row) => row.map(inlineText))).toEqual([["Arabica", "Medium"]]);
+  });
+
+  test("tracks source offsets through nesting", () => {
+    const markdown = "Intro\n\n- Item\n  - **Nested** item";
+    const offsets: Array<[string, number]> = [];
+    walkBlocks(parseMarkdown(markdown).children, (node) => {
+      if (node.type === "paragraph") offsets.push([inlineText(node.children), node.offset]);
+    });
+    expect(offsets).toEqual([
+      ["Intro", 0],
+      ["Item", markdown.indexOf("Item")],
+      ["Nested item", markdown.indexOf("**Nested")],
+    ]);
+  });
+
+  test("parses links, images and code spans", () => {
+    expect(parseInline("Use `a|b` and [![Logo](logo.png)](https://x.com) or ![](y.png) <https://z.org>")).toEqual([
+      { type: "text", value: "Use " },
+      { type: "inlineCode", value: "a|b" },
+      { type: "text", value: " and " },
+      { type: "link", url: "https://x.com", children: [{ type: "image", url: "logo.png", alt: "Logo" }] },
+      { type: "text", value: " or " },
+      { type: "image", url: "y.png", alt: "" },
+      { type: "text", value: " " },
+      { type: "link", url: "https://z.org", children: [{ type: "text", value: "https://z.org" }] },
+    ]);
+    expect(parseInline('<img alt="Pour over" src="p.jpg">')).toEqual([{ type: "image", url: "p.jpg", alt: "Pour over" }]);
+    expect(inlineText(parseInline("**Bold** and _snake_case_ [link](/x)"))).toBe("Bold and snake_case link");
+  });
+});
@@ -0,0 +1,418 @@
+// A small CommonMark-style parser: enough block and inline structure to analyse
+// generated posts, not a renderer. Reference links, HTML blocks and indented
+// code are read as plain paragraphs.
+
+export interface MdText {
+  type: "text";
+  value: string;
+}
+
+export interface MdInlineCode {
+  type: "inlineCode";
+  value: string;
+}
+
+export interface MdLink {
+  type: "link";
+  url: string;
+  children: MdInline[];
+}
+
+export interface MdImage {
+  type: "image";
+  url: string;
+  // Empty when the image has no alt text
+  alt: string;
+}
+
+export type MdInline = MdText | MdInlineCode | MdLink | MdImage;
+
+interface MdPosition {
+  // Zero-based line and character offset where the block starts in the source
+  line: number;
+  offset: number;
+}
+
+export interface MdHeading extends MdPosition {
+  type: "heading";
+  depth: number;
+  // Heading source without the #s, e.g. "Why **cold brew**?"
+  text: string;
+  children: MdInline[];
+}
+
+export interface MdParagraph extends MdPosition {
+  type: "paragraph";
+  children: MdInline[];
+}
+
+export interface MdListItem extends MdPosition {
+  type: "listItem";
+  children: MdBlock[];
+}
+
+export interface MdList extends MdPosition {
+  type: "list";
+  ordered: boolean;
+  items: MdListItem[];
+}
+
+export interface MdTable extends MdPosition {
+  type: "table";
+  header: MdInline[][];
+  rows: MdInline[][][];
+}
+
+export interface MdCode extends MdPosition {
+  type: "code";
+  lang: string;
+  value: string;
+}
+
+export interface MdBlockquote extends MdPosition {
+  type: "blockquote";
+  children: MdBlock[];
+}
+
+export interface MdThematicBreak extends MdPosition {
+  type: "thematicBreak";
+}
+
+export type MdBlock =
+  | MdHeading
+  | MdParagraph
+  | MdList
+  | MdListItem
+  | MdTable
+  | MdCode
+  | MdBlockquote
+  | MdThematicBreak;
+
+export interface MdRoot {
+  type: "root";
+  children: MdBlock[];
+}
+
+interface SourceLine {
+  text: string;
+  line: number;
+  offset: number;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])([ \t]+)(.*)$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+function isBlank(line: SourceLine) {
+  return line.text.trim() === "";
+}
+
+function indentOf(text: string) {
+  return text.match(/^ */)![0].length;
+}
+
+// Drops up to `count` leading spaces, keeping the offset pointing at the remaining text
+function dedent(line: SourceLine, count: number): SourceLine {
+  const removed = Math.min(count, indentOf(line.text));
+  return { ...line, text: line.text.slice(removed), offset: line.offset + removed };
+}
+
+function isTableStart(lines: SourceLine[], i: number) {
+  return lines[i].text.includes("|") && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1].text);
+}
+
+// Lines that end a paragraph without a blank line in between
+function startsBlock(lines: SourceLine[], i: number) {
+  const { text } = lines[i];
+  return (
+    ATX_HEADING.test(text) ||
+    FENCE.test(text) ||
+    BLOCKQUOTE.test(text) ||
+    THEMATIC_BREAK.test(text) ||
+    LIST_ITEM.test(text) ||
+    isTableStart(lines, i)
+  );
+}
+
+function splitRow(row: string) {
+  return row
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .replace(/\\\|/g, "\u0000")
+    .split("|")
+    .map((cell) => parseInline(cell.replace(/\u0000/g, "|").trim()));
+}
+
+function attribute(tag: string, name: string) {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, "i"));
+  return match ? match[1] ?? match[2] : "";
+}
+
+// "(url)" or "(<url> "title")" after a link or image
+const TARGET = /\(\s*<?([^)\s>]*)>?(?:\s+["'(][^)]*)?\)/.source;
+// Code spans, images, links, <autolinks> and inline <img> tags, in that order of precedence
+const INLINE = [
+  /(`{1,2})([^`]+?)\1/.source,
+  /!\[([^\]]*)\]/.source + TARGET,
+  /\[((?:[^[\]]|\[[^\]]*\])*)\]/.source + TARGET,
+  /<(https?:\/\/[^>\s]+)>/.source,
+  /<img\b[^>]*>/.source,
+].join("|");
+
+/** Inline nodes of a run of markdown text. */
+export function parseInline(source: string): MdInline[] {
+  const nodes: MdInline[] = [];
+  // A fresh RegExp per call, since link text is parsed recursively while this one is mid-scan
+  const pattern = new RegExp(INLINE, "gi");
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const { index } = match;
+    if (index > last) nodes.push({ type: "text", value: source.slice(last, index) });
+    if (match[1]) {
+      nodes.push({ type: "inlineCode", value: match[2] });
+    } else if (match[4] !== undefined) {
+      nodes.push({ type: "image", url: match[4], alt: match[3].trim() });
+    } else if (match[6] !== undefined) {
+      nodes.push({ type: "link", url: match[6], children: parseInline(match[5]) });
+    } else if (match[7]) {
+      nodes.push({ type: "link", url: match[7], children: [{ type: "text", value: match[7] }] });
+    } else {
+      nodes.push({ type: "image", url: attribute(match[0], "src"), alt: attribute(match[0], "alt").trim() });
+    }
+    last = index + match[0].length;
+  }
+  if (last < source.length) nodes.push({ type: "text", value: source.slice(last) });
+  return nodes;
+}
+
+function parseList(lines: SourceLine[], start: number): { node: MdList; next: number } {
+  const first = lines[start].text.match(LIST_ITEM)!;
+  const ordered = /\d/.test(first[2]);
+  const items: MdListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = lines[i].text.match(LIST_ITEM);
+    if (!marker || /\d/.test(marker[2]) !== ordered) break;
+
+    const spaces = marker[3].length;
+    // Content more than four spaces past the marker is indented code in CommonMark; treat it as one space
+    const contentIndent = marker[1].length + marker[2].length + (spaces > 4 ? 1 : spaces);
+    const itemStart = lines[i];
+    const itemLines: SourceLine[] = [
+      { text: marker[4], line: itemStart.line, offset: itemStart.offset + itemStart.text.length - marker[4].length },
+    ];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // Blank lines stay in the item only if indented content follows
+        const nextContent = lines.slice(i).find((l) => !isBlank(l));
+        if (!nextContent || indentOf(nextContent.text) < contentIndent) break;
+        itemLines.push(dedent(line, contentIndent));
+      } else if (indentOf(line.text) >= contentIndent) {
+        itemLines.push(dedent(line, contentIndent));
+      } else if (!startsBlock(lines, i) && !isBlank(lines[i - 1])) {
+        // Lazy continuation of the item's last paragraph
+        itemLines.push(line);
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    items.push({ type: "listItem", line: itemStart.line, offset: itemStart.offset, children: parseBlocks(itemLines) });
+
+    // A blank line between items keeps the list going
+    let after = i;
+    while (after < lines.length && isBlank(lines[after])) after++;
+    const nextMarker = after < lines.length ? lines[after].text.match(LIST_ITEM) : null;
+    if (!nextMarker || /\d/.test(nextMarker[2]) !== ordered) break;
+    i = after;
+  }
+
+  return { node: { type: "list", ordered, items, line: lines[start].line, offset: lines[start].offset }, next: i };
+}
+
+function parseBlocks(lines: SourceLine[]): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const { text } = line;
+    const position = { line: line.line, offset: line.offset };
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = text.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}[ \\t]*$`).test(lines[i].text)) {
+        body.push(lines[i].text);
+        i++;
+      }
+      i++;
+      blocks.push({ type: "code", lang: fence[2], value: body.join("\n"), ...position });
+      continue;
+    }
+
+    const heading = text.match(ATX_HEADING);
+    if (heading) {
+      const headingText = heading[2].trim();
+      blocks.push({
+        type: "heading",
+        depth: heading[1].length,
+        text: headingText,
+        children: parseInline(headingText),
+        ...position,
+      });
+      i++;
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(text)) {
+      blocks.push({ type: "thematicBreak", ...position });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(text)) {
+      const quoted: SourceLine[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (BLOCKQUOTE.test(lines[i].text) || !startsBlock(lines, i))) {
+        const marker = lines[i].text.match(BLOCKQUOTE)?.[0] ?? "";
+        quoted.push({ ...lines[i], text: lines[i].text.slice(marker.length), offset: lines[i].offset + marker.length });
+        i++;
+      }
+      blocks.push({ type: "blockquote", children: parseBlocks(quoted), ...position });
+      continue;
+    }
+
+    if (LIST_ITEM.test(text)) {
+      const { node, next } = parseList(lines, i);
+      blocks.push(node);
+      i = next;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(text);
+      const rows: MdInline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].text.includes("|")) {
+        rows.push(splitRow(lines[i].text));
+        i++;
+      }
+      blocks.push({ type: "table", header, rows, ...position });
+      continue;
+    }
+
+    const paragraph: string[] = [text.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines, i)) {
+      const underline = lines[i].text.match(SETEXT_UNDERLINE);
+      if (underline) break;
+      paragraph.push(lines[i].text.trim());
+      i++;
+    }
+    // "Title" underlined with === or --- is a heading
+    const underline = i < lines.length ? lines[i].text.match(SETEXT_UNDERLINE) : null;
+    if (underline) {
+      const headingText = paragraph.join(" ");
+      blocks.push({
+        type: "heading",
+        depth: underline[1][0] === "=" ? 1 : 2,
+        text: headingText,
+        children: parseInline(headingText),
+        ...position,
+      });
+      i++;
+      continue;
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")), ...position });
+  }
+
+  return blocks;
+}
+
+/** Parse markdown into block and inline nodes that keep their source position. */
+export function parseMarkdown(markdown: string): MdRoot {
+  let offset = 0;
+  const lines = markdown.split("\n").map((raw, line) => {
+    const source = { text: raw.replace(/\r$/, "").replace(/\t/g, "    "), line, offset };
+    offset += raw.length + 1;
+    return source;
+  });
+  return { type: "root", children: parseBlocks(lines) };
+}
+
+function childBlocks(node: MdBlock): MdBlock[] {
+  switch (node.type) {
+    case "list":
+      return node.items;
+    case "listItem":
+    case "blockquote":
+      return node.children;
+    default:
+      return [];
+  }
+}
+
+type BlockVisitor = (node: MdBlock, parents: MdBlock[]) => void;
+
+/** Every block in document order, with the blocks that contain it (outermost first). */
+export function walkBlocks(blocks: MdBlock[], visit: BlockVisitor, parents: MdBlock[] = []) {
+  for (const node of blocks) {
+    visit(node, parents);
+    walkBlocks(childBlocks(node), visit, [...parents, node]);
+  }
+}
+
+function flattenInlines(nodes: MdInline[]): MdInline[] {
+  return nodes.flatMap((node) => (node.type === "link" ? [node, ...flattenInlines(node.children)] : [node]));
+}
+
+/** Inline nodes of a block, including those nested in links and table cells; contained blocks aren't included. */
+export function blockInlines(node: MdBlock): MdInline[] {
+  switch (node.type) {
+    case "heading":
+    case "paragraph":
+      return flattenInlines(node.children);
+    case "table":
+      return flattenInlines([...node.header, ...node.rows.flat()].flat());
+    default:
+      return [];
+  }
+}
+
+/** Readable text of inline nodes: markup and emphasis markers removed, images left out. */
+export function inlineText(nodes: MdInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value.replace(/[*~]+/g, "").replace(/(^|[^0-9A-Za-z])_+|_+(?=[^0-9A-Za-z]|$)/g, "$1");
+        case "inlineCode":
+          return node.value;
+        case "link":
+          return inlineText(node.children);
+        case "image":
+          return "";
+      }
+    })
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
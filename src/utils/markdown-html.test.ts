@@ -0,0 +1,42 @@
+import { describe, expect, test } from "vitest";
+import { renderMarkdown } from "./markdown-html";
+
+describe("renderMarkdown", () => {
+  test("gives headings unique anchors that link to themselves", () => {
+    const { html, headings } = renderMarkdown("# Cold Brew\n\n## Steps\n\nGrind.\n\n## Steps\n\nWait.");
+
+    expect(headings.map((h) => h.anchor)).toEqual(["cold-brew", "steps", "steps-2"]);
+    expect(html.split("\n")[0]).toBe(
+      '<h1 id="cold-brew">Cold Brew <a class="heading-anchor" href="#cold-brew" aria-hidden="true">#</a></h1>',
+    );
+    expect(html).toContain('<h2 id="steps-2">');
+  });
+
+  test("renders inline markup and escapes raw HTML and unsafe links", () => {
+    const { html } = renderMarkdown(
+      [
+        "Use **coarse** grounds, *not* fine_grained ones. <script>alert(1)</script>",
+        "",
+        "- [Guide](https://x.dev/guide?a=1&b=2)",
+        "- [Bad](javascript:alert) and `a < b`",
+        "",
+        "```js",
+        "const a = 1;",
+        "",
+        "```",
+      ].join("\n"),
+    );
+
+    expect(html).toBe(
+      [
+        "<p>Use <strong>coarse</strong> grounds, <em>not</em> fine_grained ones. " +
+          "&lt;script&gt;alert(1)&lt;/script&gt;</p>",
+        "<ul>",
+        '<li><a href="https://x.dev/guide?a=1&amp;b=2">Guide</a></li>',
+        '<li><a href="#">Bad</a> and <code>a &lt; b</code></li>',
+        "</ul>",
+        '<pre><code class="language-js">const a = 1;\n</code></pre>',
+      ].join("\n"),
+    );
+  });
+});
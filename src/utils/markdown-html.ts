@@ -0,0 +1,117 @@
+import { BlogHeading } from "../types/blog";
+import { MdBlock, MdInline, parseMarkdown } from "./markdown-ast";
+import { slugify } from "./slug";
+
+export interface RenderedMarkdown {
+  html: string;
+  // Every heading with the id its element was given
+  headings: BlogHeading[];
+}
+
+/** Text escaped for HTML and XML content and double-quoted attributes. */
+export function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Links keep web, mail and relative targets; anything else, like javascript:, is dropped
+function safeUrl(url: string) {
+  return /^(?:https?:|mailto:|[/#?.]|[^:/?#]+(?:[/?#]|$))/i.test(url.trim()) ? escapeHtml(url.trim()) : "#";
+}
+
+// Emphasis is left in the text nodes by the parser; the text is already escaped when this runs
+function emphasis(html: string) {
+  return html
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^0-9A-Za-z])__(?=\S)([\s\S]*?\S)__(?![0-9A-Za-z])/g, "$1<strong>$2</strong>")
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, "<del>$1</del>")
+    .replace(/\*(?=[^\s*])([^*]*?[^\s*])\*/g, "<em>$1</em>")
+    .replace(/(^|[^0-9A-Za-z])_(?=[^\s_])([^_]*?[^\s_])_(?![0-9A-Za-z])/g, "$1<em>$2</em>");
+}
+
+function renderInlines(nodes: MdInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return emphasis(escapeHtml(node.value)).replace(/ {2,}\n/g, "<br />\n");
+        case "inlineCode":
+          return `<code>${escapeHtml(node.value)}</code>`;
+        case "link":
+          return `<a href="${safeUrl(node.url)}">${renderInlines(node.children)}</a>`;
+        case "image":
+          return `<img src="${safeUrl(node.url)}" alt="${escapeHtml(node.alt)}" loading="lazy" />`;
+      }
+    })
+    .join("");
+}
+
+export interface RenderOptions {
+  // Add a "#" link to each heading pointing at itself; on by default
+  headingLinks?: boolean;
+}
+
+/**
+ * Render markdown to HTML. Headings get ids from their text, the same anchors
+ * posts store, with -2, -3… added when two headings share one. Raw HTML in
+ * the source is escaped, not passed through.
+ */
+export function renderMarkdown(markdown: string, { headingLinks = true }: RenderOptions = {}): RenderedMarkdown {
+  const headings: BlogHeading[] = [];
+  const used = new Set<string>();
+
+  const heading = (depth: number, text: string) => {
+    const base = slugify(text) || "section";
+    let anchor = base;
+    for (let n = 2; used.has(anchor); n++) anchor = `${base}-${n}`;
+    used.add(anchor);
+    headings.push({ level: depth, text, anchor });
+    return anchor;
+  };
+
+  // A list item holding a single paragraph renders without the <p>, like a tight list
+  const renderItem = (children: MdBlock[]) =>
+    children.length === 1 && children[0].type === "paragraph"
+      ? renderInlines(children[0].children)
+      : `\n${renderBlocks(children)}\n`;
+
+  const renderBlocks = (blocks: MdBlock[]): string =>
+    blocks
+      .map((node) => {
+        switch (node.type) {
+          case "heading": {
+            const anchor = heading(node.depth, node.text);
+            const link = headingLinks
+              ? ` <a class="heading-anchor" href="#${escapeHtml(anchor)}" aria-hidden="true">#</a>`
+              : "";
+            return `<h${node.depth} id="${escapeHtml(anchor)}">${renderInlines(node.children)}${link}</h${node.depth}>`;
+          }
+          case "paragraph":
+            return `<p>${renderInlines(node.children)}</p>`;
+          case "list": {
+            const tag = node.ordered ? "ol" : "ul";
+            const items = node.items.map((item) => `<li>${renderItem(item.children)}</li>`);
+            return `<${tag}>\n${items.join("\n")}\n</${tag}>`;
+          }
+          case "listItem":
+            return `<li>${renderItem(node.children)}</li>`;
+          case "table": {
+            const cells = (row: MdInline[][], tag: string) =>
+              `<tr>${row.map((cell) => `<${tag}>${renderInlines(cell)}</${tag}>`).join("")}</tr>`;
+            const body = node.rows.map((row) => cells(row, "td")).join("\n");
+            return `<table>\n<thead>${cells(node.header, "th")}</thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+          }
+          case "code": {
+            const lang = node.lang ? ` class="language-${escapeHtml(node.lang)}"` : "";
+            return `<pre><code${lang}>${escapeHtml(node.value)}</code></pre>`;
+          }
+          case "blockquote":
+            return `<blockquote>\n${renderBlocks(node.children)}\n</blockquote>`;
+          case "thematicBreak":
+            return "<hr />";
+        }
+      })
+      .join("\n");
+
+  const html = renderBlocks(parseMarkdown(markdown).children);
+  return { html, headings };
+}
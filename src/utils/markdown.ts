@@ -0,0 +1,13 @@
+/** Markdown to plain text: syntax is removed, link and image text kept, and whitespace collapsed. */
+export function stripMarkdown(markdown: string) {
+  return markdown
+    .replace(/^\s*(```|~~~).*$/gm, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s*#{1,6}\s+/gm, "")
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/[*_`~]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,24 @@
+import { describe, expect, test } from "vitest";
+
+import { extractPartialJsonString } from "./partial-json";
+
+describe("extractPartialJsonString", () => {
+  test("returns null before the field starts", () => {
+    expect(extractPartialJsonString('{"title": "Hello", "cont', "content")).toBeNull();
+  });
+
+  test("reads an unterminated string and decodes escapes", () => {
+    const buffer = '{"title": "T", "content": "# Heading\\n\\nSome \\"quoted\\" text';
+    expect(extractPartialJsonString(buffer, "content")).toBe('# Heading\n\nSome "quoted" text');
+  });
+
+  test("stops at the closing quote of a complete value", () => {
+    const buffer = '{"content": "done", "keywords": ["a"]}';
+    expect(extractPartialJsonString(buffer, "content")).toBe("done");
+  });
+
+  test("drops a trailing escape that has not fully arrived", () => {
+    expect(extractPartialJsonString('{"content": "caf\\u00e9 and \\u00', "content")).toBe("café and ");
+    expect(extractPartialJsonString('{"content": "line\\', "content")).toBe("line");
+  });
+});
@@ -0,0 +1,46 @@
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Read the value of a top-level string field out of a JSON document that is
+ * still being streamed. Returns whatever part of the string has arrived so far,
+ * or null if the field has not started yet.
+ */
+export function extractPartialJsonString(buffer: string, field: string): string | null {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(buffer);
+  if (!match) return null;
+
+  let result = "";
+  let i = match.index + match[0].length;
+  while (i < buffer.length) {
+    const ch = buffer[i];
+    if (ch === '"') break;
+    if (ch !== "\\") {
+      result += ch;
+      i += 1;
+      continue;
+    }
+
+    const next = buffer[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = buffer.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      result += String.fromCharCode(parseInt(hex, 16));
+      i += 6;
+      continue;
+    }
+    result += ESCAPES[next] ?? next;
+    i += 2;
+  }
+
+  return result;
+}
@@ -60,8 +60,12 @@ export class RetryService {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Run `operation` until it succeeds or retries run out. Each attempt gets its own
+   * signal, aborted when that attempt times out so it stops before the next one starts.
+   */
   public static async withRetry<T>(
-    operation: () => Promise<T>,
+    operation: (signal: AbortSignal) => Promise<T>,
     options: RetryOptions = {}
   ): Promise<RetryResult<T>> {
     const opts = { ...DEFAULT_OPTIONS, ...options };
@@ -76,14 +80,19 @@ export class RetryService {
         }
 
         // Create timeout promise
+        const controller = new AbortController();
+        let timer: ReturnType<typeof setTimeout> | undefined;
         const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => {
+          timer = setTimeout(() => {
             reject(new Error(`Operation timed out after ${opts.timeout}ms`));
+            controller.abort();
           }, opts.timeout);
         });
 
         // Race between operation and timeout
-        const data = await Promise.race([operation(), timeoutPromise]);
+        const data = await Promise.race([operation(controller.signal), timeoutPromise]).finally(() =>
+          clearTimeout(timer)
+        );
         
         return {
           data,
@@ -155,7 +164,7 @@ export class RetryService {
 
 // Convenience function for API calls
 export async function retryApiCall<T>(
-  apiCall: () => Promise<T>,
+  apiCall: (signal: AbortSignal) => Promise<T>,
   options?: RetryOptions
 ): Promise<T> {
   const result = await RetryService.withRetry(apiCall, {
@@ -172,7 +181,8 @@ export async function retryApiCall<T>(
 
 // Specific retry function for OpenAI API calls
 export async function retryOpenAICall<T>(
-  apiCall: () => Promise<T>
+  apiCall: (signal: AbortSignal) => Promise<T>,
+  options?: RetryOptions
 ): Promise<T> {
   return retryApiCall(apiCall, {
     maxAttempts: 4,
@@ -192,5 +202,6 @@ export async function retryOpenAICall<T>(
     onRetry: (attempt, error) => {
       logger.warn(`OpenAI API retry (attempt ${attempt}):`, error.message);
     },
+    ...options,
   });
 }
\ No newline at end of file
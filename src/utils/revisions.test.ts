@@ -0,0 +1,97 @@
+import { describe, expect, test } from "vitest";
+import { appendRevision, pruneRevisions } from "./revisions";
+import { BlogPost, BlogRevision } from "../types/blog";
+
+function post(content: string, extra: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id: "blog-1",
+    title: "Cold Brew",
+    content,
+    topic: "cold brew",
+    metaDescription: "",
+    keywords: [],
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    status: "draft",
+    seoScore: 0,
+    wordCount: content.split(" ").length,
+    readingTime: 1,
+    tags: [],
+    isFavorite: false,
+    version: 1,
+    slug: "cold-brew",
+    headings: [],
+    faqSection: [],
+    ...extra,
+  };
+}
+
+const at = (ms: number) => ({ now: new Date(ms) });
+
+describe("revisions", () => {
+  test("snapshots the original on the first edit and numbers later versions", () => {
+    const first = appendRevision([], post("one"), post("one two"), "save", at(1000));
+    expect(first.version).toBe(2);
+    expect(first.revisions.map((r) => [r.version, r.source, r.content])).toEqual([
+      [1, "original", "one"],
+      [2, "save", "one two"],
+    ]);
+
+    const second = appendRevision(first.revisions, post("one two"), post("one two three"), "save", at(2000));
+    expect(second.version).toBe(3);
+    expect(second.revisions).toHaveLength(3);
+  });
+
+  test("keeps every autosave as a revision of its own", () => {
+    let { revisions } = appendRevision([], post("a"), post("a b"), "autosave", at(0));
+    ({ revisions } = appendRevision(revisions, post("a b"), post("a b c"), "autosave", at(2000)));
+    expect(revisions.map((r) => [r.version, r.source, r.content])).toEqual([
+      [1, "original", "a"],
+      [2, "autosave", "a b"],
+      [3, "autosave", "a b c"],
+    ]);
+  });
+
+  test("keeps each post's newest revision when pruning to the limits", () => {
+    const revision = (blogId: string, version: number, content: string): BlogRevision => ({
+      id: `${blogId}-${version}`,
+      blogId,
+      version,
+      title: "",
+      content,
+      metaDescription: "",
+      keywords: [],
+      wordCount: 1,
+      source: "save",
+      createdAt: new Date(version),
+    });
+    const revisions = [
+      revision("a", 1, "xxxx"),
+      revision("b", 2, "xxxx"),
+      revision("a", 3, "xxxx"),
+      revision("a", 4, "xxxx"),
+      revision("b", 5, "xxxx"),
+    ];
+
+    expect(pruneRevisions(revisions, { maxPerBlog: 2, maxTotalBytes: 10_000 }).map((r) => r.id)).toEqual([
+      "b-2",
+      "a-3",
+      "a-4",
+      "b-5",
+    ]);
+    const oneSize = JSON.stringify(revisions[0]).length;
+    expect(pruneRevisions(revisions, { maxPerBlog: 10, maxTotalBytes: 2 * oneSize }).map((r) => r.id)).toEqual([
+      "a-4",
+      "b-5",
+    ]);
+
+    // Autosaves go before older saves, and the cap counts bytes rather than characters
+    const autosave = { ...revision("a", 3, "ääää"), id: "a-autosave", source: "autosave" as const };
+    const mixed = [...revisions.slice(0, 3), autosave, ...revisions.slice(3)];
+    const total = mixed.reduce((sum, r) => sum + JSON.stringify(r).length, 0) + 4;
+    const kept = revisions.map((r) => r.id);
+    expect(pruneRevisions(mixed, { maxPerBlog: 10, maxTotalBytes: total - 1 }).map((r) => r.id)).toEqual(kept);
+    expect(pruneRevisions(mixed, { maxPerBlog: 10, maxTotalBytes: total })).toBe(mixed);
+    expect(pruneRevisions(mixed, { maxPerBlog: 3, maxTotalBytes: total }).map((r) => r.id)).toEqual(kept);
+  });
+});
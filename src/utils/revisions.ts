@@ -0,0 +1,111 @@
+import { BlogPost, BlogRevision, RevisionSource } from "../types/blog";
+
+export interface RetentionLimits {
+  // Newest revisions kept for each post
+  maxPerBlog: number;
+  // Bytes of stored JSON kept across all posts. Every revision is saved under one AsyncStorage key,
+  // and Android can't read back a row of about 2 MB or more
+  maxTotalBytes: number;
+}
+
+export const DEFAULT_RETENTION: RetentionLimits = { maxPerBlog: 30, maxTotalBytes: 1_000_000 };
+
+// The parts of a post a revision captures; a change to any of them is a new revision
+const TRACKED_FIELDS = ["title", "content", "metaDescription", "keywords"] as const;
+
+export function hasTrackedChanges(before: BlogPost, after: BlogPost) {
+  return TRACKED_FIELDS.some((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+function snapshot(post: BlogPost, version: number, source: RevisionSource, createdAt: Date): BlogRevision {
+  return {
+    id: `rev-${createdAt.getTime()}-${Math.random().toString(36).substring(2, 11)}`,
+    blogId: post.id,
+    version,
+    title: post.title,
+    content: post.content,
+    metaDescription: post.metaDescription,
+    keywords: post.keywords,
+    wordCount: post.wordCount,
+    source,
+    createdAt,
+  };
+}
+
+// UTF-8 length of the revision as it's stored, keywords, dates and JSON quoting included
+function size(revision: BlogRevision) {
+  const json = JSON.stringify(revision);
+  let bytes = json.length;
+  for (let i = 0; i < json.length; i++) {
+    const code = json.charCodeAt(i);
+    // Surrogate pairs are 2 UTF-16 units and 4 bytes, so each unit adds one byte
+    if (code >= 0x80) bytes += code < 0x800 || (code >= 0xd800 && code < 0xe000) ? 1 : 2;
+  }
+  return bytes;
+}
+
+// Autosaves go before saves, each oldest first
+function pruneOrder(a: BlogRevision, b: BlogRevision) {
+  const autosaveFirst = Number(b.source === "autosave") - Number(a.source === "autosave");
+  return autosaveFirst || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+/**
+ * Drop revisions beyond the retention limits: autosaves first, then saves,
+ * oldest first. The newest revision of every post is always kept so the
+ * current version can be compared and restored.
+ */
+export function pruneRevisions(revisions: BlogRevision[], limits: RetentionLimits = DEFAULT_RETENTION) {
+  const byBlog = new Map<string, BlogRevision[]>();
+  for (const revision of revisions) {
+    byBlog.set(revision.blogId, [...(byBlog.get(revision.blogId) ?? []), revision]);
+  }
+
+  const latest = new Set([...byBlog.values()].map((list) => list[list.length - 1].id));
+  const dropped = new Set<string>();
+  for (const list of byBlog.values()) {
+    const excess = list.length - limits.maxPerBlog;
+    if (excess <= 0) continue;
+    list
+      .filter((r) => !latest.has(r.id))
+      .sort(pruneOrder)
+      .slice(0, excess)
+      .forEach((r) => dropped.add(r.id));
+  }
+
+  let total = revisions.filter((r) => !dropped.has(r.id)).reduce((sum, r) => sum + size(r), 0);
+  const candidates = revisions.filter((r) => !dropped.has(r.id) && !latest.has(r.id)).sort(pruneOrder);
+  for (const revision of candidates) {
+    if (total <= limits.maxTotalBytes) break;
+    dropped.add(revision.id);
+    total -= size(revision);
+  }
+
+  return dropped.size > 0 ? revisions.filter((r) => !dropped.has(r.id)) : revisions;
+}
+
+/**
+ * Record `after` as a new revision of a post and return the updated list with
+ * the version it was saved as. The first tracked edit also snapshots `before`
+ * as the original. Every save, autosaves included, is a revision of its own.
+ */
+export function appendRevision(
+  revisions: BlogRevision[],
+  before: BlogPost,
+  after: BlogPost,
+  source: Exclude<RevisionSource, "original">,
+  options: { now?: Date; restoredFrom?: number; limits?: RetentionLimits } = {},
+): { revisions: BlogRevision[]; version: number } {
+  const now = options.now ?? new Date();
+  let next = revisions;
+  let latest = revisions.filter((r) => r.blogId === before.id).pop();
+
+  if (!latest) {
+    latest = snapshot(before, before.version || 1, "original", new Date(before.updatedAt));
+    next = [...next, latest];
+  }
+
+  const revision = snapshot(after, latest.version + 1, source, now);
+  if (options.restoredFrom !== undefined) revision.restoredFrom = options.restoredFrom;
+  return { revisions: pruneRevisions([...next, revision], options.limits), version: revision.version };
+}
@@ -0,0 +1,19 @@
+import { describe, expect, test } from "vitest";
+import { sanitizeInput } from "./sanitize";
+
+describe("sanitizeInput", () => {
+  test("keeps letters and punctuation from non-Latin scripts", () => {
+    expect(sanitizeInput("  Größenvergleich: Äpfel & Birnen ")).toBe("Größenvergleich Äpfel  Birnen");
+    expect(sanitizeInput("東京のおすすめカフェ、2025年版！")).toBe("東京のおすすめカフェ、2025年版！");
+    expect(sanitizeInput("l'été à Paris?")).toBe("l'été à Paris?");
+  });
+
+  test("strips prompt-breaking characters and invisible controls", () => {
+    expect(sanitizeInput('SEO "tips"} ignore {previous} `rules`')).toBe("SEO tips ignore previous rules");
+    expect(sanitizeInput("hidden\u200Btext\u202Eevil\u0007")).toBe("hiddentextevil");
+  });
+
+  test("normalizes decomposed accents to composed form", () => {
+    expect(sanitizeInput("Cafe\u0301")).toBe("Caf\u00e9");
+  });
+});
@@ -1,5 +1,10 @@
+// ASCII punctuation that could break out of a quoted prompt value or inject markup, plus
+// control, zero-width space and bidi control characters. Letters, digits and punctuation in
+// every other script pass through, so German or Japanese topics survive intact.
+const UNSAFE_CHARS = /["#$%&()*+/:;<=>@[\\\]^`{|}~\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B\u200E\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/g;
+
 export function sanitizeInput(input: string): string {
-  return input.replace(/[^\w\s\-.,!?]/g, '').trim();
+  return input.normalize("NFC").replace(UNSAFE_CHARS, '').trim();
 }
 
 export function validatePromptLength(input: string, maxLength = 4000): void {
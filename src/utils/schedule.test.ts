@@ -0,0 +1,65 @@
+import { describe, expect, test } from "vitest";
+import { BlogPost } from "../types/blog";
+import { calendarDays, dayKey, duePosts, moveToDay, postsByDay, shiftAnchor } from "./schedule";
+
+function post(id: string, overrides: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id,
+    title: id,
+    content: "",
+    topic: id,
+    metaDescription: "",
+    keywords: [],
+    createdAt: new Date(2026, 2, 1, 9),
+    updatedAt: new Date(2026, 2, 1, 9),
+    status: "draft",
+    seoScore: 0,
+    wordCount: 0,
+    readingTime: 0,
+    tags: [],
+    isFavorite: false,
+    version: 1,
+    slug: id,
+    headings: [],
+    faqSection: [],
+    ...overrides,
+  };
+}
+
+describe("calendar", () => {
+  test("shows whole weeks from Monday around the month or week", () => {
+    // March 2026 starts on a Sunday and ends on a Tuesday
+    const month = calendarDays(new Date(2026, 2, 14), "month");
+    expect(month).toHaveLength(42);
+    expect(dayKey(month[0])).toBe("2026-02-23");
+    expect(dayKey(month[41])).toBe("2026-04-05");
+
+    const week = calendarDays(new Date(2026, 2, 14), "week");
+    expect(week.map(dayKey)).toEqual([
+      "2026-03-09",
+      "2026-03-10",
+      "2026-03-11",
+      "2026-03-12",
+      "2026-03-13",
+      "2026-03-14",
+      "2026-03-15",
+    ]);
+    expect(dayKey(shiftAnchor(new Date(2026, 0, 31), "month", 1))).toBe("2026-02-01");
+    expect(dayKey(shiftAnchor(new Date(2026, 2, 14), "week", -1))).toBe("2026-03-07");
+  });
+
+  test("places scheduled and published posts and finds the due ones", () => {
+    const posts = [
+      post("later", { status: "scheduled", scheduledAt: new Date(2026, 2, 20, 8, 30) }),
+      post("due", { status: "scheduled", scheduledAt: new Date(2026, 2, 10, 7) }),
+      post("out", { status: "published", createdAt: new Date(2026, 2, 10, 6) }),
+      post("draft", { scheduledAt: new Date(2026, 2, 10, 6) }),
+    ];
+    const days = postsByDay(posts);
+    expect(days.get("2026-03-10")?.map((p) => p.id)).toEqual(["out", "due"]);
+    expect(days.get("2026-03-20")?.map((p) => p.id)).toEqual(["later"]);
+
+    expect(duePosts(posts, new Date(2026, 2, 15)).map((p) => p.id)).toEqual(["due"]);
+    expect(moveToDay(new Date(2026, 2, 20, 8, 30), new Date(2026, 3, 2))).toEqual(new Date(2026, 3, 2, 8, 30));
+  });
+});
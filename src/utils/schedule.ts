@@ -0,0 +1,73 @@
+import { BlogPost } from "../types/blog";
+
+export type CalendarView = "month" | "week";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weeks start on Monday
+function startOfWeek(date: Date) {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+/** Local calendar day of a date as YYYY-MM-DD, for grouping posts by day. */
+export function dayKey(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Days shown for the month or week around `anchor`: whole weeks, so a month
+ * view starts and ends with days of the neighbouring months.
+ */
+export function calendarDays(anchor: Date, view: CalendarView): Date[] {
+  const first = view === "month" ? new Date(anchor.getFullYear(), anchor.getMonth(), 1) : anchor;
+  const start = startOfWeek(first);
+  let count = 7;
+  if (view === "month") {
+    const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+    count = Math.round((startOfWeek(last).getTime() - start.getTime()) / DAY_MS) + 7;
+  }
+  // Stepping by calendar day rather than by 24 hours keeps midnight across DST changes
+  return Array.from({ length: count }, (_, i) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+}
+
+/** The anchor `steps` months or weeks before or after this one. */
+export function shiftAnchor(anchor: Date, view: CalendarView, steps: number) {
+  if (view === "month") return new Date(anchor.getFullYear(), anchor.getMonth() + steps, 1);
+  return new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + steps * 7);
+}
+
+/** When the post appears on the calendar: its schedule, or when it was written if it went out without one. */
+export function calendarDate(post: BlogPost): Date | undefined {
+  if (post.status === "scheduled" && post.scheduledAt) return new Date(post.scheduledAt);
+  if (post.status === "published") return new Date(post.scheduledAt ?? post.createdAt);
+  return undefined;
+}
+
+/** Scheduled and published posts by the day they appear on, earliest first within a day. */
+export function postsByDay(posts: BlogPost[]): Map<string, BlogPost[]> {
+  const days = new Map<string, BlogPost[]>();
+  const dated = posts
+    .map((post) => ({ post, date: calendarDate(post) }))
+    .filter((entry): entry is { post: BlogPost; date: Date } => !!entry.date)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  for (const { post, date } of dated) {
+    const key = dayKey(date);
+    days.set(key, [...(days.get(key) ?? []), post]);
+  }
+  return days;
+}
+
+/** `at` moved to another day at the same time of day, e.g. when a post is dropped on that day. */
+export function moveToDay(at: Date, day: Date) {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), at.getHours(), at.getMinutes());
+}
+
+/** Scheduled posts whose time has come. */
+export function duePosts(posts: BlogPost[], now = new Date()): BlogPost[] {
+  return posts.filter(
+    (post) => post.status === "scheduled" && !!post.scheduledAt && new Date(post.scheduledAt).getTime() <= now.getTime(),
+  );
+}
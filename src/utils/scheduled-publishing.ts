@@ -0,0 +1,134 @@
+import * as BackgroundFetch from "expo-background-fetch";
+import * as TaskManager from "expo-task-manager";
+import useHistoryStore from "../state/historyStore";
+import usePublishingStore from "../state/publishingStore";
+import useSettingsStore from "../state/settingsStore";
+import useAuditStore from "../state/auditStore";
+import useScheduleSyncStore from "../state/scheduleSyncStore";
+import { acknowledgeSchedule, fetchSchedule, sendSchedule, ServerSchedule } from "../api/schedule";
+import { ScheduledJob } from "../publishing";
+import { BlogPost } from "../types/blog";
+import { logger } from "./logger";
+
+const TASK_NAME = "publish-scheduled-posts";
+// The OS decides when background fetches actually run; this is only the shortest gap it may use
+const MINIMUM_INTERVAL_SECONDS = 15 * 60;
+
+// A background launch starts with empty stores until they're read back from storage
+async function hydrated() {
+  await Promise.all(
+    [useHistoryStore, usePublishingStore, useSettingsStore, useAuditStore, useScheduleSyncStore].map((store) =>
+      store.persist.hasHydrated() ? undefined : store.persist.rehydrate(),
+    ),
+  );
+}
+
+// The schedule as last sent, so an unchanged one is only checked on rather than sent again
+let sentSchedule: string | undefined;
+// A sync already under way, which later callers wait for instead of starting another
+let syncing: Promise<number> | undefined;
+
+const scheduledPosts = (posts: BlogPost[]) => posts.filter((post) => post.status === "scheduled" && post.scheduledAt);
+
+// Only ids and times go to the backend; the post and the sites' credentials stay on the device
+function scheduledJobs(): ScheduledJob[] {
+  return scheduledPosts(useHistoryStore.getState().blogs).map((post) => ({
+    postId: post.id,
+    scheduledAt: post.scheduledAt!,
+    siteIds: post.publishTo ?? [],
+  }));
+}
+
+// Sends the schedule if it changed since it was last sent, and applies what the backend published meanwhile
+async function syncWithServer(): Promise<number> {
+  const { clientId, setHeldByServer } = useScheduleSyncStore.getState();
+  const jobs = scheduledJobs();
+  const body = JSON.stringify(jobs);
+  let schedule: ServerSchedule | undefined;
+  if (body === sentSchedule) {
+    schedule = await fetchSchedule(clientId);
+    // The backend lost posts it was sent, e.g. it restarted without its schedule file
+    const known = [...schedule.pending, ...schedule.finished.map((outcome) => outcome.postId)];
+    if (jobs.some((job) => !known.includes(job.postId))) schedule = undefined;
+  }
+  if (!schedule) {
+    schedule = await sendSchedule(clientId, jobs);
+    sentSchedule = body;
+  }
+
+  const { applyScheduleOutcome } = useHistoryStore.getState();
+  for (const outcome of schedule.finished) await applyScheduleOutcome(outcome);
+  setHeldByServer([...schedule.pending, ...schedule.finished.map((outcome) => outcome.postId)]);
+  if (schedule.finished.length > 0) {
+    // Applying an outcome twice does no harm, so a failed acknowledgement is retried next time
+    await acknowledgeSchedule(clientId, schedule.finished.map((outcome) => outcome.postId)).catch((error) =>
+      logger.warn("Couldn't acknowledge published posts:", error),
+    );
+  }
+  return schedule.finished.length;
+}
+
+/**
+ * Publish the scheduled posts that are due; resolves with how many went out.
+ * The backend's job marks the posts it was handed published on time, app open or not, and the app pushes
+ * them to their sites once it hears about it. The app publishes the rest itself, e.g. posts scheduled
+ * while the backend couldn't be reached.
+ */
+export async function publishDuePosts() {
+  await hydrated();
+  let fromServer = 0;
+  try {
+    syncing ??= syncWithServer().finally(() => {
+      syncing = undefined;
+    });
+    fromServer = await syncing;
+  } catch (error) {
+    logger.warn("Couldn't reach the publishing schedule on the backend:", error);
+  }
+  const { heldByServer } = useScheduleSyncStore.getState();
+  return fromServer + (await useHistoryStore.getState().publishDuePosts(new Date(), heldByServer));
+}
+
+/** Hand schedule changes to the backend shortly after they're made; returns the unsubscribe function. */
+export function syncScheduleOnChange(delayMs = 2000) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const unsubscribe = useHistoryStore.subscribe((state, previous) => {
+    if (state.blogs === previous.blogs) return;
+    // Edits to posts that aren't scheduled don't change what the backend holds
+    const now = scheduledPosts(state.blogs);
+    const before = scheduledPosts(previous.blogs);
+    if (now.length === before.length && now.every((post, index) => post === before[index])) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => publishDuePosts().catch((error) => logger.error(error)), delayMs);
+  });
+  return () => {
+    clearTimeout(timer);
+    unsubscribe();
+  };
+}
+
+// Defined when this module loads, as the OS may start the app just to run the task
+TaskManager.defineTask(TASK_NAME, async () => {
+  try {
+    const published = await publishDuePosts();
+    return published > 0 ? BackgroundFetch.BackgroundFetchResult.NewData : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch (error) {
+    logger.error("Scheduled publishing failed:", error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+/** Let the OS wake the app now and then to publish due posts while it isn't open. */
+export async function registerScheduledPublishing() {
+  const status = await BackgroundFetch.getStatusAsync();
+  if (status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+    logger.warn("Background fetch is unavailable; scheduled posts go out while the app is open.");
+    return;
+  }
+  if (await TaskManager.isTaskRegisteredAsync(TASK_NAME)) return;
+  await BackgroundFetch.registerTaskAsync(TASK_NAME, {
+    minimumInterval: MINIMUM_INTERVAL_SECONDS,
+    stopOnTerminate: false,
+    startOnBoot: true,
+  });
+}
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "vitest";
+import { formatIssues, s } from "./schema";
+
+const headingSchema = s.object({
+  level: s.number({ min: 1, max: 6, integer: true }),
+  text: s.string({ min: 1 }),
+  kind: s.enum(["h2", "h3"] as const).optional(),
+});
+
+describe("schema", () => {
+  test("coerces numeric strings and enum casing, and strips unknown keys", () => {
+    const result = headingSchema.validate({ level: "2", text: "Intro", kind: "H2", extra: true });
+
+    expect(result).toEqual({ success: true, data: { level: 2, text: "Intro", kind: "h2" } });
+  });
+
+  test("reports every failing field with its path", () => {
+    const result = s.object({ headings: s.array(headingSchema, { min: 1 }) }).validate({
+      headings: [{ level: 9, text: "" }, { text: "Ok", level: 1.5, kind: "h4" }],
+    });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(formatIssues(result.issues)).toBe(
+      [
+        "- headings[0].level: must be <= 6",
+        "- headings[0].text: must be at least 1 characters",
+        "- headings[1].level: must be an integer",
+        '- headings[1].kind: expected one of h2 | h3, got "h4"',
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Minimal runtime schema validation for structured LLM output.
+ *
+ * Schemas report every failing field with its path (e.g. `headings[2].level`)
+ * instead of stopping at the first error, so the full list can be fed back to
+ * the model in a repair request. Values models commonly get slightly wrong are
+ * coerced: numeric strings become numbers and enum values are matched
+ * case-insensitively.
+ */
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export type ValidationResult<T> = { success: true; data: T } | { success: false; issues: SchemaIssue[] };
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export abstract class Schema<T> {
+  protected abstract check(value: unknown, path: string, issues: SchemaIssue[]): T;
+
+  validate(value: unknown): ValidationResult<T> {
+    const issues: SchemaIssue[] = [];
+    const data = this.check(value, "", issues);
+    return issues.length === 0 ? { success: true, data } : { success: false, issues };
+  }
+
+  /** @internal used by container schemas to validate nested values */
+  run(value: unknown, path: string, issues: SchemaIssue[]): T {
+    return this.check(value, path, issues);
+  }
+
+  optional(): Schema<T | undefined> {
+    return new OptionalSchema(this);
+  }
+}
+
+function label(path: string) {
+  return path || "value";
+}
+
+function typeOf(value: unknown) {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+class OptionalSchema<T> extends Schema<T | undefined> {
+  constructor(private inner: Schema<T>) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: SchemaIssue[]) {
+    if (value === undefined || value === null) return undefined;
+    return this.inner.run(value, path, issues);
+  }
+}
+
+class StringSchema extends Schema<string> {
+  constructor(private opts: { min?: number; max?: number } = {}) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: SchemaIssue[]) {
+    if (typeof value !== "string") {
+      issues.push({ path: label(path), message: `expected string, got ${typeOf(value)}` });
+      return "";
+    }
+    if (this.opts.min !== undefined && value.trim().length < this.opts.min) {
+      issues.push({ path: label(path), message: `must be at least ${this.opts.min} characters` });
+    }
+    if (this.opts.max !== undefined && value.length > this.opts.max) {
+      issues.push({ path: label(path), message: `must be at most ${this.opts.max} characters` });
+    }
+    return value;
+  }
+}
+
+class NumberSchema extends Schema<number> {
+  constructor(private opts: { min?: number; max?: number; integer?: boolean } = {}) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: SchemaIssue[]) {
+    const num = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof num !== "number" || Number.isNaN(num)) {
+      issues.push({ path: label(path), message: `expected number, got ${typeOf(value)}` });
+      return 0;
+    }
+    if (this.opts.integer && !Number.isInteger(num)) {
+      issues.push({ path: label(path), message: "must be an integer" });
+    }
+    if (this.opts.min !== undefined && num < this.opts.min) {
+      issues.push({ path: label(path), message: `must be >= ${this.opts.min}` });
+    }
+    if (this.opts.max !== undefined && num > this.opts.max) {
+      issues.push({ path: label(path), message: `must be <= ${this.opts.max}` });
+    }
+    return num;
+  }
+}
+
+class BooleanSchema extends Schema<boolean> {
+  protected check(value: unknown, path: string, issues: SchemaIssue[]) {
+    if (typeof value !== "boolean") {
+      issues.push({ path: label(path), message: `expected boolean, got ${typeOf(value)}` });
+      return false;
+    }
+    return value;
+  }
+}
+
+// Dates arrive as ISO strings or epoch milliseconds once they have been through JSON
+class DateSchema extends Schema<Date> {
+  protected check(value: unknown, path: string, issues: SchemaIssue[]) {
+    const date =
+      value instanceof Date ? value : typeof value === "string" || typeof value === "number" ? new Date(value) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      issues.push({ path: label(path), message: `expected date, got ${JSON.stringify(value)}` });
+      return new Date(0);
+    }
+    return date;
+  }
+}
+
+class EnumSchema<T extends string> extends Schema<T> {
+  constructor(private values: readonly T[]) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: SchemaIssue[]) {
+    const match =
+      typeof value === "string" ? this.values.find((v) => v.toLowerCase() === value.trim().toLowerCase()) : undefined;
+    if (match === undefined) {
+      issues.push({
+        path: label(path),
+        message: `expected one of ${this.values.join(" | ")}, got ${JSON.stringify(value)}`,
+      });
+      return this.values[0];
+    }
+    return match;
+  }
+}
+
+class ArraySchema<T> extends Schema<T[]> {
+  constructor(
+    private item: Schema<T>,
+    private opts: { min?: number } = {},
+  ) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: SchemaIssue[]) {
+    if (!Array.isArray(value)) {
+      issues.push({ path: label(path), message: `expected array, got ${typeOf(value)}` });
+      return [];
+    }
+    if (this.opts.min !== undefined && value.length < this.opts.min) {
+      issues.push({ path: label(path), message: `must contain at least ${this.opts.min} item(s)` });
+    }
+    return value.map((item, index) => this.item.run(item, `${path}[${index}]`, issues));
+  }
+}
+
+type Shape = Record<string, Schema<unknown>>;
+type ShapeOutput<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+class ObjectSchema<S extends Shape> extends Schema<ShapeOutput<S>> {
+  constructor(private shape: S) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, issues: SchemaIssue[]) {
+    if (typeOf(value) !== "object") {
+      issues.push({ path: label(path), message: `expected object, got ${typeOf(value)}` });
+      return {} as ShapeOutput<S>;
+    }
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    for (const key of Object.keys(this.shape)) {
+      const result = this.shape[key].run(input[key], path ? `${path}.${key}` : key, issues);
+      if (result !== undefined) output[key] = result;
+    }
+    return output as ShapeOutput<S>;
+  }
+}
+
+export const s = {
+  string: (opts?: { min?: number; max?: number }) => new StringSchema(opts),
+  number: (opts?: { min?: number; max?: number; integer?: boolean }) => new NumberSchema(opts),
+  boolean: () => new BooleanSchema(),
+  date: () => new DateSchema(),
+  enum: <T extends string>(values: readonly T[]) => new EnumSchema(values),
+  array: <T>(item: Schema<T>, opts?: { min?: number }) => new ArraySchema(item, opts),
+  object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+};
+
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n");
+}
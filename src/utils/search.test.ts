@@ -0,0 +1,108 @@
+import { describe, expect, test } from "vitest";
+import { highlight, parseQuery, SearchIndex, snippet, stem } from "./search";
+
+interface Doc {
+  id: string;
+  title: string;
+  tags: string[];
+  body: string;
+}
+
+function index(docs: Doc[]) {
+  const search = new SearchIndex<Doc>([
+    { name: "title", boost: 3, value: (doc) => doc.title },
+    { name: "tags", boost: 2, value: (doc) => doc.tags.join("\n") },
+    { name: "body", boost: 1, value: (doc) => doc.body },
+  ]);
+  docs.forEach((doc) => search.add(doc));
+  return search;
+}
+
+const docs: Doc[] = [
+  { id: "ratio", title: "Coffee ratios", tags: [], body: "Brewing cold brew takes twelve hours in the fridge." },
+  { id: "guide", title: "Cold Brew Guide", tags: ["coffee"], body: "Everything about brewing at home." },
+  { id: "tea", title: "Iced tea", tags: ["tea"], body: "Tea is brewed cold, never with boiling water." },
+];
+
+const ids = (search: SearchIndex<Doc>, query: string) => search.search(parseQuery(query)).map((hit) => hit.id);
+
+describe("search", () => {
+  test("stems plurals and verb endings to one term", () => {
+    expect(["brewing", "brewed", "brews", "brew"].map(stem)).toEqual(["brew", "brew", "brew", "brew"]);
+    expect(["making", "makes", "make"].map(stem)).toEqual(["mak", "mak", "mak"]);
+    expect(["strategies", "running", "glasses"].map(stem)).toEqual(["strategy", "run", "glass"]);
+    expect(stem("café")).toBe("café");
+  });
+
+  test("ranks with BM25, boosting title and tag matches", () => {
+    const search = index(docs);
+
+    // Every document mentions cold; the title match ranks first, then the shorter body
+    expect(ids(search, "cold ")).toEqual(["guide", "tea", "ratio"]);
+    // All words have to match, in any form
+    expect(ids(search, "brewed coffee ").sort()).toEqual(["guide", "ratio"]);
+    expect(ids(search, "espresso ")).toEqual([]);
+  });
+
+  test("matches quoted phrases and prefixes", () => {
+    const search = index(docs);
+
+    expect(parseQuery('"cold brew" fri').clauses).toEqual([
+      { type: "phrase", terms: ["cold", "brew"] },
+      { type: "word", term: "fri", word: "fri", prefix: true },
+    ]);
+    expect(ids(search, '"cold brew"').sort()).toEqual(["guide", "ratio"]);
+    expect(ids(search, '"cold brew" fri')).toEqual(["ratio"]);
+    expect(ids(search, "boil* ")).toEqual(["tea"]);
+    // A finished word is not a prefix
+    expect(ids(search, "fri ")).toEqual([]);
+  });
+
+  test("updates incrementally as documents change", () => {
+    const search = index(docs);
+    const [ratio, guide] = docs;
+
+    search.add({ ...ratio, body: "Espresso needs finely ground beans." });
+    search.remove("tea");
+
+    expect(search.size).toBe(2);
+    expect(ids(search, "espresso ")).toEqual(["ratio"]);
+    expect(ids(search, "fridge ")).toEqual([]);
+    expect(ids(search, "iced ")).toEqual([]);
+    expect(ids(search, "tea")).toEqual([]);
+    expect(ids(search, '"cold brew"')).toEqual([guide.id]);
+  });
+
+  test("drops terms no document uses any more", () => {
+    const search = index(docs);
+    const terms = search.termCount;
+
+    search.add({ ...docs[0], body: "Espresso needs finely ground beans." });
+    search.add({ ...docs[0], body: "Brewing cold brew takes twelve hours in the fridge." });
+    expect(search.termCount).toBe(terms);
+
+    search.remove("tea");
+    search.remove("guide");
+    search.remove("ratio");
+    expect(search.termCount).toBe(0);
+  });
+
+  test("highlights matches and cuts a snippet around them", () => {
+    const query = parseQuery("brewing cold");
+    const filler = "Intro words come first. ".repeat(10);
+    const body = `${filler}Cold brew is brewed slowly. ${filler}`;
+
+    expect(highlight("Cold Brewing Guide", query)).toEqual([
+      { text: "Cold", match: true },
+      { text: " ", match: false },
+      { text: "Brewing", match: true },
+      { text: " Guide", match: false },
+    ]);
+
+    const segments = snippet(body, query, 80)!;
+    expect(segments[0]).toEqual({ text: "…", match: false });
+    expect(segments[segments.length - 1]).toEqual({ text: "…", match: false });
+    expect(segments.filter((s) => s.match).map((s) => s.text)).toEqual(["Cold", "brew", "brewed"]);
+    expect(snippet(body, parseQuery("espresso"))).toBeNull();
+  });
+});
@@ -0,0 +1,473 @@
+// Latin, Greek, Cyrillic and Korean words, apostrophes included ("don't"), or one Chinese or Japanese character
+const LETTERS = "0-9A-Za-z\\u00C0-\\u024F\\u0370-\\u03FF\\u0400-\\u04FF\\u1100-\\u11FF\\uAC00-\\uD7AF";
+const CJK = "\\u3040-\\u30FF\\u3400-\\u4DBF\\u4E00-\\u9FFF\\uF900-\\uFAFF";
+const TOKEN = new RegExp(`[${LETTERS}]+(?:['\\u2019][${LETTERS}]+)*|[${CJK}]`, "g");
+const CJK_CHAR = new RegExp(`^[${CJK}]$`);
+
+// Typing "b" would match most of the vocabulary; prefixes expand to at most this many words
+const MAX_PREFIX_EXPANSIONS = 50;
+
+export interface Token {
+  // Lower-cased without accents or apostrophes, as typed in a prefix query
+  word: string;
+  // Stemmed word, the unit the index stores
+  term: string;
+  start: number;
+  end: number;
+}
+
+export type QueryClause =
+  | { type: "word"; term: string; word: string; prefix: boolean }
+  | { type: "phrase"; terms: string[] };
+
+// Every clause has to match; no clauses means there is nothing to search for
+export interface SearchQuery {
+  clauses: QueryClause[];
+}
+
+export interface SearchField<T> {
+  name: string;
+  // Multiplies the field's BM25 score, so a title match outranks the same word in the body
+  boost: number;
+  value: (doc: T) => string;
+}
+
+export interface SearchResult {
+  id: string;
+  score: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+function normalizeWord(word: string) {
+  const lower = word.toLowerCase();
+  // Most words are plain ASCII, which Unicode normalization would leave as they are
+  return (/^[a-z0-9]+$/.test(lower) ? lower : lower.normalize("NFD"))
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['\u2019]s$/, "")
+    .replace(/['\u2019]/g, "");
+}
+
+/**
+ * Light English stemmer: plurals and -ing, -ed and -ly endings, then a final
+ * "e", so "brewing", "brewed" and "brews" all index as "brew". Words with
+ * accents or other scripts are left whole.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word;
+  let stemmed = word;
+  if (stemmed.endsWith("ies") && stemmed.length > 4) stemmed = `${stemmed.slice(0, -3)}y`;
+  else if (stemmed.endsWith("sses")) stemmed = stemmed.slice(0, -2);
+  else if (/[^siu]s$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+
+  const suffix = /(?:ing|ed|ly)$/.exec(stemmed);
+  const base = suffix ? stemmed.slice(0, -suffix[0].length) : "";
+  if (suffix && base.length >= 3 && /[aeiouy]/.test(base)) {
+    // "running" -> "run"
+    stemmed = /([^aeiouylsz])\1$/.test(base) ? base.slice(0, -1) : base;
+  }
+  // "make", "making" and "makes" meet at "mak"
+  return stemmed.length > 3 && stemmed.endsWith("e") ? stemmed.slice(0, -1) : stemmed;
+}
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  for (let match = TOKEN.exec(text); match; match = TOKEN.exec(text)) {
+    const word = normalizeWord(match[0]);
+    if (word) tokens.push({ word, term: stem(word), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Words are matched on their stems, "quoted text" as a phrase, and `brew*`
+ * as a prefix. The last word is a prefix too unless followed by a space, so
+ * results update while a word is still being typed.
+ */
+export function parseQuery(query: string): SearchQuery {
+  const clauses: QueryClause[] = [];
+  const parts = /"([^"]*)"?|[^\s"]+/g;
+  for (let part = parts.exec(query); part; part = parts.exec(query)) {
+    if (part[1] !== undefined) {
+      const terms = tokenize(part[1]).map((token) => token.term);
+      if (terms.length > 1) clauses.push({ type: "phrase", terms });
+      else if (terms.length === 1) clauses.push({ type: "word", term: terms[0], word: terms[0], prefix: false });
+      continue;
+    }
+
+    const text = part[0];
+    const tokens = tokenize(text);
+    for (let i = 0; i < tokens.length; i++) {
+      // Chinese and Japanese have no spaces between words, so a run of characters is a phrase
+      let j = i;
+      while (j + 1 < tokens.length && adjacentCjk(tokens[j], tokens[j + 1])) j++;
+      if (j > i) {
+        clauses.push({ type: "phrase", terms: tokens.slice(i, j + 1).map((token) => token.term) });
+        i = j;
+        continue;
+      }
+      const token = tokens[i];
+      const typing = part.index + token.end === query.length && token.word.length > 1;
+      clauses.push({ type: "word", term: token.term, word: token.word, prefix: text[token.end] === "*" || typing });
+    }
+  }
+  return { clauses };
+}
+
+function adjacentCjk(a: Token, b: Token) {
+  return b.start === a.end && CJK_CHAR.test(a.word) && CJK_CHAR.test(b.word);
+}
+
+// Document numbers only grow, so posting lists stay sorted and can be binary searched
+interface Posting {
+  docs: number[];
+  tfs: number[];
+}
+
+interface IndexedDoc<T> {
+  doc: T;
+  num: number;
+  lengths: number[];
+  // Distinct terms per field and distinct words overall, to take the document back out
+  terms: string[][];
+  words: string[];
+  // Each field's terms in order, as term ids, for confirming phrases
+  sequences: Uint32Array[];
+}
+
+function lowerBound(sorted: ArrayLike<number | string>, value: number | string) {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function containsSequence(terms: Uint32Array, sequence: number[]) {
+  for (let i = 0; i + sequence.length <= terms.length; i++) {
+    if (sequence.every((term, j) => terms[i + j] === term)) return true;
+  }
+  return false;
+}
+
+/**
+ * Incremental inverted index ranked with BM25. Documents are added, replaced
+ * and removed one at a time; each field keeps its own term statistics and
+ * boost. Phrases are found among the documents containing every phrase word
+ * by scanning their term sequences, kept as 4-byte term ids.
+ */
+export class SearchIndex<T extends { id: string }> {
+  private docs = new Map<string, IndexedDoc<T>>();
+  private byNum = new Map<number, IndexedDoc<T>>();
+  private postings: Array<Map<string, Posting>>;
+  private totalLengths: number[];
+  // Surface words and how many documents use them, for prefix queries
+  private words = new Map<string, { term: string; docs: number }>();
+  private sortedWords: string[] | null = null;
+  // Ids for term sequences and how many documents use each term, so unused terms can be dropped
+  private termIds = new Map<string, { id: number; docs: number }>();
+  private nextTermId = 0;
+  private nextNum = 0;
+
+  constructor(
+    private fields: SearchField<T>[],
+    private k1 = 1.2,
+    private b = 0.75,
+  ) {
+    this.postings = fields.map(() => new Map());
+    this.totalLengths = fields.map(() => 0);
+  }
+
+  get size() {
+    return this.docs.size;
+  }
+
+  has(id: string) {
+    return this.docs.has(id);
+  }
+
+  // Distinct terms across the indexed documents
+  get termCount() {
+    return this.termIds.size;
+  }
+
+  /** Indexes a document, replacing any earlier version with the same id. */
+  add(doc: T) {
+    this.remove(doc.id);
+    const num = this.nextNum++;
+    const lengths: number[] = [];
+    const terms: string[][] = [];
+    const sequences: Uint32Array[] = [];
+    const words = new Map<string, string>();
+
+    this.fields.forEach((field, f) => {
+      const tokens = tokenize(field.value(doc));
+      const counts = new Map<string, number>();
+      for (const token of tokens) {
+        counts.set(token.term, (counts.get(token.term) ?? 0) + 1);
+        words.set(token.word, token.term);
+      }
+      counts.forEach((tf, term) => {
+        const posting = this.postings[f].get(term);
+        if (posting) {
+          posting.docs.push(num);
+          posting.tfs.push(tf);
+        } else {
+          this.postings[f].set(term, { docs: [num], tfs: [tf] });
+        }
+      });
+      lengths.push(tokens.length);
+      terms.push([...counts.keys()]);
+      sequences.push(Uint32Array.from(tokens, (token) => this.termId(token.term)));
+      this.totalLengths[f] += tokens.length;
+    });
+
+    for (const term of new Set(terms.flat())) this.termIds.get(term)!.docs++;
+
+    words.forEach((term, word) => {
+      const entry = this.words.get(word);
+      if (entry) {
+        entry.docs++;
+      } else {
+        this.words.set(word, { term, docs: 1 });
+        this.sortedWords = null;
+      }
+    });
+
+    const entry = { doc, num, lengths, terms, words: [...words.keys()], sequences };
+    this.docs.set(doc.id, entry);
+    this.byNum.set(num, entry);
+  }
+
+  remove(id: string) {
+    const entry = this.docs.get(id);
+    if (!entry) return;
+
+    entry.terms.forEach((terms, f) => {
+      for (const term of terms) {
+        const posting = this.postings[f].get(term);
+        if (!posting) continue;
+        const at = lowerBound(posting.docs, entry.num);
+        if (posting.docs[at] !== entry.num) continue;
+        posting.docs.splice(at, 1);
+        posting.tfs.splice(at, 1);
+        if (posting.docs.length === 0) this.postings[f].delete(term);
+      }
+      this.totalLengths[f] -= entry.lengths[f];
+    });
+
+    for (const term of new Set(entry.terms.flat())) {
+      const termId = this.termIds.get(term);
+      if (termId && --termId.docs === 0) this.termIds.delete(term);
+    }
+
+    for (const word of entry.words) {
+      const vocab = this.words.get(word);
+      if (vocab && --vocab.docs === 0) {
+        this.words.delete(word);
+        this.sortedWords = null;
+      }
+    }
+
+    this.docs.delete(id);
+    this.byNum.delete(entry.num);
+  }
+
+  clear() {
+    this.docs.clear();
+    this.byNum.clear();
+    this.postings = this.fields.map(() => new Map());
+    this.totalLengths = this.fields.map(() => 0);
+    this.words.clear();
+    this.sortedWords = null;
+    this.termIds.clear();
+  }
+
+  /** Documents matching every clause, best match first. */
+  search(query: SearchQuery): SearchResult[] {
+    if (query.clauses.length === 0 || this.docs.size === 0) return [];
+
+    let scores: Map<number, number> | null = null;
+    for (const clause of query.clauses) {
+      const clauseScores = this.clauseScores(clause);
+      if (scores === null) {
+        scores = clauseScores;
+      } else {
+        const combined = new Map<number, number>();
+        scores.forEach((score, num) => {
+          const other = clauseScores.get(num);
+          if (other !== undefined) combined.set(num, score + other);
+        });
+        scores = combined;
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return [...scores!]
+      .map(([num, score]) => ({ id: this.byNum.get(num)!.doc.id, score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private clauseScores(clause: QueryClause): Map<number, number> {
+    if (clause.type === "phrase") {
+      let scores = this.termScores(clause.terms[0]);
+      for (const term of clause.terms.slice(1)) {
+        const next = this.termScores(term);
+        const combined = new Map<number, number>();
+        scores.forEach((score, num) => {
+          const other = next.get(num);
+          if (other !== undefined) combined.set(num, score + other);
+        });
+        scores = combined;
+      }
+      scores.forEach((_, num) => {
+        if (!this.containsPhrase(num, clause.terms)) scores.delete(num);
+      });
+      return scores;
+    }
+
+    if (!clause.prefix) return this.termScores(clause.term);
+
+    // A document matching several expansions of a prefix scores by its best one
+    const scores = new Map<number, number>();
+    for (const term of this.expandPrefix(clause)) {
+      this.termScores(term).forEach((score, num) => scores.set(num, Math.max(scores.get(num) ?? 0, score)));
+    }
+    return scores;
+  }
+
+  private expandPrefix(clause: { term: string; word: string }): string[] {
+    if (!this.sortedWords) this.sortedWords = [...this.words.keys()].sort();
+    const terms = new Set<string>([clause.term]);
+    for (let i = lowerBound(this.sortedWords, clause.word); i < this.sortedWords.length; i++) {
+      const word = this.sortedWords[i];
+      if (!word.startsWith(clause.word)) break;
+      terms.add(this.words.get(word)!.term);
+    }
+    const documents = (term: string) =>
+      this.postings.reduce((sum, field) => sum + (field.get(term)?.docs.length ?? 0), 0);
+    return [...terms]
+      .map((term) => ({ term, docs: documents(term) }))
+      .sort((a, b) => b.docs - a.docs)
+      .slice(0, MAX_PREFIX_EXPANSIONS)
+      .map((expansion) => expansion.term);
+  }
+
+  // BM25 of one term, summed over the boosted fields
+  private termScores(term: string): Map<number, number> {
+    const scores = new Map<number, number>();
+    this.fields.forEach((field, f) => {
+      const posting = this.postings[f].get(term);
+      if (!posting) return;
+      const averageLength = this.totalLengths[f] / this.docs.size || 1;
+      posting.docs.forEach((num, i) => {
+        const tf = posting.tfs[i];
+        const length = this.byNum.get(num)!.lengths[f];
+        const saturated = (tf * (this.k1 + 1)) / (tf + this.k1 * (1 - this.b + (this.b * length) / averageLength));
+        scores.set(num, (scores.get(num) ?? 0) + field.boost * saturated);
+      });
+    });
+
+    const idf = Math.log(1 + (this.docs.size - scores.size + 0.5) / (scores.size + 0.5));
+    scores.forEach((score, num) => scores.set(num, score * idf));
+    return scores;
+  }
+
+  // Ids aren't reused, so a dropped term's id can't turn up in another document's sequence
+  private termId(term: string) {
+    let entry = this.termIds.get(term);
+    if (!entry) {
+      entry = { id: this.nextTermId++, docs: 0 };
+      this.termIds.set(term, entry);
+    }
+    return entry.id;
+  }
+
+  private containsPhrase(num: number, terms: string[]) {
+    // Only called for documents containing every phrase term, so each has an id
+    const ids = terms.map((term) => this.termIds.get(term)!.id);
+    return this.byNum.get(num)!.sequences.some((sequence) => containsSequence(sequence, ids));
+  }
+}
+
+// [start, end) of every word in `text` the query matches
+function matchRanges(text: string, query: SearchQuery): Array<[number, number]> {
+  const terms = new Set<string>();
+  const prefixes: string[] = [];
+  for (const clause of query.clauses) {
+    if (clause.type === "phrase") {
+      clause.terms.forEach((term) => terms.add(term));
+    } else {
+      terms.add(clause.term);
+      if (clause.prefix) prefixes.push(clause.word);
+    }
+  }
+  if (terms.size === 0) return [];
+
+  return tokenize(text)
+    .filter((token) => terms.has(token.term) || prefixes.some((prefix) => token.word.startsWith(prefix)))
+    .map((token): [number, number] => [token.start, token.end]);
+}
+
+function segmentsBetween(text: string, ranges: Array<[number, number]>, start: number, end: number) {
+  const segments: HighlightSegment[] = [];
+  let at = start;
+  for (const [from, to] of ranges) {
+    if (from < start || to > end) continue;
+    if (from > at) segments.push({ text: text.slice(at, from), match: false });
+    segments.push({ text: text.slice(from, to), match: true });
+    at = to;
+  }
+  if (at < end) segments.push({ text: text.slice(at, end), match: false });
+  return segments;
+}
+
+/** `text` split into the words the query matches and the text between them. */
+export function highlight(text: string, query: SearchQuery): HighlightSegment[] {
+  return segmentsBetween(text, matchRanges(text, query), 0, text.length);
+}
+
+/**
+ * About `maxLength` characters of `text` around the densest cluster of
+ * matches, highlighted, with "…" where it was cut; null when nothing matches.
+ */
+export function snippet(text: string, query: SearchQuery, maxLength = 160): HighlightSegment[] | null {
+  const ranges = matchRanges(text, query);
+  if (ranges.length === 0) return null;
+
+  let best = 0;
+  let bestCount = 0;
+  for (let i = 0, end = 0; i < ranges.length; i++) {
+    end = Math.max(end, i + 1);
+    while (end < ranges.length && ranges[end][1] <= ranges[i][0] + maxLength) end++;
+    if (end - i > bestCount) {
+      best = i;
+      bestCount = end - i;
+    }
+  }
+
+  // Lead in with a few words before the first match, cutting at spaces
+  const first = ranges[best][0];
+  let start = Math.max(0, first - 30);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space >= 0 && space < first ? space + 1 : first;
+  }
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > ranges[best][1]) end = space;
+  }
+
+  const segments = segmentsBetween(text, ranges, start, end);
+  if (start > 0) segments.unshift({ text: "…", match: false });
+  if (end < text.length) segments.push({ text: "…", match: false });
+  return segments;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, test } from "vitest";
+import { isValidSlug, MAX_SLUG_LENGTH, postSlug, slugify, uniqueSlug } from "./slug";
+
+describe("slug", () => {
+  test("keeps letters of other scripts", () => {
+    expect(slugify("Größe & Preis")).toBe("größe-preis");
+    expect(slugify("コーヒーの 淹れ方")).toBe("コーヒーの-淹れ方");
+  });
+
+  test("makes post slugs without English stop words, cut at a word boundary", () => {
+    expect(postSlug("How to Brew the Perfect Cold Brew at Home")).toBe("how-brew-perfect-cold-brew-home");
+    expect(postSlug("The Art of War")).toBe("the-art-of-war");
+    expect(postSlug("Der Weg in die Stadt", "de-DE")).toBe("der-weg-in-die-stadt");
+
+    const long = postSlug("Everything you ever wanted to know about grinding coffee beans for every brewing method");
+    expect(long.length).toBeLessThanOrEqual(MAX_SLUG_LENGTH);
+    expect(long.endsWith("-")).toBe(false);
+    expect("everything-you-ever-wanted-know-about-grinding-coffee-beans-every-brewing-method").toContain(long);
+  });
+
+  test("validates and deduplicates slugs", () => {
+    expect(isValidSlug("cold-brew")).toBe(true);
+    expect(isValidSlug("Cold Brew")).toBe(false);
+    expect(isValidSlug("cold--brew")).toBe(false);
+    expect(uniqueSlug("cold-brew", ["tea"])).toBe("cold-brew");
+    expect(uniqueSlug("cold-brew", ["cold-brew", "cold-brew-2"])).toBe("cold-brew-3");
+  });
+});
@@ -0,0 +1,51 @@
+// ASCII punctuation and symbols; letters in other scripts are kept so German or Japanese headings get real slugs
+const SLUG_UNSAFE = /[!-,./:-@[-^`{-~]/g;
+
+/** URL- and anchor-safe slug that keeps non-ASCII letters, e.g. "Größe & Preis" -> "größe-preis". */
+export function slugify(text: string) {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(SLUG_UNSAFE, "")
+    .trim()
+    .replace(/[\s　、。！，？]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+// Slugs made from titles are cut to this length at a word boundary; long URLs get truncated in results
+export const MAX_SLUG_LENGTH = 60;
+
+// Left out of English slugs when enough other words remain
+const STOP_WORDS = new Set(["a", "an", "and", "at", "by", "for", "in", "of", "on", "or", "the", "to", "with"]);
+
+/** Whether `slug` is already in slug form: lower-case words joined by single hyphens. */
+export function isValidSlug(slug: string) {
+  return slug.length > 0 && slugify(slug) === slug;
+}
+
+/**
+ * URL slug for a post from its title. English stop words are dropped when at
+ * least three words remain, and the slug is cut at a hyphen to fit
+ * MAX_SLUG_LENGTH.
+ */
+export function postSlug(title: string, locale?: string) {
+  const words = slugify(title).split("-").filter(Boolean);
+  const english = !locale || locale.toLowerCase().startsWith("en");
+  const content = words.filter((word) => !STOP_WORDS.has(word));
+  let slug = (english && content.length >= 3 ? content : words).join("-");
+  if (slug.length > MAX_SLUG_LENGTH) {
+    const cut = slug.lastIndexOf("-", MAX_SLUG_LENGTH);
+    slug = slug.slice(0, cut > 0 ? cut : MAX_SLUG_LENGTH);
+  }
+  return slug;
+}
+
+/** `slug` if it isn't taken, otherwise the first free `slug-2`, `slug-3`, ... */
+export function uniqueSlug(slug: string, taken: Iterable<string>) {
+  const used = new Set(taken);
+  if (!used.has(slug)) return slug;
+  let n = 2;
+  while (used.has(`${slug}-${n}`)) n++;
+  return `${slug}-${n}`;
+}
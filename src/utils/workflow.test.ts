@@ -0,0 +1,55 @@
+import { describe, expect, test } from "vitest";
+import { BlogPost } from "../types/blog";
+import { checkTransition, DEFAULT_WORKFLOW, nextStatuses } from "./workflow";
+
+function post(overrides: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id: "blog-1",
+    title: "Cold Brew at Home",
+    content: "Steep the grounds overnight.",
+    topic: "cold brew",
+    metaDescription: "",
+    keywords: [],
+    createdAt: new Date("2026-03-01T09:00:00Z"),
+    updatedAt: new Date("2026-03-01T09:00:00Z"),
+    status: "draft",
+    seoScore: 82,
+    wordCount: 4,
+    readingTime: 1,
+    tags: [],
+    isFavorite: false,
+    version: 1,
+    slug: "cold-brew",
+    headings: [],
+    faqSection: [],
+    ...overrides,
+  };
+}
+
+const review = { ...DEFAULT_WORKFLOW, requireReview: true };
+
+describe("workflow", () => {
+  test("only lets drafts skip review when review isn't required", () => {
+    expect(nextStatuses("draft", DEFAULT_WORKFLOW)).toEqual(["in-review", "archived", "scheduled", "published"]);
+    expect(nextStatuses("draft", review)).toEqual(["in-review", "archived"]);
+    expect(checkTransition(post(), "published", review)).toBe("Draft posts can't be moved to Published.");
+    expect(checkTransition(post({ status: "approved" }), "published", review)).toBeUndefined();
+  });
+
+  test("guards approval, change requests and scheduling", () => {
+    const inReview = post({ status: "in-review", seoScore: 64 });
+    expect(checkTransition(inReview, "approved", review)).toBe(
+      "Posts need an SEO score of at least 70 to be approved; this one has 64.",
+    );
+    expect(checkTransition(inReview, "approved", { ...review, minApprovalScore: 60 })).toBeUndefined();
+    expect(checkTransition(inReview, "changes-requested", review, { note: "  " })).toBe("Say what needs to change.");
+    expect(checkTransition(inReview, "changes-requested", review, { note: "Cite the study" })).toBeUndefined();
+
+    const approved = post({ status: "approved" });
+    const now = new Date("2026-03-10T12:00:00Z");
+    const past = { scheduledAt: new Date("2026-03-09T12:00:00Z"), now };
+    expect(checkTransition(approved, "scheduled", review, past)).toBe("Pick a time that hasn't passed yet.");
+    expect(checkTransition(approved, "scheduled", review, { scheduledAt: new Date("2026-03-11"), now })).toBeUndefined();
+    expect(checkTransition(post({ content: "" }), "in-review", review)).toBe("Add a title and content first.");
+  });
+});
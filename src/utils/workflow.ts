@@ -0,0 +1,114 @@
+import { BlogPost, PostStatus } from "../types/blog";
+
+export const POST_STATUSES: PostStatus[] = [
+  "draft",
+  "in-review",
+  "changes-requested",
+  "approved",
+  "scheduled",
+  "published",
+  "archived",
+];
+
+export const STATUS_LABELS: Record<PostStatus, string> = {
+  draft: "Draft",
+  "in-review": "In Review",
+  "changes-requested": "Changes Requested",
+  approved: "Approved",
+  scheduled: "Scheduled",
+  published: "Published",
+  archived: "Archived",
+};
+
+// What the button moving a post to each status says
+export const ACTION_LABELS: Record<PostStatus, string> = {
+  draft: "Back to Draft",
+  "in-review": "Submit for Review",
+  "changes-requested": "Request Changes",
+  approved: "Approve",
+  scheduled: "Schedule",
+  published: "Publish",
+  archived: "Archive",
+};
+
+export interface WorkflowConfig {
+  // Posts must be approved before they can be scheduled or published
+  requireReview: boolean;
+  // Lowest SEO score a post can be approved with
+  minApprovalScore: number;
+}
+
+export const DEFAULT_WORKFLOW: WorkflowConfig = { requireReview: false, minApprovalScore: 70 };
+
+// Where each status can move to
+const TRANSITIONS: Record<PostStatus, PostStatus[]> = {
+  draft: ["in-review", "archived"],
+  "in-review": ["approved", "changes-requested", "draft"],
+  "changes-requested": ["in-review", "draft", "archived"],
+  approved: ["scheduled", "published", "changes-requested", "draft"],
+  scheduled: ["published", "approved", "draft"],
+  published: ["archived", "draft"],
+  archived: ["draft"],
+};
+
+// Without required review a draft can also go out directly
+const UNREVIEWED_TRANSITIONS: Partial<Record<PostStatus, PostStatus[]>> = {
+  draft: ["scheduled", "published"],
+  archived: ["published"],
+};
+
+// What a move may need besides the post itself
+export interface TransitionContext {
+  note?: string;
+  // Required to move to "scheduled"
+  scheduledAt?: Date;
+  now?: Date;
+}
+
+// Returns why the move isn't allowed, or undefined if this rule has no objection
+type TransitionGuard = (
+  post: BlogPost,
+  to: PostStatus,
+  context: TransitionContext,
+  config: WorkflowConfig,
+) => string | undefined;
+
+const GUARDS: TransitionGuard[] = [
+  (post, to) =>
+    to !== "draft" && to !== "archived" && (!post.title.trim() || !post.content.trim())
+      ? "Add a title and content first."
+      : undefined,
+  (post, to, _, config) =>
+    to === "approved" && post.seoScore < config.minApprovalScore
+      ? `Posts need an SEO score of at least ${config.minApprovalScore} to be approved; this one has ${post.seoScore}.`
+      : undefined,
+  (_, to, context) =>
+    to === "changes-requested" && !context.note?.trim() ? "Say what needs to change." : undefined,
+  (_, to, { scheduledAt, now = new Date() }) =>
+    to === "scheduled" && (!scheduledAt || scheduledAt.getTime() <= now.getTime())
+      ? "Pick a time that hasn't passed yet."
+      : undefined,
+];
+
+/** Statuses a post in `from` can move to under `config`, before the guards are checked. */
+export function nextStatuses(from: PostStatus, config: WorkflowConfig): PostStatus[] {
+  const extra = config.requireReview ? [] : (UNREVIEWED_TRANSITIONS[from] ?? []);
+  return [...TRANSITIONS[from], ...extra];
+}
+
+/** Why the post can't move to `to`, or undefined if it can. */
+export function checkTransition(
+  post: BlogPost,
+  to: PostStatus,
+  config: WorkflowConfig,
+  context: TransitionContext = {},
+): string | undefined {
+  if (!nextStatuses(post.status, config).includes(to)) {
+    return `${STATUS_LABELS[post.status]} posts can't be moved to ${STATUS_LABELS[to]}.`;
+  }
+  for (const guard of GUARDS) {
+    const reason = guard(post, to, context, config);
+    if (reason) return reason;
+  }
+  return undefined;
+}
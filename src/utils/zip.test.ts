@@ -0,0 +1,46 @@
+import { describe, expect, test } from "vitest";
+import { crc32, createZip, toBase64 } from "./zip";
+
+// Names and contents of the entries, read back through the central directory
+function readZip(zip: Uint8Array) {
+  const view = new DataView(zip.buffer);
+  const decoder = new TextDecoder();
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const files: Record<string, string> = {};
+  let at = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const size = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const local = view.getUint32(at + 42, true);
+    const name = decoder.decode(zip.subarray(at + 46, at + 46 + nameLength));
+    const data = local + 30 + view.getUint16(local + 26, true);
+    const content = zip.subarray(data, data + size);
+    expect(crc32(content)).toBe(view.getUint32(at + 16, true));
+    files[name] = decoder.decode(content);
+    at += 46 + nameLength;
+  }
+  return files;
+}
+
+describe("zip", () => {
+  test("computes the standard CRC-32", () => {
+    expect(crc32(new TextEncoder().encode("The quick brown fox jumps over the lazy dog"))).toBe(0x414fa339);
+  });
+
+  test("stores files with UTF-8 names that read back intact", () => {
+    const zip = createZip([
+      { name: "cold-brew.md", content: "# Cold brew\n" },
+      { name: "café.de-de.md", content: "Kaffee ☕" },
+    ]);
+
+    expect(readZip(zip)).toEqual({ "cold-brew.md": "# Cold brew\n", "café.de-de.md": "Kaffee ☕" });
+  });
+
+  test("encodes base64 with padding", () => {
+    const encode = (text: string) => toBase64(new TextEncoder().encode(text));
+    expect([encode("M"), encode("Ma"), encode("Man"), encode("")]).toEqual(["TQ==", "TWE=", "TWFu", ""]);
+  });
+});